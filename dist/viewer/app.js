@@ -1,74 +0,0 @@
-var P0=Object.create;var $f=Object.defineProperty;var l1=Object.getOwnPropertyDescriptor;var t1=Object.getOwnPropertyNames;var a1=Object.getPrototypeOf,e1=Object.prototype.hasOwnProperty;var ut=(l,t)=>()=>(t||l((t={exports:{}}).exports,t),t.exports);var n1=(l,t,a,e)=>{if(t&&typeof t=="object"||typeof t=="function")for(let n of t1(t))!e1.call(l,n)&&n!==a&&$f(l,n,{get:()=>t[n],enumerable:!(e=l1(t,n))||e.enumerable});return l};var it=(l,t,a)=>(a=l!=null?P0(a1(l)):{},n1(t||!l||!l.__esModule?$f(a,"default",{value:l,enumerable:!0}):a,l));var co=ut(N=>{"use strict";var oi=Symbol.for("react.transitional.element"),u1=Symbol.for("react.portal"),i1=Symbol.for("react.fragment"),c1=Symbol.for("react.strict_mode"),f1=Symbol.for("react.profiler"),o1=Symbol.for("react.consumer"),r1=Symbol.for("react.context"),d1=Symbol.for("react.forward_ref"),s1=Symbol.for("react.suspense"),m1=Symbol.for("react.memo"),to=Symbol.for("react.lazy"),g1=Symbol.for("react.activity"),Ff=Symbol.iterator;function b1(l){return l===null||typeof l!="object"?null:(l=Ff&&l[Ff]||l["@@iterator"],typeof l=="function"?l:null)}var ao={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},eo=Object.assign,no={};function Ha(l,t,a){this.props=l,this.context=t,this.refs=no,this.updater=a||ao}Ha.prototype.isReactComponent={};Ha.prototype.setState=function(l,t){if(typeof l!="object"&&typeof l!="function"&&l!=null)throw Error("takes an object of state variables to update or a function which returns an object of state variables.");this.updater.enqueueSetState(this,l,t,"setState")};Ha.prototype.forceUpdate=function(l){this.updater.enqueueForceUpdate(this,l,"forceUpdate")};function uo(){}uo.prototype=Ha.prototype;function ri(l,t,a){this.props=l,this.context=t,this.refs=no,this.updater=a||ao}var di=ri.prototype=new uo;di.constructor=ri;eo(di,Ha.prototype);di.isPureReactComponent=!0;var If=Array.isArray;function fi(){}var $={H:null,A:null,T:null,S:null},io=Object.prototype.hasOwnProperty;function si(l,t,a){var e=a.ref;return{$$typeof:oi,type:l,key:t,ref:e!==void 0?e:null,props:a}}function v1(l,t){return si(l.type,t,l.props)}function mi(l){return typeof l=="object"&&l!==null&&l.$$typeof===oi}function y1(l){var t={"=":"=0",":":"=2"};return"$"+l.replace(/[=:]/g,function(a){return t[a]})}var Pf=/\/+/g;function ci(l,t){return typeof l=="object"&&l!==null&&l.key!=null?y1(""+l.key):t.toString(36)}function h1(l){switch(l.status){case"fulfilled":return l.value;case"rejected":throw l.reason;default:switch(typeof l.status=="string"?l.then(fi,fi):(l.status="pending",l.then(function(t){l.status==="pending"&&(l.status="fulfilled",l.value=t)},function(t){l.status==="pending"&&(l.status="rejected",l.reason=t)})),l.status){case"fulfilled":return l.value;case"rejected":throw l.reason}}throw l}function Ua(l,t,a,e,n){var u=typeof l;(u==="undefined"||u==="boolean")&&(l=null);var i=!1;if(l===null)i=!0;else switch(u){case"bigint":case"string":case"number":i=!0;break;case"object":switch(l.$$typeof){case oi:case u1:i=!0;break;case to:return i=l._init,Ua(i(l._payload),t,a,e,n)}}if(i)return n=n(l),i=e===""?"."+ci(l,0):e,If(n)?(a="",i!=null&&(a=i.replace(Pf,"$&/")+"/"),Ua(n,t,a,"",function(d){return d})):n!=null&&(mi(n)&&(n=v1(n,a+(n.key==null||l&&l.key===n.key?"":(""+n.key).replace(Pf,"$&/")+"/")+i)),t.push(n)),1;i=0;var c=e===""?".":e+":";if(If(l))for(var f=0;f<l.length;f++)e=l[f],u=c+ci(e,f),i+=Ua(e,t,a,u,n);else if(f=b1(l),typeof f=="function")for(l=f.call(l),f=0;!(e=l.next()).done;)e=e.value,u=c+ci(e,f++),i+=Ua(e,t,a,u,n);else if(u==="object"){if(typeof l.then=="function")return Ua(h1(l),t,a,e,n);throw t=String(l),Error("Objects are not valid as a React child (found: "+(t==="[object Object]"?"object with keys {"+Object.keys(l).join(", ")+"}":t)+"). If you meant to render a collection of children, use an array instead.")}return i}function _n(l,t,a){if(l==null)return l;var e=[],n=0;return Ua(l,e,"","",function(u){return t.call(a,u,n++)}),e}function p1(l){if(l._status===-1){var t=l._result;t=t(),t.then(function(a){(l._status===0||l._status===-1)&&(l._status=1,l._result=a)},function(a){(l._status===0||l._status===-1)&&(l._status=2,l._result=a)}),l._status===-1&&(l._status=0,l._result=t)}if(l._status===1)return l._result.default;throw l._result}var lo=typeof reportError=="function"?reportError:function(l){if(typeof window=="object"&&typeof window.ErrorEvent=="function"){var t=new window.ErrorEvent("error",{bubbles:!0,cancelable:!0,message:typeof l=="object"&&l!==null&&typeof l.message=="string"?String(l.message):String(l),error:l});if(!window.dispatchEvent(t))return}else if(typeof process=="object"&&typeof process.emit=="function"){process.emit("uncaughtException",l);return}console.error(l)},S1={map:_n,forEach:function(l,t,a){_n(l,function(){t.apply(this,arguments)},a)},count:function(l){var t=0;return _n(l,function(){t++}),t},toArray:function(l){return _n(l,function(t){return t})||[]},only:function(l){if(!mi(l))throw Error("React.Children.only expected to receive a single React element child.");return l}};N.Activity=g1;N.Children=S1;N.Component=Ha;N.Fragment=i1;N.Profiler=f1;N.PureComponent=ri;N.StrictMode=c1;N.Suspense=s1;N.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=$;N.__COMPILER_RUNTIME={__proto__:null,c:function(l){return $.H.useMemoCache(l)}};N.cache=function(l){return function(){return l.apply(null,arguments)}};N.cacheSignal=function(){return null};N.cloneElement=function(l,t,a){if(l==null)throw Error("The argument must be a React element, but you passed "+l+".");var e=eo({},l.props),n=l.key;if(t!=null)for(u in t.key!==void 0&&(n=""+t.key),t)!io.call(t,u)||u==="key"||u==="__self"||u==="__source"||u==="ref"&&t.ref===void 0||(e[u]=t[u]);var u=arguments.length-2;if(u===1)e.children=a;else if(1<u){for(var i=Array(u),c=0;c<u;c++)i[c]=arguments[c+2];e.children=i}return si(l.type,n,e)};N.createContext=function(l){return l={$$typeof:r1,_currentValue:l,_currentValue2:l,_threadCount:0,Provider:null,Consumer:null},l.Provider=l,l.Consumer={$$typeof:o1,_context:l},l};N.createElement=function(l,t,a){var e,n={},u=null;if(t!=null)for(e in t.key!==void 0&&(u=""+t.key),t)io.call(t,e)&&e!=="key"&&e!=="__self"&&e!=="__source"&&(n[e]=t[e]);var i=arguments.length-2;if(i===1)n.children=a;else if(1<i){for(var c=Array(i),f=0;f<i;f++)c[f]=arguments[f+2];n.children=c}if(l&&l.defaultProps)for(e in i=l.defaultProps,i)n[e]===void 0&&(n[e]=i[e]);return si(l,u,n)};N.createRef=function(){return{current:null}};N.forwardRef=function(l){return{$$typeof:d1,render:l}};N.isValidElement=mi;N.lazy=function(l){return{$$typeof:to,_payload:{_status:-1,_result:l},_init:p1}};N.memo=function(l,t){return{$$typeof:m1,type:l,compare:t===void 0?null:t}};N.startTransition=function(l){var t=$.T,a={};$.T=a;try{var e=l(),n=$.S;n!==null&&n(a,e),typeof e=="object"&&e!==null&&typeof e.then=="function"&&e.then(fi,lo)}catch(u){lo(u)}finally{t!==null&&a.types!==null&&(t.types=a.types),$.T=t}};N.unstable_useCacheRefresh=function(){return $.H.useCacheRefresh()};N.use=function(l){return $.H.use(l)};N.useActionState=function(l,t,a){return $.H.useActionState(l,t,a)};N.useCallback=function(l,t){return $.H.useCallback(l,t)};N.useContext=function(l){return $.H.useContext(l)};N.useDebugValue=function(){};N.useDeferredValue=function(l,t){return $.H.useDeferredValue(l,t)};N.useEffect=function(l,t){return $.H.useEffect(l,t)};N.useEffectEvent=function(l){return $.H.useEffectEvent(l)};N.useId=function(){return $.H.useId()};N.useImperativeHandle=function(l,t,a){return $.H.useImperativeHandle(l,t,a)};N.useInsertionEffect=function(l,t){return $.H.useInsertionEffect(l,t)};N.useLayoutEffect=function(l,t){return $.H.useLayoutEffect(l,t)};N.useMemo=function(l,t){return $.H.useMemo(l,t)};N.useOptimistic=function(l,t){return $.H.useOptimistic(l,t)};N.useReducer=function(l,t,a){return $.H.useReducer(l,t,a)};N.useRef=function(l){return $.H.useRef(l)};N.useState=function(l){return $.H.useState(l)};N.useSyncExternalStore=function(l,t,a){return $.H.useSyncExternalStore(l,t,a)};N.useTransition=function(){return $.H.useTransition()};N.version="19.2.0"});var Ca=ut((cb,fo)=>{"use strict";fo.exports=co()});var po=ut(ll=>{"use strict";function yi(l,t){var a=l.length;l.push(t);l:for(;0<a;){var e=a-1>>>1,n=l[e];if(0<Nn(n,t))l[e]=t,l[a]=n,a=e;else break l}}function ct(l){return l.length===0?null:l[0]}function Un(l){if(l.length===0)return null;var t=l[0],a=l.pop();if(a!==t){l[0]=a;l:for(var e=0,n=l.length,u=n>>>1;e<u;){var i=2*(e+1)-1,c=l[i],f=i+1,d=l[f];if(0>Nn(c,a))f<n&&0>Nn(d,c)?(l[e]=d,l[f]=a,e=f):(l[e]=c,l[i]=a,e=i);else if(f<n&&0>Nn(d,a))l[e]=d,l[f]=a,e=f;else break l}}return t}function Nn(l,t){var a=l.sortIndex-t.sortIndex;return a!==0?a:l.id-t.id}ll.unstable_now=void 0;typeof performance=="object"&&typeof performance.now=="function"?(oo=performance,ll.unstable_now=function(){return oo.now()}):(gi=Date,ro=gi.now(),ll.unstable_now=function(){return gi.now()-ro});var oo,gi,ro,gt=[],Rt=[],z1=1,Zl=null,zl=3,hi=!1,Me=!1,xe=!1,pi=!1,go=typeof setTimeout=="function"?setTimeout:null,bo=typeof clearTimeout=="function"?clearTimeout:null,so=typeof setImmediate<"u"?setImmediate:null;function Dn(l){for(var t=ct(Rt);t!==null;){if(t.callback===null)Un(Rt);else if(t.startTime<=l)Un(Rt),t.sortIndex=t.expirationTime,yi(gt,t);else break;t=ct(Rt)}}function Si(l){if(xe=!1,Dn(l),!Me)if(ct(gt)!==null)Me=!0,Ra||(Ra=!0,Ba());else{var t=ct(Rt);t!==null&&zi(Si,t.startTime-l)}}var Ra=!1,Oe=-1,vo=5,yo=-1;function ho(){return pi?!0:!(ll.unstable_now()-yo<vo)}function bi(){if(pi=!1,Ra){var l=ll.unstable_now();yo=l;var t=!0;try{l:{Me=!1,xe&&(xe=!1,bo(Oe),Oe=-1),hi=!0;var a=zl;try{t:{for(Dn(l),Zl=ct(gt);Zl!==null&&!(Zl.expirationTime>l&&ho());){var e=Zl.callback;if(typeof e=="function"){Zl.callback=null,zl=Zl.priorityLevel;var n=e(Zl.expirationTime<=l);if(l=ll.unstable_now(),typeof n=="function"){Zl.callback=n,Dn(l),t=!0;break t}Zl===ct(gt)&&Un(gt),Dn(l)}else Un(gt);Zl=ct(gt)}if(Zl!==null)t=!0;else{var u=ct(Rt);u!==null&&zi(Si,u.startTime-l),t=!1}}break l}finally{Zl=null,zl=a,hi=!1}t=void 0}}finally{t?Ba():Ra=!1}}}var Ba;typeof so=="function"?Ba=function(){so(bi)}:typeof MessageChannel<"u"?(vi=new MessageChannel,mo=vi.port2,vi.port1.onmessage=bi,Ba=function(){mo.postMessage(null)}):Ba=function(){go(bi,0)};var vi,mo;function zi(l,t){Oe=go(function(){l(ll.unstable_now())},t)}ll.unstable_IdlePriority=5;ll.unstable_ImmediatePriority=1;ll.unstable_LowPriority=4;ll.unstable_NormalPriority=3;ll.unstable_Profiling=null;ll.unstable_UserBlockingPriority=2;ll.unstable_cancelCallback=function(l){l.callback=null};ll.unstable_forceFrameRate=function(l){0>l||125<l?console.error("forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported"):vo=0<l?Math.floor(1e3/l):5};ll.unstable_getCurrentPriorityLevel=function(){return zl};ll.unstable_next=function(l){switch(zl){case 1:case 2:case 3:var t=3;break;default:t=zl}var a=zl;zl=t;try{return l()}finally{zl=a}};ll.unstable_requestPaint=function(){pi=!0};ll.unstable_runWithPriority=function(l,t){switch(l){case 1:case 2:case 3:case 4:case 5:break;default:l=3}var a=zl;zl=l;try{return t()}finally{zl=a}};ll.unstable_scheduleCallback=function(l,t,a){var e=ll.unstable_now();switch(typeof a=="object"&&a!==null?(a=a.delay,a=typeof a=="number"&&0<a?e+a:e):a=e,l){case 1:var n=-1;break;case 2:n=250;break;case 5:n=1073741823;break;case 4:n=1e4;break;default:n=5e3}return n=a+n,l={id:z1++,callback:t,priorityLevel:l,startTime:a,expirationTime:n,sortIndex:-1},a>e?(l.sortIndex=a,yi(Rt,l),ct(gt)===null&&l===ct(Rt)&&(xe?(bo(Oe),Oe=-1):xe=!0,zi(Si,a-e))):(l.sortIndex=n,yi(gt,l),Me||hi||(Me=!0,Ra||(Ra=!0,Ba()))),l};ll.unstable_shouldYield=ho;ll.unstable_wrapCallback=function(l){var t=zl;return function(){var a=zl;zl=t;try{return l.apply(this,arguments)}finally{zl=a}}}});var zo=ut((ob,So)=>{"use strict";So.exports=po()});var To=ut(Tl=>{"use strict";var E1=Ca();function Eo(l){var t="https://react.dev/errors/"+l;if(1<arguments.length){t+="?args[]="+encodeURIComponent(arguments[1]);for(var a=2;a<arguments.length;a++)t+="&args[]="+encodeURIComponent(arguments[a])}return"Minified React error #"+l+"; visit "+t+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}function Yt(){}var El={d:{f:Yt,r:function(){throw Error(Eo(522))},D:Yt,C:Yt,L:Yt,m:Yt,X:Yt,S:Yt,M:Yt},p:0,findDOMNode:null},T1=Symbol.for("react.portal");function A1(l,t,a){var e=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:T1,key:e==null?null:""+e,children:l,containerInfo:t,implementation:a}}var _e=E1.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE;function Hn(l,t){if(l==="font")return"";if(typeof t=="string")return t==="use-credentials"?t:""}Tl.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=El;Tl.createPortal=function(l,t){var a=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!t||t.nodeType!==1&&t.nodeType!==9&&t.nodeType!==11)throw Error(Eo(299));return A1(l,t,null,a)};Tl.flushSync=function(l){var t=_e.T,a=El.p;try{if(_e.T=null,El.p=2,l)return l()}finally{_e.T=t,El.p=a,El.d.f()}};Tl.preconnect=function(l,t){typeof l=="string"&&(t?(t=t.crossOrigin,t=typeof t=="string"?t==="use-credentials"?t:"":void 0):t=null,El.d.C(l,t))};Tl.prefetchDNS=function(l){typeof l=="string"&&El.d.D(l)};Tl.preinit=function(l,t){if(typeof l=="string"&&t&&typeof t.as=="string"){var a=t.as,e=Hn(a,t.crossOrigin),n=typeof t.integrity=="string"?t.integrity:void 0,u=typeof t.fetchPriority=="string"?t.fetchPriority:void 0;a==="style"?El.d.S(l,typeof t.precedence=="string"?t.precedence:void 0,{crossOrigin:e,integrity:n,fetchPriority:u}):a==="script"&&El.d.X(l,{crossOrigin:e,integrity:n,fetchPriority:u,nonce:typeof t.nonce=="string"?t.nonce:void 0})}};Tl.preinitModule=function(l,t){if(typeof l=="string")if(typeof t=="object"&&t!==null){if(t.as==null||t.as==="script"){var a=Hn(t.as,t.crossOrigin);El.d.M(l,{crossOrigin:a,integrity:typeof t.integrity=="string"?t.integrity:void 0,nonce:typeof t.nonce=="string"?t.nonce:void 0})}}else t==null&&El.d.M(l)};Tl.preload=function(l,t){if(typeof l=="string"&&typeof t=="object"&&t!==null&&typeof t.as=="string"){var a=t.as,e=Hn(a,t.crossOrigin);El.d.L(l,a,{crossOrigin:e,integrity:typeof t.integrity=="string"?t.integrity:void 0,nonce:typeof t.nonce=="string"?t.nonce:void 0,type:typeof t.type=="string"?t.type:void 0,fetchPriority:typeof t.fetchPriority=="string"?t.fetchPriority:void 0,referrerPolicy:typeof t.referrerPolicy=="string"?t.referrerPolicy:void 0,imageSrcSet:typeof t.imageSrcSet=="string"?t.imageSrcSet:void 0,imageSizes:typeof t.imageSizes=="string"?t.imageSizes:void 0,media:typeof t.media=="string"?t.media:void 0})}};Tl.preloadModule=function(l,t){if(typeof l=="string")if(t){var a=Hn(t.as,t.crossOrigin);El.d.m(l,{as:typeof t.as=="string"&&t.as!=="script"?t.as:void 0,crossOrigin:a,integrity:typeof t.integrity=="string"?t.integrity:void 0})}else El.d.m(l)};Tl.requestFormReset=function(l){El.d.r(l)};Tl.unstable_batchedUpdates=function(l,t){return l(t)};Tl.useFormState=function(l,t,a){return _e.H.useFormState(l,t,a)};Tl.useFormStatus=function(){return _e.H.useHostTransitionStatus()};Tl.version="19.2.0"});var xo=ut((db,Mo)=>{"use strict";function Ao(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(Ao)}catch(l){console.error(l)}}Ao(),Mo.exports=To()});var j0=ut(ei=>{"use strict";var dl=zo(),Ir=Ca(),M1=xo();function h(l){var t="https://react.dev/errors/"+l;if(1<arguments.length){t+="?args[]="+encodeURIComponent(arguments[1]);for(var a=2;a<arguments.length;a++)t+="&args[]="+encodeURIComponent(arguments[a])}return"Minified React error #"+l+"; visit "+t+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}function Pr(l){return!(!l||l.nodeType!==1&&l.nodeType!==9&&l.nodeType!==11)}function bn(l){var t=l,a=l;if(l.alternate)for(;t.return;)t=t.return;else{l=t;do t=l,(t.flags&4098)!==0&&(a=t.return),l=t.return;while(l)}return t.tag===3?a:null}function ld(l){if(l.tag===13){var t=l.memoizedState;if(t===null&&(l=l.alternate,l!==null&&(t=l.memoizedState)),t!==null)return t.dehydrated}return null}function td(l){if(l.tag===31){var t=l.memoizedState;if(t===null&&(l=l.alternate,l!==null&&(t=l.memoizedState)),t!==null)return t.dehydrated}return null}function Oo(l){if(bn(l)!==l)throw Error(h(188))}function x1(l){var t=l.alternate;if(!t){if(t=bn(l),t===null)throw Error(h(188));return t!==l?null:l}for(var a=l,e=t;;){var n=a.return;if(n===null)break;var u=n.alternate;if(u===null){if(e=n.return,e!==null){a=e;continue}break}if(n.child===u.child){for(u=n.child;u;){if(u===a)return Oo(n),l;if(u===e)return Oo(n),t;u=u.sibling}throw Error(h(188))}if(a.return!==e.return)a=n,e=u;else{for(var i=!1,c=n.child;c;){if(c===a){i=!0,a=n,e=u;break}if(c===e){i=!0,e=n,a=u;break}c=c.sibling}if(!i){for(c=u.child;c;){if(c===a){i=!0,a=u,e=n;break}if(c===e){i=!0,e=u,a=n;break}c=c.sibling}if(!i)throw Error(h(189))}}if(a.alternate!==e)throw Error(h(190))}if(a.tag!==3)throw Error(h(188));return a.stateNode.current===a?l:t}function ad(l){var t=l.tag;if(t===5||t===26||t===27||t===6)return l;for(l=l.child;l!==null;){if(t=ad(l),t!==null)return t;l=l.sibling}return null}var P=Object.assign,O1=Symbol.for("react.element"),Cn=Symbol.for("react.transitional.element"),Ye=Symbol.for("react.portal"),Xa=Symbol.for("react.fragment"),ed=Symbol.for("react.strict_mode"),tc=Symbol.for("react.profiler"),nd=Symbol.for("react.consumer"),Et=Symbol.for("react.context"),$c=Symbol.for("react.forward_ref"),ac=Symbol.for("react.suspense"),ec=Symbol.for("react.suspense_list"),Fc=Symbol.for("react.memo"),qt=Symbol.for("react.lazy");Symbol.for("react.scope");var nc=Symbol.for("react.activity");Symbol.for("react.legacy_hidden");Symbol.for("react.tracing_marker");var _1=Symbol.for("react.memo_cache_sentinel");Symbol.for("react.view_transition");var _o=Symbol.iterator;function Ne(l){return l===null||typeof l!="object"?null:(l=_o&&l[_o]||l["@@iterator"],typeof l=="function"?l:null)}var N1=Symbol.for("react.client.reference");function uc(l){if(l==null)return null;if(typeof l=="function")return l.$$typeof===N1?null:l.displayName||l.name||null;if(typeof l=="string")return l;switch(l){case Xa:return"Fragment";case tc:return"Profiler";case ed:return"StrictMode";case ac:return"Suspense";case ec:return"SuspenseList";case nc:return"Activity"}if(typeof l=="object")switch(l.$$typeof){case Ye:return"Portal";case Et:return l.displayName||"Context";case nd:return(l._context.displayName||"Context")+".Consumer";case $c:var t=l.render;return l=l.displayName,l||(l=t.displayName||t.name||"",l=l!==""?"ForwardRef("+l+")":"ForwardRef"),l;case Fc:return t=l.displayName||null,t!==null?t:uc(l.type)||"Memo";case qt:t=l._payload,l=l._init;try{return uc(l(t))}catch{}}return null}var qe=Array.isArray,x=Ir.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,Q=M1.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,ga={pending:!1,data:null,method:null,action:null},ic=[],La=-1;function st(l){return{current:l}}function gl(l){0>La||(l.current=ic[La],ic[La]=null,La--)}function W(l,t){La++,ic[La]=l.current,l.current=t}var dt=st(null),ln=st(null),kt=st(null),su=st(null);function mu(l,t){switch(W(kt,t),W(ln,l),W(dt,null),t.nodeType){case 9:case 11:l=(l=t.documentElement)&&(l=l.namespaceURI)?Rr(l):0;break;default:if(l=t.tagName,t=t.namespaceURI)t=Rr(t),l=A0(t,l);else switch(l){case"svg":l=1;break;case"math":l=2;break;default:l=0}}gl(dt),W(dt,l)}function ie(){gl(dt),gl(ln),gl(kt)}function cc(l){l.memoizedState!==null&&W(su,l);var t=dt.current,a=A0(t,l.type);t!==a&&(W(ln,l),W(dt,a))}function gu(l){ln.current===l&&(gl(dt),gl(ln)),su.current===l&&(gl(su),sn._currentValue=ga)}var Ei,No;function ra(l){if(Ei===void 0)try{throw Error()}catch(a){var t=a.stack.trim().match(/\n( *(at )?)/);Ei=t&&t[1]||"",No=-1<a.stack.indexOf(`
-    at`)?" (<anonymous>)":-1<a.stack.indexOf("@")?"@unknown:0:0":""}return`
-`+Ei+l+No}var Ti=!1;function Ai(l,t){if(!l||Ti)return"";Ti=!0;var a=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{var e={DetermineComponentFrameRoot:function(){try{if(t){var y=function(){throw Error()};if(Object.defineProperty(y.prototype,"props",{set:function(){throw Error()}}),typeof Reflect=="object"&&Reflect.construct){try{Reflect.construct(y,[])}catch(g){var m=g}Reflect.construct(l,[],y)}else{try{y.call()}catch(g){m=g}l.call(y.prototype)}}else{try{throw Error()}catch(g){m=g}(y=l())&&typeof y.catch=="function"&&y.catch(function(){})}}catch(g){if(g&&m&&typeof g.stack=="string")return[g.stack,m.stack]}return[null,null]}};e.DetermineComponentFrameRoot.displayName="DetermineComponentFrameRoot";var n=Object.getOwnPropertyDescriptor(e.DetermineComponentFrameRoot,"name");n&&n.configurable&&Object.defineProperty(e.DetermineComponentFrameRoot,"name",{value:"DetermineComponentFrameRoot"});var u=e.DetermineComponentFrameRoot(),i=u[0],c=u[1];if(i&&c){var f=i.split(`
-`),d=c.split(`
-`);for(n=e=0;e<f.length&&!f[e].includes("DetermineComponentFrameRoot");)e++;for(;n<d.length&&!d[n].includes("DetermineComponentFrameRoot");)n++;if(e===f.length||n===d.length)for(e=f.length-1,n=d.length-1;1<=e&&0<=n&&f[e]!==d[n];)n--;for(;1<=e&&0<=n;e--,n--)if(f[e]!==d[n]){if(e!==1||n!==1)do if(e--,n--,0>n||f[e]!==d[n]){var b=`
-`+f[e].replace(" at new "," at ");return l.displayName&&b.includes("<anonymous>")&&(b=b.replace("<anonymous>",l.displayName)),b}while(1<=e&&0<=n);break}}}finally{Ti=!1,Error.prepareStackTrace=a}return(a=l?l.displayName||l.name:"")?ra(a):""}function D1(l,t){switch(l.tag){case 26:case 27:case 5:return ra(l.type);case 16:return ra("Lazy");case 13:return l.child!==t&&t!==null?ra("Suspense Fallback"):ra("Suspense");case 19:return ra("SuspenseList");case 0:case 15:return Ai(l.type,!1);case 11:return Ai(l.type.render,!1);case 1:return Ai(l.type,!0);case 31:return ra("Activity");default:return""}}function Do(l){try{var t="",a=null;do t+=D1(l,a),a=l,l=l.return;while(l);return t}catch(e){return`
-Error generating stack: `+e.message+`
-`+e.stack}}var fc=Object.prototype.hasOwnProperty,Ic=dl.unstable_scheduleCallback,Mi=dl.unstable_cancelCallback,U1=dl.unstable_shouldYield,H1=dl.unstable_requestPaint,ql=dl.unstable_now,C1=dl.unstable_getCurrentPriorityLevel,ud=dl.unstable_ImmediatePriority,id=dl.unstable_UserBlockingPriority,bu=dl.unstable_NormalPriority,B1=dl.unstable_LowPriority,cd=dl.unstable_IdlePriority,R1=dl.log,Y1=dl.unstable_setDisableYieldValue,vn=null,jl=null;function Zt(l){if(typeof R1=="function"&&Y1(l),jl&&typeof jl.setStrictMode=="function")try{jl.setStrictMode(vn,l)}catch{}}var Gl=Math.clz32?Math.clz32:G1,q1=Math.log,j1=Math.LN2;function G1(l){return l>>>=0,l===0?32:31-(q1(l)/j1|0)|0}var Bn=256,Rn=262144,Yn=4194304;function da(l){var t=l&42;if(t!==0)return t;switch(l&-l){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:return 64;case 128:return 128;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:return l&261888;case 262144:case 524288:case 1048576:case 2097152:return l&3932160;case 4194304:case 8388608:case 16777216:case 33554432:return l&62914560;case 67108864:return 67108864;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 0;default:return l}}function Xu(l,t,a){var e=l.pendingLanes;if(e===0)return 0;var n=0,u=l.suspendedLanes,i=l.pingedLanes;l=l.warmLanes;var c=e&134217727;return c!==0?(e=c&~u,e!==0?n=da(e):(i&=c,i!==0?n=da(i):a||(a=c&~l,a!==0&&(n=da(a))))):(c=e&~u,c!==0?n=da(c):i!==0?n=da(i):a||(a=e&~l,a!==0&&(n=da(a)))),n===0?0:t!==0&&t!==n&&(t&u)===0&&(u=n&-n,a=t&-t,u>=a||u===32&&(a&4194048)!==0)?t:n}function yn(l,t){return(l.pendingLanes&~(l.suspendedLanes&~l.pingedLanes)&t)===0}function Q1(l,t){switch(l){case 1:case 2:case 4:case 8:case 64:return t+250;case 16:case 32:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return t+5e3;case 4194304:case 8388608:case 16777216:case 33554432:return-1;case 67108864:case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function fd(){var l=Yn;return Yn<<=1,(Yn&62914560)===0&&(Yn=4194304),l}function xi(l){for(var t=[],a=0;31>a;a++)t.push(l);return t}function hn(l,t){l.pendingLanes|=t,t!==268435456&&(l.suspendedLanes=0,l.pingedLanes=0,l.warmLanes=0)}function X1(l,t,a,e,n,u){var i=l.pendingLanes;l.pendingLanes=a,l.suspendedLanes=0,l.pingedLanes=0,l.warmLanes=0,l.expiredLanes&=a,l.entangledLanes&=a,l.errorRecoveryDisabledLanes&=a,l.shellSuspendCounter=0;var c=l.entanglements,f=l.expirationTimes,d=l.hiddenUpdates;for(a=i&~a;0<a;){var b=31-Gl(a),y=1<<b;c[b]=0,f[b]=-1;var m=d[b];if(m!==null)for(d[b]=null,b=0;b<m.length;b++){var g=m[b];g!==null&&(g.lane&=-536870913)}a&=~y}e!==0&&od(l,e,0),u!==0&&n===0&&l.tag!==0&&(l.suspendedLanes|=u&~(i&~t))}function od(l,t,a){l.pendingLanes|=t,l.suspendedLanes&=~t;var e=31-Gl(t);l.entangledLanes|=t,l.entanglements[e]=l.entanglements[e]|1073741824|a&261930}function rd(l,t){var a=l.entangledLanes|=t;for(l=l.entanglements;a;){var e=31-Gl(a),n=1<<e;n&t|l[e]&t&&(l[e]|=t),a&=~n}}function dd(l,t){var a=t&-t;return a=(a&42)!==0?1:Pc(a),(a&(l.suspendedLanes|t))!==0?0:a}function Pc(l){switch(l){case 2:l=1;break;case 8:l=4;break;case 32:l=16;break;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:l=128;break;case 268435456:l=134217728;break;default:l=0}return l}function lf(l){return l&=-l,2<l?8<l?(l&134217727)!==0?32:268435456:8:2}function sd(){var l=Q.p;return l!==0?l:(l=window.event,l===void 0?32:R0(l.type))}function Uo(l,t){var a=Q.p;try{return Q.p=l,t()}finally{Q.p=a}}var ca=Math.random().toString(36).slice(2),yl="__reactFiber$"+ca,Dl="__reactProps$"+ca,ye="__reactContainer$"+ca,oc="__reactEvents$"+ca,L1="__reactListeners$"+ca,Z1="__reactHandles$"+ca,Ho="__reactResources$"+ca,pn="__reactMarker$"+ca;function tf(l){delete l[yl],delete l[Dl],delete l[oc],delete l[L1],delete l[Z1]}function Za(l){var t=l[yl];if(t)return t;for(var a=l.parentNode;a;){if(t=a[ye]||a[yl]){if(a=t.alternate,t.child!==null||a!==null&&a.child!==null)for(l=Qr(l);l!==null;){if(a=l[yl])return a;l=Qr(l)}return t}l=a,a=l.parentNode}return null}function he(l){if(l=l[yl]||l[ye]){var t=l.tag;if(t===5||t===6||t===13||t===31||t===26||t===27||t===3)return l}return null}function je(l){var t=l.tag;if(t===5||t===26||t===27||t===6)return l.stateNode;throw Error(h(33))}function Pa(l){var t=l[Ho];return t||(t=l[Ho]={hoistableStyles:new Map,hoistableScripts:new Map}),t}function ml(l){l[pn]=!0}var md=new Set,gd={};function Aa(l,t){ce(l,t),ce(l+"Capture",t)}function ce(l,t){for(gd[l]=t,l=0;l<t.length;l++)md.add(t[l])}var V1=RegExp("^[:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD][:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$"),Co={},Bo={};function w1(l){return fc.call(Bo,l)?!0:fc.call(Co,l)?!1:V1.test(l)?Bo[l]=!0:(Co[l]=!0,!1)}function Fn(l,t,a){if(w1(t))if(a===null)l.removeAttribute(t);else{switch(typeof a){case"undefined":case"function":case"symbol":l.removeAttribute(t);return;case"boolean":var e=t.toLowerCase().slice(0,5);if(e!=="data-"&&e!=="aria-"){l.removeAttribute(t);return}}l.setAttribute(t,""+a)}}function qn(l,t,a){if(a===null)l.removeAttribute(t);else{switch(typeof a){case"undefined":case"function":case"symbol":case"boolean":l.removeAttribute(t);return}l.setAttribute(t,""+a)}}function bt(l,t,a,e){if(e===null)l.removeAttribute(a);else{switch(typeof e){case"undefined":case"function":case"symbol":case"boolean":l.removeAttribute(a);return}l.setAttributeNS(t,a,""+e)}}function wl(l){switch(typeof l){case"bigint":case"boolean":case"number":case"string":case"undefined":return l;case"object":return l;default:return""}}function bd(l){var t=l.type;return(l=l.nodeName)&&l.toLowerCase()==="input"&&(t==="checkbox"||t==="radio")}function K1(l,t,a){var e=Object.getOwnPropertyDescriptor(l.constructor.prototype,t);if(!l.hasOwnProperty(t)&&typeof e<"u"&&typeof e.get=="function"&&typeof e.set=="function"){var n=e.get,u=e.set;return Object.defineProperty(l,t,{configurable:!0,get:function(){return n.call(this)},set:function(i){a=""+i,u.call(this,i)}}),Object.defineProperty(l,t,{enumerable:e.enumerable}),{getValue:function(){return a},setValue:function(i){a=""+i},stopTracking:function(){l._valueTracker=null,delete l[t]}}}}function rc(l){if(!l._valueTracker){var t=bd(l)?"checked":"value";l._valueTracker=K1(l,t,""+l[t])}}function vd(l){if(!l)return!1;var t=l._valueTracker;if(!t)return!0;var a=t.getValue(),e="";return l&&(e=bd(l)?l.checked?"true":"false":l.value),l=e,l!==a?(t.setValue(l),!0):!1}function vu(l){if(l=l||(typeof document<"u"?document:void 0),typeof l>"u")return null;try{return l.activeElement||l.body}catch{return l.body}}var J1=/[\n"\\]/g;function kl(l){return l.replace(J1,function(t){return"\\"+t.charCodeAt(0).toString(16)+" "})}function dc(l,t,a,e,n,u,i,c){l.name="",i!=null&&typeof i!="function"&&typeof i!="symbol"&&typeof i!="boolean"?l.type=i:l.removeAttribute("type"),t!=null?i==="number"?(t===0&&l.value===""||l.value!=t)&&(l.value=""+wl(t)):l.value!==""+wl(t)&&(l.value=""+wl(t)):i!=="submit"&&i!=="reset"||l.removeAttribute("value"),t!=null?sc(l,i,wl(t)):a!=null?sc(l,i,wl(a)):e!=null&&l.removeAttribute("value"),n==null&&u!=null&&(l.defaultChecked=!!u),n!=null&&(l.checked=n&&typeof n!="function"&&typeof n!="symbol"),c!=null&&typeof c!="function"&&typeof c!="symbol"&&typeof c!="boolean"?l.name=""+wl(c):l.removeAttribute("name")}function yd(l,t,a,e,n,u,i,c){if(u!=null&&typeof u!="function"&&typeof u!="symbol"&&typeof u!="boolean"&&(l.type=u),t!=null||a!=null){if(!(u!=="submit"&&u!=="reset"||t!=null)){rc(l);return}a=a!=null?""+wl(a):"",t=t!=null?""+wl(t):a,c||t===l.value||(l.value=t),l.defaultValue=t}e=e??n,e=typeof e!="function"&&typeof e!="symbol"&&!!e,l.checked=c?l.checked:!!e,l.defaultChecked=!!e,i!=null&&typeof i!="function"&&typeof i!="symbol"&&typeof i!="boolean"&&(l.name=i),rc(l)}function sc(l,t,a){t==="number"&&vu(l.ownerDocument)===l||l.defaultValue===""+a||(l.defaultValue=""+a)}function le(l,t,a,e){if(l=l.options,t){t={};for(var n=0;n<a.length;n++)t["$"+a[n]]=!0;for(a=0;a<l.length;a++)n=t.hasOwnProperty("$"+l[a].value),l[a].selected!==n&&(l[a].selected=n),n&&e&&(l[a].defaultSelected=!0)}else{for(a=""+wl(a),t=null,n=0;n<l.length;n++){if(l[n].value===a){l[n].selected=!0,e&&(l[n].defaultSelected=!0);return}t!==null||l[n].disabled||(t=l[n])}t!==null&&(t.selected=!0)}}function hd(l,t,a){if(t!=null&&(t=""+wl(t),t!==l.value&&(l.value=t),a==null)){l.defaultValue!==t&&(l.defaultValue=t);return}l.defaultValue=a!=null?""+wl(a):""}function pd(l,t,a,e){if(t==null){if(e!=null){if(a!=null)throw Error(h(92));if(qe(e)){if(1<e.length)throw Error(h(93));e=e[0]}a=e}a==null&&(a=""),t=a}a=wl(t),l.defaultValue=a,e=l.textContent,e===a&&e!==""&&e!==null&&(l.value=e),rc(l)}function fe(l,t){if(t){var a=l.firstChild;if(a&&a===l.lastChild&&a.nodeType===3){a.nodeValue=t;return}}l.textContent=t}var k1=new Set("animationIterationCount aspectRatio borderImageOutset borderImageSlice borderImageWidth boxFlex boxFlexGroup boxOrdinalGroup columnCount columns flex flexGrow flexPositive flexShrink flexNegative flexOrder gridArea gridRow gridRowEnd gridRowSpan gridRowStart gridColumn gridColumnEnd gridColumnSpan gridColumnStart fontWeight lineClamp lineHeight opacity order orphans scale tabSize widows zIndex zoom fillOpacity floodOpacity stopOpacity strokeDasharray strokeDashoffset strokeMiterlimit strokeOpacity strokeWidth MozAnimationIterationCount MozBoxFlex MozBoxFlexGroup MozLineClamp msAnimationIterationCount msFlex msZoom msFlexGrow msFlexNegative msFlexOrder msFlexPositive msFlexShrink msGridColumn msGridColumnSpan msGridRow msGridRowSpan WebkitAnimationIterationCount WebkitBoxFlex WebKitBoxFlexGroup WebkitBoxOrdinalGroup WebkitColumnCount WebkitColumns WebkitFlex WebkitFlexGrow WebkitFlexPositive WebkitFlexShrink WebkitLineClamp".split(" "));function Ro(l,t,a){var e=t.indexOf("--")===0;a==null||typeof a=="boolean"||a===""?e?l.setProperty(t,""):t==="float"?l.cssFloat="":l[t]="":e?l.setProperty(t,a):typeof a!="number"||a===0||k1.has(t)?t==="float"?l.cssFloat=a:l[t]=(""+a).trim():l[t]=a+"px"}function Sd(l,t,a){if(t!=null&&typeof t!="object")throw Error(h(62));if(l=l.style,a!=null){for(var e in a)!a.hasOwnProperty(e)||t!=null&&t.hasOwnProperty(e)||(e.indexOf("--")===0?l.setProperty(e,""):e==="float"?l.cssFloat="":l[e]="");for(var n in t)e=t[n],t.hasOwnProperty(n)&&a[n]!==e&&Ro(l,n,e)}else for(var u in t)t.hasOwnProperty(u)&&Ro(l,u,t[u])}function af(l){if(l.indexOf("-")===-1)return!1;switch(l){case"annotation-xml":case"color-profile":case"font-face":case"font-face-src":case"font-face-uri":case"font-face-format":case"font-face-name":case"missing-glyph":return!1;default:return!0}}var W1=new Map([["acceptCharset","accept-charset"],["htmlFor","for"],["httpEquiv","http-equiv"],["crossOrigin","crossorigin"],["accentHeight","accent-height"],["alignmentBaseline","alignment-baseline"],["arabicForm","arabic-form"],["baselineShift","baseline-shift"],["capHeight","cap-height"],["clipPath","clip-path"],["clipRule","clip-rule"],["colorInterpolation","color-interpolation"],["colorInterpolationFilters","color-interpolation-filters"],["colorProfile","color-profile"],["colorRendering","color-rendering"],["dominantBaseline","dominant-baseline"],["enableBackground","enable-background"],["fillOpacity","fill-opacity"],["fillRule","fill-rule"],["floodColor","flood-color"],["floodOpacity","flood-opacity"],["fontFamily","font-family"],["fontSize","font-size"],["fontSizeAdjust","font-size-adjust"],["fontStretch","font-stretch"],["fontStyle","font-style"],["fontVariant","font-variant"],["fontWeight","font-weight"],["glyphName","glyph-name"],["glyphOrientationHorizontal","glyph-orientation-horizontal"],["glyphOrientationVertical","glyph-orientation-vertical"],["horizAdvX","horiz-adv-x"],["horizOriginX","horiz-origin-x"],["imageRendering","image-rendering"],["letterSpacing","letter-spacing"],["lightingColor","lighting-color"],["markerEnd","marker-end"],["markerMid","marker-mid"],["markerStart","marker-start"],["overlinePosition","overline-position"],["overlineThickness","overline-thickness"],["paintOrder","paint-order"],["panose-1","panose-1"],["pointerEvents","pointer-events"],["renderingIntent","rendering-intent"],["shapeRendering","shape-rendering"],["stopColor","stop-color"],["stopOpacity","stop-opacity"],["strikethroughPosition","strikethrough-position"],["strikethroughThickness","strikethrough-thickness"],["strokeDasharray","stroke-dasharray"],["strokeDashoffset","stroke-dashoffset"],["strokeLinecap","stroke-linecap"],["strokeLinejoin","stroke-linejoin"],["strokeMiterlimit","stroke-miterlimit"],["strokeOpacity","stroke-opacity"],["strokeWidth","stroke-width"],["textAnchor","text-anchor"],["textDecoration","text-decoration"],["textRendering","text-rendering"],["transformOrigin","transform-origin"],["underlinePosition","underline-position"],["underlineThickness","underline-thickness"],["unicodeBidi","unicode-bidi"],["unicodeRange","unicode-range"],["unitsPerEm","units-per-em"],["vAlphabetic","v-alphabetic"],["vHanging","v-hanging"],["vIdeographic","v-ideographic"],["vMathematical","v-mathematical"],["vectorEffect","vector-effect"],["vertAdvY","vert-adv-y"],["vertOriginX","vert-origin-x"],["vertOriginY","vert-origin-y"],["wordSpacing","word-spacing"],["writingMode","writing-mode"],["xmlnsXlink","xmlns:xlink"],["xHeight","x-height"]]),$1=/^[\u0000-\u001F ]*j[\r\n\t]*a[\r\n\t]*v[\r\n\t]*a[\r\n\t]*s[\r\n\t]*c[\r\n\t]*r[\r\n\t]*i[\r\n\t]*p[\r\n\t]*t[\r\n\t]*:/i;function In(l){return $1.test(""+l)?"javascript:throw new Error('React has blocked a javascript: URL as a security precaution.')":l}function Tt(){}var mc=null;function ef(l){return l=l.target||l.srcElement||window,l.correspondingUseElement&&(l=l.correspondingUseElement),l.nodeType===3?l.parentNode:l}var Va=null,te=null;function Yo(l){var t=he(l);if(t&&(l=t.stateNode)){var a=l[Dl]||null;l:switch(l=t.stateNode,t.type){case"input":if(dc(l,a.value,a.defaultValue,a.defaultValue,a.checked,a.defaultChecked,a.type,a.name),t=a.name,a.type==="radio"&&t!=null){for(a=l;a.parentNode;)a=a.parentNode;for(a=a.querySelectorAll('input[name="'+kl(""+t)+'"][type="radio"]'),t=0;t<a.length;t++){var e=a[t];if(e!==l&&e.form===l.form){var n=e[Dl]||null;if(!n)throw Error(h(90));dc(e,n.value,n.defaultValue,n.defaultValue,n.checked,n.defaultChecked,n.type,n.name)}}for(t=0;t<a.length;t++)e=a[t],e.form===l.form&&vd(e)}break l;case"textarea":hd(l,a.value,a.defaultValue);break l;case"select":t=a.value,t!=null&&le(l,!!a.multiple,t,!1)}}}var Oi=!1;function zd(l,t,a){if(Oi)return l(t,a);Oi=!0;try{var e=l(t);return e}finally{if(Oi=!1,(Va!==null||te!==null)&&(Pu(),Va&&(t=Va,l=te,te=Va=null,Yo(t),l)))for(t=0;t<l.length;t++)Yo(l[t])}}function tn(l,t){var a=l.stateNode;if(a===null)return null;var e=a[Dl]||null;if(e===null)return null;a=e[t];l:switch(t){case"onClick":case"onClickCapture":case"onDoubleClick":case"onDoubleClickCapture":case"onMouseDown":case"onMouseDownCapture":case"onMouseMove":case"onMouseMoveCapture":case"onMouseUp":case"onMouseUpCapture":case"onMouseEnter":(e=!e.disabled)||(l=l.type,e=!(l==="button"||l==="input"||l==="select"||l==="textarea")),l=!e;break l;default:l=!1}if(l)return null;if(a&&typeof a!="function")throw Error(h(231,t,typeof a));return a}var _t=!(typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"),gc=!1;if(_t)try{Ya={},Object.defineProperty(Ya,"passive",{get:function(){gc=!0}}),window.addEventListener("test",Ya,Ya),window.removeEventListener("test",Ya,Ya)}catch{gc=!1}var Ya,Vt=null,nf=null,Pn=null;function Ed(){if(Pn)return Pn;var l,t=nf,a=t.length,e,n="value"in Vt?Vt.value:Vt.textContent,u=n.length;for(l=0;l<a&&t[l]===n[l];l++);var i=a-l;for(e=1;e<=i&&t[a-e]===n[u-e];e++);return Pn=n.slice(l,1<e?1-e:void 0)}function lu(l){var t=l.keyCode;return"charCode"in l?(l=l.charCode,l===0&&t===13&&(l=13)):l=t,l===10&&(l=13),32<=l||l===13?l:0}function jn(){return!0}function qo(){return!1}function Ul(l){function t(a,e,n,u,i){this._reactName=a,this._targetInst=n,this.type=e,this.nativeEvent=u,this.target=i,this.currentTarget=null;for(var c in l)l.hasOwnProperty(c)&&(a=l[c],this[c]=a?a(u):u[c]);return this.isDefaultPrevented=(u.defaultPrevented!=null?u.defaultPrevented:u.returnValue===!1)?jn:qo,this.isPropagationStopped=qo,this}return P(t.prototype,{preventDefault:function(){this.defaultPrevented=!0;var a=this.nativeEvent;a&&(a.preventDefault?a.preventDefault():typeof a.returnValue!="unknown"&&(a.returnValue=!1),this.isDefaultPrevented=jn)},stopPropagation:function(){var a=this.nativeEvent;a&&(a.stopPropagation?a.stopPropagation():typeof a.cancelBubble!="unknown"&&(a.cancelBubble=!0),this.isPropagationStopped=jn)},persist:function(){},isPersistent:jn}),t}var Ma={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(l){return l.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},Lu=Ul(Ma),Sn=P({},Ma,{view:0,detail:0}),F1=Ul(Sn),_i,Ni,De,Zu=P({},Sn,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:uf,button:0,buttons:0,relatedTarget:function(l){return l.relatedTarget===void 0?l.fromElement===l.srcElement?l.toElement:l.fromElement:l.relatedTarget},movementX:function(l){return"movementX"in l?l.movementX:(l!==De&&(De&&l.type==="mousemove"?(_i=l.screenX-De.screenX,Ni=l.screenY-De.screenY):Ni=_i=0,De=l),_i)},movementY:function(l){return"movementY"in l?l.movementY:Ni}}),jo=Ul(Zu),I1=P({},Zu,{dataTransfer:0}),P1=Ul(I1),lm=P({},Sn,{relatedTarget:0}),Di=Ul(lm),tm=P({},Ma,{animationName:0,elapsedTime:0,pseudoElement:0}),am=Ul(tm),em=P({},Ma,{clipboardData:function(l){return"clipboardData"in l?l.clipboardData:window.clipboardData}}),nm=Ul(em),um=P({},Ma,{data:0}),Go=Ul(um),im={Esc:"Escape",Spacebar:" ",Left:"ArrowLeft",Up:"ArrowUp",Right:"ArrowRight",Down:"ArrowDown",Del:"Delete",Win:"OS",Menu:"ContextMenu",Apps:"ContextMenu",Scroll:"ScrollLock",MozPrintableKey:"Unidentified"},cm={8:"Backspace",9:"Tab",12:"Clear",13:"Enter",16:"Shift",17:"Control",18:"Alt",19:"Pause",20:"CapsLock",27:"Escape",32:" ",33:"PageUp",34:"PageDown",35:"End",36:"Home",37:"ArrowLeft",38:"ArrowUp",39:"ArrowRight",40:"ArrowDown",45:"Insert",46:"Delete",112:"F1",113:"F2",114:"F3",115:"F4",116:"F5",117:"F6",118:"F7",119:"F8",120:"F9",121:"F10",122:"F11",123:"F12",144:"NumLock",145:"ScrollLock",224:"Meta"},fm={Alt:"altKey",Control:"ctrlKey",Meta:"metaKey",Shift:"shiftKey"};function om(l){var t=this.nativeEvent;return t.getModifierState?t.getModifierState(l):(l=fm[l])?!!t[l]:!1}function uf(){return om}var rm=P({},Sn,{key:function(l){if(l.key){var t=im[l.key]||l.key;if(t!=="Unidentified")return t}return l.type==="keypress"?(l=lu(l),l===13?"Enter":String.fromCharCode(l)):l.type==="keydown"||l.type==="keyup"?cm[l.keyCode]||"Unidentified":""},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:uf,charCode:function(l){return l.type==="keypress"?lu(l):0},keyCode:function(l){return l.type==="keydown"||l.type==="keyup"?l.keyCode:0},which:function(l){return l.type==="keypress"?lu(l):l.type==="keydown"||l.type==="keyup"?l.keyCode:0}}),dm=Ul(rm),sm=P({},Zu,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0}),Qo=Ul(sm),mm=P({},Sn,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:uf}),gm=Ul(mm),bm=P({},Ma,{propertyName:0,elapsedTime:0,pseudoElement:0}),vm=Ul(bm),ym=P({},Zu,{deltaX:function(l){return"deltaX"in l?l.deltaX:"wheelDeltaX"in l?-l.wheelDeltaX:0},deltaY:function(l){return"deltaY"in l?l.deltaY:"wheelDeltaY"in l?-l.wheelDeltaY:"wheelDelta"in l?-l.wheelDelta:0},deltaZ:0,deltaMode:0}),hm=Ul(ym),pm=P({},Ma,{newState:0,oldState:0}),Sm=Ul(pm),zm=[9,13,27,32],cf=_t&&"CompositionEvent"in window,Xe=null;_t&&"documentMode"in document&&(Xe=document.documentMode);var Em=_t&&"TextEvent"in window&&!Xe,Td=_t&&(!cf||Xe&&8<Xe&&11>=Xe),Xo=" ",Lo=!1;function Ad(l,t){switch(l){case"keyup":return zm.indexOf(t.keyCode)!==-1;case"keydown":return t.keyCode!==229;case"keypress":case"mousedown":case"focusout":return!0;default:return!1}}function Md(l){return l=l.detail,typeof l=="object"&&"data"in l?l.data:null}var wa=!1;function Tm(l,t){switch(l){case"compositionend":return Md(t);case"keypress":return t.which!==32?null:(Lo=!0,Xo);case"textInput":return l=t.data,l===Xo&&Lo?null:l;default:return null}}function Am(l,t){if(wa)return l==="compositionend"||!cf&&Ad(l,t)?(l=Ed(),Pn=nf=Vt=null,wa=!1,l):null;switch(l){case"paste":return null;case"keypress":if(!(t.ctrlKey||t.altKey||t.metaKey)||t.ctrlKey&&t.altKey){if(t.char&&1<t.char.length)return t.char;if(t.which)return String.fromCharCode(t.which)}return null;case"compositionend":return Td&&t.locale!=="ko"?null:t.data;default:return null}}var Mm={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function Zo(l){var t=l&&l.nodeName&&l.nodeName.toLowerCase();return t==="input"?!!Mm[l.type]:t==="textarea"}function xd(l,t,a,e){Va?te?te.push(e):te=[e]:Va=e,t=Bu(t,"onChange"),0<t.length&&(a=new Lu("onChange","change",null,a,e),l.push({event:a,listeners:t}))}var Le=null,an=null;function xm(l){z0(l,0)}function Vu(l){var t=je(l);if(vd(t))return l}function Vo(l,t){if(l==="change")return t}var Od=!1;_t&&(_t?(Qn="oninput"in document,Qn||(Ui=document.createElement("div"),Ui.setAttribute("oninput","return;"),Qn=typeof Ui.oninput=="function"),Gn=Qn):Gn=!1,Od=Gn&&(!document.documentMode||9<document.documentMode));var Gn,Qn,Ui;function wo(){Le&&(Le.detachEvent("onpropertychange",_d),an=Le=null)}function _d(l){if(l.propertyName==="value"&&Vu(an)){var t=[];xd(t,an,l,ef(l)),zd(xm,t)}}function Om(l,t,a){l==="focusin"?(wo(),Le=t,an=a,Le.attachEvent("onpropertychange",_d)):l==="focusout"&&wo()}function _m(l){if(l==="selectionchange"||l==="keyup"||l==="keydown")return Vu(an)}function Nm(l,t){if(l==="click")return Vu(t)}function Dm(l,t){if(l==="input"||l==="change")return Vu(t)}function Um(l,t){return l===t&&(l!==0||1/l===1/t)||l!==l&&t!==t}var Xl=typeof Object.is=="function"?Object.is:Um;function en(l,t){if(Xl(l,t))return!0;if(typeof l!="object"||l===null||typeof t!="object"||t===null)return!1;var a=Object.keys(l),e=Object.keys(t);if(a.length!==e.length)return!1;for(e=0;e<a.length;e++){var n=a[e];if(!fc.call(t,n)||!Xl(l[n],t[n]))return!1}return!0}function Ko(l){for(;l&&l.firstChild;)l=l.firstChild;return l}function Jo(l,t){var a=Ko(l);l=0;for(var e;a;){if(a.nodeType===3){if(e=l+a.textContent.length,l<=t&&e>=t)return{node:a,offset:t-l};l=e}l:{for(;a;){if(a.nextSibling){a=a.nextSibling;break l}a=a.parentNode}a=void 0}a=Ko(a)}}function Nd(l,t){return l&&t?l===t?!0:l&&l.nodeType===3?!1:t&&t.nodeType===3?Nd(l,t.parentNode):"contains"in l?l.contains(t):l.compareDocumentPosition?!!(l.compareDocumentPosition(t)&16):!1:!1}function Dd(l){l=l!=null&&l.ownerDocument!=null&&l.ownerDocument.defaultView!=null?l.ownerDocument.defaultView:window;for(var t=vu(l.document);t instanceof l.HTMLIFrameElement;){try{var a=typeof t.contentWindow.location.href=="string"}catch{a=!1}if(a)l=t.contentWindow;else break;t=vu(l.document)}return t}function ff(l){var t=l&&l.nodeName&&l.nodeName.toLowerCase();return t&&(t==="input"&&(l.type==="text"||l.type==="search"||l.type==="tel"||l.type==="url"||l.type==="password")||t==="textarea"||l.contentEditable==="true")}var Hm=_t&&"documentMode"in document&&11>=document.documentMode,Ka=null,bc=null,Ze=null,vc=!1;function ko(l,t,a){var e=a.window===a?a.document:a.nodeType===9?a:a.ownerDocument;vc||Ka==null||Ka!==vu(e)||(e=Ka,"selectionStart"in e&&ff(e)?e={start:e.selectionStart,end:e.selectionEnd}:(e=(e.ownerDocument&&e.ownerDocument.defaultView||window).getSelection(),e={anchorNode:e.anchorNode,anchorOffset:e.anchorOffset,focusNode:e.focusNode,focusOffset:e.focusOffset}),Ze&&en(Ze,e)||(Ze=e,e=Bu(bc,"onSelect"),0<e.length&&(t=new Lu("onSelect","select",null,t,a),l.push({event:t,listeners:e}),t.target=Ka)))}function oa(l,t){var a={};return a[l.toLowerCase()]=t.toLowerCase(),a["Webkit"+l]="webkit"+t,a["Moz"+l]="moz"+t,a}var Ja={animationend:oa("Animation","AnimationEnd"),animationiteration:oa("Animation","AnimationIteration"),animationstart:oa("Animation","AnimationStart"),transitionrun:oa("Transition","TransitionRun"),transitionstart:oa("Transition","TransitionStart"),transitioncancel:oa("Transition","TransitionCancel"),transitionend:oa("Transition","TransitionEnd")},Hi={},Ud={};_t&&(Ud=document.createElement("div").style,"AnimationEvent"in window||(delete Ja.animationend.animation,delete Ja.animationiteration.animation,delete Ja.animationstart.animation),"TransitionEvent"in window||delete Ja.transitionend.transition);function xa(l){if(Hi[l])return Hi[l];if(!Ja[l])return l;var t=Ja[l],a;for(a in t)if(t.hasOwnProperty(a)&&a in Ud)return Hi[l]=t[a];return l}var Hd=xa("animationend"),Cd=xa("animationiteration"),Bd=xa("animationstart"),Cm=xa("transitionrun"),Bm=xa("transitionstart"),Rm=xa("transitioncancel"),Rd=xa("transitionend"),Yd=new Map,yc="abort auxClick beforeToggle cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel".split(" ");yc.push("scrollEnd");function et(l,t){Yd.set(l,t),Aa(t,[l])}var yu=typeof reportError=="function"?reportError:function(l){if(typeof window=="object"&&typeof window.ErrorEvent=="function"){var t=new window.ErrorEvent("error",{bubbles:!0,cancelable:!0,message:typeof l=="object"&&l!==null&&typeof l.message=="string"?String(l.message):String(l),error:l});if(!window.dispatchEvent(t))return}else if(typeof process=="object"&&typeof process.emit=="function"){process.emit("uncaughtException",l);return}console.error(l)},Vl=[],ka=0,of=0;function wu(){for(var l=ka,t=of=ka=0;t<l;){var a=Vl[t];Vl[t++]=null;var e=Vl[t];Vl[t++]=null;var n=Vl[t];Vl[t++]=null;var u=Vl[t];if(Vl[t++]=null,e!==null&&n!==null){var i=e.pending;i===null?n.next=n:(n.next=i.next,i.next=n),e.pending=n}u!==0&&qd(a,n,u)}}function Ku(l,t,a,e){Vl[ka++]=l,Vl[ka++]=t,Vl[ka++]=a,Vl[ka++]=e,of|=e,l.lanes|=e,l=l.alternate,l!==null&&(l.lanes|=e)}function rf(l,t,a,e){return Ku(l,t,a,e),hu(l)}function Oa(l,t){return Ku(l,null,null,t),hu(l)}function qd(l,t,a){l.lanes|=a;var e=l.alternate;e!==null&&(e.lanes|=a);for(var n=!1,u=l.return;u!==null;)u.childLanes|=a,e=u.alternate,e!==null&&(e.childLanes|=a),u.tag===22&&(l=u.stateNode,l===null||l._visibility&1||(n=!0)),l=u,u=u.return;return l.tag===3?(u=l.stateNode,n&&t!==null&&(n=31-Gl(a),l=u.hiddenUpdates,e=l[n],e===null?l[n]=[t]:e.push(t),t.lane=a|536870912),u):null}function hu(l){if(50<Ie)throw Ie=0,jc=null,Error(h(185));for(var t=l.return;t!==null;)l=t,t=l.return;return l.tag===3?l.stateNode:null}var Wa={};function Ym(l,t,a,e){this.tag=l,this.key=a,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.refCleanup=this.ref=null,this.pendingProps=t,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=e,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function Rl(l,t,a,e){return new Ym(l,t,a,e)}function df(l){return l=l.prototype,!(!l||!l.isReactComponent)}function Mt(l,t){var a=l.alternate;return a===null?(a=Rl(l.tag,t,l.key,l.mode),a.elementType=l.elementType,a.type=l.type,a.stateNode=l.stateNode,a.alternate=l,l.alternate=a):(a.pendingProps=t,a.type=l.type,a.flags=0,a.subtreeFlags=0,a.deletions=null),a.flags=l.flags&65011712,a.childLanes=l.childLanes,a.lanes=l.lanes,a.child=l.child,a.memoizedProps=l.memoizedProps,a.memoizedState=l.memoizedState,a.updateQueue=l.updateQueue,t=l.dependencies,a.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext},a.sibling=l.sibling,a.index=l.index,a.ref=l.ref,a.refCleanup=l.refCleanup,a}function jd(l,t){l.flags&=65011714;var a=l.alternate;return a===null?(l.childLanes=0,l.lanes=t,l.child=null,l.subtreeFlags=0,l.memoizedProps=null,l.memoizedState=null,l.updateQueue=null,l.dependencies=null,l.stateNode=null):(l.childLanes=a.childLanes,l.lanes=a.lanes,l.child=a.child,l.subtreeFlags=0,l.deletions=null,l.memoizedProps=a.memoizedProps,l.memoizedState=a.memoizedState,l.updateQueue=a.updateQueue,l.type=a.type,t=a.dependencies,l.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext}),l}function tu(l,t,a,e,n,u){var i=0;if(e=l,typeof l=="function")df(l)&&(i=1);else if(typeof l=="string")i=Gg(l,a,dt.current)?26:l==="html"||l==="head"||l==="body"?27:5;else l:switch(l){case nc:return l=Rl(31,a,t,n),l.elementType=nc,l.lanes=u,l;case Xa:return ba(a.children,n,u,t);case ed:i=8,n|=24;break;case tc:return l=Rl(12,a,t,n|2),l.elementType=tc,l.lanes=u,l;case ac:return l=Rl(13,a,t,n),l.elementType=ac,l.lanes=u,l;case ec:return l=Rl(19,a,t,n),l.elementType=ec,l.lanes=u,l;default:if(typeof l=="object"&&l!==null)switch(l.$$typeof){case Et:i=10;break l;case nd:i=9;break l;case $c:i=11;break l;case Fc:i=14;break l;case qt:i=16,e=null;break l}i=29,a=Error(h(130,l===null?"null":typeof l,"")),e=null}return t=Rl(i,a,t,n),t.elementType=l,t.type=e,t.lanes=u,t}function ba(l,t,a,e){return l=Rl(7,l,e,t),l.lanes=a,l}function Ci(l,t,a){return l=Rl(6,l,null,t),l.lanes=a,l}function Gd(l){var t=Rl(18,null,null,0);return t.stateNode=l,t}function Bi(l,t,a){return t=Rl(4,l.children!==null?l.children:[],l.key,t),t.lanes=a,t.stateNode={containerInfo:l.containerInfo,pendingChildren:null,implementation:l.implementation},t}var Wo=new WeakMap;function Wl(l,t){if(typeof l=="object"&&l!==null){var a=Wo.get(l);return a!==void 0?a:(t={value:l,source:t,stack:Do(t)},Wo.set(l,t),t)}return{value:l,source:t,stack:Do(t)}}var $a=[],Fa=0,pu=null,nn=0,Kl=[],Jl=0,ea=null,ft=1,ot="";function St(l,t){$a[Fa++]=nn,$a[Fa++]=pu,pu=l,nn=t}function Qd(l,t,a){Kl[Jl++]=ft,Kl[Jl++]=ot,Kl[Jl++]=ea,ea=l;var e=ft;l=ot;var n=32-Gl(e)-1;e&=~(1<<n),a+=1;var u=32-Gl(t)+n;if(30<u){var i=n-n%5;u=(e&(1<<i)-1).toString(32),e>>=i,n-=i,ft=1<<32-Gl(t)+n|a<<n|e,ot=u+l}else ft=1<<u|a<<n|e,ot=l}function sf(l){l.return!==null&&(St(l,1),Qd(l,1,0))}function mf(l){for(;l===pu;)pu=$a[--Fa],$a[Fa]=null,nn=$a[--Fa],$a[Fa]=null;for(;l===ea;)ea=Kl[--Jl],Kl[Jl]=null,ot=Kl[--Jl],Kl[Jl]=null,ft=Kl[--Jl],Kl[Jl]=null}function Xd(l,t){Kl[Jl++]=ft,Kl[Jl++]=ot,Kl[Jl++]=ea,ft=t.id,ot=t.overflow,ea=l}var hl=null,I=null,j=!1,Wt=null,$l=!1,hc=Error(h(519));function na(l){var t=Error(h(418,1<arguments.length&&arguments[1]!==void 0&&arguments[1]?"text":"HTML",""));throw un(Wl(t,l)),hc}function $o(l){var t=l.stateNode,a=l.type,e=l.memoizedProps;switch(t[yl]=l,t[Dl]=e,a){case"dialog":B("cancel",t),B("close",t);break;case"iframe":case"object":case"embed":B("load",t);break;case"video":case"audio":for(a=0;a<rn.length;a++)B(rn[a],t);break;case"source":B("error",t);break;case"img":case"image":case"link":B("error",t),B("load",t);break;case"details":B("toggle",t);break;case"input":B("invalid",t),yd(t,e.value,e.defaultValue,e.checked,e.defaultChecked,e.type,e.name,!0);break;case"select":B("invalid",t);break;case"textarea":B("invalid",t),pd(t,e.value,e.defaultValue,e.children)}a=e.children,typeof a!="string"&&typeof a!="number"&&typeof a!="bigint"||t.textContent===""+a||e.suppressHydrationWarning===!0||T0(t.textContent,a)?(e.popover!=null&&(B("beforetoggle",t),B("toggle",t)),e.onScroll!=null&&B("scroll",t),e.onScrollEnd!=null&&B("scrollend",t),e.onClick!=null&&(t.onclick=Tt),t=!0):t=!1,t||na(l,!0)}function Fo(l){for(hl=l.return;hl;)switch(hl.tag){case 5:case 31:case 13:$l=!1;return;case 27:case 3:$l=!0;return;default:hl=hl.return}}function qa(l){if(l!==hl)return!1;if(!j)return Fo(l),j=!0,!1;var t=l.tag,a;if((a=t!==3&&t!==27)&&((a=t===5)&&(a=l.type,a=!(a!=="form"&&a!=="button")||Zc(l.type,l.memoizedProps)),a=!a),a&&I&&na(l),Fo(l),t===13){if(l=l.memoizedState,l=l!==null?l.dehydrated:null,!l)throw Error(h(317));I=Gr(l)}else if(t===31){if(l=l.memoizedState,l=l!==null?l.dehydrated:null,!l)throw Error(h(317));I=Gr(l)}else t===27?(t=I,fa(l.type)?(l=Jc,Jc=null,I=l):I=t):I=hl?Il(l.stateNode.nextSibling):null;return!0}function pa(){I=hl=null,j=!1}function Ri(){var l=Wt;return l!==null&&(_l===null?_l=l:_l.push.apply(_l,l),Wt=null),l}function un(l){Wt===null?Wt=[l]:Wt.push(l)}var pc=st(null),_a=null,At=null;function Gt(l,t,a){W(pc,t._currentValue),t._currentValue=a}function xt(l){l._currentValue=pc.current,gl(pc)}function Sc(l,t,a){for(;l!==null;){var e=l.alternate;if((l.childLanes&t)!==t?(l.childLanes|=t,e!==null&&(e.childLanes|=t)):e!==null&&(e.childLanes&t)!==t&&(e.childLanes|=t),l===a)break;l=l.return}}function zc(l,t,a,e){var n=l.child;for(n!==null&&(n.return=l);n!==null;){var u=n.dependencies;if(u!==null){var i=n.child;u=u.firstContext;l:for(;u!==null;){var c=u;u=n;for(var f=0;f<t.length;f++)if(c.context===t[f]){u.lanes|=a,c=u.alternate,c!==null&&(c.lanes|=a),Sc(u.return,a,l),e||(i=null);break l}u=c.next}}else if(n.tag===18){if(i=n.return,i===null)throw Error(h(341));i.lanes|=a,u=i.alternate,u!==null&&(u.lanes|=a),Sc(i,a,l),i=null}else i=n.child;if(i!==null)i.return=n;else for(i=n;i!==null;){if(i===l){i=null;break}if(n=i.sibling,n!==null){n.return=i.return,i=n;break}i=i.return}n=i}}function pe(l,t,a,e){l=null;for(var n=t,u=!1;n!==null;){if(!u){if((n.flags&524288)!==0)u=!0;else if((n.flags&262144)!==0)break}if(n.tag===10){var i=n.alternate;if(i===null)throw Error(h(387));if(i=i.memoizedProps,i!==null){var c=n.type;Xl(n.pendingProps.value,i.value)||(l!==null?l.push(c):l=[c])}}else if(n===su.current){if(i=n.alternate,i===null)throw Error(h(387));i.memoizedState.memoizedState!==n.memoizedState.memoizedState&&(l!==null?l.push(sn):l=[sn])}n=n.return}l!==null&&zc(t,l,a,e),t.flags|=262144}function Su(l){for(l=l.firstContext;l!==null;){if(!Xl(l.context._currentValue,l.memoizedValue))return!0;l=l.next}return!1}function Sa(l){_a=l,At=null,l=l.dependencies,l!==null&&(l.firstContext=null)}function pl(l){return Ld(_a,l)}function Xn(l,t){return _a===null&&Sa(l),Ld(l,t)}function Ld(l,t){var a=t._currentValue;if(t={context:t,memoizedValue:a,next:null},At===null){if(l===null)throw Error(h(308));At=t,l.dependencies={lanes:0,firstContext:t},l.flags|=524288}else At=At.next=t;return a}var qm=typeof AbortController<"u"?AbortController:function(){var l=[],t=this.signal={aborted:!1,addEventListener:function(a,e){l.push(e)}};this.abort=function(){t.aborted=!0,l.forEach(function(a){return a()})}},jm=dl.unstable_scheduleCallback,Gm=dl.unstable_NormalPriority,fl={$$typeof:Et,Consumer:null,Provider:null,_currentValue:null,_currentValue2:null,_threadCount:0};function gf(){return{controller:new qm,data:new Map,refCount:0}}function zn(l){l.refCount--,l.refCount===0&&jm(Gm,function(){l.controller.abort()})}var Ve=null,Ec=0,oe=0,ae=null;function Qm(l,t){if(Ve===null){var a=Ve=[];Ec=0,oe=Gf(),ae={status:"pending",value:void 0,then:function(e){a.push(e)}}}return Ec++,t.then(Io,Io),t}function Io(){if(--Ec===0&&Ve!==null){ae!==null&&(ae.status="fulfilled");var l=Ve;Ve=null,oe=0,ae=null;for(var t=0;t<l.length;t++)(0,l[t])()}}function Xm(l,t){var a=[],e={status:"pending",value:null,reason:null,then:function(n){a.push(n)}};return l.then(function(){e.status="fulfilled",e.value=t;for(var n=0;n<a.length;n++)(0,a[n])(t)},function(n){for(e.status="rejected",e.reason=n,n=0;n<a.length;n++)(0,a[n])(void 0)}),e}var Po=x.S;x.S=function(l,t){a0=ql(),typeof t=="object"&&t!==null&&typeof t.then=="function"&&Qm(l,t),Po!==null&&Po(l,t)};var va=st(null);function bf(){var l=va.current;return l!==null?l:J.pooledCache}function au(l,t){t===null?W(va,va.current):W(va,t.pool)}function Zd(){var l=bf();return l===null?null:{parent:fl._currentValue,pool:l}}var Se=Error(h(460)),vf=Error(h(474)),Ju=Error(h(542)),zu={then:function(){}};function lr(l){return l=l.status,l==="fulfilled"||l==="rejected"}function Vd(l,t,a){switch(a=l[a],a===void 0?l.push(t):a!==t&&(t.then(Tt,Tt),t=a),t.status){case"fulfilled":return t.value;case"rejected":throw l=t.reason,ar(l),l;default:if(typeof t.status=="string")t.then(Tt,Tt);else{if(l=J,l!==null&&100<l.shellSuspendCounter)throw Error(h(482));l=t,l.status="pending",l.then(function(e){if(t.status==="pending"){var n=t;n.status="fulfilled",n.value=e}},function(e){if(t.status==="pending"){var n=t;n.status="rejected",n.reason=e}})}switch(t.status){case"fulfilled":return t.value;case"rejected":throw l=t.reason,ar(l),l}throw ya=t,Se}}function sa(l){try{var t=l._init;return t(l._payload)}catch(a){throw a!==null&&typeof a=="object"&&typeof a.then=="function"?(ya=a,Se):a}}var ya=null;function tr(){if(ya===null)throw Error(h(459));var l=ya;return ya=null,l}function ar(l){if(l===Se||l===Ju)throw Error(h(483))}var ee=null,cn=0;function Ln(l){var t=cn;return cn+=1,ee===null&&(ee=[]),Vd(ee,l,t)}function Ue(l,t){t=t.props.ref,l.ref=t!==void 0?t:null}function Zn(l,t){throw t.$$typeof===O1?Error(h(525)):(l=Object.prototype.toString.call(t),Error(h(31,l==="[object Object]"?"object with keys {"+Object.keys(t).join(", ")+"}":l)))}function wd(l){function t(r,o){if(l){var s=r.deletions;s===null?(r.deletions=[o],r.flags|=16):s.push(o)}}function a(r,o){if(!l)return null;for(;o!==null;)t(r,o),o=o.sibling;return null}function e(r){for(var o=new Map;r!==null;)r.key!==null?o.set(r.key,r):o.set(r.index,r),r=r.sibling;return o}function n(r,o){return r=Mt(r,o),r.index=0,r.sibling=null,r}function u(r,o,s){return r.index=s,l?(s=r.alternate,s!==null?(s=s.index,s<o?(r.flags|=67108866,o):s):(r.flags|=67108866,o)):(r.flags|=1048576,o)}function i(r){return l&&r.alternate===null&&(r.flags|=67108866),r}function c(r,o,s,v){return o===null||o.tag!==6?(o=Ci(s,r.mode,v),o.return=r,o):(o=n(o,s),o.return=r,o)}function f(r,o,s,v){var A=s.type;return A===Xa?b(r,o,s.props.children,v,s.key):o!==null&&(o.elementType===A||typeof A=="object"&&A!==null&&A.$$typeof===qt&&sa(A)===o.type)?(o=n(o,s.props),Ue(o,s),o.return=r,o):(o=tu(s.type,s.key,s.props,null,r.mode,v),Ue(o,s),o.return=r,o)}function d(r,o,s,v){return o===null||o.tag!==4||o.stateNode.containerInfo!==s.containerInfo||o.stateNode.implementation!==s.implementation?(o=Bi(s,r.mode,v),o.return=r,o):(o=n(o,s.children||[]),o.return=r,o)}function b(r,o,s,v,A){return o===null||o.tag!==7?(o=ba(s,r.mode,v,A),o.return=r,o):(o=n(o,s),o.return=r,o)}function y(r,o,s){if(typeof o=="string"&&o!==""||typeof o=="number"||typeof o=="bigint")return o=Ci(""+o,r.mode,s),o.return=r,o;if(typeof o=="object"&&o!==null){switch(o.$$typeof){case Cn:return s=tu(o.type,o.key,o.props,null,r.mode,s),Ue(s,o),s.return=r,s;case Ye:return o=Bi(o,r.mode,s),o.return=r,o;case qt:return o=sa(o),y(r,o,s)}if(qe(o)||Ne(o))return o=ba(o,r.mode,s,null),o.return=r,o;if(typeof o.then=="function")return y(r,Ln(o),s);if(o.$$typeof===Et)return y(r,Xn(r,o),s);Zn(r,o)}return null}function m(r,o,s,v){var A=o!==null?o.key:null;if(typeof s=="string"&&s!==""||typeof s=="number"||typeof s=="bigint")return A!==null?null:c(r,o,""+s,v);if(typeof s=="object"&&s!==null){switch(s.$$typeof){case Cn:return s.key===A?f(r,o,s,v):null;case Ye:return s.key===A?d(r,o,s,v):null;case qt:return s=sa(s),m(r,o,s,v)}if(qe(s)||Ne(s))return A!==null?null:b(r,o,s,v,null);if(typeof s.then=="function")return m(r,o,Ln(s),v);if(s.$$typeof===Et)return m(r,o,Xn(r,s),v);Zn(r,s)}return null}function g(r,o,s,v,A){if(typeof v=="string"&&v!==""||typeof v=="number"||typeof v=="bigint")return r=r.get(s)||null,c(o,r,""+v,A);if(typeof v=="object"&&v!==null){switch(v.$$typeof){case Cn:return r=r.get(v.key===null?s:v.key)||null,f(o,r,v,A);case Ye:return r=r.get(v.key===null?s:v.key)||null,d(o,r,v,A);case qt:return v=sa(v),g(r,o,s,v,A)}if(qe(v)||Ne(v))return r=r.get(s)||null,b(o,r,v,A,null);if(typeof v.then=="function")return g(r,o,s,Ln(v),A);if(v.$$typeof===Et)return g(r,o,s,Xn(o,v),A);Zn(o,v)}return null}function E(r,o,s,v){for(var A=null,C=null,p=o,M=o=0,U=null;p!==null&&M<s.length;M++){p.index>M?(U=p,p=null):U=p.sibling;var H=m(r,p,s[M],v);if(H===null){p===null&&(p=U);break}l&&p&&H.alternate===null&&t(r,p),o=u(H,o,M),C===null?A=H:C.sibling=H,C=H,p=U}if(M===s.length)return a(r,p),j&&St(r,M),A;if(p===null){for(;M<s.length;M++)p=y(r,s[M],v),p!==null&&(o=u(p,o,M),C===null?A=p:C.sibling=p,C=p);return j&&St(r,M),A}for(p=e(p);M<s.length;M++)U=g(p,r,M,s[M],v),U!==null&&(l&&U.alternate!==null&&p.delete(U.key===null?M:U.key),o=u(U,o,M),C===null?A=U:C.sibling=U,C=U);return l&&p.forEach(function(Hl){return t(r,Hl)}),j&&St(r,M),A}function T(r,o,s,v){if(s==null)throw Error(h(151));for(var A=null,C=null,p=o,M=o=0,U=null,H=s.next();p!==null&&!H.done;M++,H=s.next()){p.index>M?(U=p,p=null):U=p.sibling;var Hl=m(r,p,H.value,v);if(Hl===null){p===null&&(p=U);break}l&&p&&Hl.alternate===null&&t(r,p),o=u(Hl,o,M),C===null?A=Hl:C.sibling=Hl,C=Hl,p=U}if(H.done)return a(r,p),j&&St(r,M),A;if(p===null){for(;!H.done;M++,H=s.next())H=y(r,H.value,v),H!==null&&(o=u(H,o,M),C===null?A=H:C.sibling=H,C=H);return j&&St(r,M),A}for(p=e(p);!H.done;M++,H=s.next())H=g(p,r,M,H.value,v),H!==null&&(l&&H.alternate!==null&&p.delete(H.key===null?M:H.key),o=u(H,o,M),C===null?A=H:C.sibling=H,C=H);return l&&p.forEach(function(ii){return t(r,ii)}),j&&St(r,M),A}function q(r,o,s,v){if(typeof s=="object"&&s!==null&&s.type===Xa&&s.key===null&&(s=s.props.children),typeof s=="object"&&s!==null){switch(s.$$typeof){case Cn:l:{for(var A=s.key;o!==null;){if(o.key===A){if(A=s.type,A===Xa){if(o.tag===7){a(r,o.sibling),v=n(o,s.props.children),v.return=r,r=v;break l}}else if(o.elementType===A||typeof A=="object"&&A!==null&&A.$$typeof===qt&&sa(A)===o.type){a(r,o.sibling),v=n(o,s.props),Ue(v,s),v.return=r,r=v;break l}a(r,o);break}else t(r,o);o=o.sibling}s.type===Xa?(v=ba(s.props.children,r.mode,v,s.key),v.return=r,r=v):(v=tu(s.type,s.key,s.props,null,r.mode,v),Ue(v,s),v.return=r,r=v)}return i(r);case Ye:l:{for(A=s.key;o!==null;){if(o.key===A)if(o.tag===4&&o.stateNode.containerInfo===s.containerInfo&&o.stateNode.implementation===s.implementation){a(r,o.sibling),v=n(o,s.children||[]),v.return=r,r=v;break l}else{a(r,o);break}else t(r,o);o=o.sibling}v=Bi(s,r.mode,v),v.return=r,r=v}return i(r);case qt:return s=sa(s),q(r,o,s,v)}if(qe(s))return E(r,o,s,v);if(Ne(s)){if(A=Ne(s),typeof A!="function")throw Error(h(150));return s=A.call(s),T(r,o,s,v)}if(typeof s.then=="function")return q(r,o,Ln(s),v);if(s.$$typeof===Et)return q(r,o,Xn(r,s),v);Zn(r,s)}return typeof s=="string"&&s!==""||typeof s=="number"||typeof s=="bigint"?(s=""+s,o!==null&&o.tag===6?(a(r,o.sibling),v=n(o,s),v.return=r,r=v):(a(r,o),v=Ci(s,r.mode,v),v.return=r,r=v),i(r)):a(r,o)}return function(r,o,s,v){try{cn=0;var A=q(r,o,s,v);return ee=null,A}catch(p){if(p===Se||p===Ju)throw p;var C=Rl(29,p,null,r.mode);return C.lanes=v,C.return=r,C}finally{}}}var za=wd(!0),Kd=wd(!1),jt=!1;function yf(l){l.updateQueue={baseState:l.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,lanes:0,hiddenCallbacks:null},callbacks:null}}function Tc(l,t){l=l.updateQueue,t.updateQueue===l&&(t.updateQueue={baseState:l.baseState,firstBaseUpdate:l.firstBaseUpdate,lastBaseUpdate:l.lastBaseUpdate,shared:l.shared,callbacks:null})}function $t(l){return{lane:l,tag:0,payload:null,callback:null,next:null}}function Ft(l,t,a){var e=l.updateQueue;if(e===null)return null;if(e=e.shared,(G&2)!==0){var n=e.pending;return n===null?t.next=t:(t.next=n.next,n.next=t),e.pending=t,t=hu(l),qd(l,null,a),t}return Ku(l,e,t,a),hu(l)}function we(l,t,a){if(t=t.updateQueue,t!==null&&(t=t.shared,(a&4194048)!==0)){var e=t.lanes;e&=l.pendingLanes,a|=e,t.lanes=a,rd(l,a)}}function Yi(l,t){var a=l.updateQueue,e=l.alternate;if(e!==null&&(e=e.updateQueue,a===e)){var n=null,u=null;if(a=a.firstBaseUpdate,a!==null){do{var i={lane:a.lane,tag:a.tag,payload:a.payload,callback:null,next:null};u===null?n=u=i:u=u.next=i,a=a.next}while(a!==null);u===null?n=u=t:u=u.next=t}else n=u=t;a={baseState:e.baseState,firstBaseUpdate:n,lastBaseUpdate:u,shared:e.shared,callbacks:e.callbacks},l.updateQueue=a;return}l=a.lastBaseUpdate,l===null?a.firstBaseUpdate=t:l.next=t,a.lastBaseUpdate=t}var Ac=!1;function Ke(){if(Ac){var l=ae;if(l!==null)throw l}}function Je(l,t,a,e){Ac=!1;var n=l.updateQueue;jt=!1;var u=n.firstBaseUpdate,i=n.lastBaseUpdate,c=n.shared.pending;if(c!==null){n.shared.pending=null;var f=c,d=f.next;f.next=null,i===null?u=d:i.next=d,i=f;var b=l.alternate;b!==null&&(b=b.updateQueue,c=b.lastBaseUpdate,c!==i&&(c===null?b.firstBaseUpdate=d:c.next=d,b.lastBaseUpdate=f))}if(u!==null){var y=n.baseState;i=0,b=d=f=null,c=u;do{var m=c.lane&-536870913,g=m!==c.lane;if(g?(Y&m)===m:(e&m)===m){m!==0&&m===oe&&(Ac=!0),b!==null&&(b=b.next={lane:0,tag:c.tag,payload:c.payload,callback:null,next:null});l:{var E=l,T=c;m=t;var q=a;switch(T.tag){case 1:if(E=T.payload,typeof E=="function"){y=E.call(q,y,m);break l}y=E;break l;case 3:E.flags=E.flags&-65537|128;case 0:if(E=T.payload,m=typeof E=="function"?E.call(q,y,m):E,m==null)break l;y=P({},y,m);break l;case 2:jt=!0}}m=c.callback,m!==null&&(l.flags|=64,g&&(l.flags|=8192),g=n.callbacks,g===null?n.callbacks=[m]:g.push(m))}else g={lane:m,tag:c.tag,payload:c.payload,callback:c.callback,next:null},b===null?(d=b=g,f=y):b=b.next=g,i|=m;if(c=c.next,c===null){if(c=n.shared.pending,c===null)break;g=c,c=g.next,g.next=null,n.lastBaseUpdate=g,n.shared.pending=null}}while(!0);b===null&&(f=y),n.baseState=f,n.firstBaseUpdate=d,n.lastBaseUpdate=b,u===null&&(n.shared.lanes=0),ia|=i,l.lanes=i,l.memoizedState=y}}function Jd(l,t){if(typeof l!="function")throw Error(h(191,l));l.call(t)}function kd(l,t){var a=l.callbacks;if(a!==null)for(l.callbacks=null,l=0;l<a.length;l++)Jd(a[l],t)}var re=st(null),Eu=st(0);function er(l,t){l=Ht,W(Eu,l),W(re,t),Ht=l|t.baseLanes}function Mc(){W(Eu,Ht),W(re,re.current)}function hf(){Ht=Eu.current,gl(re),gl(Eu)}var Ll=st(null),Fl=null;function Qt(l){var t=l.alternate;W(nl,nl.current&1),W(Ll,l),Fl===null&&(t===null||re.current!==null||t.memoizedState!==null)&&(Fl=l)}function xc(l){W(nl,nl.current),W(Ll,l),Fl===null&&(Fl=l)}function Wd(l){l.tag===22?(W(nl,nl.current),W(Ll,l),Fl===null&&(Fl=l)):Xt(l)}function Xt(){W(nl,nl.current),W(Ll,Ll.current)}function Bl(l){gl(Ll),Fl===l&&(Fl=null),gl(nl)}var nl=st(0);function Tu(l){for(var t=l;t!==null;){if(t.tag===13){var a=t.memoizedState;if(a!==null&&(a=a.dehydrated,a===null||wc(a)||Kc(a)))return t}else if(t.tag===19&&(t.memoizedProps.revealOrder==="forwards"||t.memoizedProps.revealOrder==="backwards"||t.memoizedProps.revealOrder==="unstable_legacy-backwards"||t.memoizedProps.revealOrder==="together")){if((t.flags&128)!==0)return t}else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===l)break;for(;t.sibling===null;){if(t.return===null||t.return===l)return null;t=t.return}t.sibling.return=t.return,t=t.sibling}return null}var Nt=0,D=null,w=null,il=null,Au=!1,ne=!1,Ea=!1,Mu=0,fn=0,ue=null,Lm=0;function al(){throw Error(h(321))}function pf(l,t){if(t===null)return!1;for(var a=0;a<t.length&&a<l.length;a++)if(!Xl(l[a],t[a]))return!1;return!0}function Sf(l,t,a,e,n,u){return Nt=u,D=t,t.memoizedState=null,t.updateQueue=null,t.lanes=0,x.H=l===null||l.memoizedState===null?xs:Uf,Ea=!1,u=a(e,n),Ea=!1,ne&&(u=Fd(t,a,e,n)),$d(l),u}function $d(l){x.H=on;var t=w!==null&&w.next!==null;if(Nt=0,il=w=D=null,Au=!1,fn=0,ue=null,t)throw Error(h(300));l===null||ol||(l=l.dependencies,l!==null&&Su(l)&&(ol=!0))}function Fd(l,t,a,e){D=l;var n=0;do{if(ne&&(ue=null),fn=0,ne=!1,25<=n)throw Error(h(301));if(n+=1,il=w=null,l.updateQueue!=null){var u=l.updateQueue;u.lastEffect=null,u.events=null,u.stores=null,u.memoCache!=null&&(u.memoCache.index=0)}x.H=Os,u=t(a,e)}while(ne);return u}function Zm(){var l=x.H,t=l.useState()[0];return t=typeof t.then=="function"?En(t):t,l=l.useState()[0],(w!==null?w.memoizedState:null)!==l&&(D.flags|=1024),t}function zf(){var l=Mu!==0;return Mu=0,l}function Ef(l,t,a){t.updateQueue=l.updateQueue,t.flags&=-2053,l.lanes&=~a}function Tf(l){if(Au){for(l=l.memoizedState;l!==null;){var t=l.queue;t!==null&&(t.pending=null),l=l.next}Au=!1}Nt=0,il=w=D=null,ne=!1,fn=Mu=0,ue=null}function Al(){var l={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return il===null?D.memoizedState=il=l:il=il.next=l,il}function ul(){if(w===null){var l=D.alternate;l=l!==null?l.memoizedState:null}else l=w.next;var t=il===null?D.memoizedState:il.next;if(t!==null)il=t,w=l;else{if(l===null)throw D.alternate===null?Error(h(467)):Error(h(310));w=l,l={memoizedState:w.memoizedState,baseState:w.baseState,baseQueue:w.baseQueue,queue:w.queue,next:null},il===null?D.memoizedState=il=l:il=il.next=l}return il}function ku(){return{lastEffect:null,events:null,stores:null,memoCache:null}}function En(l){var t=fn;return fn+=1,ue===null&&(ue=[]),l=Vd(ue,l,t),t=D,(il===null?t.memoizedState:il.next)===null&&(t=t.alternate,x.H=t===null||t.memoizedState===null?xs:Uf),l}function Wu(l){if(l!==null&&typeof l=="object"){if(typeof l.then=="function")return En(l);if(l.$$typeof===Et)return pl(l)}throw Error(h(438,String(l)))}function Af(l){var t=null,a=D.updateQueue;if(a!==null&&(t=a.memoCache),t==null){var e=D.alternate;e!==null&&(e=e.updateQueue,e!==null&&(e=e.memoCache,e!=null&&(t={data:e.data.map(function(n){return n.slice()}),index:0})))}if(t==null&&(t={data:[],index:0}),a===null&&(a=ku(),D.updateQueue=a),a.memoCache=t,a=t.data[t.index],a===void 0)for(a=t.data[t.index]=Array(l),e=0;e<l;e++)a[e]=_1;return t.index++,a}function Dt(l,t){return typeof t=="function"?t(l):t}function eu(l){var t=ul();return Mf(t,w,l)}function Mf(l,t,a){var e=l.queue;if(e===null)throw Error(h(311));e.lastRenderedReducer=a;var n=l.baseQueue,u=e.pending;if(u!==null){if(n!==null){var i=n.next;n.next=u.next,u.next=i}t.baseQueue=n=u,e.pending=null}if(u=l.baseState,n===null)l.memoizedState=u;else{t=n.next;var c=i=null,f=null,d=t,b=!1;do{var y=d.lane&-536870913;if(y!==d.lane?(Y&y)===y:(Nt&y)===y){var m=d.revertLane;if(m===0)f!==null&&(f=f.next={lane:0,revertLane:0,gesture:null,action:d.action,hasEagerState:d.hasEagerState,eagerState:d.eagerState,next:null}),y===oe&&(b=!0);else if((Nt&m)===m){d=d.next,m===oe&&(b=!0);continue}else y={lane:0,revertLane:d.revertLane,gesture:null,action:d.action,hasEagerState:d.hasEagerState,eagerState:d.eagerState,next:null},f===null?(c=f=y,i=u):f=f.next=y,D.lanes|=m,ia|=m;y=d.action,Ea&&a(u,y),u=d.hasEagerState?d.eagerState:a(u,y)}else m={lane:y,revertLane:d.revertLane,gesture:d.gesture,action:d.action,hasEagerState:d.hasEagerState,eagerState:d.eagerState,next:null},f===null?(c=f=m,i=u):f=f.next=m,D.lanes|=y,ia|=y;d=d.next}while(d!==null&&d!==t);if(f===null?i=u:f.next=c,!Xl(u,l.memoizedState)&&(ol=!0,b&&(a=ae,a!==null)))throw a;l.memoizedState=u,l.baseState=i,l.baseQueue=f,e.lastRenderedState=u}return n===null&&(e.lanes=0),[l.memoizedState,e.dispatch]}function qi(l){var t=ul(),a=t.queue;if(a===null)throw Error(h(311));a.lastRenderedReducer=l;var e=a.dispatch,n=a.pending,u=t.memoizedState;if(n!==null){a.pending=null;var i=n=n.next;do u=l(u,i.action),i=i.next;while(i!==n);Xl(u,t.memoizedState)||(ol=!0),t.memoizedState=u,t.baseQueue===null&&(t.baseState=u),a.lastRenderedState=u}return[u,e]}function Id(l,t,a){var e=D,n=ul(),u=j;if(u){if(a===void 0)throw Error(h(407));a=a()}else a=t();var i=!Xl((w||n).memoizedState,a);if(i&&(n.memoizedState=a,ol=!0),n=n.queue,xf(ts.bind(null,e,n,l),[l]),n.getSnapshot!==t||i||il!==null&&il.memoizedState.tag&1){if(e.flags|=2048,de(9,{destroy:void 0},ls.bind(null,e,n,a,t),null),J===null)throw Error(h(349));u||(Nt&127)!==0||Pd(e,t,a)}return a}function Pd(l,t,a){l.flags|=16384,l={getSnapshot:t,value:a},t=D.updateQueue,t===null?(t=ku(),D.updateQueue=t,t.stores=[l]):(a=t.stores,a===null?t.stores=[l]:a.push(l))}function ls(l,t,a,e){t.value=a,t.getSnapshot=e,as(t)&&es(l)}function ts(l,t,a){return a(function(){as(t)&&es(l)})}function as(l){var t=l.getSnapshot;l=l.value;try{var a=t();return!Xl(l,a)}catch{return!0}}function es(l){var t=Oa(l,2);t!==null&&Nl(t,l,2)}function Oc(l){var t=Al();if(typeof l=="function"){var a=l;if(l=a(),Ea){Zt(!0);try{a()}finally{Zt(!1)}}}return t.memoizedState=t.baseState=l,t.queue={pending:null,lanes:0,dispatch:null,lastRenderedReducer:Dt,lastRenderedState:l},t}function ns(l,t,a,e){return l.baseState=a,Mf(l,w,typeof e=="function"?e:Dt)}function Vm(l,t,a,e,n){if(Fu(l))throw Error(h(485));if(l=t.action,l!==null){var u={payload:n,action:l,next:null,isTransition:!0,status:"pending",value:null,reason:null,listeners:[],then:function(i){u.listeners.push(i)}};x.T!==null?a(!0):u.isTransition=!1,e(u),a=t.pending,a===null?(u.next=t.pending=u,us(t,u)):(u.next=a.next,t.pending=a.next=u)}}function us(l,t){var a=t.action,e=t.payload,n=l.state;if(t.isTransition){var u=x.T,i={};x.T=i;try{var c=a(n,e),f=x.S;f!==null&&f(i,c),nr(l,t,c)}catch(d){_c(l,t,d)}finally{u!==null&&i.types!==null&&(u.types=i.types),x.T=u}}else try{u=a(n,e),nr(l,t,u)}catch(d){_c(l,t,d)}}function nr(l,t,a){a!==null&&typeof a=="object"&&typeof a.then=="function"?a.then(function(e){ur(l,t,e)},function(e){return _c(l,t,e)}):ur(l,t,a)}function ur(l,t,a){t.status="fulfilled",t.value=a,is(t),l.state=a,t=l.pending,t!==null&&(a=t.next,a===t?l.pending=null:(a=a.next,t.next=a,us(l,a)))}function _c(l,t,a){var e=l.pending;if(l.pending=null,e!==null){e=e.next;do t.status="rejected",t.reason=a,is(t),t=t.next;while(t!==e)}l.action=null}function is(l){l=l.listeners;for(var t=0;t<l.length;t++)(0,l[t])()}function cs(l,t){return t}function ir(l,t){if(j){var a=J.formState;if(a!==null){l:{var e=D;if(j){if(I){t:{for(var n=I,u=$l;n.nodeType!==8;){if(!u){n=null;break t}if(n=Il(n.nextSibling),n===null){n=null;break t}}u=n.data,n=u==="F!"||u==="F"?n:null}if(n){I=Il(n.nextSibling),e=n.data==="F!";break l}}na(e)}e=!1}e&&(t=a[0])}}return a=Al(),a.memoizedState=a.baseState=t,e={pending:null,lanes:0,dispatch:null,lastRenderedReducer:cs,lastRenderedState:t},a.queue=e,a=Ts.bind(null,D,e),e.dispatch=a,e=Oc(!1),u=Df.bind(null,D,!1,e.queue),e=Al(),n={state:t,dispatch:null,action:l,pending:null},e.queue=n,a=Vm.bind(null,D,n,u,a),n.dispatch=a,e.memoizedState=l,[t,a,!1]}function cr(l){var t=ul();return fs(t,w,l)}function fs(l,t,a){if(t=Mf(l,t,cs)[0],l=eu(Dt)[0],typeof t=="object"&&t!==null&&typeof t.then=="function")try{var e=En(t)}catch(i){throw i===Se?Ju:i}else e=t;t=ul();var n=t.queue,u=n.dispatch;return a!==t.memoizedState&&(D.flags|=2048,de(9,{destroy:void 0},wm.bind(null,n,a),null)),[e,u,l]}function wm(l,t){l.action=t}function fr(l){var t=ul(),a=w;if(a!==null)return fs(t,a,l);ul(),t=t.memoizedState,a=ul();var e=a.queue.dispatch;return a.memoizedState=l,[t,e,!1]}function de(l,t,a,e){return l={tag:l,create:a,deps:e,inst:t,next:null},t=D.updateQueue,t===null&&(t=ku(),D.updateQueue=t),a=t.lastEffect,a===null?t.lastEffect=l.next=l:(e=a.next,a.next=l,l.next=e,t.lastEffect=l),l}function os(){return ul().memoizedState}function nu(l,t,a,e){var n=Al();D.flags|=l,n.memoizedState=de(1|t,{destroy:void 0},a,e===void 0?null:e)}function $u(l,t,a,e){var n=ul();e=e===void 0?null:e;var u=n.memoizedState.inst;w!==null&&e!==null&&pf(e,w.memoizedState.deps)?n.memoizedState=de(t,u,a,e):(D.flags|=l,n.memoizedState=de(1|t,u,a,e))}function or(l,t){nu(8390656,8,l,t)}function xf(l,t){$u(2048,8,l,t)}function Km(l){D.flags|=4;var t=D.updateQueue;if(t===null)t=ku(),D.updateQueue=t,t.events=[l];else{var a=t.events;a===null?t.events=[l]:a.push(l)}}function rs(l){var t=ul().memoizedState;return Km({ref:t,nextImpl:l}),function(){if((G&2)!==0)throw Error(h(440));return t.impl.apply(void 0,arguments)}}function ds(l,t){return $u(4,2,l,t)}function ss(l,t){return $u(4,4,l,t)}function ms(l,t){if(typeof t=="function"){l=l();var a=t(l);return function(){typeof a=="function"?a():t(null)}}if(t!=null)return l=l(),t.current=l,function(){t.current=null}}function gs(l,t,a){a=a!=null?a.concat([l]):null,$u(4,4,ms.bind(null,t,l),a)}function Of(){}function bs(l,t){var a=ul();t=t===void 0?null:t;var e=a.memoizedState;return t!==null&&pf(t,e[1])?e[0]:(a.memoizedState=[l,t],l)}function vs(l,t){var a=ul();t=t===void 0?null:t;var e=a.memoizedState;if(t!==null&&pf(t,e[1]))return e[0];if(e=l(),Ea){Zt(!0);try{l()}finally{Zt(!1)}}return a.memoizedState=[e,t],e}function _f(l,t,a){return a===void 0||(Nt&1073741824)!==0&&(Y&261930)===0?l.memoizedState=t:(l.memoizedState=a,l=n0(),D.lanes|=l,ia|=l,a)}function ys(l,t,a,e){return Xl(a,t)?a:re.current!==null?(l=_f(l,a,e),Xl(l,t)||(ol=!0),l):(Nt&42)===0||(Nt&1073741824)!==0&&(Y&261930)===0?(ol=!0,l.memoizedState=a):(l=n0(),D.lanes|=l,ia|=l,t)}function hs(l,t,a,e,n){var u=Q.p;Q.p=u!==0&&8>u?u:8;var i=x.T,c={};x.T=c,Df(l,!1,t,a);try{var f=n(),d=x.S;if(d!==null&&d(c,f),f!==null&&typeof f=="object"&&typeof f.then=="function"){var b=Xm(f,e);ke(l,t,b,Ql(l))}else ke(l,t,e,Ql(l))}catch(y){ke(l,t,{then:function(){},status:"rejected",reason:y},Ql())}finally{Q.p=u,i!==null&&c.types!==null&&(i.types=c.types),x.T=i}}function Jm(){}function Nc(l,t,a,e){if(l.tag!==5)throw Error(h(476));var n=ps(l).queue;hs(l,n,t,ga,a===null?Jm:function(){return Ss(l),a(e)})}function ps(l){var t=l.memoizedState;if(t!==null)return t;t={memoizedState:ga,baseState:ga,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Dt,lastRenderedState:ga},next:null};var a={};return t.next={memoizedState:a,baseState:a,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Dt,lastRenderedState:a},next:null},l.memoizedState=t,l=l.alternate,l!==null&&(l.memoizedState=t),t}function Ss(l){var t=ps(l);t.next===null&&(t=l.alternate.memoizedState),ke(l,t.next.queue,{},Ql())}function Nf(){return pl(sn)}function zs(){return ul().memoizedState}function Es(){return ul().memoizedState}function km(l){for(var t=l.return;t!==null;){switch(t.tag){case 24:case 3:var a=Ql();l=$t(a);var e=Ft(t,l,a);e!==null&&(Nl(e,t,a),we(e,t,a)),t={cache:gf()},l.payload=t;return}t=t.return}}function Wm(l,t,a){var e=Ql();a={lane:e,revertLane:0,gesture:null,action:a,hasEagerState:!1,eagerState:null,next:null},Fu(l)?As(t,a):(a=rf(l,t,a,e),a!==null&&(Nl(a,l,e),Ms(a,t,e)))}function Ts(l,t,a){var e=Ql();ke(l,t,a,e)}function ke(l,t,a,e){var n={lane:e,revertLane:0,gesture:null,action:a,hasEagerState:!1,eagerState:null,next:null};if(Fu(l))As(t,n);else{var u=l.alternate;if(l.lanes===0&&(u===null||u.lanes===0)&&(u=t.lastRenderedReducer,u!==null))try{var i=t.lastRenderedState,c=u(i,a);if(n.hasEagerState=!0,n.eagerState=c,Xl(c,i))return Ku(l,t,n,0),J===null&&wu(),!1}catch{}finally{}if(a=rf(l,t,n,e),a!==null)return Nl(a,l,e),Ms(a,t,e),!0}return!1}function Df(l,t,a,e){if(e={lane:2,revertLane:Gf(),gesture:null,action:e,hasEagerState:!1,eagerState:null,next:null},Fu(l)){if(t)throw Error(h(479))}else t=rf(l,a,e,2),t!==null&&Nl(t,l,2)}function Fu(l){var t=l.alternate;return l===D||t!==null&&t===D}function As(l,t){ne=Au=!0;var a=l.pending;a===null?t.next=t:(t.next=a.next,a.next=t),l.pending=t}function Ms(l,t,a){if((a&4194048)!==0){var e=t.lanes;e&=l.pendingLanes,a|=e,t.lanes=a,rd(l,a)}}var on={readContext:pl,use:Wu,useCallback:al,useContext:al,useEffect:al,useImperativeHandle:al,useLayoutEffect:al,useInsertionEffect:al,useMemo:al,useReducer:al,useRef:al,useState:al,useDebugValue:al,useDeferredValue:al,useTransition:al,useSyncExternalStore:al,useId:al,useHostTransitionStatus:al,useFormState:al,useActionState:al,useOptimistic:al,useMemoCache:al,useCacheRefresh:al};on.useEffectEvent=al;var xs={readContext:pl,use:Wu,useCallback:function(l,t){return Al().memoizedState=[l,t===void 0?null:t],l},useContext:pl,useEffect:or,useImperativeHandle:function(l,t,a){a=a!=null?a.concat([l]):null,nu(4194308,4,ms.bind(null,t,l),a)},useLayoutEffect:function(l,t){return nu(4194308,4,l,t)},useInsertionEffect:function(l,t){nu(4,2,l,t)},useMemo:function(l,t){var a=Al();t=t===void 0?null:t;var e=l();if(Ea){Zt(!0);try{l()}finally{Zt(!1)}}return a.memoizedState=[e,t],e},useReducer:function(l,t,a){var e=Al();if(a!==void 0){var n=a(t);if(Ea){Zt(!0);try{a(t)}finally{Zt(!1)}}}else n=t;return e.memoizedState=e.baseState=n,l={pending:null,lanes:0,dispatch:null,lastRenderedReducer:l,lastRenderedState:n},e.queue=l,l=l.dispatch=Wm.bind(null,D,l),[e.memoizedState,l]},useRef:function(l){var t=Al();return l={current:l},t.memoizedState=l},useState:function(l){l=Oc(l);var t=l.queue,a=Ts.bind(null,D,t);return t.dispatch=a,[l.memoizedState,a]},useDebugValue:Of,useDeferredValue:function(l,t){var a=Al();return _f(a,l,t)},useTransition:function(){var l=Oc(!1);return l=hs.bind(null,D,l.queue,!0,!1),Al().memoizedState=l,[!1,l]},useSyncExternalStore:function(l,t,a){var e=D,n=Al();if(j){if(a===void 0)throw Error(h(407));a=a()}else{if(a=t(),J===null)throw Error(h(349));(Y&127)!==0||Pd(e,t,a)}n.memoizedState=a;var u={value:a,getSnapshot:t};return n.queue=u,or(ts.bind(null,e,u,l),[l]),e.flags|=2048,de(9,{destroy:void 0},ls.bind(null,e,u,a,t),null),a},useId:function(){var l=Al(),t=J.identifierPrefix;if(j){var a=ot,e=ft;a=(e&~(1<<32-Gl(e)-1)).toString(32)+a,t="_"+t+"R_"+a,a=Mu++,0<a&&(t+="H"+a.toString(32)),t+="_"}else a=Lm++,t="_"+t+"r_"+a.toString(32)+"_";return l.memoizedState=t},useHostTransitionStatus:Nf,useFormState:ir,useActionState:ir,useOptimistic:function(l){var t=Al();t.memoizedState=t.baseState=l;var a={pending:null,lanes:0,dispatch:null,lastRenderedReducer:null,lastRenderedState:null};return t.queue=a,t=Df.bind(null,D,!0,a),a.dispatch=t,[l,t]},useMemoCache:Af,useCacheRefresh:function(){return Al().memoizedState=km.bind(null,D)},useEffectEvent:function(l){var t=Al(),a={impl:l};return t.memoizedState=a,function(){if((G&2)!==0)throw Error(h(440));return a.impl.apply(void 0,arguments)}}},Uf={readContext:pl,use:Wu,useCallback:bs,useContext:pl,useEffect:xf,useImperativeHandle:gs,useInsertionEffect:ds,useLayoutEffect:ss,useMemo:vs,useReducer:eu,useRef:os,useState:function(){return eu(Dt)},useDebugValue:Of,useDeferredValue:function(l,t){var a=ul();return ys(a,w.memoizedState,l,t)},useTransition:function(){var l=eu(Dt)[0],t=ul().memoizedState;return[typeof l=="boolean"?l:En(l),t]},useSyncExternalStore:Id,useId:zs,useHostTransitionStatus:Nf,useFormState:cr,useActionState:cr,useOptimistic:function(l,t){var a=ul();return ns(a,w,l,t)},useMemoCache:Af,useCacheRefresh:Es};Uf.useEffectEvent=rs;var Os={readContext:pl,use:Wu,useCallback:bs,useContext:pl,useEffect:xf,useImperativeHandle:gs,useInsertionEffect:ds,useLayoutEffect:ss,useMemo:vs,useReducer:qi,useRef:os,useState:function(){return qi(Dt)},useDebugValue:Of,useDeferredValue:function(l,t){var a=ul();return w===null?_f(a,l,t):ys(a,w.memoizedState,l,t)},useTransition:function(){var l=qi(Dt)[0],t=ul().memoizedState;return[typeof l=="boolean"?l:En(l),t]},useSyncExternalStore:Id,useId:zs,useHostTransitionStatus:Nf,useFormState:fr,useActionState:fr,useOptimistic:function(l,t){var a=ul();return w!==null?ns(a,w,l,t):(a.baseState=l,[l,a.queue.dispatch])},useMemoCache:Af,useCacheRefresh:Es};Os.useEffectEvent=rs;function ji(l,t,a,e){t=l.memoizedState,a=a(e,t),a=a==null?t:P({},t,a),l.memoizedState=a,l.lanes===0&&(l.updateQueue.baseState=a)}var Dc={enqueueSetState:function(l,t,a){l=l._reactInternals;var e=Ql(),n=$t(e);n.payload=t,a!=null&&(n.callback=a),t=Ft(l,n,e),t!==null&&(Nl(t,l,e),we(t,l,e))},enqueueReplaceState:function(l,t,a){l=l._reactInternals;var e=Ql(),n=$t(e);n.tag=1,n.payload=t,a!=null&&(n.callback=a),t=Ft(l,n,e),t!==null&&(Nl(t,l,e),we(t,l,e))},enqueueForceUpdate:function(l,t){l=l._reactInternals;var a=Ql(),e=$t(a);e.tag=2,t!=null&&(e.callback=t),t=Ft(l,e,a),t!==null&&(Nl(t,l,a),we(t,l,a))}};function rr(l,t,a,e,n,u,i){return l=l.stateNode,typeof l.shouldComponentUpdate=="function"?l.shouldComponentUpdate(e,u,i):t.prototype&&t.prototype.isPureReactComponent?!en(a,e)||!en(n,u):!0}function dr(l,t,a,e){l=t.state,typeof t.componentWillReceiveProps=="function"&&t.componentWillReceiveProps(a,e),typeof t.UNSAFE_componentWillReceiveProps=="function"&&t.UNSAFE_componentWillReceiveProps(a,e),t.state!==l&&Dc.enqueueReplaceState(t,t.state,null)}function Ta(l,t){var a=t;if("ref"in t){a={};for(var e in t)e!=="ref"&&(a[e]=t[e])}if(l=l.defaultProps){a===t&&(a=P({},a));for(var n in l)a[n]===void 0&&(a[n]=l[n])}return a}function _s(l){yu(l)}function Ns(l){console.error(l)}function Ds(l){yu(l)}function xu(l,t){try{var a=l.onUncaughtError;a(t.value,{componentStack:t.stack})}catch(e){setTimeout(function(){throw e})}}function sr(l,t,a){try{var e=l.onCaughtError;e(a.value,{componentStack:a.stack,errorBoundary:t.tag===1?t.stateNode:null})}catch(n){setTimeout(function(){throw n})}}function Uc(l,t,a){return a=$t(a),a.tag=3,a.payload={element:null},a.callback=function(){xu(l,t)},a}function Us(l){return l=$t(l),l.tag=3,l}function Hs(l,t,a,e){var n=a.type.getDerivedStateFromError;if(typeof n=="function"){var u=e.value;l.payload=function(){return n(u)},l.callback=function(){sr(t,a,e)}}var i=a.stateNode;i!==null&&typeof i.componentDidCatch=="function"&&(l.callback=function(){sr(t,a,e),typeof n!="function"&&(It===null?It=new Set([this]):It.add(this));var c=e.stack;this.componentDidCatch(e.value,{componentStack:c!==null?c:""})})}function $m(l,t,a,e,n){if(a.flags|=32768,e!==null&&typeof e=="object"&&typeof e.then=="function"){if(t=a.alternate,t!==null&&pe(t,a,n,!0),a=Ll.current,a!==null){switch(a.tag){case 31:case 13:return Fl===null?Uu():a.alternate===null&&el===0&&(el=3),a.flags&=-257,a.flags|=65536,a.lanes=n,e===zu?a.flags|=16384:(t=a.updateQueue,t===null?a.updateQueue=new Set([e]):t.add(e),Wi(l,e,n)),!1;case 22:return a.flags|=65536,e===zu?a.flags|=16384:(t=a.updateQueue,t===null?(t={transitions:null,markerInstances:null,retryQueue:new Set([e])},a.updateQueue=t):(a=t.retryQueue,a===null?t.retryQueue=new Set([e]):a.add(e)),Wi(l,e,n)),!1}throw Error(h(435,a.tag))}return Wi(l,e,n),Uu(),!1}if(j)return t=Ll.current,t!==null?((t.flags&65536)===0&&(t.flags|=256),t.flags|=65536,t.lanes=n,e!==hc&&(l=Error(h(422),{cause:e}),un(Wl(l,a)))):(e!==hc&&(t=Error(h(423),{cause:e}),un(Wl(t,a))),l=l.current.alternate,l.flags|=65536,n&=-n,l.lanes|=n,e=Wl(e,a),n=Uc(l.stateNode,e,n),Yi(l,n),el!==4&&(el=2)),!1;var u=Error(h(520),{cause:e});if(u=Wl(u,a),Fe===null?Fe=[u]:Fe.push(u),el!==4&&(el=2),t===null)return!0;e=Wl(e,a),a=t;do{switch(a.tag){case 3:return a.flags|=65536,l=n&-n,a.lanes|=l,l=Uc(a.stateNode,e,l),Yi(a,l),!1;case 1:if(t=a.type,u=a.stateNode,(a.flags&128)===0&&(typeof t.getDerivedStateFromError=="function"||u!==null&&typeof u.componentDidCatch=="function"&&(It===null||!It.has(u))))return a.flags|=65536,n&=-n,a.lanes|=n,n=Us(n),Hs(n,l,a,e),Yi(a,n),!1}a=a.return}while(a!==null);return!1}var Hf=Error(h(461)),ol=!1;function vl(l,t,a,e){t.child=l===null?Kd(t,null,a,e):za(t,l.child,a,e)}function mr(l,t,a,e,n){a=a.render;var u=t.ref;if("ref"in e){var i={};for(var c in e)c!=="ref"&&(i[c]=e[c])}else i=e;return Sa(t),e=Sf(l,t,a,i,u,n),c=zf(),l!==null&&!ol?(Ef(l,t,n),Ut(l,t,n)):(j&&c&&sf(t),t.flags|=1,vl(l,t,e,n),t.child)}function gr(l,t,a,e,n){if(l===null){var u=a.type;return typeof u=="function"&&!df(u)&&u.defaultProps===void 0&&a.compare===null?(t.tag=15,t.type=u,Cs(l,t,u,e,n)):(l=tu(a.type,null,e,t,t.mode,n),l.ref=t.ref,l.return=t,t.child=l)}if(u=l.child,!Cf(l,n)){var i=u.memoizedProps;if(a=a.compare,a=a!==null?a:en,a(i,e)&&l.ref===t.ref)return Ut(l,t,n)}return t.flags|=1,l=Mt(u,e),l.ref=t.ref,l.return=t,t.child=l}function Cs(l,t,a,e,n){if(l!==null){var u=l.memoizedProps;if(en(u,e)&&l.ref===t.ref)if(ol=!1,t.pendingProps=e=u,Cf(l,n))(l.flags&131072)!==0&&(ol=!0);else return t.lanes=l.lanes,Ut(l,t,n)}return Hc(l,t,a,e,n)}function Bs(l,t,a,e){var n=e.children,u=l!==null?l.memoizedState:null;if(l===null&&t.stateNode===null&&(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),e.mode==="hidden"){if((t.flags&128)!==0){if(u=u!==null?u.baseLanes|a:a,l!==null){for(e=t.child=l.child,n=0;e!==null;)n=n|e.lanes|e.childLanes,e=e.sibling;e=n&~u}else e=0,t.child=null;return br(l,t,u,a,e)}if((a&536870912)!==0)t.memoizedState={baseLanes:0,cachePool:null},l!==null&&au(t,u!==null?u.cachePool:null),u!==null?er(t,u):Mc(),Wd(t);else return e=t.lanes=536870912,br(l,t,u!==null?u.baseLanes|a:a,a,e)}else u!==null?(au(t,u.cachePool),er(t,u),Xt(t),t.memoizedState=null):(l!==null&&au(t,null),Mc(),Xt(t));return vl(l,t,n,a),t.child}function Ge(l,t){return l!==null&&l.tag===22||t.stateNode!==null||(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),t.sibling}function br(l,t,a,e,n){var u=bf();return u=u===null?null:{parent:fl._currentValue,pool:u},t.memoizedState={baseLanes:a,cachePool:u},l!==null&&au(t,null),Mc(),Wd(t),l!==null&&pe(l,t,e,!0),t.childLanes=n,null}function uu(l,t){return t=Ou({mode:t.mode,children:t.children},l.mode),t.ref=l.ref,l.child=t,t.return=l,t}function vr(l,t,a){return za(t,l.child,null,a),l=uu(t,t.pendingProps),l.flags|=2,Bl(t),t.memoizedState=null,l}function Fm(l,t,a){var e=t.pendingProps,n=(t.flags&128)!==0;if(t.flags&=-129,l===null){if(j){if(e.mode==="hidden")return l=uu(t,e),t.lanes=536870912,Ge(null,l);if(xc(t),(l=I)?(l=x0(l,$l),l=l!==null&&l.data==="&"?l:null,l!==null&&(t.memoizedState={dehydrated:l,treeContext:ea!==null?{id:ft,overflow:ot}:null,retryLane:536870912,hydrationErrors:null},a=Gd(l),a.return=t,t.child=a,hl=t,I=null)):l=null,l===null)throw na(t);return t.lanes=536870912,null}return uu(t,e)}var u=l.memoizedState;if(u!==null){var i=u.dehydrated;if(xc(t),n)if(t.flags&256)t.flags&=-257,t=vr(l,t,a);else if(t.memoizedState!==null)t.child=l.child,t.flags|=128,t=null;else throw Error(h(558));else if(ol||pe(l,t,a,!1),n=(a&l.childLanes)!==0,ol||n){if(e=J,e!==null&&(i=dd(e,a),i!==0&&i!==u.retryLane))throw u.retryLane=i,Oa(l,i),Nl(e,l,i),Hf;Uu(),t=vr(l,t,a)}else l=u.treeContext,I=Il(i.nextSibling),hl=t,j=!0,Wt=null,$l=!1,l!==null&&Xd(t,l),t=uu(t,e),t.flags|=4096;return t}return l=Mt(l.child,{mode:e.mode,children:e.children}),l.ref=t.ref,t.child=l,l.return=t,l}function iu(l,t){var a=t.ref;if(a===null)l!==null&&l.ref!==null&&(t.flags|=4194816);else{if(typeof a!="function"&&typeof a!="object")throw Error(h(284));(l===null||l.ref!==a)&&(t.flags|=4194816)}}function Hc(l,t,a,e,n){return Sa(t),a=Sf(l,t,a,e,void 0,n),e=zf(),l!==null&&!ol?(Ef(l,t,n),Ut(l,t,n)):(j&&e&&sf(t),t.flags|=1,vl(l,t,a,n),t.child)}function yr(l,t,a,e,n,u){return Sa(t),t.updateQueue=null,a=Fd(t,e,a,n),$d(l),e=zf(),l!==null&&!ol?(Ef(l,t,u),Ut(l,t,u)):(j&&e&&sf(t),t.flags|=1,vl(l,t,a,u),t.child)}function hr(l,t,a,e,n){if(Sa(t),t.stateNode===null){var u=Wa,i=a.contextType;typeof i=="object"&&i!==null&&(u=pl(i)),u=new a(e,u),t.memoizedState=u.state!==null&&u.state!==void 0?u.state:null,u.updater=Dc,t.stateNode=u,u._reactInternals=t,u=t.stateNode,u.props=e,u.state=t.memoizedState,u.refs={},yf(t),i=a.contextType,u.context=typeof i=="object"&&i!==null?pl(i):Wa,u.state=t.memoizedState,i=a.getDerivedStateFromProps,typeof i=="function"&&(ji(t,a,i,e),u.state=t.memoizedState),typeof a.getDerivedStateFromProps=="function"||typeof u.getSnapshotBeforeUpdate=="function"||typeof u.UNSAFE_componentWillMount!="function"&&typeof u.componentWillMount!="function"||(i=u.state,typeof u.componentWillMount=="function"&&u.componentWillMount(),typeof u.UNSAFE_componentWillMount=="function"&&u.UNSAFE_componentWillMount(),i!==u.state&&Dc.enqueueReplaceState(u,u.state,null),Je(t,e,u,n),Ke(),u.state=t.memoizedState),typeof u.componentDidMount=="function"&&(t.flags|=4194308),e=!0}else if(l===null){u=t.stateNode;var c=t.memoizedProps,f=Ta(a,c);u.props=f;var d=u.context,b=a.contextType;i=Wa,typeof b=="object"&&b!==null&&(i=pl(b));var y=a.getDerivedStateFromProps;b=typeof y=="function"||typeof u.getSnapshotBeforeUpdate=="function",c=t.pendingProps!==c,b||typeof u.UNSAFE_componentWillReceiveProps!="function"&&typeof u.componentWillReceiveProps!="function"||(c||d!==i)&&dr(t,u,e,i),jt=!1;var m=t.memoizedState;u.state=m,Je(t,e,u,n),Ke(),d=t.memoizedState,c||m!==d||jt?(typeof y=="function"&&(ji(t,a,y,e),d=t.memoizedState),(f=jt||rr(t,a,f,e,m,d,i))?(b||typeof u.UNSAFE_componentWillMount!="function"&&typeof u.componentWillMount!="function"||(typeof u.componentWillMount=="function"&&u.componentWillMount(),typeof u.UNSAFE_componentWillMount=="function"&&u.UNSAFE_componentWillMount()),typeof u.componentDidMount=="function"&&(t.flags|=4194308)):(typeof u.componentDidMount=="function"&&(t.flags|=4194308),t.memoizedProps=e,t.memoizedState=d),u.props=e,u.state=d,u.context=i,e=f):(typeof u.componentDidMount=="function"&&(t.flags|=4194308),e=!1)}else{u=t.stateNode,Tc(l,t),i=t.memoizedProps,b=Ta(a,i),u.props=b,y=t.pendingProps,m=u.context,d=a.contextType,f=Wa,typeof d=="object"&&d!==null&&(f=pl(d)),c=a.getDerivedStateFromProps,(d=typeof c=="function"||typeof u.getSnapshotBeforeUpdate=="function")||typeof u.UNSAFE_componentWillReceiveProps!="function"&&typeof u.componentWillReceiveProps!="function"||(i!==y||m!==f)&&dr(t,u,e,f),jt=!1,m=t.memoizedState,u.state=m,Je(t,e,u,n),Ke();var g=t.memoizedState;i!==y||m!==g||jt||l!==null&&l.dependencies!==null&&Su(l.dependencies)?(typeof c=="function"&&(ji(t,a,c,e),g=t.memoizedState),(b=jt||rr(t,a,b,e,m,g,f)||l!==null&&l.dependencies!==null&&Su(l.dependencies))?(d||typeof u.UNSAFE_componentWillUpdate!="function"&&typeof u.componentWillUpdate!="function"||(typeof u.componentWillUpdate=="function"&&u.componentWillUpdate(e,g,f),typeof u.UNSAFE_componentWillUpdate=="function"&&u.UNSAFE_componentWillUpdate(e,g,f)),typeof u.componentDidUpdate=="function"&&(t.flags|=4),typeof u.getSnapshotBeforeUpdate=="function"&&(t.flags|=1024)):(typeof u.componentDidUpdate!="function"||i===l.memoizedProps&&m===l.memoizedState||(t.flags|=4),typeof u.getSnapshotBeforeUpdate!="function"||i===l.memoizedProps&&m===l.memoizedState||(t.flags|=1024),t.memoizedProps=e,t.memoizedState=g),u.props=e,u.state=g,u.context=f,e=b):(typeof u.componentDidUpdate!="function"||i===l.memoizedProps&&m===l.memoizedState||(t.flags|=4),typeof u.getSnapshotBeforeUpdate!="function"||i===l.memoizedProps&&m===l.memoizedState||(t.flags|=1024),e=!1)}return u=e,iu(l,t),e=(t.flags&128)!==0,u||e?(u=t.stateNode,a=e&&typeof a.getDerivedStateFromError!="function"?null:u.render(),t.flags|=1,l!==null&&e?(t.child=za(t,l.child,null,n),t.child=za(t,null,a,n)):vl(l,t,a,n),t.memoizedState=u.state,l=t.child):l=Ut(l,t,n),l}function pr(l,t,a,e){return pa(),t.flags|=256,vl(l,t,a,e),t.child}var Gi={dehydrated:null,treeContext:null,retryLane:0,hydrationErrors:null};function Qi(l){return{baseLanes:l,cachePool:Zd()}}function Xi(l,t,a){return l=l!==null?l.childLanes&~a:0,t&&(l|=Yl),l}function Rs(l,t,a){var e=t.pendingProps,n=!1,u=(t.flags&128)!==0,i;if((i=u)||(i=l!==null&&l.memoizedState===null?!1:(nl.current&2)!==0),i&&(n=!0,t.flags&=-129),i=(t.flags&32)!==0,t.flags&=-33,l===null){if(j){if(n?Qt(t):Xt(t),(l=I)?(l=x0(l,$l),l=l!==null&&l.data!=="&"?l:null,l!==null&&(t.memoizedState={dehydrated:l,treeContext:ea!==null?{id:ft,overflow:ot}:null,retryLane:536870912,hydrationErrors:null},a=Gd(l),a.return=t,t.child=a,hl=t,I=null)):l=null,l===null)throw na(t);return Kc(l)?t.lanes=32:t.lanes=536870912,null}var c=e.children;return e=e.fallback,n?(Xt(t),n=t.mode,c=Ou({mode:"hidden",children:c},n),e=ba(e,n,a,null),c.return=t,e.return=t,c.sibling=e,t.child=c,e=t.child,e.memoizedState=Qi(a),e.childLanes=Xi(l,i,a),t.memoizedState=Gi,Ge(null,e)):(Qt(t),Cc(t,c))}var f=l.memoizedState;if(f!==null&&(c=f.dehydrated,c!==null)){if(u)t.flags&256?(Qt(t),t.flags&=-257,t=Li(l,t,a)):t.memoizedState!==null?(Xt(t),t.child=l.child,t.flags|=128,t=null):(Xt(t),c=e.fallback,n=t.mode,e=Ou({mode:"visible",children:e.children},n),c=ba(c,n,a,null),c.flags|=2,e.return=t,c.return=t,e.sibling=c,t.child=e,za(t,l.child,null,a),e=t.child,e.memoizedState=Qi(a),e.childLanes=Xi(l,i,a),t.memoizedState=Gi,t=Ge(null,e));else if(Qt(t),Kc(c)){if(i=c.nextSibling&&c.nextSibling.dataset,i)var d=i.dgst;i=d,e=Error(h(419)),e.stack="",e.digest=i,un({value:e,source:null,stack:null}),t=Li(l,t,a)}else if(ol||pe(l,t,a,!1),i=(a&l.childLanes)!==0,ol||i){if(i=J,i!==null&&(e=dd(i,a),e!==0&&e!==f.retryLane))throw f.retryLane=e,Oa(l,e),Nl(i,l,e),Hf;wc(c)||Uu(),t=Li(l,t,a)}else wc(c)?(t.flags|=192,t.child=l.child,t=null):(l=f.treeContext,I=Il(c.nextSibling),hl=t,j=!0,Wt=null,$l=!1,l!==null&&Xd(t,l),t=Cc(t,e.children),t.flags|=4096);return t}return n?(Xt(t),c=e.fallback,n=t.mode,f=l.child,d=f.sibling,e=Mt(f,{mode:"hidden",children:e.children}),e.subtreeFlags=f.subtreeFlags&65011712,d!==null?c=Mt(d,c):(c=ba(c,n,a,null),c.flags|=2),c.return=t,e.return=t,e.sibling=c,t.child=e,Ge(null,e),e=t.child,c=l.child.memoizedState,c===null?c=Qi(a):(n=c.cachePool,n!==null?(f=fl._currentValue,n=n.parent!==f?{parent:f,pool:f}:n):n=Zd(),c={baseLanes:c.baseLanes|a,cachePool:n}),e.memoizedState=c,e.childLanes=Xi(l,i,a),t.memoizedState=Gi,Ge(l.child,e)):(Qt(t),a=l.child,l=a.sibling,a=Mt(a,{mode:"visible",children:e.children}),a.return=t,a.sibling=null,l!==null&&(i=t.deletions,i===null?(t.deletions=[l],t.flags|=16):i.push(l)),t.child=a,t.memoizedState=null,a)}function Cc(l,t){return t=Ou({mode:"visible",children:t},l.mode),t.return=l,l.child=t}function Ou(l,t){return l=Rl(22,l,null,t),l.lanes=0,l}function Li(l,t,a){return za(t,l.child,null,a),l=Cc(t,t.pendingProps.children),l.flags|=2,t.memoizedState=null,l}function Sr(l,t,a){l.lanes|=t;var e=l.alternate;e!==null&&(e.lanes|=t),Sc(l.return,t,a)}function Zi(l,t,a,e,n,u){var i=l.memoizedState;i===null?l.memoizedState={isBackwards:t,rendering:null,renderingStartTime:0,last:e,tail:a,tailMode:n,treeForkCount:u}:(i.isBackwards=t,i.rendering=null,i.renderingStartTime=0,i.last=e,i.tail=a,i.tailMode=n,i.treeForkCount=u)}function Ys(l,t,a){var e=t.pendingProps,n=e.revealOrder,u=e.tail;e=e.children;var i=nl.current,c=(i&2)!==0;if(c?(i=i&1|2,t.flags|=128):i&=1,W(nl,i),vl(l,t,e,a),e=j?nn:0,!c&&l!==null&&(l.flags&128)!==0)l:for(l=t.child;l!==null;){if(l.tag===13)l.memoizedState!==null&&Sr(l,a,t);else if(l.tag===19)Sr(l,a,t);else if(l.child!==null){l.child.return=l,l=l.child;continue}if(l===t)break l;for(;l.sibling===null;){if(l.return===null||l.return===t)break l;l=l.return}l.sibling.return=l.return,l=l.sibling}switch(n){case"forwards":for(a=t.child,n=null;a!==null;)l=a.alternate,l!==null&&Tu(l)===null&&(n=a),a=a.sibling;a=n,a===null?(n=t.child,t.child=null):(n=a.sibling,a.sibling=null),Zi(t,!1,n,a,u,e);break;case"backwards":case"unstable_legacy-backwards":for(a=null,n=t.child,t.child=null;n!==null;){if(l=n.alternate,l!==null&&Tu(l)===null){t.child=n;break}l=n.sibling,n.sibling=a,a=n,n=l}Zi(t,!0,a,null,u,e);break;case"together":Zi(t,!1,null,null,void 0,e);break;default:t.memoizedState=null}return t.child}function Ut(l,t,a){if(l!==null&&(t.dependencies=l.dependencies),ia|=t.lanes,(a&t.childLanes)===0)if(l!==null){if(pe(l,t,a,!1),(a&t.childLanes)===0)return null}else return null;if(l!==null&&t.child!==l.child)throw Error(h(153));if(t.child!==null){for(l=t.child,a=Mt(l,l.pendingProps),t.child=a,a.return=t;l.sibling!==null;)l=l.sibling,a=a.sibling=Mt(l,l.pendingProps),a.return=t;a.sibling=null}return t.child}function Cf(l,t){return(l.lanes&t)!==0?!0:(l=l.dependencies,!!(l!==null&&Su(l)))}function Im(l,t,a){switch(t.tag){case 3:mu(t,t.stateNode.containerInfo),Gt(t,fl,l.memoizedState.cache),pa();break;case 27:case 5:cc(t);break;case 4:mu(t,t.stateNode.containerInfo);break;case 10:Gt(t,t.type,t.memoizedProps.value);break;case 31:if(t.memoizedState!==null)return t.flags|=128,xc(t),null;break;case 13:var e=t.memoizedState;if(e!==null)return e.dehydrated!==null?(Qt(t),t.flags|=128,null):(a&t.child.childLanes)!==0?Rs(l,t,a):(Qt(t),l=Ut(l,t,a),l!==null?l.sibling:null);Qt(t);break;case 19:var n=(l.flags&128)!==0;if(e=(a&t.childLanes)!==0,e||(pe(l,t,a,!1),e=(a&t.childLanes)!==0),n){if(e)return Ys(l,t,a);t.flags|=128}if(n=t.memoizedState,n!==null&&(n.rendering=null,n.tail=null,n.lastEffect=null),W(nl,nl.current),e)break;return null;case 22:return t.lanes=0,Bs(l,t,a,t.pendingProps);case 24:Gt(t,fl,l.memoizedState.cache)}return Ut(l,t,a)}function qs(l,t,a){if(l!==null)if(l.memoizedProps!==t.pendingProps)ol=!0;else{if(!Cf(l,a)&&(t.flags&128)===0)return ol=!1,Im(l,t,a);ol=(l.flags&131072)!==0}else ol=!1,j&&(t.flags&1048576)!==0&&Qd(t,nn,t.index);switch(t.lanes=0,t.tag){case 16:l:{var e=t.pendingProps;if(l=sa(t.elementType),t.type=l,typeof l=="function")df(l)?(e=Ta(l,e),t.tag=1,t=hr(null,t,l,e,a)):(t.tag=0,t=Hc(null,t,l,e,a));else{if(l!=null){var n=l.$$typeof;if(n===$c){t.tag=11,t=mr(null,t,l,e,a);break l}else if(n===Fc){t.tag=14,t=gr(null,t,l,e,a);break l}}throw t=uc(l)||l,Error(h(306,t,""))}}return t;case 0:return Hc(l,t,t.type,t.pendingProps,a);case 1:return e=t.type,n=Ta(e,t.pendingProps),hr(l,t,e,n,a);case 3:l:{if(mu(t,t.stateNode.containerInfo),l===null)throw Error(h(387));e=t.pendingProps;var u=t.memoizedState;n=u.element,Tc(l,t),Je(t,e,null,a);var i=t.memoizedState;if(e=i.cache,Gt(t,fl,e),e!==u.cache&&zc(t,[fl],a,!0),Ke(),e=i.element,u.isDehydrated)if(u={element:e,isDehydrated:!1,cache:i.cache},t.updateQueue.baseState=u,t.memoizedState=u,t.flags&256){t=pr(l,t,e,a);break l}else if(e!==n){n=Wl(Error(h(424)),t),un(n),t=pr(l,t,e,a);break l}else{switch(l=t.stateNode.containerInfo,l.nodeType){case 9:l=l.body;break;default:l=l.nodeName==="HTML"?l.ownerDocument.body:l}for(I=Il(l.firstChild),hl=t,j=!0,Wt=null,$l=!0,a=Kd(t,null,e,a),t.child=a;a;)a.flags=a.flags&-3|4096,a=a.sibling}else{if(pa(),e===n){t=Ut(l,t,a);break l}vl(l,t,e,a)}t=t.child}return t;case 26:return iu(l,t),l===null?(a=Lr(t.type,null,t.pendingProps,null))?t.memoizedState=a:j||(a=t.type,l=t.pendingProps,e=Ru(kt.current).createElement(a),e[yl]=t,e[Dl]=l,Sl(e,a,l),ml(e),t.stateNode=e):t.memoizedState=Lr(t.type,l.memoizedProps,t.pendingProps,l.memoizedState),null;case 27:return cc(t),l===null&&j&&(e=t.stateNode=O0(t.type,t.pendingProps,kt.current),hl=t,$l=!0,n=I,fa(t.type)?(Jc=n,I=Il(e.firstChild)):I=n),vl(l,t,t.pendingProps.children,a),iu(l,t),l===null&&(t.flags|=4194304),t.child;case 5:return l===null&&j&&((n=e=I)&&(e=xg(e,t.type,t.pendingProps,$l),e!==null?(t.stateNode=e,hl=t,I=Il(e.firstChild),$l=!1,n=!0):n=!1),n||na(t)),cc(t),n=t.type,u=t.pendingProps,i=l!==null?l.memoizedProps:null,e=u.children,Zc(n,u)?e=null:i!==null&&Zc(n,i)&&(t.flags|=32),t.memoizedState!==null&&(n=Sf(l,t,Zm,null,null,a),sn._currentValue=n),iu(l,t),vl(l,t,e,a),t.child;case 6:return l===null&&j&&((l=a=I)&&(a=Og(a,t.pendingProps,$l),a!==null?(t.stateNode=a,hl=t,I=null,l=!0):l=!1),l||na(t)),null;case 13:return Rs(l,t,a);case 4:return mu(t,t.stateNode.containerInfo),e=t.pendingProps,l===null?t.child=za(t,null,e,a):vl(l,t,e,a),t.child;case 11:return mr(l,t,t.type,t.pendingProps,a);case 7:return vl(l,t,t.pendingProps,a),t.child;case 8:return vl(l,t,t.pendingProps.children,a),t.child;case 12:return vl(l,t,t.pendingProps.children,a),t.child;case 10:return e=t.pendingProps,Gt(t,t.type,e.value),vl(l,t,e.children,a),t.child;case 9:return n=t.type._context,e=t.pendingProps.children,Sa(t),n=pl(n),e=e(n),t.flags|=1,vl(l,t,e,a),t.child;case 14:return gr(l,t,t.type,t.pendingProps,a);case 15:return Cs(l,t,t.type,t.pendingProps,a);case 19:return Ys(l,t,a);case 31:return Fm(l,t,a);case 22:return Bs(l,t,a,t.pendingProps);case 24:return Sa(t),e=pl(fl),l===null?(n=bf(),n===null&&(n=J,u=gf(),n.pooledCache=u,u.refCount++,u!==null&&(n.pooledCacheLanes|=a),n=u),t.memoizedState={parent:e,cache:n},yf(t),Gt(t,fl,n)):((l.lanes&a)!==0&&(Tc(l,t),Je(t,null,null,a),Ke()),n=l.memoizedState,u=t.memoizedState,n.parent!==e?(n={parent:e,cache:e},t.memoizedState=n,t.lanes===0&&(t.memoizedState=t.updateQueue.baseState=n),Gt(t,fl,e)):(e=u.cache,Gt(t,fl,e),e!==n.cache&&zc(t,[fl],a,!0))),vl(l,t,t.pendingProps.children,a),t.child;case 29:throw t.pendingProps}throw Error(h(156,t.tag))}function vt(l){l.flags|=4}function Vi(l,t,a,e,n){if((t=(l.mode&32)!==0)&&(t=!1),t){if(l.flags|=16777216,(n&335544128)===n)if(l.stateNode.complete)l.flags|=8192;else if(c0())l.flags|=8192;else throw ya=zu,vf}else l.flags&=-16777217}function zr(l,t){if(t.type!=="stylesheet"||(t.state.loading&4)!==0)l.flags&=-16777217;else if(l.flags|=16777216,!D0(t))if(c0())l.flags|=8192;else throw ya=zu,vf}function Vn(l,t){t!==null&&(l.flags|=4),l.flags&16384&&(t=l.tag!==22?fd():536870912,l.lanes|=t,se|=t)}function He(l,t){if(!j)switch(l.tailMode){case"hidden":t=l.tail;for(var a=null;t!==null;)t.alternate!==null&&(a=t),t=t.sibling;a===null?l.tail=null:a.sibling=null;break;case"collapsed":a=l.tail;for(var e=null;a!==null;)a.alternate!==null&&(e=a),a=a.sibling;e===null?t||l.tail===null?l.tail=null:l.tail.sibling=null:e.sibling=null}}function F(l){var t=l.alternate!==null&&l.alternate.child===l.child,a=0,e=0;if(t)for(var n=l.child;n!==null;)a|=n.lanes|n.childLanes,e|=n.subtreeFlags&65011712,e|=n.flags&65011712,n.return=l,n=n.sibling;else for(n=l.child;n!==null;)a|=n.lanes|n.childLanes,e|=n.subtreeFlags,e|=n.flags,n.return=l,n=n.sibling;return l.subtreeFlags|=e,l.childLanes=a,t}function Pm(l,t,a){var e=t.pendingProps;switch(mf(t),t.tag){case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return F(t),null;case 1:return F(t),null;case 3:return a=t.stateNode,e=null,l!==null&&(e=l.memoizedState.cache),t.memoizedState.cache!==e&&(t.flags|=2048),xt(fl),ie(),a.pendingContext&&(a.context=a.pendingContext,a.pendingContext=null),(l===null||l.child===null)&&(qa(t)?vt(t):l===null||l.memoizedState.isDehydrated&&(t.flags&256)===0||(t.flags|=1024,Ri())),F(t),null;case 26:var n=t.type,u=t.memoizedState;return l===null?(vt(t),u!==null?(F(t),zr(t,u)):(F(t),Vi(t,n,null,e,a))):u?u!==l.memoizedState?(vt(t),F(t),zr(t,u)):(F(t),t.flags&=-16777217):(l=l.memoizedProps,l!==e&&vt(t),F(t),Vi(t,n,l,e,a)),null;case 27:if(gu(t),a=kt.current,n=t.type,l!==null&&t.stateNode!=null)l.memoizedProps!==e&&vt(t);else{if(!e){if(t.stateNode===null)throw Error(h(166));return F(t),null}l=dt.current,qa(t)?$o(t,l):(l=O0(n,e,a),t.stateNode=l,vt(t))}return F(t),null;case 5:if(gu(t),n=t.type,l!==null&&t.stateNode!=null)l.memoizedProps!==e&&vt(t);else{if(!e){if(t.stateNode===null)throw Error(h(166));return F(t),null}if(u=dt.current,qa(t))$o(t,u);else{var i=Ru(kt.current);switch(u){case 1:u=i.createElementNS("http://www.w3.org/2000/svg",n);break;case 2:u=i.createElementNS("http://www.w3.org/1998/Math/MathML",n);break;default:switch(n){case"svg":u=i.createElementNS("http://www.w3.org/2000/svg",n);break;case"math":u=i.createElementNS("http://www.w3.org/1998/Math/MathML",n);break;case"script":u=i.createElement("div"),u.innerHTML="<script><\/script>",u=u.removeChild(u.firstChild);break;case"select":u=typeof e.is=="string"?i.createElement("select",{is:e.is}):i.createElement("select"),e.multiple?u.multiple=!0:e.size&&(u.size=e.size);break;default:u=typeof e.is=="string"?i.createElement(n,{is:e.is}):i.createElement(n)}}u[yl]=t,u[Dl]=e;l:for(i=t.child;i!==null;){if(i.tag===5||i.tag===6)u.appendChild(i.stateNode);else if(i.tag!==4&&i.tag!==27&&i.child!==null){i.child.return=i,i=i.child;continue}if(i===t)break l;for(;i.sibling===null;){if(i.return===null||i.return===t)break l;i=i.return}i.sibling.return=i.return,i=i.sibling}t.stateNode=u;l:switch(Sl(u,n,e),n){case"button":case"input":case"select":case"textarea":e=!!e.autoFocus;break l;case"img":e=!0;break l;default:e=!1}e&&vt(t)}}return F(t),Vi(t,t.type,l===null?null:l.memoizedProps,t.pendingProps,a),null;case 6:if(l&&t.stateNode!=null)l.memoizedProps!==e&&vt(t);else{if(typeof e!="string"&&t.stateNode===null)throw Error(h(166));if(l=kt.current,qa(t)){if(l=t.stateNode,a=t.memoizedProps,e=null,n=hl,n!==null)switch(n.tag){case 27:case 5:e=n.memoizedProps}l[yl]=t,l=!!(l.nodeValue===a||e!==null&&e.suppressHydrationWarning===!0||T0(l.nodeValue,a)),l||na(t,!0)}else l=Ru(l).createTextNode(e),l[yl]=t,t.stateNode=l}return F(t),null;case 31:if(a=t.memoizedState,l===null||l.memoizedState!==null){if(e=qa(t),a!==null){if(l===null){if(!e)throw Error(h(318));if(l=t.memoizedState,l=l!==null?l.dehydrated:null,!l)throw Error(h(557));l[yl]=t}else pa(),(t.flags&128)===0&&(t.memoizedState=null),t.flags|=4;F(t),l=!1}else a=Ri(),l!==null&&l.memoizedState!==null&&(l.memoizedState.hydrationErrors=a),l=!0;if(!l)return t.flags&256?(Bl(t),t):(Bl(t),null);if((t.flags&128)!==0)throw Error(h(558))}return F(t),null;case 13:if(e=t.memoizedState,l===null||l.memoizedState!==null&&l.memoizedState.dehydrated!==null){if(n=qa(t),e!==null&&e.dehydrated!==null){if(l===null){if(!n)throw Error(h(318));if(n=t.memoizedState,n=n!==null?n.dehydrated:null,!n)throw Error(h(317));n[yl]=t}else pa(),(t.flags&128)===0&&(t.memoizedState=null),t.flags|=4;F(t),n=!1}else n=Ri(),l!==null&&l.memoizedState!==null&&(l.memoizedState.hydrationErrors=n),n=!0;if(!n)return t.flags&256?(Bl(t),t):(Bl(t),null)}return Bl(t),(t.flags&128)!==0?(t.lanes=a,t):(a=e!==null,l=l!==null&&l.memoizedState!==null,a&&(e=t.child,n=null,e.alternate!==null&&e.alternate.memoizedState!==null&&e.alternate.memoizedState.cachePool!==null&&(n=e.alternate.memoizedState.cachePool.pool),u=null,e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(u=e.memoizedState.cachePool.pool),u!==n&&(e.flags|=2048)),a!==l&&a&&(t.child.flags|=8192),Vn(t,t.updateQueue),F(t),null);case 4:return ie(),l===null&&Qf(t.stateNode.containerInfo),F(t),null;case 10:return xt(t.type),F(t),null;case 19:if(gl(nl),e=t.memoizedState,e===null)return F(t),null;if(n=(t.flags&128)!==0,u=e.rendering,u===null)if(n)He(e,!1);else{if(el!==0||l!==null&&(l.flags&128)!==0)for(l=t.child;l!==null;){if(u=Tu(l),u!==null){for(t.flags|=128,He(e,!1),l=u.updateQueue,t.updateQueue=l,Vn(t,l),t.subtreeFlags=0,l=a,a=t.child;a!==null;)jd(a,l),a=a.sibling;return W(nl,nl.current&1|2),j&&St(t,e.treeForkCount),t.child}l=l.sibling}e.tail!==null&&ql()>Nu&&(t.flags|=128,n=!0,He(e,!1),t.lanes=4194304)}else{if(!n)if(l=Tu(u),l!==null){if(t.flags|=128,n=!0,l=l.updateQueue,t.updateQueue=l,Vn(t,l),He(e,!0),e.tail===null&&e.tailMode==="hidden"&&!u.alternate&&!j)return F(t),null}else 2*ql()-e.renderingStartTime>Nu&&a!==536870912&&(t.flags|=128,n=!0,He(e,!1),t.lanes=4194304);e.isBackwards?(u.sibling=t.child,t.child=u):(l=e.last,l!==null?l.sibling=u:t.child=u,e.last=u)}return e.tail!==null?(l=e.tail,e.rendering=l,e.tail=l.sibling,e.renderingStartTime=ql(),l.sibling=null,a=nl.current,W(nl,n?a&1|2:a&1),j&&St(t,e.treeForkCount),l):(F(t),null);case 22:case 23:return Bl(t),hf(),e=t.memoizedState!==null,l!==null?l.memoizedState!==null!==e&&(t.flags|=8192):e&&(t.flags|=8192),e?(a&536870912)!==0&&(t.flags&128)===0&&(F(t),t.subtreeFlags&6&&(t.flags|=8192)):F(t),a=t.updateQueue,a!==null&&Vn(t,a.retryQueue),a=null,l!==null&&l.memoizedState!==null&&l.memoizedState.cachePool!==null&&(a=l.memoizedState.cachePool.pool),e=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(e=t.memoizedState.cachePool.pool),e!==a&&(t.flags|=2048),l!==null&&gl(va),null;case 24:return a=null,l!==null&&(a=l.memoizedState.cache),t.memoizedState.cache!==a&&(t.flags|=2048),xt(fl),F(t),null;case 25:return null;case 30:return null}throw Error(h(156,t.tag))}function lg(l,t){switch(mf(t),t.tag){case 1:return l=t.flags,l&65536?(t.flags=l&-65537|128,t):null;case 3:return xt(fl),ie(),l=t.flags,(l&65536)!==0&&(l&128)===0?(t.flags=l&-65537|128,t):null;case 26:case 27:case 5:return gu(t),null;case 31:if(t.memoizedState!==null){if(Bl(t),t.alternate===null)throw Error(h(340));pa()}return l=t.flags,l&65536?(t.flags=l&-65537|128,t):null;case 13:if(Bl(t),l=t.memoizedState,l!==null&&l.dehydrated!==null){if(t.alternate===null)throw Error(h(340));pa()}return l=t.flags,l&65536?(t.flags=l&-65537|128,t):null;case 19:return gl(nl),null;case 4:return ie(),null;case 10:return xt(t.type),null;case 22:case 23:return Bl(t),hf(),l!==null&&gl(va),l=t.flags,l&65536?(t.flags=l&-65537|128,t):null;case 24:return xt(fl),null;case 25:return null;default:return null}}function js(l,t){switch(mf(t),t.tag){case 3:xt(fl),ie();break;case 26:case 27:case 5:gu(t);break;case 4:ie();break;case 31:t.memoizedState!==null&&Bl(t);break;case 13:Bl(t);break;case 19:gl(nl);break;case 10:xt(t.type);break;case 22:case 23:Bl(t),hf(),l!==null&&gl(va);break;case 24:xt(fl)}}function Tn(l,t){try{var a=t.updateQueue,e=a!==null?a.lastEffect:null;if(e!==null){var n=e.next;a=n;do{if((a.tag&l)===l){e=void 0;var u=a.create,i=a.inst;e=u(),i.destroy=e}a=a.next}while(a!==n)}}catch(c){Z(t,t.return,c)}}function ua(l,t,a){try{var e=t.updateQueue,n=e!==null?e.lastEffect:null;if(n!==null){var u=n.next;e=u;do{if((e.tag&l)===l){var i=e.inst,c=i.destroy;if(c!==void 0){i.destroy=void 0,n=t;var f=a,d=c;try{d()}catch(b){Z(n,f,b)}}}e=e.next}while(e!==u)}}catch(b){Z(t,t.return,b)}}function Gs(l){var t=l.updateQueue;if(t!==null){var a=l.stateNode;try{kd(t,a)}catch(e){Z(l,l.return,e)}}}function Qs(l,t,a){a.props=Ta(l.type,l.memoizedProps),a.state=l.memoizedState;try{a.componentWillUnmount()}catch(e){Z(l,t,e)}}function We(l,t){try{var a=l.ref;if(a!==null){switch(l.tag){case 26:case 27:case 5:var e=l.stateNode;break;case 30:e=l.stateNode;break;default:e=l.stateNode}typeof a=="function"?l.refCleanup=a(e):a.current=e}}catch(n){Z(l,t,n)}}function rt(l,t){var a=l.ref,e=l.refCleanup;if(a!==null)if(typeof e=="function")try{e()}catch(n){Z(l,t,n)}finally{l.refCleanup=null,l=l.alternate,l!=null&&(l.refCleanup=null)}else if(typeof a=="function")try{a(null)}catch(n){Z(l,t,n)}else a.current=null}function Xs(l){var t=l.type,a=l.memoizedProps,e=l.stateNode;try{l:switch(t){case"button":case"input":case"select":case"textarea":a.autoFocus&&e.focus();break l;case"img":a.src?e.src=a.src:a.srcSet&&(e.srcset=a.srcSet)}}catch(n){Z(l,l.return,n)}}function wi(l,t,a){try{var e=l.stateNode;Sg(e,l.type,a,t),e[Dl]=t}catch(n){Z(l,l.return,n)}}function Ls(l){return l.tag===5||l.tag===3||l.tag===26||l.tag===27&&fa(l.type)||l.tag===4}function Ki(l){l:for(;;){for(;l.sibling===null;){if(l.return===null||Ls(l.return))return null;l=l.return}for(l.sibling.return=l.return,l=l.sibling;l.tag!==5&&l.tag!==6&&l.tag!==18;){if(l.tag===27&&fa(l.type)||l.flags&2||l.child===null||l.tag===4)continue l;l.child.return=l,l=l.child}if(!(l.flags&2))return l.stateNode}}function Bc(l,t,a){var e=l.tag;if(e===5||e===6)l=l.stateNode,t?(a.nodeType===9?a.body:a.nodeName==="HTML"?a.ownerDocument.body:a).insertBefore(l,t):(t=a.nodeType===9?a.body:a.nodeName==="HTML"?a.ownerDocument.body:a,t.appendChild(l),a=a._reactRootContainer,a!=null||t.onclick!==null||(t.onclick=Tt));else if(e!==4&&(e===27&&fa(l.type)&&(a=l.stateNode,t=null),l=l.child,l!==null))for(Bc(l,t,a),l=l.sibling;l!==null;)Bc(l,t,a),l=l.sibling}function _u(l,t,a){var e=l.tag;if(e===5||e===6)l=l.stateNode,t?a.insertBefore(l,t):a.appendChild(l);else if(e!==4&&(e===27&&fa(l.type)&&(a=l.stateNode),l=l.child,l!==null))for(_u(l,t,a),l=l.sibling;l!==null;)_u(l,t,a),l=l.sibling}function Zs(l){var t=l.stateNode,a=l.memoizedProps;try{for(var e=l.type,n=t.attributes;n.length;)t.removeAttributeNode(n[0]);Sl(t,e,a),t[yl]=l,t[Dl]=a}catch(u){Z(l,l.return,u)}}var zt=!1,cl=!1,Ji=!1,Er=typeof WeakSet=="function"?WeakSet:Set,sl=null;function tg(l,t){if(l=l.containerInfo,Xc=Gu,l=Dd(l),ff(l)){if("selectionStart"in l)var a={start:l.selectionStart,end:l.selectionEnd};else l:{a=(a=l.ownerDocument)&&a.defaultView||window;var e=a.getSelection&&a.getSelection();if(e&&e.rangeCount!==0){a=e.anchorNode;var n=e.anchorOffset,u=e.focusNode;e=e.focusOffset;try{a.nodeType,u.nodeType}catch{a=null;break l}var i=0,c=-1,f=-1,d=0,b=0,y=l,m=null;t:for(;;){for(var g;y!==a||n!==0&&y.nodeType!==3||(c=i+n),y!==u||e!==0&&y.nodeType!==3||(f=i+e),y.nodeType===3&&(i+=y.nodeValue.length),(g=y.firstChild)!==null;)m=y,y=g;for(;;){if(y===l)break t;if(m===a&&++d===n&&(c=i),m===u&&++b===e&&(f=i),(g=y.nextSibling)!==null)break;y=m,m=y.parentNode}y=g}a=c===-1||f===-1?null:{start:c,end:f}}else a=null}a=a||{start:0,end:0}}else a=null;for(Lc={focusedElem:l,selectionRange:a},Gu=!1,sl=t;sl!==null;)if(t=sl,l=t.child,(t.subtreeFlags&1028)!==0&&l!==null)l.return=t,sl=l;else for(;sl!==null;){switch(t=sl,u=t.alternate,l=t.flags,t.tag){case 0:if((l&4)!==0&&(l=t.updateQueue,l=l!==null?l.events:null,l!==null))for(a=0;a<l.length;a++)n=l[a],n.ref.impl=n.nextImpl;break;case 11:case 15:break;case 1:if((l&1024)!==0&&u!==null){l=void 0,a=t,n=u.memoizedProps,u=u.memoizedState,e=a.stateNode;try{var E=Ta(a.type,n);l=e.getSnapshotBeforeUpdate(E,u),e.__reactInternalSnapshotBeforeUpdate=l}catch(T){Z(a,a.return,T)}}break;case 3:if((l&1024)!==0){if(l=t.stateNode.containerInfo,a=l.nodeType,a===9)Vc(l);else if(a===1)switch(l.nodeName){case"HEAD":case"HTML":case"BODY":Vc(l);break;default:l.textContent=""}}break;case 5:case 26:case 27:case 6:case 4:case 17:break;default:if((l&1024)!==0)throw Error(h(163))}if(l=t.sibling,l!==null){l.return=t.return,sl=l;break}sl=t.return}}function Vs(l,t,a){var e=a.flags;switch(a.tag){case 0:case 11:case 15:ht(l,a),e&4&&Tn(5,a);break;case 1:if(ht(l,a),e&4)if(l=a.stateNode,t===null)try{l.componentDidMount()}catch(i){Z(a,a.return,i)}else{var n=Ta(a.type,t.memoizedProps);t=t.memoizedState;try{l.componentDidUpdate(n,t,l.__reactInternalSnapshotBeforeUpdate)}catch(i){Z(a,a.return,i)}}e&64&&Gs(a),e&512&&We(a,a.return);break;case 3:if(ht(l,a),e&64&&(l=a.updateQueue,l!==null)){if(t=null,a.child!==null)switch(a.child.tag){case 27:case 5:t=a.child.stateNode;break;case 1:t=a.child.stateNode}try{kd(l,t)}catch(i){Z(a,a.return,i)}}break;case 27:t===null&&e&4&&Zs(a);case 26:case 5:ht(l,a),t===null&&e&4&&Xs(a),e&512&&We(a,a.return);break;case 12:ht(l,a);break;case 31:ht(l,a),e&4&&Js(l,a);break;case 13:ht(l,a),e&4&&ks(l,a),e&64&&(l=a.memoizedState,l!==null&&(l=l.dehydrated,l!==null&&(a=rg.bind(null,a),_g(l,a))));break;case 22:if(e=a.memoizedState!==null||zt,!e){t=t!==null&&t.memoizedState!==null||cl,n=zt;var u=cl;zt=e,(cl=t)&&!u?pt(l,a,(a.subtreeFlags&8772)!==0):ht(l,a),zt=n,cl=u}break;case 30:break;default:ht(l,a)}}function ws(l){var t=l.alternate;t!==null&&(l.alternate=null,ws(t)),l.child=null,l.deletions=null,l.sibling=null,l.tag===5&&(t=l.stateNode,t!==null&&tf(t)),l.stateNode=null,l.return=null,l.dependencies=null,l.memoizedProps=null,l.memoizedState=null,l.pendingProps=null,l.stateNode=null,l.updateQueue=null}var tl=null,Ol=!1;function yt(l,t,a){for(a=a.child;a!==null;)Ks(l,t,a),a=a.sibling}function Ks(l,t,a){if(jl&&typeof jl.onCommitFiberUnmount=="function")try{jl.onCommitFiberUnmount(vn,a)}catch{}switch(a.tag){case 26:cl||rt(a,t),yt(l,t,a),a.memoizedState?a.memoizedState.count--:a.stateNode&&(a=a.stateNode,a.parentNode.removeChild(a));break;case 27:cl||rt(a,t);var e=tl,n=Ol;fa(a.type)&&(tl=a.stateNode,Ol=!1),yt(l,t,a),Pe(a.stateNode),tl=e,Ol=n;break;case 5:cl||rt(a,t);case 6:if(e=tl,n=Ol,tl=null,yt(l,t,a),tl=e,Ol=n,tl!==null)if(Ol)try{(tl.nodeType===9?tl.body:tl.nodeName==="HTML"?tl.ownerDocument.body:tl).removeChild(a.stateNode)}catch(u){Z(a,t,u)}else try{tl.removeChild(a.stateNode)}catch(u){Z(a,t,u)}break;case 18:tl!==null&&(Ol?(l=tl,qr(l.nodeType===9?l.body:l.nodeName==="HTML"?l.ownerDocument.body:l,a.stateNode),ve(l)):qr(tl,a.stateNode));break;case 4:e=tl,n=Ol,tl=a.stateNode.containerInfo,Ol=!0,yt(l,t,a),tl=e,Ol=n;break;case 0:case 11:case 14:case 15:ua(2,a,t),cl||ua(4,a,t),yt(l,t,a);break;case 1:cl||(rt(a,t),e=a.stateNode,typeof e.componentWillUnmount=="function"&&Qs(a,t,e)),yt(l,t,a);break;case 21:yt(l,t,a);break;case 22:cl=(e=cl)||a.memoizedState!==null,yt(l,t,a),cl=e;break;default:yt(l,t,a)}}function Js(l,t){if(t.memoizedState===null&&(l=t.alternate,l!==null&&(l=l.memoizedState,l!==null))){l=l.dehydrated;try{ve(l)}catch(a){Z(t,t.return,a)}}}function ks(l,t){if(t.memoizedState===null&&(l=t.alternate,l!==null&&(l=l.memoizedState,l!==null&&(l=l.dehydrated,l!==null))))try{ve(l)}catch(a){Z(t,t.return,a)}}function ag(l){switch(l.tag){case 31:case 13:case 19:var t=l.stateNode;return t===null&&(t=l.stateNode=new Er),t;case 22:return l=l.stateNode,t=l._retryCache,t===null&&(t=l._retryCache=new Er),t;default:throw Error(h(435,l.tag))}}function wn(l,t){var a=ag(l);t.forEach(function(e){if(!a.has(e)){a.add(e);var n=dg.bind(null,l,e);e.then(n,n)}})}function Ml(l,t){var a=t.deletions;if(a!==null)for(var e=0;e<a.length;e++){var n=a[e],u=l,i=t,c=i;l:for(;c!==null;){switch(c.tag){case 27:if(fa(c.type)){tl=c.stateNode,Ol=!1;break l}break;case 5:tl=c.stateNode,Ol=!1;break l;case 3:case 4:tl=c.stateNode.containerInfo,Ol=!0;break l}c=c.return}if(tl===null)throw Error(h(160));Ks(u,i,n),tl=null,Ol=!1,u=n.alternate,u!==null&&(u.return=null),n.return=null}if(t.subtreeFlags&13886)for(t=t.child;t!==null;)Ws(t,l),t=t.sibling}var at=null;function Ws(l,t){var a=l.alternate,e=l.flags;switch(l.tag){case 0:case 11:case 14:case 15:Ml(t,l),xl(l),e&4&&(ua(3,l,l.return),Tn(3,l),ua(5,l,l.return));break;case 1:Ml(t,l),xl(l),e&512&&(cl||a===null||rt(a,a.return)),e&64&&zt&&(l=l.updateQueue,l!==null&&(e=l.callbacks,e!==null&&(a=l.shared.hiddenCallbacks,l.shared.hiddenCallbacks=a===null?e:a.concat(e))));break;case 26:var n=at;if(Ml(t,l),xl(l),e&512&&(cl||a===null||rt(a,a.return)),e&4){var u=a!==null?a.memoizedState:null;if(e=l.memoizedState,a===null)if(e===null)if(l.stateNode===null){l:{e=l.type,a=l.memoizedProps,n=n.ownerDocument||n;t:switch(e){case"title":u=n.getElementsByTagName("title")[0],(!u||u[pn]||u[yl]||u.namespaceURI==="http://www.w3.org/2000/svg"||u.hasAttribute("itemprop"))&&(u=n.createElement(e),n.head.insertBefore(u,n.querySelector("head > title"))),Sl(u,e,a),u[yl]=l,ml(u),e=u;break l;case"link":var i=Vr("link","href",n).get(e+(a.href||""));if(i){for(var c=0;c<i.length;c++)if(u=i[c],u.getAttribute("href")===(a.href==null||a.href===""?null:a.href)&&u.getAttribute("rel")===(a.rel==null?null:a.rel)&&u.getAttribute("title")===(a.title==null?null:a.title)&&u.getAttribute("crossorigin")===(a.crossOrigin==null?null:a.crossOrigin)){i.splice(c,1);break t}}u=n.createElement(e),Sl(u,e,a),n.head.appendChild(u);break;case"meta":if(i=Vr("meta","content",n).get(e+(a.content||""))){for(c=0;c<i.length;c++)if(u=i[c],u.getAttribute("content")===(a.content==null?null:""+a.content)&&u.getAttribute("name")===(a.name==null?null:a.name)&&u.getAttribute("property")===(a.property==null?null:a.property)&&u.getAttribute("http-equiv")===(a.httpEquiv==null?null:a.httpEquiv)&&u.getAttribute("charset")===(a.charSet==null?null:a.charSet)){i.splice(c,1);break t}}u=n.createElement(e),Sl(u,e,a),n.head.appendChild(u);break;default:throw Error(h(468,e))}u[yl]=l,ml(u),e=u}l.stateNode=e}else wr(n,l.type,l.stateNode);else l.stateNode=Zr(n,e,l.memoizedProps);else u!==e?(u===null?a.stateNode!==null&&(a=a.stateNode,a.parentNode.removeChild(a)):u.count--,e===null?wr(n,l.type,l.stateNode):Zr(n,e,l.memoizedProps)):e===null&&l.stateNode!==null&&wi(l,l.memoizedProps,a.memoizedProps)}break;case 27:Ml(t,l),xl(l),e&512&&(cl||a===null||rt(a,a.return)),a!==null&&e&4&&wi(l,l.memoizedProps,a.memoizedProps);break;case 5:if(Ml(t,l),xl(l),e&512&&(cl||a===null||rt(a,a.return)),l.flags&32){n=l.stateNode;try{fe(n,"")}catch(E){Z(l,l.return,E)}}e&4&&l.stateNode!=null&&(n=l.memoizedProps,wi(l,n,a!==null?a.memoizedProps:n)),e&1024&&(Ji=!0);break;case 6:if(Ml(t,l),xl(l),e&4){if(l.stateNode===null)throw Error(h(162));e=l.memoizedProps,a=l.stateNode;try{a.nodeValue=e}catch(E){Z(l,l.return,E)}}break;case 3:if(ou=null,n=at,at=Yu(t.containerInfo),Ml(t,l),at=n,xl(l),e&4&&a!==null&&a.memoizedState.isDehydrated)try{ve(t.containerInfo)}catch(E){Z(l,l.return,E)}Ji&&(Ji=!1,$s(l));break;case 4:e=at,at=Yu(l.stateNode.containerInfo),Ml(t,l),xl(l),at=e;break;case 12:Ml(t,l),xl(l);break;case 31:Ml(t,l),xl(l),e&4&&(e=l.updateQueue,e!==null&&(l.updateQueue=null,wn(l,e)));break;case 13:Ml(t,l),xl(l),l.child.flags&8192&&l.memoizedState!==null!=(a!==null&&a.memoizedState!==null)&&(Iu=ql()),e&4&&(e=l.updateQueue,e!==null&&(l.updateQueue=null,wn(l,e)));break;case 22:n=l.memoizedState!==null;var f=a!==null&&a.memoizedState!==null,d=zt,b=cl;if(zt=d||n,cl=b||f,Ml(t,l),cl=b,zt=d,xl(l),e&8192)l:for(t=l.stateNode,t._visibility=n?t._visibility&-2:t._visibility|1,n&&(a===null||f||zt||cl||ma(l)),a=null,t=l;;){if(t.tag===5||t.tag===26){if(a===null){f=a=t;try{if(u=f.stateNode,n)i=u.style,typeof i.setProperty=="function"?i.setProperty("display","none","important"):i.display="none";else{c=f.stateNode;var y=f.memoizedProps.style,m=y!=null&&y.hasOwnProperty("display")?y.display:null;c.style.display=m==null||typeof m=="boolean"?"":(""+m).trim()}}catch(E){Z(f,f.return,E)}}}else if(t.tag===6){if(a===null){f=t;try{f.stateNode.nodeValue=n?"":f.memoizedProps}catch(E){Z(f,f.return,E)}}}else if(t.tag===18){if(a===null){f=t;try{var g=f.stateNode;n?jr(g,!0):jr(f.stateNode,!1)}catch(E){Z(f,f.return,E)}}}else if((t.tag!==22&&t.tag!==23||t.memoizedState===null||t===l)&&t.child!==null){t.child.return=t,t=t.child;continue}if(t===l)break l;for(;t.sibling===null;){if(t.return===null||t.return===l)break l;a===t&&(a=null),t=t.return}a===t&&(a=null),t.sibling.return=t.return,t=t.sibling}e&4&&(e=l.updateQueue,e!==null&&(a=e.retryQueue,a!==null&&(e.retryQueue=null,wn(l,a))));break;case 19:Ml(t,l),xl(l),e&4&&(e=l.updateQueue,e!==null&&(l.updateQueue=null,wn(l,e)));break;case 30:break;case 21:break;default:Ml(t,l),xl(l)}}function xl(l){var t=l.flags;if(t&2){try{for(var a,e=l.return;e!==null;){if(Ls(e)){a=e;break}e=e.return}if(a==null)throw Error(h(160));switch(a.tag){case 27:var n=a.stateNode,u=Ki(l);_u(l,u,n);break;case 5:var i=a.stateNode;a.flags&32&&(fe(i,""),a.flags&=-33);var c=Ki(l);_u(l,c,i);break;case 3:case 4:var f=a.stateNode.containerInfo,d=Ki(l);Bc(l,d,f);break;default:throw Error(h(161))}}catch(b){Z(l,l.return,b)}l.flags&=-3}t&4096&&(l.flags&=-4097)}function $s(l){if(l.subtreeFlags&1024)for(l=l.child;l!==null;){var t=l;$s(t),t.tag===5&&t.flags&1024&&t.stateNode.reset(),l=l.sibling}}function ht(l,t){if(t.subtreeFlags&8772)for(t=t.child;t!==null;)Vs(l,t.alternate,t),t=t.sibling}function ma(l){for(l=l.child;l!==null;){var t=l;switch(t.tag){case 0:case 11:case 14:case 15:ua(4,t,t.return),ma(t);break;case 1:rt(t,t.return);var a=t.stateNode;typeof a.componentWillUnmount=="function"&&Qs(t,t.return,a),ma(t);break;case 27:Pe(t.stateNode);case 26:case 5:rt(t,t.return),ma(t);break;case 22:t.memoizedState===null&&ma(t);break;case 30:ma(t);break;default:ma(t)}l=l.sibling}}function pt(l,t,a){for(a=a&&(t.subtreeFlags&8772)!==0,t=t.child;t!==null;){var e=t.alternate,n=l,u=t,i=u.flags;switch(u.tag){case 0:case 11:case 15:pt(n,u,a),Tn(4,u);break;case 1:if(pt(n,u,a),e=u,n=e.stateNode,typeof n.componentDidMount=="function")try{n.componentDidMount()}catch(d){Z(e,e.return,d)}if(e=u,n=e.updateQueue,n!==null){var c=e.stateNode;try{var f=n.shared.hiddenCallbacks;if(f!==null)for(n.shared.hiddenCallbacks=null,n=0;n<f.length;n++)Jd(f[n],c)}catch(d){Z(e,e.return,d)}}a&&i&64&&Gs(u),We(u,u.return);break;case 27:Zs(u);case 26:case 5:pt(n,u,a),a&&e===null&&i&4&&Xs(u),We(u,u.return);break;case 12:pt(n,u,a);break;case 31:pt(n,u,a),a&&i&4&&Js(n,u);break;case 13:pt(n,u,a),a&&i&4&&ks(n,u);break;case 22:u.memoizedState===null&&pt(n,u,a),We(u,u.return);break;case 30:break;default:pt(n,u,a)}t=t.sibling}}function Bf(l,t){var a=null;l!==null&&l.memoizedState!==null&&l.memoizedState.cachePool!==null&&(a=l.memoizedState.cachePool.pool),l=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(l=t.memoizedState.cachePool.pool),l!==a&&(l!=null&&l.refCount++,a!=null&&zn(a))}function Rf(l,t){l=null,t.alternate!==null&&(l=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==l&&(t.refCount++,l!=null&&zn(l))}function tt(l,t,a,e){if(t.subtreeFlags&10256)for(t=t.child;t!==null;)Fs(l,t,a,e),t=t.sibling}function Fs(l,t,a,e){var n=t.flags;switch(t.tag){case 0:case 11:case 15:tt(l,t,a,e),n&2048&&Tn(9,t);break;case 1:tt(l,t,a,e);break;case 3:tt(l,t,a,e),n&2048&&(l=null,t.alternate!==null&&(l=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==l&&(t.refCount++,l!=null&&zn(l)));break;case 12:if(n&2048){tt(l,t,a,e),l=t.stateNode;try{var u=t.memoizedProps,i=u.id,c=u.onPostCommit;typeof c=="function"&&c(i,t.alternate===null?"mount":"update",l.passiveEffectDuration,-0)}catch(f){Z(t,t.return,f)}}else tt(l,t,a,e);break;case 31:tt(l,t,a,e);break;case 13:tt(l,t,a,e);break;case 23:break;case 22:u=t.stateNode,i=t.alternate,t.memoizedState!==null?u._visibility&2?tt(l,t,a,e):$e(l,t):u._visibility&2?tt(l,t,a,e):(u._visibility|=2,Ga(l,t,a,e,(t.subtreeFlags&10256)!==0||!1)),n&2048&&Bf(i,t);break;case 24:tt(l,t,a,e),n&2048&&Rf(t.alternate,t);break;default:tt(l,t,a,e)}}function Ga(l,t,a,e,n){for(n=n&&((t.subtreeFlags&10256)!==0||!1),t=t.child;t!==null;){var u=l,i=t,c=a,f=e,d=i.flags;switch(i.tag){case 0:case 11:case 15:Ga(u,i,c,f,n),Tn(8,i);break;case 23:break;case 22:var b=i.stateNode;i.memoizedState!==null?b._visibility&2?Ga(u,i,c,f,n):$e(u,i):(b._visibility|=2,Ga(u,i,c,f,n)),n&&d&2048&&Bf(i.alternate,i);break;case 24:Ga(u,i,c,f,n),n&&d&2048&&Rf(i.alternate,i);break;default:Ga(u,i,c,f,n)}t=t.sibling}}function $e(l,t){if(t.subtreeFlags&10256)for(t=t.child;t!==null;){var a=l,e=t,n=e.flags;switch(e.tag){case 22:$e(a,e),n&2048&&Bf(e.alternate,e);break;case 24:$e(a,e),n&2048&&Rf(e.alternate,e);break;default:$e(a,e)}t=t.sibling}}var Qe=8192;function ja(l,t,a){if(l.subtreeFlags&Qe)for(l=l.child;l!==null;)Is(l,t,a),l=l.sibling}function Is(l,t,a){switch(l.tag){case 26:ja(l,t,a),l.flags&Qe&&l.memoizedState!==null&&Qg(a,at,l.memoizedState,l.memoizedProps);break;case 5:ja(l,t,a);break;case 3:case 4:var e=at;at=Yu(l.stateNode.containerInfo),ja(l,t,a),at=e;break;case 22:l.memoizedState===null&&(e=l.alternate,e!==null&&e.memoizedState!==null?(e=Qe,Qe=16777216,ja(l,t,a),Qe=e):ja(l,t,a));break;default:ja(l,t,a)}}function Ps(l){var t=l.alternate;if(t!==null&&(l=t.child,l!==null)){t.child=null;do t=l.sibling,l.sibling=null,l=t;while(l!==null)}}function Ce(l){var t=l.deletions;if((l.flags&16)!==0){if(t!==null)for(var a=0;a<t.length;a++){var e=t[a];sl=e,t0(e,l)}Ps(l)}if(l.subtreeFlags&10256)for(l=l.child;l!==null;)l0(l),l=l.sibling}function l0(l){switch(l.tag){case 0:case 11:case 15:Ce(l),l.flags&2048&&ua(9,l,l.return);break;case 3:Ce(l);break;case 12:Ce(l);break;case 22:var t=l.stateNode;l.memoizedState!==null&&t._visibility&2&&(l.return===null||l.return.tag!==13)?(t._visibility&=-3,cu(l)):Ce(l);break;default:Ce(l)}}function cu(l){var t=l.deletions;if((l.flags&16)!==0){if(t!==null)for(var a=0;a<t.length;a++){var e=t[a];sl=e,t0(e,l)}Ps(l)}for(l=l.child;l!==null;){switch(t=l,t.tag){case 0:case 11:case 15:ua(8,t,t.return),cu(t);break;case 22:a=t.stateNode,a._visibility&2&&(a._visibility&=-3,cu(t));break;default:cu(t)}l=l.sibling}}function t0(l,t){for(;sl!==null;){var a=sl;switch(a.tag){case 0:case 11:case 15:ua(8,a,t);break;case 23:case 22:if(a.memoizedState!==null&&a.memoizedState.cachePool!==null){var e=a.memoizedState.cachePool.pool;e!=null&&e.refCount++}break;case 24:zn(a.memoizedState.cache)}if(e=a.child,e!==null)e.return=a,sl=e;else l:for(a=l;sl!==null;){e=sl;var n=e.sibling,u=e.return;if(ws(e),e===a){sl=null;break l}if(n!==null){n.return=u,sl=n;break l}sl=u}}}var eg={getCacheForType:function(l){var t=pl(fl),a=t.data.get(l);return a===void 0&&(a=l(),t.data.set(l,a)),a},cacheSignal:function(){return pl(fl).controller.signal}},ng=typeof WeakMap=="function"?WeakMap:Map,G=0,J=null,R=null,Y=0,L=0,Cl=null,wt=!1,ze=!1,Yf=!1,Ht=0,el=0,ia=0,ha=0,qf=0,Yl=0,se=0,Fe=null,_l=null,Rc=!1,Iu=0,a0=0,Nu=1/0,Du=null,It=null,rl=0,Pt=null,me=null,Ot=0,Yc=0,qc=null,e0=null,Ie=0,jc=null;function Ql(){return(G&2)!==0&&Y!==0?Y&-Y:x.T!==null?Gf():sd()}function n0(){if(Yl===0)if((Y&536870912)===0||j){var l=Rn;Rn<<=1,(Rn&3932160)===0&&(Rn=262144),Yl=l}else Yl=536870912;return l=Ll.current,l!==null&&(l.flags|=32),Yl}function Nl(l,t,a){(l===J&&(L===2||L===9)||l.cancelPendingCommit!==null)&&(ge(l,0),Kt(l,Y,Yl,!1)),hn(l,a),((G&2)===0||l!==J)&&(l===J&&((G&2)===0&&(ha|=a),el===4&&Kt(l,Y,Yl,!1)),mt(l))}function u0(l,t,a){if((G&6)!==0)throw Error(h(327));var e=!a&&(t&127)===0&&(t&l.expiredLanes)===0||yn(l,t),n=e?cg(l,t):ki(l,t,!0),u=e;do{if(n===0){ze&&!e&&Kt(l,t,0,!1);break}else{if(a=l.current.alternate,u&&!ug(a)){n=ki(l,t,!1),u=!1;continue}if(n===2){if(u=t,l.errorRecoveryDisabledLanes&u)var i=0;else i=l.pendingLanes&-536870913,i=i!==0?i:i&536870912?536870912:0;if(i!==0){t=i;l:{var c=l;n=Fe;var f=c.current.memoizedState.isDehydrated;if(f&&(ge(c,i).flags|=256),i=ki(c,i,!1),i!==2){if(Yf&&!f){c.errorRecoveryDisabledLanes|=u,ha|=u,n=4;break l}u=_l,_l=n,u!==null&&(_l===null?_l=u:_l.push.apply(_l,u))}n=i}if(u=!1,n!==2)continue}}if(n===1){ge(l,0),Kt(l,t,0,!0);break}l:{switch(e=l,u=n,u){case 0:case 1:throw Error(h(345));case 4:if((t&4194048)!==t)break;case 6:Kt(e,t,Yl,!wt);break l;case 2:_l=null;break;case 3:case 5:break;default:throw Error(h(329))}if((t&62914560)===t&&(n=Iu+300-ql(),10<n)){if(Kt(e,t,Yl,!wt),Xu(e,0,!0)!==0)break l;Ot=t,e.timeoutHandle=M0(Tr.bind(null,e,a,_l,Du,Rc,t,Yl,ha,se,wt,u,"Throttled",-0,0),n);break l}Tr(e,a,_l,Du,Rc,t,Yl,ha,se,wt,u,null,-0,0)}}break}while(!0);mt(l)}function Tr(l,t,a,e,n,u,i,c,f,d,b,y,m,g){if(l.timeoutHandle=-1,y=t.subtreeFlags,y&8192||(y&16785408)===16785408){y={stylesheets:null,count:0,imgCount:0,imgBytes:0,suspenseyImages:[],waitingForImages:!0,waitingForViewTransition:!1,unsuspend:Tt},Is(t,u,y);var E=(u&62914560)===u?Iu-ql():(u&4194048)===u?a0-ql():0;if(E=Xg(y,E),E!==null){Ot=u,l.cancelPendingCommit=E(Mr.bind(null,l,t,u,a,e,n,i,c,f,b,y,null,m,g)),Kt(l,u,i,!d);return}}Mr(l,t,u,a,e,n,i,c,f)}function ug(l){for(var t=l;;){var a=t.tag;if((a===0||a===11||a===15)&&t.flags&16384&&(a=t.updateQueue,a!==null&&(a=a.stores,a!==null)))for(var e=0;e<a.length;e++){var n=a[e],u=n.getSnapshot;n=n.value;try{if(!Xl(u(),n))return!1}catch{return!1}}if(a=t.child,t.subtreeFlags&16384&&a!==null)a.return=t,t=a;else{if(t===l)break;for(;t.sibling===null;){if(t.return===null||t.return===l)return!0;t=t.return}t.sibling.return=t.return,t=t.sibling}}return!0}function Kt(l,t,a,e){t&=~qf,t&=~ha,l.suspendedLanes|=t,l.pingedLanes&=~t,e&&(l.warmLanes|=t),e=l.expirationTimes;for(var n=t;0<n;){var u=31-Gl(n),i=1<<u;e[u]=-1,n&=~i}a!==0&&od(l,a,t)}function Pu(){return(G&6)===0?(An(0,!1),!1):!0}function jf(){if(R!==null){if(L===0)var l=R.return;else l=R,At=_a=null,Tf(l),ee=null,cn=0,l=R;for(;l!==null;)js(l.alternate,l),l=l.return;R=null}}function ge(l,t){var a=l.timeoutHandle;a!==-1&&(l.timeoutHandle=-1,Tg(a)),a=l.cancelPendingCommit,a!==null&&(l.cancelPendingCommit=null,a()),Ot=0,jf(),J=l,R=a=Mt(l.current,null),Y=t,L=0,Cl=null,wt=!1,ze=yn(l,t),Yf=!1,se=Yl=qf=ha=ia=el=0,_l=Fe=null,Rc=!1,(t&8)!==0&&(t|=t&32);var e=l.entangledLanes;if(e!==0)for(l=l.entanglements,e&=t;0<e;){var n=31-Gl(e),u=1<<n;t|=l[n],e&=~u}return Ht=t,wu(),a}function i0(l,t){D=null,x.H=on,t===Se||t===Ju?(t=tr(),L=3):t===vf?(t=tr(),L=4):L=t===Hf?8:t!==null&&typeof t=="object"&&typeof t.then=="function"?6:1,Cl=t,R===null&&(el=1,xu(l,Wl(t,l.current)))}function c0(){var l=Ll.current;return l===null?!0:(Y&4194048)===Y?Fl===null:(Y&62914560)===Y||(Y&536870912)!==0?l===Fl:!1}function f0(){var l=x.H;return x.H=on,l===null?on:l}function o0(){var l=x.A;return x.A=eg,l}function Uu(){el=4,wt||(Y&4194048)!==Y&&Ll.current!==null||(ze=!0),(ia&134217727)===0&&(ha&134217727)===0||J===null||Kt(J,Y,Yl,!1)}function ki(l,t,a){var e=G;G|=2;var n=f0(),u=o0();(J!==l||Y!==t)&&(Du=null,ge(l,t)),t=!1;var i=el;l:do try{if(L!==0&&R!==null){var c=R,f=Cl;switch(L){case 8:jf(),i=6;break l;case 3:case 2:case 9:case 6:Ll.current===null&&(t=!0);var d=L;if(L=0,Cl=null,Ia(l,c,f,d),a&&ze){i=0;break l}break;default:d=L,L=0,Cl=null,Ia(l,c,f,d)}}ig(),i=el;break}catch(b){i0(l,b)}while(!0);return t&&l.shellSuspendCounter++,At=_a=null,G=e,x.H=n,x.A=u,R===null&&(J=null,Y=0,wu()),i}function ig(){for(;R!==null;)r0(R)}function cg(l,t){var a=G;G|=2;var e=f0(),n=o0();J!==l||Y!==t?(Du=null,Nu=ql()+500,ge(l,t)):ze=yn(l,t);l:do try{if(L!==0&&R!==null){t=R;var u=Cl;t:switch(L){case 1:L=0,Cl=null,Ia(l,t,u,1);break;case 2:case 9:if(lr(u)){L=0,Cl=null,Ar(t);break}t=function(){L!==2&&L!==9||J!==l||(L=7),mt(l)},u.then(t,t);break l;case 3:L=7;break l;case 4:L=5;break l;case 7:lr(u)?(L=0,Cl=null,Ar(t)):(L=0,Cl=null,Ia(l,t,u,7));break;case 5:var i=null;switch(R.tag){case 26:i=R.memoizedState;case 5:case 27:var c=R;if(i?D0(i):c.stateNode.complete){L=0,Cl=null;var f=c.sibling;if(f!==null)R=f;else{var d=c.return;d!==null?(R=d,li(d)):R=null}break t}}L=0,Cl=null,Ia(l,t,u,5);break;case 6:L=0,Cl=null,Ia(l,t,u,6);break;case 8:jf(),el=6;break l;default:throw Error(h(462))}}fg();break}catch(b){i0(l,b)}while(!0);return At=_a=null,x.H=e,x.A=n,G=a,R!==null?0:(J=null,Y=0,wu(),el)}function fg(){for(;R!==null&&!U1();)r0(R)}function r0(l){var t=qs(l.alternate,l,Ht);l.memoizedProps=l.pendingProps,t===null?li(l):R=t}function Ar(l){var t=l,a=t.alternate;switch(t.tag){case 15:case 0:t=yr(a,t,t.pendingProps,t.type,void 0,Y);break;case 11:t=yr(a,t,t.pendingProps,t.type.render,t.ref,Y);break;case 5:Tf(t);default:js(a,t),t=R=jd(t,Ht),t=qs(a,t,Ht)}l.memoizedProps=l.pendingProps,t===null?li(l):R=t}function Ia(l,t,a,e){At=_a=null,Tf(t),ee=null,cn=0;var n=t.return;try{if($m(l,n,t,a,Y)){el=1,xu(l,Wl(a,l.current)),R=null;return}}catch(u){if(n!==null)throw R=n,u;el=1,xu(l,Wl(a,l.current)),R=null;return}t.flags&32768?(j||e===1?l=!0:ze||(Y&536870912)!==0?l=!1:(wt=l=!0,(e===2||e===9||e===3||e===6)&&(e=Ll.current,e!==null&&e.tag===13&&(e.flags|=16384))),d0(t,l)):li(t)}function li(l){var t=l;do{if((t.flags&32768)!==0){d0(t,wt);return}l=t.return;var a=Pm(t.alternate,t,Ht);if(a!==null){R=a;return}if(t=t.sibling,t!==null){R=t;return}R=t=l}while(t!==null);el===0&&(el=5)}function d0(l,t){do{var a=lg(l.alternate,l);if(a!==null){a.flags&=32767,R=a;return}if(a=l.return,a!==null&&(a.flags|=32768,a.subtreeFlags=0,a.deletions=null),!t&&(l=l.sibling,l!==null)){R=l;return}R=l=a}while(l!==null);el=6,R=null}function Mr(l,t,a,e,n,u,i,c,f){l.cancelPendingCommit=null;do ti();while(rl!==0);if((G&6)!==0)throw Error(h(327));if(t!==null){if(t===l.current)throw Error(h(177));if(u=t.lanes|t.childLanes,u|=of,X1(l,a,u,i,c,f),l===J&&(R=J=null,Y=0),me=t,Pt=l,Ot=a,Yc=u,qc=n,e0=e,(t.subtreeFlags&10256)!==0||(t.flags&10256)!==0?(l.callbackNode=null,l.callbackPriority=0,sg(bu,function(){return v0(),null})):(l.callbackNode=null,l.callbackPriority=0),e=(t.flags&13878)!==0,(t.subtreeFlags&13878)!==0||e){e=x.T,x.T=null,n=Q.p,Q.p=2,i=G,G|=4;try{tg(l,t,a)}finally{G=i,Q.p=n,x.T=e}}rl=1,s0(),m0(),g0()}}function s0(){if(rl===1){rl=0;var l=Pt,t=me,a=(t.flags&13878)!==0;if((t.subtreeFlags&13878)!==0||a){a=x.T,x.T=null;var e=Q.p;Q.p=2;var n=G;G|=4;try{Ws(t,l);var u=Lc,i=Dd(l.containerInfo),c=u.focusedElem,f=u.selectionRange;if(i!==c&&c&&c.ownerDocument&&Nd(c.ownerDocument.documentElement,c)){if(f!==null&&ff(c)){var d=f.start,b=f.end;if(b===void 0&&(b=d),"selectionStart"in c)c.selectionStart=d,c.selectionEnd=Math.min(b,c.value.length);else{var y=c.ownerDocument||document,m=y&&y.defaultView||window;if(m.getSelection){var g=m.getSelection(),E=c.textContent.length,T=Math.min(f.start,E),q=f.end===void 0?T:Math.min(f.end,E);!g.extend&&T>q&&(i=q,q=T,T=i);var r=Jo(c,T),o=Jo(c,q);if(r&&o&&(g.rangeCount!==1||g.anchorNode!==r.node||g.anchorOffset!==r.offset||g.focusNode!==o.node||g.focusOffset!==o.offset)){var s=y.createRange();s.setStart(r.node,r.offset),g.removeAllRanges(),T>q?(g.addRange(s),g.extend(o.node,o.offset)):(s.setEnd(o.node,o.offset),g.addRange(s))}}}}for(y=[],g=c;g=g.parentNode;)g.nodeType===1&&y.push({element:g,left:g.scrollLeft,top:g.scrollTop});for(typeof c.focus=="function"&&c.focus(),c=0;c<y.length;c++){var v=y[c];v.element.scrollLeft=v.left,v.element.scrollTop=v.top}}Gu=!!Xc,Lc=Xc=null}finally{G=n,Q.p=e,x.T=a}}l.current=t,rl=2}}function m0(){if(rl===2){rl=0;var l=Pt,t=me,a=(t.flags&8772)!==0;if((t.subtreeFlags&8772)!==0||a){a=x.T,x.T=null;var e=Q.p;Q.p=2;var n=G;G|=4;try{Vs(l,t.alternate,t)}finally{G=n,Q.p=e,x.T=a}}rl=3}}function g0(){if(rl===4||rl===3){rl=0,H1();var l=Pt,t=me,a=Ot,e=e0;(t.subtreeFlags&10256)!==0||(t.flags&10256)!==0?rl=5:(rl=0,me=Pt=null,b0(l,l.pendingLanes));var n=l.pendingLanes;if(n===0&&(It=null),lf(a),t=t.stateNode,jl&&typeof jl.onCommitFiberRoot=="function")try{jl.onCommitFiberRoot(vn,t,void 0,(t.current.flags&128)===128)}catch{}if(e!==null){t=x.T,n=Q.p,Q.p=2,x.T=null;try{for(var u=l.onRecoverableError,i=0;i<e.length;i++){var c=e[i];u(c.value,{componentStack:c.stack})}}finally{x.T=t,Q.p=n}}(Ot&3)!==0&&ti(),mt(l),n=l.pendingLanes,(a&261930)!==0&&(n&42)!==0?l===jc?Ie++:(Ie=0,jc=l):Ie=0,An(0,!1)}}function b0(l,t){(l.pooledCacheLanes&=t)===0&&(t=l.pooledCache,t!=null&&(l.pooledCache=null,zn(t)))}function ti(){return s0(),m0(),g0(),v0()}function v0(){if(rl!==5)return!1;var l=Pt,t=Yc;Yc=0;var a=lf(Ot),e=x.T,n=Q.p;try{Q.p=32>a?32:a,x.T=null,a=qc,qc=null;var u=Pt,i=Ot;if(rl=0,me=Pt=null,Ot=0,(G&6)!==0)throw Error(h(331));var c=G;if(G|=4,l0(u.current),Fs(u,u.current,i,a),G=c,An(0,!1),jl&&typeof jl.onPostCommitFiberRoot=="function")try{jl.onPostCommitFiberRoot(vn,u)}catch{}return!0}finally{Q.p=n,x.T=e,b0(l,t)}}function xr(l,t,a){t=Wl(a,t),t=Uc(l.stateNode,t,2),l=Ft(l,t,2),l!==null&&(hn(l,2),mt(l))}function Z(l,t,a){if(l.tag===3)xr(l,l,a);else for(;t!==null;){if(t.tag===3){xr(t,l,a);break}else if(t.tag===1){var e=t.stateNode;if(typeof t.type.getDerivedStateFromError=="function"||typeof e.componentDidCatch=="function"&&(It===null||!It.has(e))){l=Wl(a,l),a=Us(2),e=Ft(t,a,2),e!==null&&(Hs(a,e,t,l),hn(e,2),mt(e));break}}t=t.return}}function Wi(l,t,a){var e=l.pingCache;if(e===null){e=l.pingCache=new ng;var n=new Set;e.set(t,n)}else n=e.get(t),n===void 0&&(n=new Set,e.set(t,n));n.has(a)||(Yf=!0,n.add(a),l=og.bind(null,l,t,a),t.then(l,l))}function og(l,t,a){var e=l.pingCache;e!==null&&e.delete(t),l.pingedLanes|=l.suspendedLanes&a,l.warmLanes&=~a,J===l&&(Y&a)===a&&(el===4||el===3&&(Y&62914560)===Y&&300>ql()-Iu?(G&2)===0&&ge(l,0):qf|=a,se===Y&&(se=0)),mt(l)}function y0(l,t){t===0&&(t=fd()),l=Oa(l,t),l!==null&&(hn(l,t),mt(l))}function rg(l){var t=l.memoizedState,a=0;t!==null&&(a=t.retryLane),y0(l,a)}function dg(l,t){var a=0;switch(l.tag){case 31:case 13:var e=l.stateNode,n=l.memoizedState;n!==null&&(a=n.retryLane);break;case 19:e=l.stateNode;break;case 22:e=l.stateNode._retryCache;break;default:throw Error(h(314))}e!==null&&e.delete(t),y0(l,a)}function sg(l,t){return Ic(l,t)}var Hu=null,Qa=null,Gc=!1,Cu=!1,$i=!1,Jt=0;function mt(l){l!==Qa&&l.next===null&&(Qa===null?Hu=Qa=l:Qa=Qa.next=l),Cu=!0,Gc||(Gc=!0,gg())}function An(l,t){if(!$i&&Cu){$i=!0;do for(var a=!1,e=Hu;e!==null;){if(!t)if(l!==0){var n=e.pendingLanes;if(n===0)var u=0;else{var i=e.suspendedLanes,c=e.pingedLanes;u=(1<<31-Gl(42|l)+1)-1,u&=n&~(i&~c),u=u&201326741?u&201326741|1:u?u|2:0}u!==0&&(a=!0,Or(e,u))}else u=Y,u=Xu(e,e===J?u:0,e.cancelPendingCommit!==null||e.timeoutHandle!==-1),(u&3)===0||yn(e,u)||(a=!0,Or(e,u));e=e.next}while(a);$i=!1}}function mg(){h0()}function h0(){Cu=Gc=!1;var l=0;Jt!==0&&Eg()&&(l=Jt);for(var t=ql(),a=null,e=Hu;e!==null;){var n=e.next,u=p0(e,t);u===0?(e.next=null,a===null?Hu=n:a.next=n,n===null&&(Qa=a)):(a=e,(l!==0||(u&3)!==0)&&(Cu=!0)),e=n}rl!==0&&rl!==5||An(l,!1),Jt!==0&&(Jt=0)}function p0(l,t){for(var a=l.suspendedLanes,e=l.pingedLanes,n=l.expirationTimes,u=l.pendingLanes&-62914561;0<u;){var i=31-Gl(u),c=1<<i,f=n[i];f===-1?((c&a)===0||(c&e)!==0)&&(n[i]=Q1(c,t)):f<=t&&(l.expiredLanes|=c),u&=~c}if(t=J,a=Y,a=Xu(l,l===t?a:0,l.cancelPendingCommit!==null||l.timeoutHandle!==-1),e=l.callbackNode,a===0||l===t&&(L===2||L===9)||l.cancelPendingCommit!==null)return e!==null&&e!==null&&Mi(e),l.callbackNode=null,l.callbackPriority=0;if((a&3)===0||yn(l,a)){if(t=a&-a,t===l.callbackPriority)return t;switch(e!==null&&Mi(e),lf(a)){case 2:case 8:a=id;break;case 32:a=bu;break;case 268435456:a=cd;break;default:a=bu}return e=S0.bind(null,l),a=Ic(a,e),l.callbackPriority=t,l.callbackNode=a,t}return e!==null&&e!==null&&Mi(e),l.callbackPriority=2,l.callbackNode=null,2}function S0(l,t){if(rl!==0&&rl!==5)return l.callbackNode=null,l.callbackPriority=0,null;var a=l.callbackNode;if(ti()&&l.callbackNode!==a)return null;var e=Y;return e=Xu(l,l===J?e:0,l.cancelPendingCommit!==null||l.timeoutHandle!==-1),e===0?null:(u0(l,e,t),p0(l,ql()),l.callbackNode!=null&&l.callbackNode===a?S0.bind(null,l):null)}function Or(l,t){if(ti())return null;u0(l,t,!0)}function gg(){Ag(function(){(G&6)!==0?Ic(ud,mg):h0()})}function Gf(){if(Jt===0){var l=oe;l===0&&(l=Bn,Bn<<=1,(Bn&261888)===0&&(Bn=256)),Jt=l}return Jt}function _r(l){return l==null||typeof l=="symbol"||typeof l=="boolean"?null:typeof l=="function"?l:In(""+l)}function Nr(l,t){var a=t.ownerDocument.createElement("input");return a.name=t.name,a.value=t.value,l.id&&a.setAttribute("form",l.id),t.parentNode.insertBefore(a,t),l=new FormData(l),a.parentNode.removeChild(a),l}function bg(l,t,a,e,n){if(t==="submit"&&a&&a.stateNode===n){var u=_r((n[Dl]||null).action),i=e.submitter;i&&(t=(t=i[Dl]||null)?_r(t.formAction):i.getAttribute("formAction"),t!==null&&(u=t,i=null));var c=new Lu("action","action",null,e,n);l.push({event:c,listeners:[{instance:null,listener:function(){if(e.defaultPrevented){if(Jt!==0){var f=i?Nr(n,i):new FormData(n);Nc(a,{pending:!0,data:f,method:n.method,action:u},null,f)}}else typeof u=="function"&&(c.preventDefault(),f=i?Nr(n,i):new FormData(n),Nc(a,{pending:!0,data:f,method:n.method,action:u},u,f))},currentTarget:n}]})}}for(Kn=0;Kn<yc.length;Kn++)Jn=yc[Kn],Dr=Jn.toLowerCase(),Ur=Jn[0].toUpperCase()+Jn.slice(1),et(Dr,"on"+Ur);var Jn,Dr,Ur,Kn;et(Hd,"onAnimationEnd");et(Cd,"onAnimationIteration");et(Bd,"onAnimationStart");et("dblclick","onDoubleClick");et("focusin","onFocus");et("focusout","onBlur");et(Cm,"onTransitionRun");et(Bm,"onTransitionStart");et(Rm,"onTransitionCancel");et(Rd,"onTransitionEnd");ce("onMouseEnter",["mouseout","mouseover"]);ce("onMouseLeave",["mouseout","mouseover"]);ce("onPointerEnter",["pointerout","pointerover"]);ce("onPointerLeave",["pointerout","pointerover"]);Aa("onChange","change click focusin focusout input keydown keyup selectionchange".split(" "));Aa("onSelect","focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange".split(" "));Aa("onBeforeInput",["compositionend","keypress","textInput","paste"]);Aa("onCompositionEnd","compositionend focusout keydown keypress keyup mousedown".split(" "));Aa("onCompositionStart","compositionstart focusout keydown keypress keyup mousedown".split(" "));Aa("onCompositionUpdate","compositionupdate focusout keydown keypress keyup mousedown".split(" "));var rn="abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting".split(" "),vg=new Set("beforetoggle cancel close invalid load scroll scrollend toggle".split(" ").concat(rn));function z0(l,t){t=(t&4)!==0;for(var a=0;a<l.length;a++){var e=l[a],n=e.event;e=e.listeners;l:{var u=void 0;if(t)for(var i=e.length-1;0<=i;i--){var c=e[i],f=c.instance,d=c.currentTarget;if(c=c.listener,f!==u&&n.isPropagationStopped())break l;u=c,n.currentTarget=d;try{u(n)}catch(b){yu(b)}n.currentTarget=null,u=f}else for(i=0;i<e.length;i++){if(c=e[i],f=c.instance,d=c.currentTarget,c=c.listener,f!==u&&n.isPropagationStopped())break l;u=c,n.currentTarget=d;try{u(n)}catch(b){yu(b)}n.currentTarget=null,u=f}}}}function B(l,t){var a=t[oc];a===void 0&&(a=t[oc]=new Set);var e=l+"__bubble";a.has(e)||(E0(t,l,2,!1),a.add(e))}function Fi(l,t,a){var e=0;t&&(e|=4),E0(a,l,e,t)}var kn="_reactListening"+Math.random().toString(36).slice(2);function Qf(l){if(!l[kn]){l[kn]=!0,md.forEach(function(a){a!=="selectionchange"&&(vg.has(a)||Fi(a,!1,l),Fi(a,!0,l))});var t=l.nodeType===9?l:l.ownerDocument;t===null||t[kn]||(t[kn]=!0,Fi("selectionchange",!1,t))}}function E0(l,t,a,e){switch(R0(t)){case 2:var n=Vg;break;case 8:n=wg;break;default:n=Vf}a=n.bind(null,t,a,l),n=void 0,!gc||t!=="touchstart"&&t!=="touchmove"&&t!=="wheel"||(n=!0),e?n!==void 0?l.addEventListener(t,a,{capture:!0,passive:n}):l.addEventListener(t,a,!0):n!==void 0?l.addEventListener(t,a,{passive:n}):l.addEventListener(t,a,!1)}function Ii(l,t,a,e,n){var u=e;if((t&1)===0&&(t&2)===0&&e!==null)l:for(;;){if(e===null)return;var i=e.tag;if(i===3||i===4){var c=e.stateNode.containerInfo;if(c===n)break;if(i===4)for(i=e.return;i!==null;){var f=i.tag;if((f===3||f===4)&&i.stateNode.containerInfo===n)return;i=i.return}for(;c!==null;){if(i=Za(c),i===null)return;if(f=i.tag,f===5||f===6||f===26||f===27){e=u=i;continue l}c=c.parentNode}}e=e.return}zd(function(){var d=u,b=ef(a),y=[];l:{var m=Yd.get(l);if(m!==void 0){var g=Lu,E=l;switch(l){case"keypress":if(lu(a)===0)break l;case"keydown":case"keyup":g=dm;break;case"focusin":E="focus",g=Di;break;case"focusout":E="blur",g=Di;break;case"beforeblur":case"afterblur":g=Di;break;case"click":if(a.button===2)break l;case"auxclick":case"dblclick":case"mousedown":case"mousemove":case"mouseup":case"mouseout":case"mouseover":case"contextmenu":g=jo;break;case"drag":case"dragend":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"dragstart":case"drop":g=P1;break;case"touchcancel":case"touchend":case"touchmove":case"touchstart":g=gm;break;case Hd:case Cd:case Bd:g=am;break;case Rd:g=vm;break;case"scroll":case"scrollend":g=F1;break;case"wheel":g=hm;break;case"copy":case"cut":case"paste":g=nm;break;case"gotpointercapture":case"lostpointercapture":case"pointercancel":case"pointerdown":case"pointermove":case"pointerout":case"pointerover":case"pointerup":g=Qo;break;case"toggle":case"beforetoggle":g=Sm}var T=(t&4)!==0,q=!T&&(l==="scroll"||l==="scrollend"),r=T?m!==null?m+"Capture":null:m;T=[];for(var o=d,s;o!==null;){var v=o;if(s=v.stateNode,v=v.tag,v!==5&&v!==26&&v!==27||s===null||r===null||(v=tn(o,r),v!=null&&T.push(dn(o,v,s))),q)break;o=o.return}0<T.length&&(m=new g(m,E,null,a,b),y.push({event:m,listeners:T}))}}if((t&7)===0){l:{if(m=l==="mouseover"||l==="pointerover",g=l==="mouseout"||l==="pointerout",m&&a!==mc&&(E=a.relatedTarget||a.fromElement)&&(Za(E)||E[ye]))break l;if((g||m)&&(m=b.window===b?b:(m=b.ownerDocument)?m.defaultView||m.parentWindow:window,g?(E=a.relatedTarget||a.toElement,g=d,E=E?Za(E):null,E!==null&&(q=bn(E),T=E.tag,E!==q||T!==5&&T!==27&&T!==6)&&(E=null)):(g=null,E=d),g!==E)){if(T=jo,v="onMouseLeave",r="onMouseEnter",o="mouse",(l==="pointerout"||l==="pointerover")&&(T=Qo,v="onPointerLeave",r="onPointerEnter",o="pointer"),q=g==null?m:je(g),s=E==null?m:je(E),m=new T(v,o+"leave",g,a,b),m.target=q,m.relatedTarget=s,v=null,Za(b)===d&&(T=new T(r,o+"enter",E,a,b),T.target=s,T.relatedTarget=q,v=T),q=v,g&&E)t:{for(T=yg,r=g,o=E,s=0,v=r;v;v=T(v))s++;v=0;for(var A=o;A;A=T(A))v++;for(;0<s-v;)r=T(r),s--;for(;0<v-s;)o=T(o),v--;for(;s--;){if(r===o||o!==null&&r===o.alternate){T=r;break t}r=T(r),o=T(o)}T=null}else T=null;g!==null&&Hr(y,m,g,T,!1),E!==null&&q!==null&&Hr(y,q,E,T,!0)}}l:{if(m=d?je(d):window,g=m.nodeName&&m.nodeName.toLowerCase(),g==="select"||g==="input"&&m.type==="file")var C=Vo;else if(Zo(m))if(Od)C=Dm;else{C=_m;var p=Om}else g=m.nodeName,!g||g.toLowerCase()!=="input"||m.type!=="checkbox"&&m.type!=="radio"?d&&af(d.elementType)&&(C=Vo):C=Nm;if(C&&(C=C(l,d))){xd(y,C,a,b);break l}p&&p(l,m,d),l==="focusout"&&d&&m.type==="number"&&d.memoizedProps.value!=null&&sc(m,"number",m.value)}switch(p=d?je(d):window,l){case"focusin":(Zo(p)||p.contentEditable==="true")&&(Ka=p,bc=d,Ze=null);break;case"focusout":Ze=bc=Ka=null;break;case"mousedown":vc=!0;break;case"contextmenu":case"mouseup":case"dragend":vc=!1,ko(y,a,b);break;case"selectionchange":if(Hm)break;case"keydown":case"keyup":ko(y,a,b)}var M;if(cf)l:{switch(l){case"compositionstart":var U="onCompositionStart";break l;case"compositionend":U="onCompositionEnd";break l;case"compositionupdate":U="onCompositionUpdate";break l}U=void 0}else wa?Ad(l,a)&&(U="onCompositionEnd"):l==="keydown"&&a.keyCode===229&&(U="onCompositionStart");U&&(Td&&a.locale!=="ko"&&(wa||U!=="onCompositionStart"?U==="onCompositionEnd"&&wa&&(M=Ed()):(Vt=b,nf="value"in Vt?Vt.value:Vt.textContent,wa=!0)),p=Bu(d,U),0<p.length&&(U=new Go(U,l,null,a,b),y.push({event:U,listeners:p}),M?U.data=M:(M=Md(a),M!==null&&(U.data=M)))),(M=Em?Tm(l,a):Am(l,a))&&(U=Bu(d,"onBeforeInput"),0<U.length&&(p=new Go("onBeforeInput","beforeinput",null,a,b),y.push({event:p,listeners:U}),p.data=M)),bg(y,l,d,a,b)}z0(y,t)})}function dn(l,t,a){return{instance:l,listener:t,currentTarget:a}}function Bu(l,t){for(var a=t+"Capture",e=[];l!==null;){var n=l,u=n.stateNode;if(n=n.tag,n!==5&&n!==26&&n!==27||u===null||(n=tn(l,a),n!=null&&e.unshift(dn(l,n,u)),n=tn(l,t),n!=null&&e.push(dn(l,n,u))),l.tag===3)return e;l=l.return}return[]}function yg(l){if(l===null)return null;do l=l.return;while(l&&l.tag!==5&&l.tag!==27);return l||null}function Hr(l,t,a,e,n){for(var u=t._reactName,i=[];a!==null&&a!==e;){var c=a,f=c.alternate,d=c.stateNode;if(c=c.tag,f!==null&&f===e)break;c!==5&&c!==26&&c!==27||d===null||(f=d,n?(d=tn(a,u),d!=null&&i.unshift(dn(a,d,f))):n||(d=tn(a,u),d!=null&&i.push(dn(a,d,f)))),a=a.return}i.length!==0&&l.push({event:t,listeners:i})}var hg=/\r\n?/g,pg=/\u0000|\uFFFD/g;function Cr(l){return(typeof l=="string"?l:""+l).replace(hg,`
-`).replace(pg,"")}function T0(l,t){return t=Cr(t),Cr(l)===t}function V(l,t,a,e,n,u){switch(a){case"children":typeof e=="string"?t==="body"||t==="textarea"&&e===""||fe(l,e):(typeof e=="number"||typeof e=="bigint")&&t!=="body"&&fe(l,""+e);break;case"className":qn(l,"class",e);break;case"tabIndex":qn(l,"tabindex",e);break;case"dir":case"role":case"viewBox":case"width":case"height":qn(l,a,e);break;case"style":Sd(l,e,u);break;case"data":if(t!=="object"){qn(l,"data",e);break}case"src":case"href":if(e===""&&(t!=="a"||a!=="href")){l.removeAttribute(a);break}if(e==null||typeof e=="function"||typeof e=="symbol"||typeof e=="boolean"){l.removeAttribute(a);break}e=In(""+e),l.setAttribute(a,e);break;case"action":case"formAction":if(typeof e=="function"){l.setAttribute(a,"javascript:throw new Error('A React form was unexpectedly submitted. If you called form.submit() manually, consider using form.requestSubmit() instead. If you\\'re trying to use event.stopPropagation() in a submit event handler, consider also calling event.preventDefault().')");break}else typeof u=="function"&&(a==="formAction"?(t!=="input"&&V(l,t,"name",n.name,n,null),V(l,t,"formEncType",n.formEncType,n,null),V(l,t,"formMethod",n.formMethod,n,null),V(l,t,"formTarget",n.formTarget,n,null)):(V(l,t,"encType",n.encType,n,null),V(l,t,"method",n.method,n,null),V(l,t,"target",n.target,n,null)));if(e==null||typeof e=="symbol"||typeof e=="boolean"){l.removeAttribute(a);break}e=In(""+e),l.setAttribute(a,e);break;case"onClick":e!=null&&(l.onclick=Tt);break;case"onScroll":e!=null&&B("scroll",l);break;case"onScrollEnd":e!=null&&B("scrollend",l);break;case"dangerouslySetInnerHTML":if(e!=null){if(typeof e!="object"||!("__html"in e))throw Error(h(61));if(a=e.__html,a!=null){if(n.children!=null)throw Error(h(60));l.innerHTML=a}}break;case"multiple":l.multiple=e&&typeof e!="function"&&typeof e!="symbol";break;case"muted":l.muted=e&&typeof e!="function"&&typeof e!="symbol";break;case"suppressContentEditableWarning":case"suppressHydrationWarning":case"defaultValue":case"defaultChecked":case"innerHTML":case"ref":break;case"autoFocus":break;case"xlinkHref":if(e==null||typeof e=="function"||typeof e=="boolean"||typeof e=="symbol"){l.removeAttribute("xlink:href");break}a=In(""+e),l.setAttributeNS("http://www.w3.org/1999/xlink","xlink:href",a);break;case"contentEditable":case"spellCheck":case"draggable":case"value":case"autoReverse":case"externalResourcesRequired":case"focusable":case"preserveAlpha":e!=null&&typeof e!="function"&&typeof e!="symbol"?l.setAttribute(a,""+e):l.removeAttribute(a);break;case"inert":case"allowFullScreen":case"async":case"autoPlay":case"controls":case"default":case"defer":case"disabled":case"disablePictureInPicture":case"disableRemotePlayback":case"formNoValidate":case"hidden":case"loop":case"noModule":case"noValidate":case"open":case"playsInline":case"readOnly":case"required":case"reversed":case"scoped":case"seamless":case"itemScope":e&&typeof e!="function"&&typeof e!="symbol"?l.setAttribute(a,""):l.removeAttribute(a);break;case"capture":case"download":e===!0?l.setAttribute(a,""):e!==!1&&e!=null&&typeof e!="function"&&typeof e!="symbol"?l.setAttribute(a,e):l.removeAttribute(a);break;case"cols":case"rows":case"size":case"span":e!=null&&typeof e!="function"&&typeof e!="symbol"&&!isNaN(e)&&1<=e?l.setAttribute(a,e):l.removeAttribute(a);break;case"rowSpan":case"start":e==null||typeof e=="function"||typeof e=="symbol"||isNaN(e)?l.removeAttribute(a):l.setAttribute(a,e);break;case"popover":B("beforetoggle",l),B("toggle",l),Fn(l,"popover",e);break;case"xlinkActuate":bt(l,"http://www.w3.org/1999/xlink","xlink:actuate",e);break;case"xlinkArcrole":bt(l,"http://www.w3.org/1999/xlink","xlink:arcrole",e);break;case"xlinkRole":bt(l,"http://www.w3.org/1999/xlink","xlink:role",e);break;case"xlinkShow":bt(l,"http://www.w3.org/1999/xlink","xlink:show",e);break;case"xlinkTitle":bt(l,"http://www.w3.org/1999/xlink","xlink:title",e);break;case"xlinkType":bt(l,"http://www.w3.org/1999/xlink","xlink:type",e);break;case"xmlBase":bt(l,"http://www.w3.org/XML/1998/namespace","xml:base",e);break;case"xmlLang":bt(l,"http://www.w3.org/XML/1998/namespace","xml:lang",e);break;case"xmlSpace":bt(l,"http://www.w3.org/XML/1998/namespace","xml:space",e);break;case"is":Fn(l,"is",e);break;case"innerText":case"textContent":break;default:(!(2<a.length)||a[0]!=="o"&&a[0]!=="O"||a[1]!=="n"&&a[1]!=="N")&&(a=W1.get(a)||a,Fn(l,a,e))}}function Qc(l,t,a,e,n,u){switch(a){case"style":Sd(l,e,u);break;case"dangerouslySetInnerHTML":if(e!=null){if(typeof e!="object"||!("__html"in e))throw Error(h(61));if(a=e.__html,a!=null){if(n.children!=null)throw Error(h(60));l.innerHTML=a}}break;case"children":typeof e=="string"?fe(l,e):(typeof e=="number"||typeof e=="bigint")&&fe(l,""+e);break;case"onScroll":e!=null&&B("scroll",l);break;case"onScrollEnd":e!=null&&B("scrollend",l);break;case"onClick":e!=null&&(l.onclick=Tt);break;case"suppressContentEditableWarning":case"suppressHydrationWarning":case"innerHTML":case"ref":break;case"innerText":case"textContent":break;default:if(!gd.hasOwnProperty(a))l:{if(a[0]==="o"&&a[1]==="n"&&(n=a.endsWith("Capture"),t=a.slice(2,n?a.length-7:void 0),u=l[Dl]||null,u=u!=null?u[a]:null,typeof u=="function"&&l.removeEventListener(t,u,n),typeof e=="function")){typeof u!="function"&&u!==null&&(a in l?l[a]=null:l.hasAttribute(a)&&l.removeAttribute(a)),l.addEventListener(t,e,n);break l}a in l?l[a]=e:e===!0?l.setAttribute(a,""):Fn(l,a,e)}}}function Sl(l,t,a){switch(t){case"div":case"span":case"svg":case"path":case"a":case"g":case"p":case"li":break;case"img":B("error",l),B("load",l);var e=!1,n=!1,u;for(u in a)if(a.hasOwnProperty(u)){var i=a[u];if(i!=null)switch(u){case"src":e=!0;break;case"srcSet":n=!0;break;case"children":case"dangerouslySetInnerHTML":throw Error(h(137,t));default:V(l,t,u,i,a,null)}}n&&V(l,t,"srcSet",a.srcSet,a,null),e&&V(l,t,"src",a.src,a,null);return;case"input":B("invalid",l);var c=u=i=n=null,f=null,d=null;for(e in a)if(a.hasOwnProperty(e)){var b=a[e];if(b!=null)switch(e){case"name":n=b;break;case"type":i=b;break;case"checked":f=b;break;case"defaultChecked":d=b;break;case"value":u=b;break;case"defaultValue":c=b;break;case"children":case"dangerouslySetInnerHTML":if(b!=null)throw Error(h(137,t));break;default:V(l,t,e,b,a,null)}}yd(l,u,c,f,d,i,n,!1);return;case"select":B("invalid",l),e=i=u=null;for(n in a)if(a.hasOwnProperty(n)&&(c=a[n],c!=null))switch(n){case"value":u=c;break;case"defaultValue":i=c;break;case"multiple":e=c;default:V(l,t,n,c,a,null)}t=u,a=i,l.multiple=!!e,t!=null?le(l,!!e,t,!1):a!=null&&le(l,!!e,a,!0);return;case"textarea":B("invalid",l),u=n=e=null;for(i in a)if(a.hasOwnProperty(i)&&(c=a[i],c!=null))switch(i){case"value":e=c;break;case"defaultValue":n=c;break;case"children":u=c;break;case"dangerouslySetInnerHTML":if(c!=null)throw Error(h(91));break;default:V(l,t,i,c,a,null)}pd(l,e,n,u);return;case"option":for(f in a)if(a.hasOwnProperty(f)&&(e=a[f],e!=null))switch(f){case"selected":l.selected=e&&typeof e!="function"&&typeof e!="symbol";break;default:V(l,t,f,e,a,null)}return;case"dialog":B("beforetoggle",l),B("toggle",l),B("cancel",l),B("close",l);break;case"iframe":case"object":B("load",l);break;case"video":case"audio":for(e=0;e<rn.length;e++)B(rn[e],l);break;case"image":B("error",l),B("load",l);break;case"details":B("toggle",l);break;case"embed":case"source":case"link":B("error",l),B("load",l);case"area":case"base":case"br":case"col":case"hr":case"keygen":case"meta":case"param":case"track":case"wbr":case"menuitem":for(d in a)if(a.hasOwnProperty(d)&&(e=a[d],e!=null))switch(d){case"children":case"dangerouslySetInnerHTML":throw Error(h(137,t));default:V(l,t,d,e,a,null)}return;default:if(af(t)){for(b in a)a.hasOwnProperty(b)&&(e=a[b],e!==void 0&&Qc(l,t,b,e,a,void 0));return}}for(c in a)a.hasOwnProperty(c)&&(e=a[c],e!=null&&V(l,t,c,e,a,null))}function Sg(l,t,a,e){switch(t){case"div":case"span":case"svg":case"path":case"a":case"g":case"p":case"li":break;case"input":var n=null,u=null,i=null,c=null,f=null,d=null,b=null;for(g in a){var y=a[g];if(a.hasOwnProperty(g)&&y!=null)switch(g){case"checked":break;case"value":break;case"defaultValue":f=y;default:e.hasOwnProperty(g)||V(l,t,g,null,e,y)}}for(var m in e){var g=e[m];if(y=a[m],e.hasOwnProperty(m)&&(g!=null||y!=null))switch(m){case"type":u=g;break;case"name":n=g;break;case"checked":d=g;break;case"defaultChecked":b=g;break;case"value":i=g;break;case"defaultValue":c=g;break;case"children":case"dangerouslySetInnerHTML":if(g!=null)throw Error(h(137,t));break;default:g!==y&&V(l,t,m,g,e,y)}}dc(l,i,c,f,d,b,u,n);return;case"select":g=i=c=m=null;for(u in a)if(f=a[u],a.hasOwnProperty(u)&&f!=null)switch(u){case"value":break;case"multiple":g=f;default:e.hasOwnProperty(u)||V(l,t,u,null,e,f)}for(n in e)if(u=e[n],f=a[n],e.hasOwnProperty(n)&&(u!=null||f!=null))switch(n){case"value":m=u;break;case"defaultValue":c=u;break;case"multiple":i=u;default:u!==f&&V(l,t,n,u,e,f)}t=c,a=i,e=g,m!=null?le(l,!!a,m,!1):!!e!=!!a&&(t!=null?le(l,!!a,t,!0):le(l,!!a,a?[]:"",!1));return;case"textarea":g=m=null;for(c in a)if(n=a[c],a.hasOwnProperty(c)&&n!=null&&!e.hasOwnProperty(c))switch(c){case"value":break;case"children":break;default:V(l,t,c,null,e,n)}for(i in e)if(n=e[i],u=a[i],e.hasOwnProperty(i)&&(n!=null||u!=null))switch(i){case"value":m=n;break;case"defaultValue":g=n;break;case"children":break;case"dangerouslySetInnerHTML":if(n!=null)throw Error(h(91));break;default:n!==u&&V(l,t,i,n,e,u)}hd(l,m,g);return;case"option":for(var E in a)if(m=a[E],a.hasOwnProperty(E)&&m!=null&&!e.hasOwnProperty(E))switch(E){case"selected":l.selected=!1;break;default:V(l,t,E,null,e,m)}for(f in e)if(m=e[f],g=a[f],e.hasOwnProperty(f)&&m!==g&&(m!=null||g!=null))switch(f){case"selected":l.selected=m&&typeof m!="function"&&typeof m!="symbol";break;default:V(l,t,f,m,e,g)}return;case"img":case"link":case"area":case"base":case"br":case"col":case"embed":case"hr":case"keygen":case"meta":case"param":case"source":case"track":case"wbr":case"menuitem":for(var T in a)m=a[T],a.hasOwnProperty(T)&&m!=null&&!e.hasOwnProperty(T)&&V(l,t,T,null,e,m);for(d in e)if(m=e[d],g=a[d],e.hasOwnProperty(d)&&m!==g&&(m!=null||g!=null))switch(d){case"children":case"dangerouslySetInnerHTML":if(m!=null)throw Error(h(137,t));break;default:V(l,t,d,m,e,g)}return;default:if(af(t)){for(var q in a)m=a[q],a.hasOwnProperty(q)&&m!==void 0&&!e.hasOwnProperty(q)&&Qc(l,t,q,void 0,e,m);for(b in e)m=e[b],g=a[b],!e.hasOwnProperty(b)||m===g||m===void 0&&g===void 0||Qc(l,t,b,m,e,g);return}}for(var r in a)m=a[r],a.hasOwnProperty(r)&&m!=null&&!e.hasOwnProperty(r)&&V(l,t,r,null,e,m);for(y in e)m=e[y],g=a[y],!e.hasOwnProperty(y)||m===g||m==null&&g==null||V(l,t,y,m,e,g)}function Br(l){switch(l){case"css":case"script":case"font":case"img":case"image":case"input":case"link":return!0;default:return!1}}function zg(){if(typeof performance.getEntriesByType=="function"){for(var l=0,t=0,a=performance.getEntriesByType("resource"),e=0;e<a.length;e++){var n=a[e],u=n.transferSize,i=n.initiatorType,c=n.duration;if(u&&c&&Br(i)){for(i=0,c=n.responseEnd,e+=1;e<a.length;e++){var f=a[e],d=f.startTime;if(d>c)break;var b=f.transferSize,y=f.initiatorType;b&&Br(y)&&(f=f.responseEnd,i+=b*(f<c?1:(c-d)/(f-d)))}if(--e,t+=8*(u+i)/(n.duration/1e3),l++,10<l)break}}if(0<l)return t/l/1e6}return navigator.connection&&(l=navigator.connection.downlink,typeof l=="number")?l:5}var Xc=null,Lc=null;function Ru(l){return l.nodeType===9?l:l.ownerDocument}function Rr(l){switch(l){case"http://www.w3.org/2000/svg":return 1;case"http://www.w3.org/1998/Math/MathML":return 2;default:return 0}}function A0(l,t){if(l===0)switch(t){case"svg":return 1;case"math":return 2;default:return 0}return l===1&&t==="foreignObject"?0:l}function Zc(l,t){return l==="textarea"||l==="noscript"||typeof t.children=="string"||typeof t.children=="number"||typeof t.children=="bigint"||typeof t.dangerouslySetInnerHTML=="object"&&t.dangerouslySetInnerHTML!==null&&t.dangerouslySetInnerHTML.__html!=null}var Pi=null;function Eg(){var l=window.event;return l&&l.type==="popstate"?l===Pi?!1:(Pi=l,!0):(Pi=null,!1)}var M0=typeof setTimeout=="function"?setTimeout:void 0,Tg=typeof clearTimeout=="function"?clearTimeout:void 0,Yr=typeof Promise=="function"?Promise:void 0,Ag=typeof queueMicrotask=="function"?queueMicrotask:typeof Yr<"u"?function(l){return Yr.resolve(null).then(l).catch(Mg)}:M0;function Mg(l){setTimeout(function(){throw l})}function fa(l){return l==="head"}function qr(l,t){var a=t,e=0;do{var n=a.nextSibling;if(l.removeChild(a),n&&n.nodeType===8)if(a=n.data,a==="/$"||a==="/&"){if(e===0){l.removeChild(n),ve(t);return}e--}else if(a==="$"||a==="$?"||a==="$~"||a==="$!"||a==="&")e++;else if(a==="html")Pe(l.ownerDocument.documentElement);else if(a==="head"){a=l.ownerDocument.head,Pe(a);for(var u=a.firstChild;u;){var i=u.nextSibling,c=u.nodeName;u[pn]||c==="SCRIPT"||c==="STYLE"||c==="LINK"&&u.rel.toLowerCase()==="stylesheet"||a.removeChild(u),u=i}}else a==="body"&&Pe(l.ownerDocument.body);a=n}while(a);ve(t)}function jr(l,t){var a=l;l=0;do{var e=a.nextSibling;if(a.nodeType===1?t?(a._stashedDisplay=a.style.display,a.style.display="none"):(a.style.display=a._stashedDisplay||"",a.getAttribute("style")===""&&a.removeAttribute("style")):a.nodeType===3&&(t?(a._stashedText=a.nodeValue,a.nodeValue=""):a.nodeValue=a._stashedText||""),e&&e.nodeType===8)if(a=e.data,a==="/$"){if(l===0)break;l--}else a!=="$"&&a!=="$?"&&a!=="$~"&&a!=="$!"||l++;a=e}while(a)}function Vc(l){var t=l.firstChild;for(t&&t.nodeType===10&&(t=t.nextSibling);t;){var a=t;switch(t=t.nextSibling,a.nodeName){case"HTML":case"HEAD":case"BODY":Vc(a),tf(a);continue;case"SCRIPT":case"STYLE":continue;case"LINK":if(a.rel.toLowerCase()==="stylesheet")continue}l.removeChild(a)}}function xg(l,t,a,e){for(;l.nodeType===1;){var n=a;if(l.nodeName.toLowerCase()!==t.toLowerCase()){if(!e&&(l.nodeName!=="INPUT"||l.type!=="hidden"))break}else if(e){if(!l[pn])switch(t){case"meta":if(!l.hasAttribute("itemprop"))break;return l;case"link":if(u=l.getAttribute("rel"),u==="stylesheet"&&l.hasAttribute("data-precedence"))break;if(u!==n.rel||l.getAttribute("href")!==(n.href==null||n.href===""?null:n.href)||l.getAttribute("crossorigin")!==(n.crossOrigin==null?null:n.crossOrigin)||l.getAttribute("title")!==(n.title==null?null:n.title))break;return l;case"style":if(l.hasAttribute("data-precedence"))break;return l;case"script":if(u=l.getAttribute("src"),(u!==(n.src==null?null:n.src)||l.getAttribute("type")!==(n.type==null?null:n.type)||l.getAttribute("crossorigin")!==(n.crossOrigin==null?null:n.crossOrigin))&&u&&l.hasAttribute("async")&&!l.hasAttribute("itemprop"))break;return l;default:return l}}else if(t==="input"&&l.type==="hidden"){var u=n.name==null?null:""+n.name;if(n.type==="hidden"&&l.getAttribute("name")===u)return l}else return l;if(l=Il(l.nextSibling),l===null)break}return null}function Og(l,t,a){if(t==="")return null;for(;l.nodeType!==3;)if((l.nodeType!==1||l.nodeName!=="INPUT"||l.type!=="hidden")&&!a||(l=Il(l.nextSibling),l===null))return null;return l}function x0(l,t){for(;l.nodeType!==8;)if((l.nodeType!==1||l.nodeName!=="INPUT"||l.type!=="hidden")&&!t||(l=Il(l.nextSibling),l===null))return null;return l}function wc(l){return l.data==="$?"||l.data==="$~"}function Kc(l){return l.data==="$!"||l.data==="$?"&&l.ownerDocument.readyState!=="loading"}function _g(l,t){var a=l.ownerDocument;if(l.data==="$~")l._reactRetry=t;else if(l.data!=="$?"||a.readyState!=="loading")t();else{var e=function(){t(),a.removeEventListener("DOMContentLoaded",e)};a.addEventListener("DOMContentLoaded",e),l._reactRetry=e}}function Il(l){for(;l!=null;l=l.nextSibling){var t=l.nodeType;if(t===1||t===3)break;if(t===8){if(t=l.data,t==="$"||t==="$!"||t==="$?"||t==="$~"||t==="&"||t==="F!"||t==="F")break;if(t==="/$"||t==="/&")return null}}return l}var Jc=null;function Gr(l){l=l.nextSibling;for(var t=0;l;){if(l.nodeType===8){var a=l.data;if(a==="/$"||a==="/&"){if(t===0)return Il(l.nextSibling);t--}else a!=="$"&&a!=="$!"&&a!=="$?"&&a!=="$~"&&a!=="&"||t++}l=l.nextSibling}return null}function Qr(l){l=l.previousSibling;for(var t=0;l;){if(l.nodeType===8){var a=l.data;if(a==="$"||a==="$!"||a==="$?"||a==="$~"||a==="&"){if(t===0)return l;t--}else a!=="/$"&&a!=="/&"||t++}l=l.previousSibling}return null}function O0(l,t,a){switch(t=Ru(a),l){case"html":if(l=t.documentElement,!l)throw Error(h(452));return l;case"head":if(l=t.head,!l)throw Error(h(453));return l;case"body":if(l=t.body,!l)throw Error(h(454));return l;default:throw Error(h(451))}}function Pe(l){for(var t=l.attributes;t.length;)l.removeAttributeNode(t[0]);tf(l)}var Pl=new Map,Xr=new Set;function Yu(l){return typeof l.getRootNode=="function"?l.getRootNode():l.nodeType===9?l:l.ownerDocument}var Ct=Q.d;Q.d={f:Ng,r:Dg,D:Ug,C:Hg,L:Cg,m:Bg,X:Yg,S:Rg,M:qg};function Ng(){var l=Ct.f(),t=Pu();return l||t}function Dg(l){var t=he(l);t!==null&&t.tag===5&&t.type==="form"?Ss(t):Ct.r(l)}var Ee=typeof document>"u"?null:document;function _0(l,t,a){var e=Ee;if(e&&typeof t=="string"&&t){var n=kl(t);n='link[rel="'+l+'"][href="'+n+'"]',typeof a=="string"&&(n+='[crossorigin="'+a+'"]'),Xr.has(n)||(Xr.add(n),l={rel:l,crossOrigin:a,href:t},e.querySelector(n)===null&&(t=e.createElement("link"),Sl(t,"link",l),ml(t),e.head.appendChild(t)))}}function Ug(l){Ct.D(l),_0("dns-prefetch",l,null)}function Hg(l,t){Ct.C(l,t),_0("preconnect",l,t)}function Cg(l,t,a){Ct.L(l,t,a);var e=Ee;if(e&&l&&t){var n='link[rel="preload"][as="'+kl(t)+'"]';t==="image"&&a&&a.imageSrcSet?(n+='[imagesrcset="'+kl(a.imageSrcSet)+'"]',typeof a.imageSizes=="string"&&(n+='[imagesizes="'+kl(a.imageSizes)+'"]')):n+='[href="'+kl(l)+'"]';var u=n;switch(t){case"style":u=be(l);break;case"script":u=Te(l)}Pl.has(u)||(l=P({rel:"preload",href:t==="image"&&a&&a.imageSrcSet?void 0:l,as:t},a),Pl.set(u,l),e.querySelector(n)!==null||t==="style"&&e.querySelector(Mn(u))||t==="script"&&e.querySelector(xn(u))||(t=e.createElement("link"),Sl(t,"link",l),ml(t),e.head.appendChild(t)))}}function Bg(l,t){Ct.m(l,t);var a=Ee;if(a&&l){var e=t&&typeof t.as=="string"?t.as:"script",n='link[rel="modulepreload"][as="'+kl(e)+'"][href="'+kl(l)+'"]',u=n;switch(e){case"audioworklet":case"paintworklet":case"serviceworker":case"sharedworker":case"worker":case"script":u=Te(l)}if(!Pl.has(u)&&(l=P({rel:"modulepreload",href:l},t),Pl.set(u,l),a.querySelector(n)===null)){switch(e){case"audioworklet":case"paintworklet":case"serviceworker":case"sharedworker":case"worker":case"script":if(a.querySelector(xn(u)))return}e=a.createElement("link"),Sl(e,"link",l),ml(e),a.head.appendChild(e)}}}function Rg(l,t,a){Ct.S(l,t,a);var e=Ee;if(e&&l){var n=Pa(e).hoistableStyles,u=be(l);t=t||"default";var i=n.get(u);if(!i){var c={loading:0,preload:null};if(i=e.querySelector(Mn(u)))c.loading=5;else{l=P({rel:"stylesheet",href:l,"data-precedence":t},a),(a=Pl.get(u))&&Xf(l,a);var f=i=e.createElement("link");ml(f),Sl(f,"link",l),f._p=new Promise(function(d,b){f.onload=d,f.onerror=b}),f.addEventListener("load",function(){c.loading|=1}),f.addEventListener("error",function(){c.loading|=2}),c.loading|=4,fu(i,t,e)}i={type:"stylesheet",instance:i,count:1,state:c},n.set(u,i)}}}function Yg(l,t){Ct.X(l,t);var a=Ee;if(a&&l){var e=Pa(a).hoistableScripts,n=Te(l),u=e.get(n);u||(u=a.querySelector(xn(n)),u||(l=P({src:l,async:!0},t),(t=Pl.get(n))&&Lf(l,t),u=a.createElement("script"),ml(u),Sl(u,"link",l),a.head.appendChild(u)),u={type:"script",instance:u,count:1,state:null},e.set(n,u))}}function qg(l,t){Ct.M(l,t);var a=Ee;if(a&&l){var e=Pa(a).hoistableScripts,n=Te(l),u=e.get(n);u||(u=a.querySelector(xn(n)),u||(l=P({src:l,async:!0,type:"module"},t),(t=Pl.get(n))&&Lf(l,t),u=a.createElement("script"),ml(u),Sl(u,"link",l),a.head.appendChild(u)),u={type:"script",instance:u,count:1,state:null},e.set(n,u))}}function Lr(l,t,a,e){var n=(n=kt.current)?Yu(n):null;if(!n)throw Error(h(446));switch(l){case"meta":case"title":return null;case"style":return typeof a.precedence=="string"&&typeof a.href=="string"?(t=be(a.href),a=Pa(n).hoistableStyles,e=a.get(t),e||(e={type:"style",instance:null,count:0,state:null},a.set(t,e)),e):{type:"void",instance:null,count:0,state:null};case"link":if(a.rel==="stylesheet"&&typeof a.href=="string"&&typeof a.precedence=="string"){l=be(a.href);var u=Pa(n).hoistableStyles,i=u.get(l);if(i||(n=n.ownerDocument||n,i={type:"stylesheet",instance:null,count:0,state:{loading:0,preload:null}},u.set(l,i),(u=n.querySelector(Mn(l)))&&!u._p&&(i.instance=u,i.state.loading=5),Pl.has(l)||(a={rel:"preload",as:"style",href:a.href,crossOrigin:a.crossOrigin,integrity:a.integrity,media:a.media,hrefLang:a.hrefLang,referrerPolicy:a.referrerPolicy},Pl.set(l,a),u||jg(n,l,a,i.state))),t&&e===null)throw Error(h(528,""));return i}if(t&&e!==null)throw Error(h(529,""));return null;case"script":return t=a.async,a=a.src,typeof a=="string"&&t&&typeof t!="function"&&typeof t!="symbol"?(t=Te(a),a=Pa(n).hoistableScripts,e=a.get(t),e||(e={type:"script",instance:null,count:0,state:null},a.set(t,e)),e):{type:"void",instance:null,count:0,state:null};default:throw Error(h(444,l))}}function be(l){return'href="'+kl(l)+'"'}function Mn(l){return'link[rel="stylesheet"]['+l+"]"}function N0(l){return P({},l,{"data-precedence":l.precedence,precedence:null})}function jg(l,t,a,e){l.querySelector('link[rel="preload"][as="style"]['+t+"]")?e.loading=1:(t=l.createElement("link"),e.preload=t,t.addEventListener("load",function(){return e.loading|=1}),t.addEventListener("error",function(){return e.loading|=2}),Sl(t,"link",a),ml(t),l.head.appendChild(t))}function Te(l){return'[src="'+kl(l)+'"]'}function xn(l){return"script[async]"+l}function Zr(l,t,a){if(t.count++,t.instance===null)switch(t.type){case"style":var e=l.querySelector('style[data-href~="'+kl(a.href)+'"]');if(e)return t.instance=e,ml(e),e;var n=P({},a,{"data-href":a.href,"data-precedence":a.precedence,href:null,precedence:null});return e=(l.ownerDocument||l).createElement("style"),ml(e),Sl(e,"style",n),fu(e,a.precedence,l),t.instance=e;case"stylesheet":n=be(a.href);var u=l.querySelector(Mn(n));if(u)return t.state.loading|=4,t.instance=u,ml(u),u;e=N0(a),(n=Pl.get(n))&&Xf(e,n),u=(l.ownerDocument||l).createElement("link"),ml(u);var i=u;return i._p=new Promise(function(c,f){i.onload=c,i.onerror=f}),Sl(u,"link",e),t.state.loading|=4,fu(u,a.precedence,l),t.instance=u;case"script":return u=Te(a.src),(n=l.querySelector(xn(u)))?(t.instance=n,ml(n),n):(e=a,(n=Pl.get(u))&&(e=P({},a),Lf(e,n)),l=l.ownerDocument||l,n=l.createElement("script"),ml(n),Sl(n,"link",e),l.head.appendChild(n),t.instance=n);case"void":return null;default:throw Error(h(443,t.type))}else t.type==="stylesheet"&&(t.state.loading&4)===0&&(e=t.instance,t.state.loading|=4,fu(e,a.precedence,l));return t.instance}function fu(l,t,a){for(var e=a.querySelectorAll('link[rel="stylesheet"][data-precedence],style[data-precedence]'),n=e.length?e[e.length-1]:null,u=n,i=0;i<e.length;i++){var c=e[i];if(c.dataset.precedence===t)u=c;else if(u!==n)break}u?u.parentNode.insertBefore(l,u.nextSibling):(t=a.nodeType===9?a.head:a,t.insertBefore(l,t.firstChild))}function Xf(l,t){l.crossOrigin==null&&(l.crossOrigin=t.crossOrigin),l.referrerPolicy==null&&(l.referrerPolicy=t.referrerPolicy),l.title==null&&(l.title=t.title)}function Lf(l,t){l.crossOrigin==null&&(l.crossOrigin=t.crossOrigin),l.referrerPolicy==null&&(l.referrerPolicy=t.referrerPolicy),l.integrity==null&&(l.integrity=t.integrity)}var ou=null;function Vr(l,t,a){if(ou===null){var e=new Map,n=ou=new Map;n.set(a,e)}else n=ou,e=n.get(a),e||(e=new Map,n.set(a,e));if(e.has(l))return e;for(e.set(l,null),a=a.getElementsByTagName(l),n=0;n<a.length;n++){var u=a[n];if(!(u[pn]||u[yl]||l==="link"&&u.getAttribute("rel")==="stylesheet")&&u.namespaceURI!=="http://www.w3.org/2000/svg"){var i=u.getAttribute(t)||"";i=l+i;var c=e.get(i);c?c.push(u):e.set(i,[u])}}return e}function wr(l,t,a){l=l.ownerDocument||l,l.head.insertBefore(a,t==="title"?l.querySelector("head > title"):null)}function Gg(l,t,a){if(a===1||t.itemProp!=null)return!1;switch(l){case"meta":case"title":return!0;case"style":if(typeof t.precedence!="string"||typeof t.href!="string"||t.href==="")break;return!0;case"link":if(typeof t.rel!="string"||typeof t.href!="string"||t.href===""||t.onLoad||t.onError)break;switch(t.rel){case"stylesheet":return l=t.disabled,typeof t.precedence=="string"&&l==null;default:return!0}case"script":if(t.async&&typeof t.async!="function"&&typeof t.async!="symbol"&&!t.onLoad&&!t.onError&&t.src&&typeof t.src=="string")return!0}return!1}function D0(l){return!(l.type==="stylesheet"&&(l.state.loading&3)===0)}function Qg(l,t,a,e){if(a.type==="stylesheet"&&(typeof e.media!="string"||matchMedia(e.media).matches!==!1)&&(a.state.loading&4)===0){if(a.instance===null){var n=be(e.href),u=t.querySelector(Mn(n));if(u){t=u._p,t!==null&&typeof t=="object"&&typeof t.then=="function"&&(l.count++,l=qu.bind(l),t.then(l,l)),a.state.loading|=4,a.instance=u,ml(u);return}u=t.ownerDocument||t,e=N0(e),(n=Pl.get(n))&&Xf(e,n),u=u.createElement("link"),ml(u);var i=u;i._p=new Promise(function(c,f){i.onload=c,i.onerror=f}),Sl(u,"link",e),a.instance=u}l.stylesheets===null&&(l.stylesheets=new Map),l.stylesheets.set(a,t),(t=a.state.preload)&&(a.state.loading&3)===0&&(l.count++,a=qu.bind(l),t.addEventListener("load",a),t.addEventListener("error",a))}}var lc=0;function Xg(l,t){return l.stylesheets&&l.count===0&&ru(l,l.stylesheets),0<l.count||0<l.imgCount?function(a){var e=setTimeout(function(){if(l.stylesheets&&ru(l,l.stylesheets),l.unsuspend){var u=l.unsuspend;l.unsuspend=null,u()}},6e4+t);0<l.imgBytes&&lc===0&&(lc=62500*zg());var n=setTimeout(function(){if(l.waitingForImages=!1,l.count===0&&(l.stylesheets&&ru(l,l.stylesheets),l.unsuspend)){var u=l.unsuspend;l.unsuspend=null,u()}},(l.imgBytes>lc?50:800)+t);return l.unsuspend=a,function(){l.unsuspend=null,clearTimeout(e),clearTimeout(n)}}:null}function qu(){if(this.count--,this.count===0&&(this.imgCount===0||!this.waitingForImages)){if(this.stylesheets)ru(this,this.stylesheets);else if(this.unsuspend){var l=this.unsuspend;this.unsuspend=null,l()}}}var ju=null;function ru(l,t){l.stylesheets=null,l.unsuspend!==null&&(l.count++,ju=new Map,t.forEach(Lg,l),ju=null,qu.call(l))}function Lg(l,t){if(!(t.state.loading&4)){var a=ju.get(l);if(a)var e=a.get(null);else{a=new Map,ju.set(l,a);for(var n=l.querySelectorAll("link[data-precedence],style[data-precedence]"),u=0;u<n.length;u++){var i=n[u];(i.nodeName==="LINK"||i.getAttribute("media")!=="not all")&&(a.set(i.dataset.precedence,i),e=i)}e&&a.set(null,e)}n=t.instance,i=n.getAttribute("data-precedence"),u=a.get(i)||e,u===e&&a.set(null,n),a.set(i,n),this.count++,e=qu.bind(this),n.addEventListener("load",e),n.addEventListener("error",e),u?u.parentNode.insertBefore(n,u.nextSibling):(l=l.nodeType===9?l.head:l,l.insertBefore(n,l.firstChild)),t.state.loading|=4}}var sn={$$typeof:Et,Provider:null,Consumer:null,_currentValue:ga,_currentValue2:ga,_threadCount:0};function Zg(l,t,a,e,n,u,i,c,f){this.tag=1,this.containerInfo=l,this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.next=this.pendingContext=this.context=this.cancelPendingCommit=null,this.callbackPriority=0,this.expirationTimes=xi(-1),this.entangledLanes=this.shellSuspendCounter=this.errorRecoveryDisabledLanes=this.expiredLanes=this.warmLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=xi(0),this.hiddenUpdates=xi(null),this.identifierPrefix=e,this.onUncaughtError=n,this.onCaughtError=u,this.onRecoverableError=i,this.pooledCache=null,this.pooledCacheLanes=0,this.formState=f,this.incompleteTransitions=new Map}function U0(l,t,a,e,n,u,i,c,f,d,b,y){return l=new Zg(l,t,a,i,f,d,b,y,c),t=1,u===!0&&(t|=24),u=Rl(3,null,null,t),l.current=u,u.stateNode=l,t=gf(),t.refCount++,l.pooledCache=t,t.refCount++,u.memoizedState={element:e,isDehydrated:a,cache:t},yf(u),l}function H0(l){return l?(l=Wa,l):Wa}function C0(l,t,a,e,n,u){n=H0(n),e.context===null?e.context=n:e.pendingContext=n,e=$t(t),e.payload={element:a},u=u===void 0?null:u,u!==null&&(e.callback=u),a=Ft(l,e,t),a!==null&&(Nl(a,l,t),we(a,l,t))}function Kr(l,t){if(l=l.memoizedState,l!==null&&l.dehydrated!==null){var a=l.retryLane;l.retryLane=a!==0&&a<t?a:t}}function Zf(l,t){Kr(l,t),(l=l.alternate)&&Kr(l,t)}function B0(l){if(l.tag===13||l.tag===31){var t=Oa(l,67108864);t!==null&&Nl(t,l,67108864),Zf(l,67108864)}}function Jr(l){if(l.tag===13||l.tag===31){var t=Ql();t=Pc(t);var a=Oa(l,t);a!==null&&Nl(a,l,t),Zf(l,t)}}var Gu=!0;function Vg(l,t,a,e){var n=x.T;x.T=null;var u=Q.p;try{Q.p=2,Vf(l,t,a,e)}finally{Q.p=u,x.T=n}}function wg(l,t,a,e){var n=x.T;x.T=null;var u=Q.p;try{Q.p=8,Vf(l,t,a,e)}finally{Q.p=u,x.T=n}}function Vf(l,t,a,e){if(Gu){var n=kc(e);if(n===null)Ii(l,t,e,Qu,a),kr(l,e);else if(Jg(n,l,t,a,e))e.stopPropagation();else if(kr(l,e),t&4&&-1<Kg.indexOf(l)){for(;n!==null;){var u=he(n);if(u!==null)switch(u.tag){case 3:if(u=u.stateNode,u.current.memoizedState.isDehydrated){var i=da(u.pendingLanes);if(i!==0){var c=u;for(c.pendingLanes|=2,c.entangledLanes|=2;i;){var f=1<<31-Gl(i);c.entanglements[1]|=f,i&=~f}mt(u),(G&6)===0&&(Nu=ql()+500,An(0,!1))}}break;case 31:case 13:c=Oa(u,2),c!==null&&Nl(c,u,2),Pu(),Zf(u,2)}if(u=kc(e),u===null&&Ii(l,t,e,Qu,a),u===n)break;n=u}n!==null&&e.stopPropagation()}else Ii(l,t,e,null,a)}}function kc(l){return l=ef(l),wf(l)}var Qu=null;function wf(l){if(Qu=null,l=Za(l),l!==null){var t=bn(l);if(t===null)l=null;else{var a=t.tag;if(a===13){if(l=ld(t),l!==null)return l;l=null}else if(a===31){if(l=td(t),l!==null)return l;l=null}else if(a===3){if(t.stateNode.current.memoizedState.isDehydrated)return t.tag===3?t.stateNode.containerInfo:null;l=null}else t!==l&&(l=null)}}return Qu=l,null}function R0(l){switch(l){case"beforetoggle":case"cancel":case"click":case"close":case"contextmenu":case"copy":case"cut":case"auxclick":case"dblclick":case"dragend":case"dragstart":case"drop":case"focusin":case"focusout":case"input":case"invalid":case"keydown":case"keypress":case"keyup":case"mousedown":case"mouseup":case"paste":case"pause":case"play":case"pointercancel":case"pointerdown":case"pointerup":case"ratechange":case"reset":case"resize":case"seeked":case"submit":case"toggle":case"touchcancel":case"touchend":case"touchstart":case"volumechange":case"change":case"selectionchange":case"textInput":case"compositionstart":case"compositionend":case"compositionupdate":case"beforeblur":case"afterblur":case"beforeinput":case"blur":case"fullscreenchange":case"focus":case"hashchange":case"popstate":case"select":case"selectstart":return 2;case"drag":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"mousemove":case"mouseout":case"mouseover":case"pointermove":case"pointerout":case"pointerover":case"scroll":case"touchmove":case"wheel":case"mouseenter":case"mouseleave":case"pointerenter":case"pointerleave":return 8;case"message":switch(C1()){case ud:return 2;case id:return 8;case bu:case B1:return 32;case cd:return 268435456;default:return 32}default:return 32}}var Wc=!1,la=null,ta=null,aa=null,mn=new Map,gn=new Map,Lt=[],Kg="mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset".split(" ");function kr(l,t){switch(l){case"focusin":case"focusout":la=null;break;case"dragenter":case"dragleave":ta=null;break;case"mouseover":case"mouseout":aa=null;break;case"pointerover":case"pointerout":mn.delete(t.pointerId);break;case"gotpointercapture":case"lostpointercapture":gn.delete(t.pointerId)}}function Be(l,t,a,e,n,u){return l===null||l.nativeEvent!==u?(l={blockedOn:t,domEventName:a,eventSystemFlags:e,nativeEvent:u,targetContainers:[n]},t!==null&&(t=he(t),t!==null&&B0(t)),l):(l.eventSystemFlags|=e,t=l.targetContainers,n!==null&&t.indexOf(n)===-1&&t.push(n),l)}function Jg(l,t,a,e,n){switch(t){case"focusin":return la=Be(la,l,t,a,e,n),!0;case"dragenter":return ta=Be(ta,l,t,a,e,n),!0;case"mouseover":return aa=Be(aa,l,t,a,e,n),!0;case"pointerover":var u=n.pointerId;return mn.set(u,Be(mn.get(u)||null,l,t,a,e,n)),!0;case"gotpointercapture":return u=n.pointerId,gn.set(u,Be(gn.get(u)||null,l,t,a,e,n)),!0}return!1}function Y0(l){var t=Za(l.target);if(t!==null){var a=bn(t);if(a!==null){if(t=a.tag,t===13){if(t=ld(a),t!==null){l.blockedOn=t,Uo(l.priority,function(){Jr(a)});return}}else if(t===31){if(t=td(a),t!==null){l.blockedOn=t,Uo(l.priority,function(){Jr(a)});return}}else if(t===3&&a.stateNode.current.memoizedState.isDehydrated){l.blockedOn=a.tag===3?a.stateNode.containerInfo:null;return}}}l.blockedOn=null}function du(l){if(l.blockedOn!==null)return!1;for(var t=l.targetContainers;0<t.length;){var a=kc(l.nativeEvent);if(a===null){a=l.nativeEvent;var e=new a.constructor(a.type,a);mc=e,a.target.dispatchEvent(e),mc=null}else return t=he(a),t!==null&&B0(t),l.blockedOn=a,!1;t.shift()}return!0}function Wr(l,t,a){du(l)&&a.delete(t)}function kg(){Wc=!1,la!==null&&du(la)&&(la=null),ta!==null&&du(ta)&&(ta=null),aa!==null&&du(aa)&&(aa=null),mn.forEach(Wr),gn.forEach(Wr)}function Wn(l,t){l.blockedOn===t&&(l.blockedOn=null,Wc||(Wc=!0,dl.unstable_scheduleCallback(dl.unstable_NormalPriority,kg)))}var $n=null;function $r(l){$n!==l&&($n=l,dl.unstable_scheduleCallback(dl.unstable_NormalPriority,function(){$n===l&&($n=null);for(var t=0;t<l.length;t+=3){var a=l[t],e=l[t+1],n=l[t+2];if(typeof e!="function"){if(wf(e||a)===null)continue;break}var u=he(a);u!==null&&(l.splice(t,3),t-=3,Nc(u,{pending:!0,data:n,method:a.method,action:e},e,n))}}))}function ve(l){function t(f){return Wn(f,l)}la!==null&&Wn(la,l),ta!==null&&Wn(ta,l),aa!==null&&Wn(aa,l),mn.forEach(t),gn.forEach(t);for(var a=0;a<Lt.length;a++){var e=Lt[a];e.blockedOn===l&&(e.blockedOn=null)}for(;0<Lt.length&&(a=Lt[0],a.blockedOn===null);)Y0(a),a.blockedOn===null&&Lt.shift();if(a=(l.ownerDocument||l).$$reactFormReplay,a!=null)for(e=0;e<a.length;e+=3){var n=a[e],u=a[e+1],i=n[Dl]||null;if(typeof u=="function")i||$r(a);else if(i){var c=null;if(u&&u.hasAttribute("formAction")){if(n=u,i=u[Dl]||null)c=i.formAction;else if(wf(n)!==null)continue}else c=i.action;typeof c=="function"?a[e+1]=c:(a.splice(e,3),e-=3),$r(a)}}}function q0(){function l(u){u.canIntercept&&u.info==="react-transition"&&u.intercept({handler:function(){return new Promise(function(i){return n=i})},focusReset:"manual",scroll:"manual"})}function t(){n!==null&&(n(),n=null),e||setTimeout(a,20)}function a(){if(!e&&!navigation.transition){var u=navigation.currentEntry;u&&u.url!=null&&navigation.navigate(u.url,{state:u.getState(),info:"react-transition",history:"replace"})}}if(typeof navigation=="object"){var e=!1,n=null;return navigation.addEventListener("navigate",l),navigation.addEventListener("navigatesuccess",t),navigation.addEventListener("navigateerror",t),setTimeout(a,100),function(){e=!0,navigation.removeEventListener("navigate",l),navigation.removeEventListener("navigatesuccess",t),navigation.removeEventListener("navigateerror",t),n!==null&&(n(),n=null)}}}function Kf(l){this._internalRoot=l}ai.prototype.render=Kf.prototype.render=function(l){var t=this._internalRoot;if(t===null)throw Error(h(409));var a=t.current,e=Ql();C0(a,e,l,t,null,null)};ai.prototype.unmount=Kf.prototype.unmount=function(){var l=this._internalRoot;if(l!==null){this._internalRoot=null;var t=l.containerInfo;C0(l.current,2,null,l,null,null),Pu(),t[ye]=null}};function ai(l){this._internalRoot=l}ai.prototype.unstable_scheduleHydration=function(l){if(l){var t=sd();l={blockedOn:null,target:l,priority:t};for(var a=0;a<Lt.length&&t!==0&&t<Lt[a].priority;a++);Lt.splice(a,0,l),a===0&&Y0(l)}};var Fr=Ir.version;if(Fr!=="19.2.0")throw Error(h(527,Fr,"19.2.0"));Q.findDOMNode=function(l){var t=l._reactInternals;if(t===void 0)throw typeof l.render=="function"?Error(h(188)):(l=Object.keys(l).join(","),Error(h(268,l)));return l=x1(t),l=l!==null?ad(l):null,l=l===null?null:l.stateNode,l};var Wg={bundleType:0,version:"19.2.0",rendererPackageName:"react-dom",currentDispatcherRef:x,reconcilerVersion:"19.2.0"};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<"u"&&(Re=__REACT_DEVTOOLS_GLOBAL_HOOK__,!Re.isDisabled&&Re.supportsFiber))try{vn=Re.inject(Wg),jl=Re}catch{}var Re;ei.createRoot=function(l,t){if(!Pr(l))throw Error(h(299));var a=!1,e="",n=_s,u=Ns,i=Ds;return t!=null&&(t.unstable_strictMode===!0&&(a=!0),t.identifierPrefix!==void 0&&(e=t.identifierPrefix),t.onUncaughtError!==void 0&&(n=t.onUncaughtError),t.onCaughtError!==void 0&&(u=t.onCaughtError),t.onRecoverableError!==void 0&&(i=t.onRecoverableError)),t=U0(l,1,!1,null,null,a,e,null,n,u,i,q0),l[ye]=t.current,Qf(l),new Kf(t)};ei.hydrateRoot=function(l,t,a){if(!Pr(l))throw Error(h(299));var e=!1,n="",u=_s,i=Ns,c=Ds,f=null;return a!=null&&(a.unstable_strictMode===!0&&(e=!0),a.identifierPrefix!==void 0&&(n=a.identifierPrefix),a.onUncaughtError!==void 0&&(u=a.onUncaughtError),a.onCaughtError!==void 0&&(i=a.onCaughtError),a.onRecoverableError!==void 0&&(c=a.onRecoverableError),a.formState!==void 0&&(f=a.formState)),t=U0(l,1,!0,t,a??null,e,n,f,u,i,c,q0),t.context=H0(null),a=t.current,e=Ql(),e=Pc(e),n=$t(e),n.callback=null,Ft(a,n,e),a=e,t.current.lanes=a,hn(t,a),mt(t),l[ye]=t.current,Qf(l),new ai(t)};ei.version="19.2.0"});var X0=ut((mb,Q0)=>{"use strict";function G0(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(G0)}catch(l){console.error(l)}}G0(),Q0.exports=j0()});var Z0=ut(ni=>{"use strict";var $g=Symbol.for("react.transitional.element"),Fg=Symbol.for("react.fragment");function L0(l,t,a){var e=null;if(a!==void 0&&(e=""+a),t.key!==void 0&&(e=""+t.key),"key"in t){a={};for(var n in t)n!=="key"&&(a[n]=t[n])}else a=t;return t=a.ref,{$$typeof:$g,type:l,key:e,ref:t!==void 0?t:null,props:a}}ni.Fragment=Fg;ni.jsx=L0;ni.jsxs=L0});var Na=ut((bb,V0)=>{"use strict";V0.exports=Z0()});var K0=it(Ca(),1),J0=it(X0(),1);var k=it(Ca(),1),S=it(Na(),1),Ig=["Option A","Option B","Option C","Option D","Option E"];function Pg(l){return{OpenAI:"/img/openai_logo.png",Anthropic:"/img/anthropic_logo.png",Google:"/img/google_logo.png"}[l]||""}function Jf(){let[l,t]=(0,k.useState)(""),[a,e]=(0,k.useState)(!1),[n,u]=(0,k.useState)({}),[i,c]=(0,k.useState)(null),[f,d]=(0,k.useState)(null),[b,y]=(0,k.useState)([]),[m,g]=(0,k.useState)(null),[E,T]=(0,k.useState)(!1),[q,r]=(0,k.useState)([]),o=(0,k.useRef)({}),s=(0,k.useRef)(0),v=(0,k.useRef)(!1);k.default.useEffect(()=>{fetch("/api/models").then(_=>_.json()).then(_=>{_.models&&Array.isArray(_.models)&&r(_.models)}).catch(_=>console.error("Failed to load models:",_))},[]);let A=(0,k.useCallback)(_=>{let O=o.current[_];if(O)return O;let K=s.current,X=Ig[K]??`Option ${K+1}`;return o.current[_]=X,s.current=K+1,X},[]),C=(0,k.useCallback)(async _=>{if(!(!_||v.current)){v.current=!0;try{let O=await fetch("/api/demo/vote",{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify(_)});if(!O.ok)throw new Error(`Vote tracking failed (${O.status})`)}catch(O){console.error("Failed to record leaderboard vote",O),v.current=!1}}},[]),p=(0,k.useCallback)(()=>{window.location.href="/leaderboard"},[]),M=(0,k.useCallback)(async _=>{if(_.preventDefault(),!(!l.trim()||a)){e(!0),u({}),c(null),d(null),y([]),g(null),T(!1),o.current={},s.current=0,v.current=!1;try{let O=await fetch("/api/demo/run",{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify({description:l})});if(!O.ok)throw new Error(`Request failed: ${O.status}`);let K=O.body?.getReader(),X=new TextDecoder;if(!K)throw new Error("No response body");let nt="",Ae=()=>{let lt=nt.indexOf(`
-
-`);for(;lt!==-1;){let On=nt.slice(0,lt);nt=nt.slice(lt+2);let I0=On.split(`
-`).filter(Boolean),Wf="message",Da="";for(let Bt of I0)Bt.startsWith("event:")?Wf=Bt.slice(6).trim():Bt.startsWith("data:")&&(Da&&(Da+=`
-`),Da+=Bt.slice(5).trim());if(Da)try{let Bt=JSON.parse(Da);U(Wf,Bt)}catch(Bt){console.error("Failed to parse SSE payload",Bt,Da)}lt=nt.indexOf(`
-
-`)}};for(;;){let{done:lt,value:On}=await K.read();if(On&&(nt+=X.decode(On,{stream:!0}),Ae()),lt){nt+=X.decode(),Ae();break}}}catch(O){console.error("Stream error:",O),alert(`Error: ${O instanceof Error?O.message:String(O)}`)}finally{e(!1)}}},[l,a]),U=(0,k.useCallback)((_,O)=>{switch(_){case"run-start":c(O.runId);break;case"model-start":{let K=A(O.label);u(X=>({...X,[O.label]:{label:O.label,displayLabel:K,provider:O.provider,model:O.model,variantId:O.variantKey,status:"generating",text:""}})),y(X=>X.includes(O.label)?X:[...X,O.label]),d(X=>X||O.label);break}case"chunk":u(K=>{let X=K[O.label];return X?{...K,[O.label]:{...X,variantId:X.variantId??O.variantKey,text:X.text+O.chunk}}:K});break;case"model-complete":u(K=>{let X=K[O.label];return X?{...K,[O.label]:{...X,variantId:X.variantId??O.variantKey,status:"complete"}}:K});break;case"model-error":u(K=>{let X=K[O.label];return X?{...K,[O.label]:{...X,variantId:X.variantId??O.variantKey,status:"error",error:O.error}}:K});break;case"run-complete":console.log("Run complete:",O);break;case"error":console.error("Server error:",O.error),alert(`Server error: ${O.error}`);break}},[]),H=(0,k.useMemo)(()=>b.map(_=>n[_]).filter(_=>!!_),[b,n]),Hl=H.length>0&&H.every(_=>_.status==="complete"||_.status==="error"),ii=m?n[m]??null:null,$0=!!m,F0=(0,k.useCallback)(_=>{if(!Hl||m&&m!==_)return;let O=b[0],K=b[1];if(!O||!K)return;let X=n[O]?.variantId,nt=n[K]?.variantId,Ae=n[_]?.variantId;if(!X||!nt||!Ae)return;let lt=null;_===O?lt="left":_===K&&(lt="right"),lt&&(g(_),T(!1),C({winnerVariantId:Ae,leftVariantId:X,rightVariantId:nt,selection:lt}))},[Hl,m,b,n,C]);return(0,S.jsx)(S.Fragment,{children:(0,S.jsx)("div",{className:"demo-shell",children:!a&&H.length===0?(0,S.jsxs)("div",{className:"demo-landing",children:[(0,S.jsxs)("header",{className:"demo-header",children:[(0,S.jsx)("h1",{className:"demo-title",children:"Design Arena"}),(0,S.jsx)("p",{className:"demo-subtitle",children:"Compare HTML designs across top AI models in real-time"})]}),(0,S.jsx)("div",{className:"demo-models",children:q.length>0?Array.from(new Set(q.map(_=>_.provider))).slice(0,5).map((_,O)=>{let K=Pg(_);return K?(0,S.jsx)("div",{className:"model-logo-wrapper",children:(0,S.jsx)("img",{src:K,alt:`${_} logo`,className:"model-provider-logo"})},O):null}):(0,S.jsxs)(S.Fragment,{children:[(0,S.jsx)("div",{className:"model-logo-wrapper",children:(0,S.jsx)("img",{src:"/img/openai_logo.png",alt:"OpenAI logo",className:"model-provider-logo"})}),(0,S.jsx)("div",{className:"model-logo-wrapper",children:(0,S.jsx)("img",{src:"/img/anthropic_logo.png",alt:"Anthropic logo",className:"model-provider-logo"})})]})}),(0,S.jsxs)("form",{className:"demo-input-form",onSubmit:M,children:[(0,S.jsxs)("div",{className:"demo-input-wrapper",children:[(0,S.jsx)("input",{type:"text",className:"demo-input",placeholder:"Describe the design you want...",value:l,onChange:_=>t(_.target.value),autoFocus:!0}),(0,S.jsx)("button",{type:"submit",className:"demo-submit",disabled:!l.trim(),children:(0,S.jsx)("svg",{width:"20",height:"20",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:(0,S.jsx)("path",{d:"M5 12h14M12 5l7 7-7 7",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"})})})]}),(0,S.jsxs)("div",{className:"demo-input-toolbar",children:[(0,S.jsx)("button",{type:"button",className:"demo-toolbar-btn",title:"Add attachment",children:(0,S.jsx)("svg",{width:"16",height:"16",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:(0,S.jsx)("path",{d:"M12 5v14M5 12h14",strokeWidth:"2",strokeLinecap:"round"})})}),(0,S.jsx)("button",{type:"button",className:"demo-toolbar-btn",title:"Browse web",children:(0,S.jsxs)("svg",{width:"16",height:"16",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:[(0,S.jsx)("circle",{cx:"12",cy:"12",r:"10",strokeWidth:"2"}),(0,S.jsx)("path",{d:"M2 12h20M12 2a15.3 15.3 0 014 10 15.3 15.3 0 01-4 10 15.3 15.3 0 01-4-10 15.3 15.3 0 014-10z",strokeWidth:"2"})]})}),(0,S.jsx)("button",{type:"button",className:"demo-toolbar-btn",title:"Add image",children:(0,S.jsxs)("svg",{width:"16",height:"16",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:[(0,S.jsx)("rect",{x:"3",y:"3",width:"18",height:"18",rx:"2",strokeWidth:"2"}),(0,S.jsx)("circle",{cx:"8.5",cy:"8.5",r:"1.5"}),(0,S.jsx)("path",{d:"M21 15l-5-5L5 21",strokeWidth:"2"})]})}),(0,S.jsx)("button",{type:"button",className:"demo-toolbar-btn",title:"Code mode",children:(0,S.jsx)("svg",{width:"16",height:"16",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:(0,S.jsx)("path",{d:"M16 18l6-6-6-6M8 6l-6 6 6 6",strokeWidth:"2",strokeLinecap:"round"})})})]}),(0,S.jsx)("button",{type:"button",className:"demo-leaderboard-btn",onClick:p,children:"View Leaderboard"})]})]}):(0,S.jsxs)("div",{className:"demo-generation",children:[(0,S.jsxs)("div",{className:"demo-gen-header",children:[(0,S.jsxs)("div",{className:"demo-gen-header-left",children:[(0,S.jsx)("button",{type:"button",className:"demo-back-btn",onClick:()=>{u({}),e(!1),c(null),d(null),y([]),g(null),T(!1),o.current={},s.current=0,v.current=!1},children:"\u2190 New Comparison"}),(0,S.jsx)("div",{className:"demo-gen-description",children:l})]}),(0,S.jsx)("button",{type:"button",className:"demo-leaderboard-btn",onClick:p,children:"Leaderboard"})]}),(0,S.jsx)("div",{className:"demo-model-tabs",children:H.map(_=>(0,S.jsxs)("button",{type:"button",className:`demo-model-tab${f===_.label?" demo-model-tab--active":""}`,onClick:()=>d(_.label),children:[(0,S.jsx)("span",{className:"demo-model-tab-label",children:_.displayLabel}),(0,S.jsx)(w0,{status:_.status})]},_.label))}),f&&n[f]&&(0,S.jsx)(lb,{model:n[f]}),H.length>0&&(0,S.jsx)(tb,{models:H,canSelect:Hl,selectedModel:ii,onSelect:F0,revealDetails:E,onReveal:()=>T(!0),selectionLocked:$0}),Hl&&(0,S.jsxs)("div",{className:"demo-complete-actions",children:[(0,S.jsx)("button",{type:"button",className:"demo-action-btn demo-action-btn--primary",onClick:()=>{window.location.href="/leaderboard"},children:"View Leaderboard \u2192"}),(0,S.jsx)("button",{type:"button",className:"demo-action-btn",onClick:()=>{u({}),e(!1),c(null),d(null),t(""),y([]),g(null),T(!1),o.current={},s.current=0,v.current=!1},children:"Try Another"})]})]})})})}function lb({model:l}){let[t,a]=(0,k.useState)("preview"),e=(0,k.useMemo)(()=>ab(l.text),[l.text]),n=e||l.text||"";return(0,S.jsxs)("div",{className:"demo-output-container",children:[(0,S.jsxs)("div",{className:"model-output-view-toggle",children:[(0,S.jsx)("button",{type:"button",className:`model-view-icon-btn${t==="preview"?" model-view-icon-btn--active":""}`,onClick:()=>a("preview"),title:"Preview",children:(0,S.jsxs)("svg",{width:"18",height:"18",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:[(0,S.jsx)("path",{d:"M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z",strokeWidth:"2"}),(0,S.jsx)("circle",{cx:"12",cy:"12",r:"3",strokeWidth:"2"})]})}),(0,S.jsx)("button",{type:"button",className:`model-view-icon-btn${t==="code"?" model-view-icon-btn--active":""}`,onClick:()=>a("code"),title:"Code",children:(0,S.jsx)("svg",{width:"18",height:"18",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:(0,S.jsx)("path",{d:"M16 18l6-6-6-6M8 6l-6 6 6 6",strokeWidth:"2",strokeLinecap:"round"})})})]}),l.status==="error"?(0,S.jsx)("div",{className:"model-output-error",children:(0,S.jsxs)("p",{children:["Error: ",l.error]})}):t==="code"?(0,S.jsx)("pre",{className:"model-output-code",children:(0,S.jsx)("code",{children:e||l.text||"Waiting..."})}):(0,S.jsx)("iframe",{className:"model-output-preview",srcDoc:n,title:`${l.displayLabel} preview`,sandbox:"allow-scripts"})]})}function tb({models:l,canSelect:t,selectedModel:a,onSelect:e,revealDetails:n,onReveal:u,selectionLocked:i}){return(0,S.jsxs)("div",{className:"demo-arena-panel",children:[(0,S.jsxs)("div",{className:"demo-arena-panel-header",children:[(0,S.jsxs)("div",{children:[(0,S.jsx)("h3",{children:"Pick the strongest option"}),(0,S.jsx)("p",{children:t?i?"Selection locked. Reveal the model or start a new comparison to pick again.":"Tap an option once you're ready to crown a winner.":"Selections unlock after every option finishes generating."})]}),(0,S.jsxs)("span",{className:"demo-arena-panel-count",children:[l.length," option",l.length===1?"":"s"]})]}),(0,S.jsx)("div",{className:"demo-arena-option-grid",children:l.map(f=>{let d=a?.label===f.label,b=!t||f.status!=="complete"||i&&!d;return(0,S.jsxs)("button",{type:"button",className:`demo-arena-option${d?" demo-arena-option--selected":""}`,disabled:b,onClick:()=>e(f.label),children:[(0,S.jsx)("span",{className:"demo-arena-option-title",children:f.displayLabel}),(0,S.jsx)(w0,{status:f.status})]},f.label)})}),a&&(0,S.jsxs)("div",{className:"demo-arena-reveal",children:[(0,S.jsxs)("div",{className:"demo-arena-reveal-text",children:[(0,S.jsxs)("p",{children:["You picked ",(0,S.jsx)("strong",{children:a.displayLabel}),"."]}),!n&&(0,S.jsx)("small",{children:"Ready to see who built it? Reveal once you\u2019re done judging."})]}),n?(0,S.jsxs)("div",{className:"demo-arena-reveal-details",children:[(0,S.jsxs)("div",{children:[(0,S.jsx)("span",{className:"demo-arena-reveal-label",children:"Provider"}),(0,S.jsx)("span",{className:"demo-arena-reveal-value",children:a.provider})]}),(0,S.jsxs)("div",{children:[(0,S.jsx)("span",{className:"demo-arena-reveal-label",children:"Model"}),(0,S.jsx)("span",{className:"demo-arena-reveal-value",children:a.model})]})]}):(0,S.jsx)("button",{type:"button",className:"demo-reveal-btn",onClick:u,children:"Reveal model identity"})]})]})}function w0({status:l}){let t={idle:"Idle",generating:"Generating...",complete:"Complete",error:"Error"};return(0,S.jsxs)("span",{className:`model-status model-status--${l}`,children:[l==="generating"&&(0,S.jsx)("span",{className:"model-status-spinner"}),t[l]]})}function ab(l){if(!l)return"";let t=l.trim();if(!t.startsWith("```"))return l;let a=t.lastIndexOf("```");if(a<=3)return l;let e=t.slice(3,a).trim();if(!e)return"";if(e.toLowerCase().startsWith("html"))e=e.slice(4).trimStart();else{let n=e.indexOf(`
-`);if(n!==-1){let u=e.slice(0,n).trim().toLowerCase();(u==="html"||u==="markup")&&(e=e.slice(n+1).trimStart())}}return e||l}var bl=it(Ca(),1),z=it(Na(),1);function kf(){let[l,t]=(0,bl.useState)("leaderboard"),[a,e]=(0,bl.useState)([]),[n,u]=(0,bl.useState)(null),[i,c]=(0,bl.useState)([]),[f,d]=(0,bl.useState)(""),[b,y]=(0,bl.useState)(!0),[m,g]=(0,bl.useState)(null),E=(0,bl.useCallback)(async()=>{y(!0),g(null);try{let p=await fetch("/api/leaderboard");if(!p.ok)throw new Error(`Leaderboard request failed (${p.status})`);let M=await p.json();e(M.entries??[]),u(M.stats??null)}catch(p){g(p instanceof Error?p.message:String(p))}finally{y(!1)}},[]),T=(0,bl.useCallback)(async()=>{y(!0),g(null);try{let p=await fetch("/api/battles");if(!p.ok)throw new Error(`Battles request failed (${p.status})`);let M=await p.json();c(M.battles??[])}catch(p){g(p instanceof Error?p.message:String(p))}finally{y(!1)}},[]),q=(0,bl.useCallback)(async()=>{l==="leaderboard"?await E():await T()},[l,E,T]);(0,bl.useEffect)(()=>{q()},[q]);let r=f.trim().toLowerCase(),o=(0,bl.useMemo)(()=>r?a.filter(p=>[p.label,p.provider,p.model].filter(Boolean).join(" ").toLowerCase().includes(r)):a,[a,r]),s=(0,bl.useMemo)(()=>r?i.filter(p=>[p.left.label,p.left.provider,p.right.label,p.right.provider,p.winner?.label].filter(Boolean).join(" ").toLowerCase().includes(r)):i,[i,r]),v=(0,bl.useMemo)(()=>{if(!n?.lastUpdated)return"\u2014";let p=n.lastUpdated.includes("T")?n.lastUpdated:`${n.lastUpdated.replace(" ","T")}Z`,M=new Date(p);return Number.isNaN(M.getTime())?n.lastUpdated:M.toLocaleString(void 0,{month:"short",day:"numeric",year:"numeric",hour:"numeric",minute:"numeric"})},[n?.lastUpdated]),A=n?.totalVotes??0,C=n?.totalModels??o.length;return(0,z.jsxs)("div",{className:"leaderboard-page",children:[(0,z.jsxs)("header",{className:"leaderboard-page-header",children:[(0,z.jsxs)("div",{className:"leaderboard-hero",children:[(0,z.jsx)("button",{type:"button",className:"leaderboard-back-btn",onClick:()=>{window.location.href="/"},children:"\u2190 Back to Demo"}),(0,z.jsx)("h1",{children:"Design Arena Leaderboard"}),(0,z.jsx)("p",{children:"Track which variants earn the most wins across demo runs and arena comparisons. Use the search bar to find specific models or explore the current leaders."})]}),(0,z.jsxs)("div",{className:"leaderboard-metrics",children:[(0,z.jsxs)("div",{className:"leaderboard-metric",children:[(0,z.jsx)("span",{className:"leaderboard-metric-label",children:"Last Updated"}),(0,z.jsx)("strong",{children:v})]}),(0,z.jsxs)("div",{className:"leaderboard-metric",children:[(0,z.jsx)("span",{className:"leaderboard-metric-label",children:"Total Votes"}),(0,z.jsx)("strong",{children:A.toLocaleString()})]}),(0,z.jsxs)("div",{className:"leaderboard-metric",children:[(0,z.jsx)("span",{className:"leaderboard-metric-label",children:"Total Models"}),(0,z.jsx)("strong",{children:C.toLocaleString()})]})]})]}),(0,z.jsxs)("div",{className:"leaderboard-tabs",children:[(0,z.jsx)("button",{type:"button",className:`leaderboard-tab${l==="leaderboard"?" leaderboard-tab--active":""}`,onClick:()=>t("leaderboard"),children:"Leaderboard"}),(0,z.jsx)("button",{type:"button",className:`leaderboard-tab${l==="battles"?" leaderboard-tab--active":""}`,onClick:()=>t("battles"),children:"Battle History"})]}),(0,z.jsxs)("div",{className:"leaderboard-search",children:[(0,z.jsxs)("svg",{width:"18",height:"18",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:[(0,z.jsx)("circle",{cx:"11",cy:"11",r:"8",strokeWidth:"2"}),(0,z.jsx)("path",{d:"M21 21l-4.35-4.35",strokeWidth:"2",strokeLinecap:"round"})]}),(0,z.jsx)("input",{type:"search",value:f,onChange:p=>d(p.target.value),placeholder:"Search by model or description\u2026"}),(0,z.jsx)("button",{type:"button",onClick:q,children:"Refresh"})]}),(0,z.jsx)("section",{className:"leaderboard-table-card",children:b?(0,z.jsxs)("div",{className:"leaderboard-state",children:["Loading ",l==="leaderboard"?"leaderboard":"battle history","\u2026"]}):m?(0,z.jsx)("div",{className:"leaderboard-state leaderboard-state--error",children:m}):l==="leaderboard"?o.length===0?(0,z.jsx)("div",{className:"leaderboard-state",children:"No results match your search."}):(0,z.jsxs)("table",{className:"leaderboard-table",children:[(0,z.jsx)("thead",{children:(0,z.jsxs)("tr",{children:[(0,z.jsx)("th",{children:"Rank"}),(0,z.jsx)("th",{children:"Model"}),(0,z.jsx)("th",{children:"Model ID"}),(0,z.jsx)("th",{children:"Provider"}),(0,z.jsx)("th",{children:"Wins"})]})}),(0,z.jsx)("tbody",{children:o.map((p,M)=>(0,z.jsxs)("tr",{children:[(0,z.jsx)("td",{children:M+1}),(0,z.jsx)("td",{children:(0,z.jsx)("strong",{children:p.label||"Unknown"})}),(0,z.jsx)("td",{className:"leaderboard-model-id",children:p.model??"\u2014"}),(0,z.jsx)("td",{children:p.provider??"\u2014"}),(0,z.jsx)("td",{children:(0,z.jsx)("strong",{children:p.wins.toLocaleString()})})]},p.variantId))})]}):s.length===0?(0,z.jsx)("div",{className:"leaderboard-state",children:"No battle history found."}):(0,z.jsxs)("table",{className:"leaderboard-table",children:[(0,z.jsx)("thead",{children:(0,z.jsxs)("tr",{children:[(0,z.jsx)("th",{children:"Date"}),(0,z.jsx)("th",{children:"Model A"}),(0,z.jsx)("th",{children:"Model B"}),(0,z.jsx)("th",{children:"Winner"})]})}),(0,z.jsx)("tbody",{children:s.map(p=>{let U=new Date(p.createdAt).toLocaleString(void 0,{month:"short",day:"numeric",year:"numeric",hour:"numeric",minute:"numeric"});return(0,z.jsxs)("tr",{children:[(0,z.jsx)("td",{children:U}),(0,z.jsx)("td",{children:(0,z.jsxs)("div",{className:"battle-model",children:[(0,z.jsx)("strong",{children:p.left.label}),(0,z.jsx)("span",{children:p.left.provider??"\u2014"})]})}),(0,z.jsx)("td",{children:(0,z.jsxs)("div",{className:"battle-model",children:[(0,z.jsx)("strong",{children:p.right.label}),(0,z.jsx)("span",{children:p.right.provider??"\u2014"})]})}),(0,z.jsx)("td",{children:p.winner?(0,z.jsxs)("span",{className:"battle-result battle-result--winner",children:[(0,z.jsxs)("svg",{width:"16",height:"16",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",children:[(0,z.jsx)("path",{d:"M6 9H4.5a2.5 2.5 0 0 1 0-5H6",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"}),(0,z.jsx)("path",{d:"M18 9h1.5a2.5 2.5 0 0 0 0-5H18",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"}),(0,z.jsx)("path",{d:"M4 22h16",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"}),(0,z.jsx)("path",{d:"M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"}),(0,z.jsx)("path",{d:"M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"}),(0,z.jsx)("path",{d:"M18 2H6v7a6 6 0 0 0 12 0V2Z",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round"})]}),p.winner.label]}):p.selection==="tie"?(0,z.jsx)("span",{className:"battle-result battle-result--tie",children:"Tie"}):(0,z.jsx)("span",{className:"battle-result battle-result--both_bad",children:"Both Bad"})})]},p.id)})})]})})]})}var ui=it(Na(),1),k0=document.getElementById("root");if(!k0)throw new Error("Root element #root not found");var eb=(0,J0.createRoot)(k0),nb=(()=>{let l=window.location.pathname.replace(/\/+$/,"")||"/";return l===""?"/":l})(),W0=(0,ui.jsx)(Jf,{});nb==="/leaderboard"&&(W0=(0,ui.jsx)(kf,{}));eb.render((0,ui.jsx)(K0.StrictMode,{children:W0}));
-/*! Bundled license information:
-
-react/cjs/react.production.js:
-  (**
-   * @license React
-   * react.production.js
-   *
-   * Copyright (c) Meta Platforms, Inc. and affiliates.
-   *
-   * This source code is licensed under the MIT license found in the
-   * LICENSE file in the root directory of this source tree.
-   *)
-
-scheduler/cjs/scheduler.production.js:
-  (**
-   * @license React
-   * scheduler.production.js
-   *
-   * Copyright (c) Meta Platforms, Inc. and affiliates.
-   *
-   * This source code is licensed under the MIT license found in the
-   * LICENSE file in the root directory of this source tree.
-   *)
-
-react-dom/cjs/react-dom.production.js:
-  (**
-   * @license React
-   * react-dom.production.js
-   *
-   * Copyright (c) Meta Platforms, Inc. and affiliates.
-   *
-   * This source code is licensed under the MIT license found in the
-   * LICENSE file in the root directory of this source tree.
-   *)
-
-react-dom/cjs/react-dom-client.production.js:
-  (**
-   * @license React
-   * react-dom-client.production.js
-   *
-   * Copyright (c) Meta Platforms, Inc. and affiliates.
-   *
-   * This source code is licensed under the MIT license found in the
-   * LICENSE file in the root directory of this source tree.
-   *)
-
-react/cjs/react-jsx-runtime.production.js:
-  (**
-   * @license React
-   * react-jsx-runtime.production.js
-   *
-   * Copyright (c) Meta Platforms, Inc. and affiliates.
-   *
-   * This source code is licensed under the MIT license found in the
-   * LICENSE file in the root directory of this source tree.
-   *)
-*/
-//# sourceMappingURL=app.js.map
@@ -0,0 +1,66 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "./lib/benchmark.mjs";
+import { analyzeHtml } from "./lib/analyzer.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig(CONFIG_PATH);
+  const runsDir = path.resolve(ROOT, config.outputDir);
+
+  let runIds;
+  if (args.all === "true") {
+    const entries = await fs.readdir(runsDir, { withFileTypes: true });
+    runIds = entries
+      .filter((entry) => entry.isDirectory() && existsSync(path.join(runsDir, entry.name, "meta.json")))
+      .map((entry) => entry.name);
+  } else if (args.run) {
+    runIds = args.run.split(",").map((id) => id.trim()).filter(Boolean);
+  } else {
+    throw new Error("Pass --run=<runId>[,<runId>…] or --all.");
+  }
+
+  for (const runId of runIds) {
+    const runDir = path.join(runsDir, runId);
+    const entries = await fs.readdir(runDir, { withFileTypes: true });
+    const variantDirs = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.join(runDir, entry.name))
+      .filter((dir) => existsSync(path.join(dir, "response.txt")))
+      .filter((dir) => args.force === "true" || !existsSync(path.join(dir, "analysis.json")));
+
+    for (const variantDir of variantDirs) {
+      const report = analyzeHtml(await fs.readFile(path.join(variantDir, "response.txt"), "utf8"));
+      await fs.writeFile(path.join(variantDir, "analysis.json"), JSON.stringify(report, null, 2), "utf8");
+      const failed = report.checks.filter((check) => !check.passed).map((check) => check.id);
+      console.log(
+        `✔ ${runId}/${path.basename(variantDir)} ${report.passed}/${report.total}${failed.length ? ` (failed: ${failed.join(", ")})` : ""}`,
+      );
+    }
+    if (variantDirs.length === 0) {
+      console.log(`Run ${runId} is already analyzed (use --force to redo).`);
+    }
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value ?? "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
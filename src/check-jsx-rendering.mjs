@@ -0,0 +1,83 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { buildViewer } from "./viewer/build.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const DEFAULT_CORPUS = path.join(ROOT, "fixtures", "jsx-outputs");
+const DEFAULT_COMPONENT_MAP = path.join(ROOT, "benchmarks", "saas-landing", "component-map.json");
+const PRIMARY_SECTION_PATH = path.join(ROOT, "dist", "viewer", "lib", "primary-section.js");
+
+/**
+ * Extracts the hero from every saas-landing style output in the JSX corpus
+ * (one folder per case holding `response.txt` and `expected.html`) and
+ * reports cases whose HTML differs. `--update` rewrites `expected.html`
+ * after an intended rendering change; review the diff before committing.
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpusDir = path.resolve(ROOT, args.corpus ?? DEFAULT_CORPUS);
+  const componentMap = JSON.parse(
+    await fs.readFile(path.resolve(ROOT, args["component-map"] ?? DEFAULT_COMPONENT_MAP), "utf8"),
+  );
+
+  // Always rebuild so the check runs against the current sources.
+  await buildViewer({ skipClient: true });
+  const { extractPrimarySection } = await import(pathToFileURL(PRIMARY_SECTION_PATH).href);
+
+  const cases = (await fs.readdir(corpusDir, { withFileTypes: true }))
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  let failures = 0;
+  for (const id of cases) {
+    const caseDir = path.join(corpusDir, id);
+    const responseText = await fs.readFile(path.join(caseDir, "response.txt"), "utf8");
+    const actual = `${formatHtml(extractPrimarySection(responseText, { componentMap }).sanitizedHtml)}\n`;
+    const expectedPath = path.join(caseDir, "expected.html");
+
+    if (args.update === "true") {
+      await fs.writeFile(expectedPath, actual);
+      console.log(`✎ ${id}`);
+      continue;
+    }
+
+    const expected = await fs.readFile(expectedPath, "utf8").catch(() => null);
+    if (expected === actual) {
+      console.log(`✔ ${id}`);
+      continue;
+    }
+    failures += 1;
+    console.log(`✖ ${id} – ${expected === null ? "no expected.html" : "output differs"}`);
+    if (args.verbose === "true") {
+      console.log(actual.replace(/^/gm, "    "));
+    }
+  }
+
+  if (args.update === "true") return;
+  console.log(`${cases.length - failures}/${cases.length} outputs rendered as expected.`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+/** One tag per line, so expected.html diffs stay readable. */
+function formatHtml(html) {
+  return html.replace(/></g, ">\n<");
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { buildViewer } from "./viewer/build.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const DEFAULT_CORPUS = path.join(ROOT, "fixtures", "hostile-outputs.json");
+const PRIMARY_SECTION_PATH = path.join(ROOT, "dist", "viewer", "lib", "primary-section.js");
+
+// Element names that must never reach the hero view; text cannot contain a
+// raw "<", so any match is real markup.
+const FORBIDDEN_ELEMENTS = /<(?:script|style|iframe|frame|object|embed|applet|form|base|meta|link|template|math|use|animate\w*|set|foreignobject)[\s/>]/i;
+const FORBIDDEN_IN_TAGS = [
+  { pattern: /\son[a-z]+\s*=/i, label: "event handler" },
+  { pattern: /\sstyle\s*=/i, label: "style attribute" },
+  { pattern: /\s(?:srcdoc|formaction|xlink:href)\s*=/i, label: "dangerous attribute" },
+  { pattern: /(?:java|vb)script\s*:/i, label: "script URL" },
+  { pattern: /data:(?!image\/(?:png|gif|jpe?g|webp|avif);)/i, label: "data URL" },
+];
+
+/**
+ * Runs every case of the hostile-output corpus through the hero extraction
+ * the viewer uses and reports markup that survived sanitizing.
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpus = JSON.parse(await fs.readFile(path.resolve(ROOT, args.corpus ?? DEFAULT_CORPUS), "utf8"));
+  const componentMap = args["component-map"]
+    ? JSON.parse(await fs.readFile(path.resolve(ROOT, args["component-map"]), "utf8"))
+    : undefined;
+
+  // Always rebuild so the check runs against the current sources.
+  await buildViewer({ skipClient: true });
+  const { extractPrimarySection } = await import(pathToFileURL(PRIMARY_SECTION_PATH).href);
+
+  let failures = 0;
+  for (const testCase of corpus.cases) {
+    const { sanitizedHtml } = extractPrimarySection(testCase.html, { componentMap });
+    const problems = findProblems(sanitizedHtml);
+    for (const expected of testCase.keep ?? []) {
+      if (!sanitizedHtml.includes(expected)) problems.push(`lost ${JSON.stringify(expected)}`);
+    }
+
+    if (problems.length === 0) {
+      console.log(`✔ ${testCase.id}`);
+      continue;
+    }
+    failures += 1;
+    console.log(`✖ ${testCase.id} – ${problems.join("; ")}`);
+    if (args.verbose === "true") {
+      console.log(`    ${sanitizedHtml}`);
+    }
+  }
+
+  console.log(`${corpus.cases.length - failures}/${corpus.cases.length} cases sanitized safely.`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+function findProblems(html) {
+  const problems = [];
+  const element = FORBIDDEN_ELEMENTS.exec(html);
+  if (element) problems.push(`kept ${element[0].trim()}`);
+  for (const tag of html.match(/<[^>]*>/g) ?? []) {
+    for (const { pattern, label } of FORBIDDEN_IN_TAGS) {
+      if (pattern.test(tag)) problems.push(`${label} in ${tag}`);
+    }
+  }
+  return problems;
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { backupDatabase, getSchemaStatus, migrateDatabase } from "./viewer/lib/schema.mjs";
+import { closeDatabase, openDatabase } from "./viewer/lib/sqlite.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const USAGE = `Usage:
+  node src/db-migrate.mjs status
+  node src/db-migrate.mjs migrate [--to=<version>] [--no-backup]
+  node src/db-migrate.mjs backup`;
+
+function main() {
+  const [command = "status", ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+
+  const dbCtx = openDatabase(ROOT);
+  try {
+    switch (command) {
+      case "status": {
+        const status = getSchemaStatus(dbCtx.db);
+        console.log(`${dbCtx.dbPath}: schema v${status.version} (latest v${status.latest})`);
+        for (const migration of status.applied) {
+          console.log(`  ✔ ${migration.version} ${migration.name}  ${migration.appliedAt}`);
+        }
+        for (const migration of status.pending) {
+          console.log(`  · ${migration.version} ${migration.name}  pending`);
+        }
+        if (status.version > status.latest) {
+          console.warn("The database is newer than this code.");
+          process.exitCode = 1;
+        }
+        return;
+      }
+      case "migrate": {
+        if (args.to !== undefined && !Number.isInteger(Number(args.to))) {
+          throw new Error(`--to must be a schema version number.\n\n${USAGE}`);
+        }
+        const result = migrateDatabase(dbCtx.db, {
+          dbPath: dbCtx.dbPath,
+          backup: args["no-backup"] !== "true",
+          to: args.to ? Number(args.to) : undefined,
+        });
+        if (result.applied.length === 0) {
+          console.log(`Already at schema v${result.from}.`);
+          return;
+        }
+        if (result.backupPath) {
+          console.log(`Backed up to ${result.backupPath}`);
+        }
+        for (const migration of result.applied) {
+          console.log(`  ✔ ${migration}`);
+        }
+        console.log(`Migrated from v${result.from} to v${result.to}.`);
+        return;
+      }
+      case "backup": {
+        const { version } = getSchemaStatus(dbCtx.db);
+        console.log(`Backed up to ${backupDatabase(dbCtx.db, dbCtx.dbPath, version)}`);
+        return;
+      }
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase(dbCtx);
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
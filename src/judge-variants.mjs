@@ -0,0 +1,189 @@
+import path from "node:path";
+import crypto from "node:crypto";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { createScheduler, loadConfig, withMockProviders } from "./lib/benchmark.mjs";
+import { judgePair, loadJudgePrompt, resolveJudgeConfig } from "./lib/judge.mjs";
+import { buildViewer } from "./viewer/build.mjs";
+import { closeDatabase, initDatabase, listJudgedPairs, recordVote } from "./viewer/lib/sqlite.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
+const RUN_LOADER_PATH = path.join(ROOT, "dist", "viewer", "lib", "run-loader.js");
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig(CONFIG_PATH);
+
+  let overrides = {};
+  if (args.judge) {
+    overrides = config.models.find((model) => (model.label ?? model.model) === args.judge);
+    if (!overrides) {
+      throw new Error(`No model labelled '${args.judge}' in benchmark.config.json.`);
+    }
+  }
+  if (args.screenshots === "false") {
+    overrides = { ...overrides, screenshots: false };
+  }
+  let judge = resolveJudgeConfig(config, overrides);
+  if (args.mock === "true") {
+    const [modelConfig] = withMockProviders(
+      { models: [judge.modelConfig] },
+      args.fixture ? { fixture: args.fixture } : {},
+    ).models;
+    judge = { ...judge, modelConfig };
+  }
+  const prompt = await loadJudgePrompt(judge);
+
+  // Variant keys must match the viewer's, so reuse its loader.
+  // Always rebuild so variant ids match the viewer's current loader.
+  await buildViewer({ skipClient: true });
+  const { loadVariants } = await import(pathToFileURL(RUN_LOADER_PATH).href);
+  const variants = await loadVariants({ runsDir: path.resolve(ROOT, config.outputDir) });
+
+  let runIds;
+  if (args.all === "true") {
+    runIds = Array.from(new Set(variants.map((variant) => variant.runId)));
+  } else if (args.run) {
+    runIds = args.run.split(",").map((id) => id.trim()).filter(Boolean);
+  } else {
+    throw new Error("Pass --run=<runId>[,<runId>…] or --all.");
+  }
+
+  const dbCtx = initDatabase(ROOT);
+  try {
+    const judged = new Set(
+      listJudgedPairs(dbCtx, judge.modelConfig.model, prompt.version)
+        .map(({ leftVariantId, rightVariantId }) => pairKey(leftVariantId, rightVariantId)),
+    );
+    const limit = args.pairs ? Number(args.pairs) : Infinity;
+    const pairs = runIds.flatMap((runId) => {
+      const runVariants = variants.filter((variant) => variant.runId === runId);
+      if (runVariants.length === 0) {
+        console.warn(`Run ${runId} has no loadable variants.`);
+      }
+      const candidates = buildRunPairs(runVariants)
+        .filter(([left, right]) => args.rejudge === "true" || !judged.has(pairKey(left.variantKey, right.variantKey)));
+      return shuffle(candidates).slice(0, limit);
+    });
+
+    console.log(
+      `Judging ${pairs.length} pairs with ${judge.modelConfig.provider}:${judge.modelConfig.model} (prompt ${prompt.version}, both orders).`,
+    );
+    if (args["dry-run"] === "true") {
+      for (const [left, right] of pairs) {
+        console.log(`  ${left.variantKey}  vs  ${right.variantKey}`);
+      }
+      return;
+    }
+
+    const scheduler = createScheduler(config);
+    let failures = 0;
+    await Promise.all(
+      pairs.map(async ([left, right]) => {
+        try {
+          const { selection, automationMetadata } = await judgePair(
+            toJudgeVariant(left),
+            toJudgeVariant(right),
+            {
+              judge,
+              prompt,
+              brief: buildBrief(left.runMeta),
+              config,
+              scheduler,
+            },
+          );
+          recordVote(dbCtx, {
+            pairId: `judge-${crypto.randomUUID()}`,
+            leftVariantId: left.variantKey,
+            rightVariantId: right.variantKey,
+            winnerVariantId: selection === "left"
+              ? left.variantKey
+              : selection === "right" ? right.variantKey : null,
+            selection,
+            scores: automationMetadata.scores,
+            automationMetadata,
+            source: `judge:${judge.modelConfig.model}`,
+          });
+          console.log(
+            `✔ ${describe(left)} vs ${describe(right)} → ${selection}${automationMetadata.consistent ? "" : " (orders disagreed)"}`,
+          );
+        } catch (error) {
+          failures += 1;
+          console.error(
+            `✖ ${describe(left)} vs ${describe(right)} – ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }),
+    );
+
+    if (failures > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase(dbCtx);
+  }
+}
+
+/**
+ * Every unordered pair of variants from one run (one brief), skipping
+ * repetitions of the same model since they cannot move its rating.
+ */
+function buildRunPairs(runVariants) {
+  const pairs = [];
+  for (let i = 0; i < runVariants.length; i += 1) {
+    for (let j = i + 1; j < runVariants.length; j += 1) {
+      const [a, b] = [runVariants[i], runVariants[j]];
+      if (a.metadata.provider === b.metadata.provider && a.metadata.model === b.metadata.model) continue;
+      pairs.push(Math.random() < 0.5 ? [a, b] : [b, a]);
+    }
+  }
+  return pairs;
+}
+
+function toJudgeVariant(variant) {
+  return {
+    variantKey: variant.variantKey,
+    sourceText: variant.sourceText,
+    variantDir: path.dirname(variant.responseTextPath),
+  };
+}
+
+function buildBrief(runMeta) {
+  const description = runMeta.description ||
+    [runMeta.productName, runMeta.valueProp].filter(Boolean).join(" - ");
+  return description + (runMeta.notes ? `\n\nAdditional notes: ${runMeta.notes}` : "");
+}
+
+function describe(variant) {
+  return `${variant.runId}/${variant.metadata.label ?? variant.metadata.model}`;
+}
+
+function pairKey(a, b) {
+  return [a, b].sort().join("|");
+}
+
+function shuffle(items) {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value ?? "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,226 @@
+export const ANALYSIS_VERSION = 1;
+
+const MAX_RECOMMENDED_BYTES = 150 * 1024;
+const MIN_PLAUSIBLE_BYTES = 1024;
+const LANDMARKS = ["header", "nav", "main", "footer"];
+const PLACEHOLDER_PATTERNS = [
+  { pattern: /lorem ipsum/i, label: "lorem ipsum" },
+  { pattern: /dolor sit amet/i, label: "dolor sit amet" },
+  { pattern: /\[(?:product name|company name|your [a-z ]+|insert [a-z ]+)\]/i, label: "bracketed placeholder" },
+  { pattern: /\b(?:via\.placeholder\.com|placehold\.co|placekitten\.com|dummyimage\.com)\b/i, label: "placeholder image service" },
+  { pattern: /\bTODO\b|\bTBD\b/, label: "TODO/TBD marker" },
+];
+const UNLABELLED_INPUT_TYPES = new Set(["hidden", "submit", "button", "reset", "image"]);
+
+/**
+ * @typedef {Object} AnalysisCheck
+ * @property {string} id
+ * @property {string} label
+ * @property {boolean} passed
+ * @property {"error" | "warning" | "info"} severity
+ * @property {string} detail
+ */
+
+/**
+ * @typedef {Object} AnalysisReport
+ * @property {number} version
+ * @property {string} analyzedAt
+ * @property {number} bytes
+ * @property {number} passed
+ * @property {number} total
+ * @property {AnalysisCheck[]} checks
+ */
+
+/**
+ * Static checks for a generated page against the system prompt's hard
+ * requirements and the code-quality / prompt-adherence scoring dimensions.
+ * Works on the raw model output, so leaked prose and code fences count.
+ *
+ * @param {string} source
+ * @returns {AnalysisReport}
+ */
+export function analyzeHtml(source) {
+  const raw = source ?? "";
+  const trimmed = raw.trim();
+  const markup = stripNonContent(raw);
+  const tags = collectTags(markup);
+  const checks = [];
+
+  const check = (id, label, passed, severity, detail) => {
+    checks.push({ id, label, passed, severity: passed ? "info" : severity, detail });
+  };
+
+  check(
+    "doctype",
+    "Starts with <!DOCTYPE html>",
+    /^<!doctype html>/i.test(trimmed),
+    "error",
+    /^<!doctype html>/i.test(trimmed) ? "Output begins with the doctype." : `Output begins with “${trimmed.slice(0, 40).replace(/\s+/g, " ")}”.`,
+  );
+
+  const missingParts = ["html", "head", "body"].filter((name) => !tags.some((tag) => tag.name === name && !tag.closing));
+  check(
+    "complete-document",
+    "Complete HTML document",
+    missingParts.length === 0 && /<\/html>/i.test(raw),
+    "error",
+    missingParts.length > 0
+      ? `Missing <${missingParts.join(">, <")}>.`
+      : /<\/html>/i.test(raw) ? "Has <html>, <head>, <body> and a closing </html>." : "Never closes </html>; output may be truncated.",
+  );
+
+  const hasFence = /```/.test(raw);
+  check("code-fence", "No markdown code fences", !hasFence, "error", hasFence ? "Output is wrapped in or contains ``` fences." : "No fences found.");
+
+  const doctypeIndex = raw.search(/<!doctype html>|<html[\s>]/i);
+  const closingIndex = raw.search(/<\/html>/i);
+  const leadingText = doctypeIndex > 0 ? raw.slice(0, doctypeIndex).replace(/```[a-z]*/gi, "").trim() : "";
+  const trailingText = closingIndex >= 0
+    ? raw.slice(closingIndex + "</html>".length).replace(/```/g, "").trim()
+    : "";
+  const leakedProse = [leadingText, trailingText].filter(Boolean);
+  check(
+    "leaked-prose",
+    "No prose outside the document",
+    leakedProse.length === 0,
+    "error",
+    leakedProse.length > 0 ? `Found text outside the document: “${leakedProse[0].slice(0, 60)}”.` : "Nothing before or after the document.",
+  );
+
+  const hasTailwind = /<script[^>]+src=["']?https:\/\/cdn\.tailwindcss\.com/i.test(raw);
+  check("tailwind", "Tailwind CDN script included", hasTailwind, "error", hasTailwind ? "Loads cdn.tailwindcss.com." : "No Tailwind CDN <script> tag.");
+
+  const hasViewport = tags.some((tag) => tag.name === "meta" && /name\s*=\s*["']?viewport/i.test(tag.attrs));
+  check("viewport-meta", "Responsive viewport meta tag", hasViewport, "warning", hasViewport ? "Has <meta name=\"viewport\">." : "No viewport meta tag; mobile layouts will zoom out.");
+
+  const missingLandmarks = LANDMARKS.filter((name) => !tags.some((tag) => tag.name === name && !tag.closing));
+  check(
+    "landmarks",
+    "Semantic landmarks",
+    missingLandmarks.length === 0,
+    missingLandmarks.includes("main") ? "error" : "warning",
+    missingLandmarks.length === 0 ? "Has header, nav, main and footer." : `Missing <${missingLandmarks.join(">, <")}>.`,
+  );
+
+  const headings = tags.filter((tag) => !tag.closing && /^h[1-6]$/.test(tag.name)).map((tag) => Number(tag.name[1]));
+  const h1Count = headings.filter((level) => level === 1).length;
+  const skipped = [];
+  for (let index = 1; index < headings.length; index += 1) {
+    if (headings[index] > headings[index - 1] + 1) {
+      skipped.push(`h${headings[index - 1]}→h${headings[index]}`);
+    }
+  }
+  check(
+    "headings",
+    "Heading structure",
+    h1Count === 1 && skipped.length === 0,
+    "warning",
+    h1Count !== 1
+      ? `Expected one <h1>, found ${h1Count}.`
+      : skipped.length > 0 ? `Skipped levels: ${Array.from(new Set(skipped)).join(", ")}.` : `${headings.length} headings in order.`,
+  );
+
+  const images = tags.filter((tag) => tag.name === "img" && !tag.closing);
+  const missingAlt = images.filter((tag) => !/(^|\s)alt\s*=/i.test(tag.attrs));
+  check(
+    "img-alt",
+    "Images have alt text",
+    missingAlt.length === 0,
+    "warning",
+    images.length === 0 ? "No <img> elements." : `${missingAlt.length} of ${images.length} images lack alt.`,
+  );
+
+  const visibleText = markup.replace(/<[^>]*>/g, " ");
+  const placeholders = PLACEHOLDER_PATTERNS.filter(({ pattern }) => pattern.test(visibleText) || pattern.test(raw))
+    .map(({ label }) => label);
+  check(
+    "placeholder-text",
+    "No placeholder content",
+    placeholders.length === 0,
+    "warning",
+    placeholders.length === 0 ? "No lorem ipsum or placeholder markers." : `Found ${placeholders.join(", ")}.`,
+  );
+
+  const unlabelled = findUnlabelledControls(markup, tags);
+  const controlCount = tags.filter((tag) => isFormControl(tag)).length;
+  check(
+    "form-labels",
+    "Form controls are labelled",
+    unlabelled.length === 0,
+    "warning",
+    controlCount === 0 ? "No form controls." : `${unlabelled.length} of ${controlCount} controls have no label.`,
+  );
+
+  const bytes = Buffer.byteLength(raw, "utf8");
+  const sizeOk = bytes >= MIN_PLAUSIBLE_BYTES && bytes <= MAX_RECOMMENDED_BYTES;
+  check(
+    "file-size",
+    "Reasonable file size",
+    sizeOk,
+    "warning",
+    `${(bytes / 1024).toFixed(1)} KB${bytes < MIN_PLAUSIBLE_BYTES ? " (suspiciously small)" : bytes > MAX_RECOMMENDED_BYTES ? " (over 150 KB)" : ""}.`,
+  );
+
+  return {
+    version: ANALYSIS_VERSION,
+    analyzedAt: new Date().toISOString(),
+    bytes,
+    passed: checks.filter((item) => item.passed).length,
+    total: checks.length,
+    checks,
+  };
+}
+
+function stripNonContent(source) {
+  return source
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/(<script\b[^>]*>)[\s\S]*?<\/script>/gi, "$1</script>")
+    .replace(/(<style\b[^>]*>)[\s\S]*?<\/style>/gi, "$1</style>");
+}
+
+function collectTags(markup) {
+  const tags = [];
+  const regex = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+  let match;
+  while ((match = regex.exec(markup))) {
+    tags.push({
+      closing: match[1] === "/",
+      name: match[2].toLowerCase(),
+      attrs: match[3] ?? "",
+      index: match.index,
+    });
+  }
+  return tags;
+}
+
+function isFormControl(tag) {
+  if (tag.closing) return false;
+  if (tag.name === "select" || tag.name === "textarea") return true;
+  if (tag.name !== "input") return false;
+  const type = /type\s*=\s*["']?([\w-]+)/i.exec(tag.attrs)?.[1]?.toLowerCase() ?? "text";
+  return !UNLABELLED_INPUT_TYPES.has(type);
+}
+
+function findUnlabelledControls(markup, tags) {
+  const labelFor = new Set(
+    tags
+      .filter((tag) => tag.name === "label" && !tag.closing)
+      .map((tag) => /for\s*=\s*["']?([^"'\s>]+)/i.exec(tag.attrs)?.[1])
+      .filter(Boolean),
+  );
+
+  const labelRanges = [];
+  const labelRegex = /<label\b[\s\S]*?<\/label>/gi;
+  let match;
+  while ((match = labelRegex.exec(markup))) {
+    labelRanges.push([match.index, match.index + match[0].length]);
+  }
+
+  return tags.filter((tag) => {
+    if (!isFormControl(tag)) return false;
+    if (/aria-label(?:ledby)?\s*=|(^|\s)title\s*=/i.test(tag.attrs)) return false;
+    const id = /(^|\s)id\s*=\s*["']?([^"'\s>]+)/i.exec(tag.attrs)?.[2];
+    if (id && labelFor.has(id)) return false;
+    return !labelRanges.some(([start, end]) => tag.index > start && tag.index < end);
+  });
+}
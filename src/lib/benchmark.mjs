@@ -1,11 +1,12 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { existsSync, readFileSync } from "node:fs";
-import { fileURLToPath } from "node:url";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import crypto from "node:crypto";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { analyzeHtml } from "./analyzer.mjs";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.join(__dirname, "..", "..");
@@ -17,6 +18,49 @@ export async function loadConfig(configPath) {
   return JSON.parse(data);
 }
 
+/**
+ * Load a suite file: `{ name, repetitions?, briefs: [{ id, description,
+ * notes?, tags?, systemPrompt?, promptPath? }] }`. A brief's `promptPath` is
+ * resolved against the suite file and read into `systemPrompt`.
+ */
+export async function loadSuite(suitePath) {
+  const suite = JSON.parse(await fs.readFile(suitePath, "utf8"));
+  if (!Array.isArray(suite.briefs) || suite.briefs.length === 0) {
+    throw new Error(`Suite '${suitePath}' must define a non-empty 'briefs' array.`);
+  }
+
+  const seen = new Set();
+  const briefs = [];
+  for (const brief of suite.briefs) {
+    if (!brief?.id || !brief?.description) {
+      throw new Error(`Every brief in '${suitePath}' needs an 'id' and a 'description'.`);
+    }
+    if (seen.has(brief.id)) {
+      throw new Error(`Duplicate brief id '${brief.id}' in '${suitePath}'.`);
+    }
+    seen.add(brief.id);
+
+    let systemPrompt = brief.systemPrompt ?? null;
+    if (!systemPrompt && brief.promptPath) {
+      systemPrompt = await fs.readFile(path.resolve(path.dirname(suitePath), brief.promptPath), "utf8");
+    }
+
+    briefs.push({
+      id: String(brief.id),
+      description: brief.description,
+      notes: brief.notes ?? "",
+      tags: Array.isArray(brief.tags) ? brief.tags : [],
+      systemPrompt,
+    });
+  }
+
+  return {
+    name: suite.name ?? path.basename(suitePath, path.extname(suitePath)),
+    repetitions: suite.repetitions,
+    briefs,
+  };
+}
+
 export function renderPrompt(template, description) {
   const parts = description.split(" - ");
   const productName = parts[0] || description;
@@ -33,34 +77,487 @@ export function buildRunId() {
   return `${stamp}-${suffix}`;
 }
 
-export async function callModel(modelConfig, prompt, userMessage, globalConfig, onChunk) {
-  const providerKey = (modelConfig.provider ?? "").toString().toLowerCase();
-  switch (providerKey) {
-    case "openai":
-      return callOpenAI(modelConfig, prompt, userMessage, globalConfig, onChunk);
-    case "anthropic":
-      return callAnthropic(modelConfig, prompt, userMessage, globalConfig, onChunk);
-    case "google":
-      return callGoogle(modelConfig, prompt, userMessage, globalConfig, onChunk);
-    default:
-      throw new Error(`Unsupported provider '${modelConfig.provider}'.`);
+const DEFAULT_CONCURRENCY = 4;
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Shared queue for model calls. `config.concurrency` caps calls in flight
+ * overall; `config.providers[<provider>].maxConcurrent` and
+ * `.requestsPerMinute` cap each provider. Jobs start in submission order
+ * unless their provider is saturated.
+ */
+export function createScheduler(config = {}) {
+  const globalLimit = positiveOrInfinity(config.concurrency ?? DEFAULT_CONCURRENCY);
+  const queue = [];
+  const providerState = new Map();
+  let active = 0;
+  let timer = null;
+
+  const limitsFor = (providerKey) => {
+    const settings = Object.entries(config.providers ?? {})
+      .find(([name]) => name.toLowerCase() === providerKey)?.[1] ?? {};
+    return {
+      maxConcurrent: positiveOrInfinity(settings.maxConcurrent),
+      requestsPerMinute: positiveOrInfinity(settings.requestsPerMinute),
+    };
+  };
+
+  const stateFor = (providerKey) => {
+    if (!providerState.has(providerKey)) {
+      providerState.set(providerKey, { active: 0, starts: [], limits: limitsFor(providerKey) });
+    }
+    return providerState.get(providerKey);
+  };
+
+  const pump = () => {
+    const now = Date.now();
+    let nextWakeAt = Infinity;
+
+    for (let index = 0; index < queue.length && active < globalLimit;) {
+      const job = queue[index];
+      const provider = stateFor(job.providerKey);
+      provider.starts = provider.starts.filter((startedAt) => now - startedAt < RATE_WINDOW_MS);
+
+      if (provider.active >= provider.limits.maxConcurrent) {
+        index += 1;
+        continue;
+      }
+      if (provider.starts.length >= provider.limits.requestsPerMinute) {
+        nextWakeAt = Math.min(nextWakeAt, provider.starts[0] + RATE_WINDOW_MS);
+        index += 1;
+        continue;
+      }
+
+      queue.splice(index, 1);
+      active += 1;
+      provider.active += 1;
+      provider.starts.push(now);
+
+      Promise.resolve()
+        .then(job.task)
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          active -= 1;
+          provider.active -= 1;
+          pump();
+        });
+    }
+
+    if (timer === null && queue.length > 0 && Number.isFinite(nextWakeAt)) {
+      timer = setTimeout(() => {
+        timer = null;
+        pump();
+      }, Math.max(0, nextWakeAt - now));
+    }
+  };
+
+  return {
+    /**
+     * Run `task` once a slot for `modelConfig.provider` is free.
+     * @template T
+     * @param {{ provider?: string }} modelConfig
+     * @param {() => Promise<T>} task
+     * @returns {Promise<T>}
+     */
+    schedule(modelConfig, task) {
+      const providerKey = (modelConfig.provider ?? "").toString().toLowerCase();
+      return new Promise((resolve, reject) => {
+        queue.push({ providerKey, task, resolve, reject });
+        pump();
+      });
+    },
+    get pending() {
+      return queue.length;
+    },
+    get active() {
+      return active;
+    },
+  };
+}
+
+function positiveOrInfinity(value) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : Infinity;
+}
+
+const PROVIDERS = new Map();
+const adapterModules = new Map();
+
+/**
+ * Register a provider adapter. Adapters share the callModel signature and
+ * resolve to `{ rawResponse, outputText }`.
+ */
+export function registerProvider(name, adapter) {
+  if (typeof adapter !== "function") {
+    throw new Error(`Provider adapter '${name}' must be a function.`);
+  }
+  PROVIDERS.set(name.toLowerCase(), adapter);
+}
+
+export function listProviders() {
+  return Array.from(PROVIDERS.keys());
+}
+
+registerProvider("openai", callOpenAI);
+registerProvider("anthropic", callAnthropic);
+registerProvider("google", callGoogle);
+registerProvider("openai-compatible", callOpenAICompatible);
+registerProvider("mock", callMock);
+
+/**
+ * Route every configured model through the mock adapter, keeping labels so
+ * run folders and variant keys look the same as a live run.
+ */
+export function withMockProviders(config, overrides = {}) {
+  return {
+    ...config,
+    models: (config.models ?? []).map((modelConfig) => ({
+      ...modelConfig,
+      ...overrides,
+      adapter: "mock",
+    })),
+  };
+}
+
+const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30_000,
+};
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 3 * 60_000;
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+export class ModelTimeoutError extends Error {
+  /**
+   * @param {string} message
+   * @param {"timeout" | "stream_idle"} kind
+   */
+  constructor(message, kind) {
+    super(message);
+    this.name = "ModelTimeoutError";
+    this.kind = kind;
   }
 }
 
-async function callOpenAI(modelConfig, prompt, userMessage, globalConfig, onChunk) {
+export class ModelCallError extends Error {
+  constructor(message, { cause, attempts, retryable }) {
+    super(message, { cause });
+    this.name = "ModelCallError";
+    this.attempts = attempts;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Invoke the model's adapter under the configured timeout and retry policy.
+ * `timeoutMs`, `streamIdleTimeoutMs` and `retry` come from the model entry,
+ * then its provider defaults, then the top level of the config. The result
+ * carries an `attempts` history; a final failure throws ModelCallError with
+ * the same history. `options.onRetry` fires before each new attempt so
+ * streaming callers can discard the partial output they already forwarded.
+ */
+export async function callModel(modelConfig, prompt, userMessage, globalConfig, onChunk, options = {}) {
+  const resolvedConfig = resolveModelConfig(modelConfig, globalConfig);
+  const adapter = await resolveAdapter(resolvedConfig);
+  const policy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...globalConfig?.retry,
+    ...resolvedConfig.retry,
+  };
+  const timeoutMs = resolvedConfig.timeoutMs ?? globalConfig?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const idleTimeoutMs = resolvedConfig.streamIdleTimeoutMs ??
+    globalConfig?.streamIdleTimeoutMs ??
+    DEFAULT_STREAM_IDLE_TIMEOUT_MS;
+
+  const attempts = [];
+  for (let attempt = 1; ; attempt += 1) {
+    const startedAt = Date.now();
+    let firstTokenAt = null;
+    const guard = createCallGuard(timeoutMs, idleTimeoutMs);
+    try {
+      const result = await adapter(resolvedConfig, prompt, userMessage, globalConfig, onChunk, {
+        signal: guard.signal,
+        heartbeat: guard.heartbeat,
+        markFirstToken: () => {
+          firstTokenAt ??= Date.now();
+        },
+      });
+      const finishedAt = Date.now();
+      attempts.push({
+        attempt,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+        outcome: "success",
+      });
+      const usage = normalizeUsage(result.usage);
+      return {
+        ...result,
+        usage,
+        timing: {
+          timeToFirstTokenMs: firstTokenAt === null ? null : firstTokenAt - startedAt,
+          latencyMs: finishedAt - startedAt,
+        },
+        cost: estimateCost(usage, resolvedConfig, globalConfig),
+        attempts,
+      };
+    } catch (rawError) {
+      const error = guard.timeoutError ?? rawError;
+      const classification = classifyModelError(error);
+      const canRetry = classification.retryable && attempt < policy.maxAttempts;
+      const delayMs = canRetry ? computeBackoffDelay(attempt, policy, classification.retryAfterMs) : null;
+      attempts.push({
+        attempt,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        outcome: "error",
+        errorType: classification.type,
+        status: classification.status,
+        retryable: classification.retryable,
+        error: error instanceof Error ? error.message : String(error),
+        delayMs,
+      });
+
+      if (!canRetry) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ModelCallError(message, {
+          cause: error,
+          attempts,
+          retryable: classification.retryable,
+        });
+      }
+
+      options.onRetry?.({ attempt: attempt + 1, delayMs, error: attempts[attempts.length - 1] });
+      await sleep(delayMs);
+    } finally {
+      guard.dispose();
+    }
+  }
+}
+
+/**
+ * Abort signal that fires after `timeoutMs` overall, or once the stream has
+ * gone `idleTimeoutMs` without a heartbeat. Adapters call `heartbeat()` when
+ * their stream opens and on every event, so non-streaming calls are only
+ * bound by the overall timeout.
+ */
+function createCallGuard(timeoutMs, idleTimeoutMs) {
+  const controller = new AbortController();
+  let idleTimer = null;
+
+  const fire = (error) => {
+    if (guard.timeoutError) return;
+    guard.timeoutError = error;
+    controller.abort(error);
+  };
+
+  const totalTimer = timeoutMs > 0
+    ? setTimeout(() => fire(new ModelTimeoutError(`Model call timed out after ${timeoutMs}ms.`, "timeout")), timeoutMs)
+    : null;
+
+  const guard = {
+    signal: controller.signal,
+    timeoutError: null,
+    heartbeat() {
+      if (!(idleTimeoutMs > 0) || guard.timeoutError) return;
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(
+        () => fire(new ModelTimeoutError(`Model stream idle for ${idleTimeoutMs}ms.`, "stream_idle")),
+        idleTimeoutMs,
+      );
+    },
+    dispose() {
+      clearTimeout(totalTimer);
+      clearTimeout(idleTimer);
+    },
+  };
+  return guard;
+}
+
+/**
+ * Decide whether a failed call is worth retrying. Timeouts, throttling,
+ * overload and 5xx responses, and dropped connections are transient;
+ * everything else (bad requests, auth, missing config) is fatal.
+ */
+export function classifyModelError(error) {
+  if (error instanceof ModelTimeoutError) {
+    return { type: error.kind, retryable: true, status: null, retryAfterMs: null };
+  }
+
+  const status = extractStatus(error);
+  const retryAfterMs = extractRetryAfterMs(error);
+  if (status !== null) {
+    if (status === 429) {
+      return { type: "rate_limit", retryable: true, status, retryAfterMs };
+    }
+    if (RETRYABLE_STATUS_CODES.has(status)) {
+      return { type: "server", retryable: true, status, retryAfterMs };
+    }
+    return { type: "fatal", retryable: false, status, retryAfterMs: null };
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  const name = error?.name ?? "";
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    RETRYABLE_NETWORK_CODES.has(code) ||
+    name === "APIConnectionError" ||
+    name === "APIConnectionTimeoutError" ||
+    /fetch failed|socket hang up|network|overloaded/i.test(message)
+  ) {
+    return { type: "network", retryable: true, status: null, retryAfterMs: null };
+  }
+
+  return { type: "fatal", retryable: false, status: null, retryAfterMs: null };
+}
+
+/**
+ * @typedef {Object} ModelUsage
+ * @property {number | null} inputTokens
+ * @property {number | null} outputTokens Includes reasoning tokens, as billed.
+ * @property {number | null} reasoningTokens
+ * @property {string | null} stopReason Provider's own stop/finish reason.
+ * @property {boolean} truncated Whether generation stopped at maxOutputTokens.
+ */
+
+/** @returns {ModelUsage | null} */
+function normalizeUsage(usage) {
+  if (!usage) return null;
+  const count = (value) => (Number.isFinite(value) ? value : null);
+  return {
+    inputTokens: count(usage.inputTokens),
+    outputTokens: count(usage.outputTokens),
+    reasoningTokens: count(usage.reasoningTokens),
+    stopReason: usage.stopReason ?? null,
+    truncated: Boolean(usage.truncated),
+  };
+}
+
+/**
+ * Price a call from `pricing[<model id>]` (or the model entry's own
+ * `pricing`), given in USD per million input and output tokens.
+ */
+function estimateCost(usage, modelConfig, globalConfig) {
+  const pricing = modelConfig.pricing ?? globalConfig?.pricing?.[modelConfig.model];
+  if (!usage || !pricing) return null;
+  const inputUsd = ((usage.inputTokens ?? 0) * (pricing.inputPerMillion ?? 0)) / 1_000_000;
+  const outputUsd = ((usage.outputTokens ?? 0) * (pricing.outputPerMillion ?? 0)) / 1_000_000;
+  return {
+    currency: "USD",
+    inputUsd,
+    outputUsd,
+    totalUsd: inputUsd + outputUsd,
+  };
+}
+
+function extractStatus(error) {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  if (Number.isInteger(status)) {
+    return status;
+  }
+  // The Google SDK reports HTTP failures as "[429 Too Many Requests] ...".
+  const match = /\[(\d{3})[^\]]*\]/.exec(error?.message ?? "");
+  return match ? Number(match[1]) : null;
+}
+
+function extractRetryAfterMs(error) {
+  const headers = error?.headers;
+  const raw = typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+  if (!raw) return null;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function computeBackoffDelay(attempt, policy, retryAfterMs) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter spreads retries from parallel workers apart.
+  const jittered = Math.random() * ceiling;
+  if (retryAfterMs !== null && retryAfterMs !== undefined) {
+    return Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs));
+  }
+  return Math.round(jittered);
+}
+
+/**
+ * Merge the config-level `providers[<provider>]` defaults under the model
+ * entry so a model only needs to name its provider.
+ */
+function resolveModelConfig(modelConfig, globalConfig) {
+  const providers = globalConfig?.providers ?? {};
+  const providerName = (modelConfig.provider ?? "").toString();
+  const defaults = providers[providerName] ??
+    Object.entries(providers).find(([name]) => name.toLowerCase() === providerName.toLowerCase())?.[1] ??
+    {};
+  return { ...defaults, ...modelConfig };
+}
+
+async function resolveAdapter(modelConfig) {
+  const adapterName = (modelConfig.adapter ?? modelConfig.provider ?? "").toString();
+  const builtin = PROVIDERS.get(adapterName.toLowerCase());
+  if (builtin) {
+    return builtin;
+  }
+
+  if (isModulePath(adapterName)) {
+    return loadAdapterModule(adapterName);
+  }
+
+  throw new Error(`Unsupported provider '${modelConfig.provider}'.`);
+}
+
+function isModulePath(value) {
+  return value.startsWith(".") || path.isAbsolute(value) || /\.(mjs|cjs|js)$/.test(value);
+}
+
+async function loadAdapterModule(modulePath) {
+  const absolutePath = path.resolve(ROOT, modulePath);
+  if (!adapterModules.has(absolutePath)) {
+    adapterModules.set(absolutePath, (async () => {
+      const mod = await import(pathToFileURL(absolutePath).href);
+      const adapter = mod.default ?? mod.callModel;
+      if (typeof adapter !== "function") {
+        throw new Error(`Adapter module '${modulePath}' must export a default function or callModel.`);
+      }
+      return adapter;
+    })());
+  }
+
+  try {
+    return await adapterModules.get(absolutePath);
+  } catch (error) {
+    adapterModules.delete(absolutePath);
+    throw error;
+  }
+}
+
+async function callOpenAI(modelConfig, prompt, userMessage, globalConfig, onChunk, runtime = {}) {
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error("OPENAI_API_KEY is not set.");
   }
 
-  const client = new OpenAI({ apiKey });
+  // Retries are owned by callModel.
+  const client = new OpenAI({ apiKey, maxRetries: 0 });
 
   const params = {
     model: modelConfig.model,
     max_completion_tokens: modelConfig.maxOutputTokens ?? globalConfig.maxOutputTokens,
     messages: [
       { role: "system", content: prompt },
-      { role: "user", content: userMessage },
+      { role: "user", content: toOpenAIContent(userMessage) },
     ],
     stream: !!onChunk,
   };
@@ -73,27 +570,91 @@ async function callOpenAI(modelConfig, prompt, userMessage, globalConfig, onChun
     params.store = true;
   }
 
+  if (onChunk) {
+    params.stream_options = { include_usage: true };
+  }
+
+  return runChatCompletion(client, params, onChunk, runtime);
+}
+
+/**
+ * Any server speaking the OpenAI chat completions protocol (Ollama, vLLM,
+ * llama.cpp server, a local mock). `baseUrl` is required; `apiKeyEnv` names
+ * the env var holding the key and may be omitted for unauthenticated servers.
+ */
+async function callOpenAICompatible(modelConfig, prompt, userMessage, globalConfig, onChunk, runtime = {}) {
+  if (!modelConfig.baseUrl) {
+    throw new Error(`baseUrl is required for OpenAI-compatible provider '${modelConfig.provider}'.`);
+  }
+
+  let apiKey = "not-needed";
+  if (modelConfig.apiKeyEnv) {
+    apiKey = process.env[modelConfig.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`${modelConfig.apiKeyEnv} is not set.`);
+    }
+  }
+
+  const client = new OpenAI({ apiKey, baseURL: modelConfig.baseUrl, maxRetries: 0 });
+
+  const params = {
+    model: modelConfig.model,
+    max_tokens: modelConfig.maxOutputTokens ?? globalConfig.maxOutputTokens,
+    temperature: modelConfig.temperature ?? globalConfig.temperature,
+    messages: [
+      { role: "system", content: prompt },
+      { role: "user", content: toOpenAIContent(userMessage) },
+    ],
+    stream: !!onChunk,
+  };
+
+  // Some servers reject stream_options; `streamUsage: false` turns it off.
+  if (onChunk && modelConfig.streamUsage !== false) {
+    params.stream_options = { include_usage: true };
+  }
+
+  return runChatCompletion(client, params, onChunk, runtime);
+}
+
+async function runChatCompletion(client, params, onChunk, runtime = {}) {
+  const requestOptions = { signal: runtime.signal };
   if (onChunk) {
     // Streaming mode
-    const stream = await client.chat.completions.create(params);
+    const stream = await client.chat.completions.create(params, requestOptions);
+    runtime.heartbeat?.();
     let fullText = "";
     let finalResponse = null;
+    let usage = null;
 
     for await (const chunk of stream) {
+      runtime.heartbeat?.();
       const delta = chunk.choices?.[0]?.delta?.content;
       if (delta) {
+        runtime.markFirstToken?.();
         fullText += delta;
         onChunk(delta);
       }
       if (chunk.choices?.[0]?.finish_reason) {
         finalResponse = chunk;
       }
+      // With include_usage the totals arrive on a trailing chunk without choices.
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    if (finalResponse && usage) {
+      finalResponse = { ...finalResponse, usage };
     }
 
-    return { rawResponse: finalResponse, outputText: fullText };
+    return {
+      rawResponse: finalResponse,
+      outputText: fullText,
+      usage: extractOpenAIUsage(usage, finalResponse?.choices?.[0]?.finish_reason),
+    };
   } else {
     // Non-streaming mode
-    const response = await client.chat.completions.create(params);
+    const response = await client.chat.completions.create(params, requestOptions);
     const message = response?.choices?.[0]?.message;
     let outputText = normalizeOpenAIContent(message?.content ?? "");
 
@@ -101,17 +662,62 @@ async function callOpenAI(modelConfig, prompt, userMessage, globalConfig, onChun
       outputText = message.reasoning_content;
     }
 
-    return { rawResponse: response, outputText };
+    return {
+      rawResponse: response,
+      outputText,
+      usage: extractOpenAIUsage(response?.usage, response?.choices?.[0]?.finish_reason),
+    };
   }
 }
 
-async function callAnthropic(modelConfig, prompt, userMessage, globalConfig, onChunk) {
+/**
+ * User messages are plain strings or, for multimodal callers such as the
+ * judge, arrays of `{ type: "text", text }` and
+ * `{ type: "image", mediaType, data }` parts with base64 image data.
+ */
+function toOpenAIContent(userMessage) {
+  if (typeof userMessage === "string") return userMessage;
+  return userMessage.map((part) => part.type === "image"
+    ? { type: "image_url", image_url: { url: `data:${part.mediaType};base64,${part.data}` } }
+    : { type: "text", text: part.text });
+}
+
+function toAnthropicContent(userMessage) {
+  if (typeof userMessage === "string") return userMessage;
+  return userMessage.map((part) => part.type === "image"
+    ? { type: "image", source: { type: "base64", media_type: part.mediaType, data: part.data } }
+    : { type: "text", text: part.text });
+}
+
+function toGoogleParts(userMessage) {
+  if (typeof userMessage === "string") return [{ text: userMessage }];
+  return userMessage.map((part) => part.type === "image"
+    ? { inlineData: { mimeType: part.mediaType, data: part.data } }
+    : { text: part.text });
+}
+
+function messageText(userMessage) {
+  if (typeof userMessage === "string") return userMessage;
+  return userMessage.filter((part) => part.type !== "image").map((part) => part.text).join("\n\n");
+}
+
+function extractOpenAIUsage(usage, finishReason) {
+  return {
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
+    stopReason: finishReason ?? null,
+    truncated: finishReason === "length",
+  };
+}
+
+async function callAnthropic(modelConfig, prompt, userMessage, globalConfig, onChunk, runtime = {}) {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     throw new Error("ANTHROPIC_API_KEY is not set.");
   }
 
-  const client = new Anthropic({ apiKey });
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
 
   const stream = await client.messages.create({
     model: modelConfig.model,
@@ -121,30 +727,50 @@ async function callAnthropic(modelConfig, prompt, userMessage, globalConfig, onC
     messages: [
       {
         role: "user",
-        content: userMessage,
+        content: toAnthropicContent(userMessage),
       },
     ],
     stream: true,
-  });
+  }, { signal: runtime.signal });
+  runtime.heartbeat?.();
 
   let fullText = "";
-  let finalResponse = null;
+  let message = null;
 
+  // Rebuild the final message from message_start plus message_delta updates.
   for await (const chunk of stream) {
-    if (chunk.type === "content_block_delta" && chunk.delta?.type === "text_delta") {
+    runtime.heartbeat?.();
+    if (chunk.type === "message_start") {
+      message = { ...chunk.message };
+    } else if (chunk.type === "content_block_delta" && chunk.delta?.type === "text_delta") {
+      runtime.markFirstToken?.();
       fullText += chunk.delta.text;
       if (onChunk) {
         onChunk(chunk.delta.text);
       }
-    } else if (chunk.type === "message_stop") {
-      finalResponse = chunk;
+    } else if (chunk.type === "message_delta" && message) {
+      message = {
+        ...message,
+        ...chunk.delta,
+        usage: { ...message.usage, ...chunk.usage },
+      };
     }
   }
 
-  return { rawResponse: finalResponse, outputText: fullText };
+  return {
+    rawResponse: message,
+    outputText: fullText,
+    usage: {
+      inputTokens: message?.usage?.input_tokens,
+      outputTokens: message?.usage?.output_tokens,
+      reasoningTokens: null,
+      stopReason: message?.stop_reason ?? null,
+      truncated: message?.stop_reason === "max_tokens",
+    },
+  };
 }
 
-async function callGoogle(modelConfig, prompt, userMessage, globalConfig, onChunk) {
+async function callGoogle(modelConfig, prompt, userMessage, globalConfig, onChunk, runtime = {}) {
   const apiKey = process.env.GOOGLE_API_KEY;
   if (!apiKey) {
     throw new Error("GOOGLE_API_KEY is not set.");
@@ -164,34 +790,200 @@ async function callGoogle(modelConfig, prompt, userMessage, globalConfig, onChun
   if (onChunk) {
     // Streaming mode
     const result = await model.generateContentStream({
-      contents: [{ role: "user", parts: [{ text: userMessage }] }],
+      contents: [{ role: "user", parts: toGoogleParts(userMessage) }],
       generationConfig,
-    });
+    }, { signal: runtime.signal });
+    runtime.heartbeat?.();
 
     let fullText = "";
     let finalResponse = null;
 
     for await (const chunk of result.stream) {
+      runtime.heartbeat?.();
       const chunkText = chunk.text();
       if (chunkText) {
+        runtime.markFirstToken?.();
         fullText += chunkText;
         onChunk(chunkText);
       }
     }
 
     finalResponse = await result.response;
-    return { rawResponse: finalResponse, outputText: fullText };
+    return { rawResponse: finalResponse, outputText: fullText, usage: extractGoogleUsage(finalResponse) };
   } else {
     // Non-streaming mode
     const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: userMessage }] }],
+      contents: [{ role: "user", parts: toGoogleParts(userMessage) }],
       generationConfig,
-    });
+    }, { signal: runtime.signal });
 
     const response = await result.response;
     const outputText = response.text();
-    return { rawResponse: response, outputText };
+    return { rawResponse: response, outputText, usage: extractGoogleUsage(response) };
+  }
+}
+
+function extractGoogleUsage(response) {
+  const metadata = response?.usageMetadata;
+  const finishReason = response?.candidates?.[0]?.finishReason ?? null;
+  const reasoningTokens = metadata?.thoughtsTokenCount ?? 0;
+  return {
+    inputTokens: metadata?.promptTokenCount,
+    // Gemini bills thinking tokens as output but reports them separately.
+    outputTokens: metadata ? (metadata.candidatesTokenCount ?? 0) + reasoningTokens : null,
+    reasoningTokens: metadata ? reasoningTokens : null,
+    stopReason: finishReason,
+    truncated: finishReason === "MAX_TOKENS",
+  };
+}
+
+/**
+ * Offline adapter. With `fixture` set it replays `response.txt` (and
+ * `response.json` when present) from a variant folder, or from the folder
+ * matching this model's label inside a run folder; otherwise it emits
+ * deterministic synthetic HTML. Output is streamed in `chunkSize` slices with
+ * `firstChunkDelayMs` / `chunkDelayMs` pauses.
+ */
+async function callMock(modelConfig, prompt, userMessage, globalConfig, onChunk, runtime = {}) {
+  const {
+    chunkSize = 64,
+    chunkDelayMs = 0,
+    firstChunkDelayMs = 0,
+  } = modelConfig;
+
+  const replay = modelConfig.fixture ? await readMockFixture(modelConfig) : null;
+  const text = messageText(userMessage);
+  const outputText = replay?.outputText ?? buildSyntheticHtml(modelConfig, text);
+  const rawResponse = replay?.rawResponse ?? {
+    mock: true,
+    source: replay ? "replay" : "synthetic",
+    model: modelConfig.model,
+  };
+
+  await sleep(firstChunkDelayMs, runtime.signal);
+  runtime.heartbeat?.();
+  if (onChunk) {
+    const size = Math.max(1, Number(chunkSize) || 1);
+    for (let offset = 0; offset < outputText.length; offset += size) {
+      if (offset > 0) {
+        await sleep(chunkDelayMs, runtime.signal);
+      }
+      runtime.heartbeat?.();
+      runtime.markFirstToken?.();
+      onChunk(outputText.slice(offset, offset + size));
+    }
+  }
+
+  // Rough four-characters-per-token estimate keeps cost reporting exercisable offline.
+  return {
+    rawResponse,
+    outputText,
+    usage: {
+      inputTokens: Math.ceil((prompt.length + text.length) / 4),
+      outputTokens: Math.ceil(outputText.length / 4),
+      reasoningTokens: 0,
+      stopReason: "stop",
+      truncated: false,
+    },
+  };
+}
+
+async function readMockFixture(modelConfig) {
+  const fixturePath = path.resolve(ROOT, modelConfig.fixture);
+  const candidates = [
+    fixturePath,
+    path.join(fixturePath, sanitizeLabel(modelConfig.label ?? modelConfig.model)),
+  ];
+
+  for (const dir of candidates) {
+    let outputText;
+    try {
+      outputText = await fs.readFile(path.join(dir, "response.txt"), "utf8");
+    } catch {
+      continue;
+    }
+
+    let rawResponse = { mock: true, source: "replay", fixture: dir };
+    try {
+      rawResponse = JSON.parse(await fs.readFile(path.join(dir, "response.json"), "utf8"));
+    } catch {
+      // response.json is optional for replays.
+    }
+    return { outputText, rawResponse };
+  }
+
+  throw new Error(`No response.txt fixture found for '${modelConfig.label ?? modelConfig.model}' in ${fixturePath}.`);
+}
+
+function buildSyntheticHtml(modelConfig, userMessage) {
+  const seed = crypto
+    .createHash("sha1")
+    .update(`${modelConfig.provider}:${modelConfig.model}:${userMessage}`)
+    .digest();
+  const palettes = ["indigo", "emerald", "rose", "amber", "sky", "violet"];
+  const accent = palettes[seed[0] % palettes.length];
+  const title = escapeHtml(userMessage.split(/\r?\n/)[0].slice(0, 120) || "Untitled brief");
+  const model = escapeHtml(`${modelConfig.provider}:${modelConfig.model}`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-slate-950 text-slate-100">
+  <header class="border-b border-slate-800">
+    <nav class="max-w-6xl mx-auto flex items-center justify-between px-6 py-4">
+      <span class="font-semibold text-${accent}-400">Mock Studio</span>
+      <a href="#features" class="text-sm text-slate-300 hover:text-white">Features</a>
+    </nav>
+  </header>
+  <main>
+    <section id="hero" class="max-w-6xl mx-auto px-6 py-24 text-center">
+      <h1 class="text-4xl md:text-6xl font-bold">${title}</h1>
+      <p class="mt-6 text-lg text-slate-400">Synthetic output generated offline by ${model}.</p>
+      <a href="#features" class="inline-block mt-10 rounded-lg bg-${accent}-500 px-6 py-3 font-medium hover:bg-${accent}-400 transition">Get started</a>
+    </section>
+    <section id="features" class="max-w-6xl mx-auto px-6 pb-24 grid gap-6 md:grid-cols-3">
+      <article class="rounded-xl border border-slate-800 p-6"><h2 class="font-semibold">Deterministic</h2><p class="mt-2 text-slate-400">Same brief and model, same page.</p></article>
+      <article class="rounded-xl border border-slate-800 p-6"><h2 class="font-semibold">Streamed</h2><p class="mt-2 text-slate-400">Delivered in chunks like a live model.</p></article>
+      <article class="rounded-xl border border-slate-800 p-6"><h2 class="font-semibold">Offline</h2><p class="mt-2 text-slate-400">No API keys or network required.</p></article>
+    </section>
+  </main>
+  <footer class="border-t border-slate-800 py-8 text-center text-sm text-slate-500">Mock provider fixture</footer>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sleep(ms, signal) {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  if (!(ms > 0)) {
+    return Promise.resolve();
   }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 function normalizeOpenAIContent(content) {
@@ -201,7 +993,7 @@ function normalizeOpenAIContent(content) {
   return typeof content === "string" ? content : "";
 }
 
-export async function persistResult(modelDir, result, modelConfig, description, notes) {
+export async function persistResult(modelDir, result, modelConfig, description, notes, extra = {}) {
   await fs.mkdir(modelDir, { recursive: true });
 
   await fs.writeFile(
@@ -225,6 +1017,53 @@ export async function persistResult(modelDir, result, modelConfig, description,
         maxOutputTokens: modelConfig.maxOutputTokens,
         description,
         notes,
+        ...extra,
+        status: "complete",
+        usage: result.usage,
+        timing: result.timing,
+        cost: result.cost,
+        attempts: result.attempts,
+      },
+      null,
+      2,
+    ),
+    "utf8",
+  );
+  const analysis = analyzeHtml(result.outputText ?? "");
+  await fs.writeFile(
+    path.join(modelDir, "analysis.json"),
+    JSON.stringify(analysis, null, 2),
+    "utf8",
+  );
+  // A successful re-run supersedes an earlier failure.
+  await fs.rm(path.join(modelDir, "error.log"), { force: true });
+  return { analysis };
+}
+
+/**
+ * Record a failed variant: `error.log` holds the message and `metadata.json`
+ * the attempt history, so failures can be audited next to successes.
+ */
+export async function persistFailure(modelDir, error, modelConfig, description, notes, extra = {}) {
+  const message = error instanceof Error ? error.message : String(error);
+  await fs.mkdir(modelDir, { recursive: true });
+  await fs.writeFile(path.join(modelDir, "error.log"), message, "utf8");
+  await fs.writeFile(
+    path.join(modelDir, "metadata.json"),
+    JSON.stringify(
+      {
+        provider: modelConfig.provider,
+        model: modelConfig.model,
+        label: modelConfig.label,
+        temperature: modelConfig.temperature,
+        maxOutputTokens: modelConfig.maxOutputTokens,
+        description,
+        notes,
+        ...extra,
+        status: "error",
+        error: message,
+        retryable: error?.retryable,
+        attempts: error?.attempts,
       },
       null,
       2,
@@ -0,0 +1,264 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { callModel } from "./benchmark.mjs";
+import { extractHtmlDocument } from "./renderer.mjs";
+import { RUBRIC_DIMENSIONS } from "./rubric.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..", "..");
+
+export const DEFAULT_JUDGE_PROMPT_PATH = "./JUDGE_PROMPT.md";
+
+const VERDICTS = new Set(["A", "B", "tie", "both_bad"]);
+const DEFAULT_SCREENSHOT_VIEWPORTS = ["desktop"];
+const DEFAULT_MAX_SOURCE_CHARS = 60_000;
+
+/**
+ * @typedef {Object} JudgeSettings
+ * @property {Record<string, unknown>} modelConfig Model entry passed to callModel.
+ * @property {string} promptPath
+ * @property {string} [promptVersion] Overrides the prompt's content hash.
+ * @property {boolean} screenshots Attach `screenshots/<viewport>.png` when present.
+ * @property {string[]} screenshotViewports
+ * @property {number} maxSourceChars Longer sources are cut to keep requests bounded.
+ */
+
+/**
+ * @typedef {Object} JudgeVariant
+ * @property {string} variantKey
+ * @property {string} sourceText
+ * @property {string} variantDir
+ */
+
+/**
+ * Resolve the `judge` block of benchmark.config.json. `overrides` is usually
+ * a model entry picked with `--judge=<label>`.
+ * @returns {JudgeSettings}
+ */
+export function resolveJudgeConfig(config = {}, overrides = {}) {
+  const {
+    promptPath = DEFAULT_JUDGE_PROMPT_PATH,
+    promptVersion,
+    screenshots = true,
+    screenshotViewports = DEFAULT_SCREENSHOT_VIEWPORTS,
+    maxSourceChars = DEFAULT_MAX_SOURCE_CHARS,
+    ...modelConfig
+  } = { ...config.judge, ...overrides };
+
+  if (!modelConfig.provider || !modelConfig.model) {
+    throw new Error(
+      "No judge model configured. Add `judge.provider` and `judge.model` to benchmark.config.json or pass --judge=<label>.",
+    );
+  }
+
+  return {
+    modelConfig: { temperature: 0, ...modelConfig },
+    promptPath: path.resolve(ROOT, promptPath),
+    promptVersion,
+    screenshots: Boolean(screenshots),
+    screenshotViewports,
+    maxSourceChars,
+  };
+}
+
+/**
+ * Read the rubric prompt. Its version is `judge.promptVersion` when set,
+ * otherwise a hash of the text, so editing the rubric never mixes verdicts.
+ * @param {JudgeSettings} judge
+ */
+export async function loadJudgePrompt(judge) {
+  const text = await fs.readFile(judge.promptPath, "utf8");
+  const version = judge.promptVersion ??
+    `sha1-${crypto.createHash("sha1").update(text).digest("hex").slice(0, 10)}`;
+  return { text, version };
+}
+
+/**
+ * Build the multimodal user message: the brief, both sources and, when
+ * rendered, their screenshots.
+ * @param {string} brief
+ * @param {JudgeVariant} designA
+ * @param {JudgeVariant} designB
+ * @param {JudgeSettings} judge
+ */
+export async function buildJudgeMessage(brief, designA, designB, judge) {
+  const parts = [{ type: "text", text: `Brief:\n${brief}` }];
+  let screenshots = 0;
+
+  for (const [name, variant] of [["A", designA], ["B", designB]]) {
+    let source = extractHtmlDocument(variant.sourceText);
+    if (source.length > judge.maxSourceChars) {
+      source = `${source.slice(0, judge.maxSourceChars)}\n<!-- truncated after ${judge.maxSourceChars} characters -->`;
+    }
+    parts.push({ type: "text", text: `Design ${name} HTML source:\n\`\`\`html\n${source}\n\`\`\`` });
+  }
+
+  if (judge.screenshots) {
+    for (const [name, variant] of [["A", designA], ["B", designB]]) {
+      for (const viewport of judge.screenshotViewports) {
+        const screenshotPath = path.join(variant.variantDir, "screenshots", `${viewport}.png`);
+        if (!existsSync(screenshotPath)) continue;
+        parts.push({ type: "text", text: `Design ${name} rendered at the ${viewport} viewport:` });
+        parts.push({
+          type: "image",
+          mediaType: "image/png",
+          data: (await fs.readFile(screenshotPath)).toString("base64"),
+        });
+        screenshots += 1;
+      }
+    }
+  }
+
+  return { parts, screenshots };
+}
+
+/**
+ * Parse the judge's JSON verdict, tolerating code fences or stray prose
+ * around the object.
+ */
+export function parseVerdict(outputText) {
+  const start = outputText.indexOf("{");
+  const end = outputText.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error(`Judge returned no JSON verdict: ${outputText.slice(0, 200)}`);
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(outputText.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Judge returned malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const rawWinner = typeof parsed.winner === "string" ? parsed.winner.trim() : "";
+  const winner = /^[ab]$/i.test(rawWinner) ? rawWinner.toUpperCase() : rawWinner.toLowerCase();
+  if (!VERDICTS.has(winner)) {
+    throw new Error(`Judge returned an unknown winner '${parsed.winner}'.`);
+  }
+
+  return {
+    winner,
+    scores: {
+      A: normalizeScores(parsed.scores?.A),
+      B: normalizeScores(parsed.scores?.B),
+    },
+    rationale: typeof parsed.rationale === "string" ? parsed.rationale.trim() : "",
+  };
+}
+
+function normalizeScores(scores) {
+  const normalized = {};
+  for (const dimension of RUBRIC_DIMENSIONS) {
+    const value = Number(scores?.[dimension]);
+    normalized[dimension] = Number.isFinite(value) && value >= 1 && value <= 5 ? value : null;
+  }
+  return normalized;
+}
+
+/**
+ * Merge the two presentation orders into one arena selection for
+ * (left, right). A side wins only when it comes out ahead over both orders;
+ * a split decision, the typical sign of position bias, becomes a tie.
+ */
+export function combineVerdicts(forward, reverse) {
+  if (forward.winner === "both_bad" && reverse.winner === "both_bad") {
+    return { selection: "both_bad", consistent: true };
+  }
+
+  const leftPoints = scoreFor(forward.winner, "A") + scoreFor(reverse.winner, "B");
+  const selection = leftPoints > 1 ? "left" : leftPoints < 1 ? "right" : "tie";
+  const consistent = toSelection(forward.winner, "A") === toSelection(reverse.winner, "B");
+  return { selection, consistent };
+}
+
+function scoreFor(winner, leftSlot) {
+  if (winner === leftSlot) return 1;
+  if (winner === "A" || winner === "B") return 0;
+  return 0.5;
+}
+
+function toSelection(winner, leftSlot) {
+  if (winner === leftSlot) return "left";
+  if (winner === "A" || winner === "B") return "right";
+  return winner;
+}
+
+/**
+ * Judge one pair in both orders and return the combined selection plus the
+ * metadata recorded with the vote.
+ * @param {JudgeVariant} left
+ * @param {JudgeVariant} right
+ * @param {{ judge: JudgeSettings, prompt: { text: string, version: string }, brief: string, config: object, scheduler: { schedule: Function } }} options
+ */
+export async function judgePair(left, right, options) {
+  const { judge, prompt, brief, config, scheduler } = options;
+
+  const runOrder = async (designA, designB) => {
+    const message = await buildJudgeMessage(brief, designA, designB, judge);
+    const result = await scheduler.schedule(
+      judge.modelConfig,
+      () => callModel(judge.modelConfig, prompt.text, message.parts, config),
+    );
+    return {
+      verdict: parseVerdict(result.outputText),
+      screenshots: message.screenshots,
+      usage: result.usage ?? null,
+      cost: result.cost ?? null,
+      attempts: result.attempts?.length ?? 1,
+    };
+  };
+
+  const [forward, reverse] = await Promise.all([
+    runOrder(left, right),
+    runOrder(right, left),
+  ]);
+  const { selection, consistent } = combineVerdicts(forward.verdict, reverse.verdict);
+
+  return {
+    selection,
+    automationMetadata: {
+      type: "judge",
+      judge: {
+        provider: judge.modelConfig.provider,
+        model: judge.modelConfig.model,
+        label: judge.modelConfig.label ?? judge.modelConfig.model,
+      },
+      promptVersion: prompt.version,
+      consistent,
+      scores: {
+        left: averageScores(forward.verdict.scores.A, reverse.verdict.scores.B),
+        right: averageScores(forward.verdict.scores.B, reverse.verdict.scores.A),
+      },
+      orders: [
+        { order: "left-right", ...describeOrder(forward) },
+        { order: "right-left", ...describeOrder(reverse) },
+      ],
+      judgedAt: new Date().toISOString(),
+    },
+  };
+}
+
+function describeOrder(run) {
+  return {
+    winner: run.verdict.winner,
+    rationale: run.verdict.rationale,
+    screenshots: run.screenshots,
+    usage: run.usage,
+    cost: run.cost,
+    attempts: run.attempts,
+  };
+}
+
+function averageScores(first, second) {
+  const averaged = {};
+  for (const dimension of RUBRIC_DIMENSIONS) {
+    const values = [first[dimension], second[dimension]].filter((value) => value !== null);
+    averaged[dimension] = values.length > 0
+      ? values.reduce((total, value) => total + value, 0) / values.length
+      : null;
+  }
+  return averaged;
+}
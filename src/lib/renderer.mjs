@@ -0,0 +1,211 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..", "..");
+
+export const TAILWIND_CDN_URL = "https://cdn.tailwindcss.com";
+export const DEFAULT_TAILWIND_PATH = "./vendor/tailwindcss-cdn.js";
+
+export const VIEWPORTS = {
+  desktop: { width: 1440, height: 900 },
+  tablet: { width: 768, height: 1024 },
+  mobile: { width: 375, height: 812, isMobile: true, hasTouch: true, deviceScaleFactor: 2 },
+};
+
+const SETTLE_DELAY_MS = 500;
+const NAVIGATION_TIMEOUT_MS = 30_000;
+
+/**
+ * @typedef {Object} RenderOptions
+ * @property {string[]} [viewports] Names from VIEWPORTS; defaults to all.
+ * @property {string} [tailwindPath] Local copy served for the Tailwind CDN URL.
+ * @property {boolean} [allowNetwork] Let other external requests through.
+ * @property {boolean} [force] Re-render variants that already have render.json.
+ */
+
+/**
+ * Resolve render settings from the `render` block of benchmark.config.json.
+ * @returns {RenderOptions}
+ */
+export function resolveRenderOptions(config = {}, overrides = {}) {
+  const settings = { ...config.render, ...overrides };
+  return {
+    viewports: settings.viewports ?? Object.keys(VIEWPORTS),
+    tailwindPath: path.resolve(ROOT, settings.tailwindPath ?? DEFAULT_TAILWIND_PATH),
+    allowNetwork: Boolean(settings.allowNetwork),
+    force: Boolean(settings.force),
+  };
+}
+
+/**
+ * Download the Tailwind Play CDN runtime once so later renders are offline.
+ */
+export async function downloadTailwindRuntime(targetPath) {
+  const response = await fetch(TAILWIND_CDN_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to download Tailwind runtime (${response.status}).`);
+  }
+  await fs.mkdir(path.dirname(targetPath), { recursive: true });
+  await fs.writeFile(targetPath, await response.text(), "utf8");
+  return targetPath;
+}
+
+/**
+ * Screenshot every variant folder of a run that has a response.txt.
+ * @param {string} runDir
+ * @param {RenderOptions} options
+ */
+export async function renderRun(runDir, options) {
+  const entries = await fs.readdir(runDir, { withFileTypes: true });
+  const variantDirs = entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(runDir, entry.name))
+    .filter((dir) => existsSync(path.join(dir, "response.txt")));
+
+  return renderVariants(variantDirs, options);
+}
+
+/**
+ * @param {string[]} variantDirs
+ * @param {RenderOptions} options
+ */
+export async function renderVariants(variantDirs, options) {
+  const pending = options.force
+    ? variantDirs
+    : variantDirs.filter((dir) => !existsSync(path.join(dir, "render.json")));
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const tailwindSource = await readTailwindRuntime(options.tailwindPath);
+  const chromium = await loadChromium();
+  const browser = await chromium.launch({ headless: true });
+  const reports = [];
+
+  try {
+    for (const variantDir of pending) {
+      const html = extractHtmlDocument(await fs.readFile(path.join(variantDir, "response.txt"), "utf8"));
+      const report = await renderDocument(browser, html, variantDir, { ...options, tailwindSource });
+      await fs.writeFile(path.join(variantDir, "render.json"), JSON.stringify(report, null, 2), "utf8");
+      reports.push({ variantDir, report });
+    }
+  } finally {
+    await browser.close();
+  }
+
+  return reports;
+}
+
+async function renderDocument(browser, html, variantDir, options) {
+  const screenshotDir = path.join(variantDir, "screenshots");
+  await fs.mkdir(screenshotDir, { recursive: true });
+
+  const report = {
+    renderedAt: new Date().toISOString(),
+    viewports: {},
+  };
+
+  for (const name of options.viewports) {
+    const viewport = VIEWPORTS[name];
+    if (!viewport) {
+      throw new Error(`Unknown viewport '${name}'. Expected one of ${Object.keys(VIEWPORTS).join(", ")}.`);
+    }
+
+    const context = await browser.newContext({
+      viewport: { width: viewport.width, height: viewport.height },
+      deviceScaleFactor: viewport.deviceScaleFactor ?? 1,
+      isMobile: viewport.isMobile ?? false,
+      hasTouch: viewport.hasTouch ?? false,
+    });
+    const page = await context.newPage();
+    const consoleErrors = [];
+    const pageErrors = [];
+    const blockedRequests = [];
+
+    page.on("console", (message) => {
+      if (message.type() === "error") {
+        consoleErrors.push(message.text());
+      }
+    });
+    page.on("pageerror", (error) => {
+      pageErrors.push(error.message);
+    });
+
+    await page.route("**/*", (route) => {
+      const url = route.request().url();
+      if (url.startsWith(TAILWIND_CDN_URL)) {
+        return route.fulfill({ status: 200, contentType: "application/javascript", body: options.tailwindSource });
+      }
+      if (options.allowNetwork || /^(data|blob|about):/.test(url)) {
+        return route.continue();
+      }
+      blockedRequests.push(url);
+      return route.abort("blockedbyclient");
+    });
+
+    const screenshotPath = path.join(screenshotDir, `${name}.png`);
+    try {
+      await page.setContent(html, { waitUntil: "load", timeout: NAVIGATION_TIMEOUT_MS });
+      // Tailwind's runtime generates styles after load via a MutationObserver.
+      await page.waitForTimeout(SETTLE_DELAY_MS);
+      await page.screenshot({ path: screenshotPath, fullPage: true });
+      report.viewports[name] = {
+        width: viewport.width,
+        height: viewport.height,
+        screenshot: path.relative(variantDir, screenshotPath),
+        documentHeight: await page.evaluate(() => document.documentElement.scrollHeight),
+        consoleErrors,
+        pageErrors,
+        blockedRequests,
+      };
+    } catch (error) {
+      report.viewports[name] = {
+        width: viewport.width,
+        height: viewport.height,
+        screenshot: null,
+        error: error instanceof Error ? error.message : String(error),
+        consoleErrors,
+        pageErrors,
+        blockedRequests,
+      };
+    } finally {
+      await context.close();
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Strip a surrounding markdown code fence, which some models add despite
+ * the prompt, so the browser receives the document itself.
+ */
+export function extractHtmlDocument(raw) {
+  const trimmed = raw.trim();
+  const fenced = /^```[a-z]*\s*\n([\s\S]*?)\n?```\s*$/i.exec(trimmed);
+  return fenced ? fenced[1] : raw;
+}
+
+async function readTailwindRuntime(tailwindPath) {
+  try {
+    return await fs.readFile(tailwindPath, "utf8");
+  } catch {
+    throw new Error(
+      `Local Tailwind runtime not found at ${tailwindPath}. Run 'node src/render-variants.mjs --download-tailwind' once while online.`,
+    );
+  }
+}
+
+async function loadChromium() {
+  try {
+    const { chromium } = await import("playwright");
+    return chromium;
+  } catch {
+    throw new Error(
+      "Rendering needs Playwright: run 'npm install playwright' and 'npx playwright install chromium'.",
+    );
+  }
+}
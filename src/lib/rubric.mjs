@@ -0,0 +1,120 @@
+/**
+ * Scoring dimensions from benchmarks/saas-landing/README.md, each rated 1–5.
+ */
+export const RUBRIC_DIMENSIONS = ["visualDesign", "uxCompliance", "codeQuality", "promptAdherence"];
+
+const MIN_SCORE = 1;
+const MAX_SCORE = 5;
+
+/**
+ * @typedef {Record<string, number | null>} SideScores
+ * @typedef {{ left: SideScores, right: SideScores }} RubricScores
+ */
+
+/**
+ * @typedef {Object} DimensionAggregate
+ * @property {number | null} mean
+ * @property {number} count
+ */
+
+/**
+ * @typedef {Object} RubricAggregate
+ * @property {string} key
+ * @property {number} scoredVotes Votes in which this model received any score.
+ * @property {number | null} overall Mean over every dimension score.
+ * @property {Record<string, DimensionAggregate>} dimensions
+ */
+
+/**
+ * Validate rubric scores submitted with a vote. Unknown dimensions are
+ * dropped and unrated ones become null; returns null when nothing was rated.
+ *
+ * @param {unknown} input
+ * @returns {RubricScores | null}
+ */
+export function normalizeRubricScores(input) {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const scores = {};
+  let rated = 0;
+  for (const side of ["left", "right"]) {
+    scores[side] = {};
+    for (const dimension of RUBRIC_DIMENSIONS) {
+      const raw = input[side]?.[dimension];
+      if (raw === null || raw === undefined || raw === "") {
+        scores[side][dimension] = null;
+        continue;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < MIN_SCORE || value > MAX_SCORE) {
+        throw new Error(`Score for ${side}.${dimension} must be between ${MIN_SCORE} and ${MAX_SCORE}.`);
+      }
+      scores[side][dimension] = value;
+      rated += 1;
+    }
+  }
+
+  return rated > 0 ? scores : null;
+}
+
+/**
+ * Average rubric scores per model and dimension.
+ *
+ * @param {Array<{ leftVariantId: string, rightVariantId: string, scores: RubricScores }>} votes
+ * @param {(variantId: string) => string} resolveModelKey
+ * @returns {RubricAggregate[]}
+ */
+export function aggregateRubricScores(votes, resolveModelKey) {
+  const totals = new Map();
+
+  for (const vote of votes) {
+    for (const [side, variantId] of [["left", vote.leftVariantId], ["right", vote.rightVariantId]]) {
+      const sideScores = vote.scores?.[side];
+      if (!sideScores) continue;
+
+      const key = resolveModelKey(variantId);
+      if (!totals.has(key)) {
+        totals.set(key, {
+          scoredVotes: 0,
+          dimensions: Object.fromEntries(RUBRIC_DIMENSIONS.map((dimension) => [dimension, { sum: 0, count: 0 }])),
+        });
+      }
+      const record = totals.get(key);
+      let scored = false;
+      for (const dimension of RUBRIC_DIMENSIONS) {
+        const value = sideScores[dimension];
+        if (typeof value !== "number") continue;
+        record.dimensions[dimension].sum += value;
+        record.dimensions[dimension].count += 1;
+        scored = true;
+      }
+      if (scored) record.scoredVotes += 1;
+    }
+  }
+
+  return Array.from(totals.entries())
+    .filter(([, record]) => record.scoredVotes > 0)
+    .map(([key, record]) => {
+      let sum = 0;
+      let count = 0;
+      const dimensions = {};
+      for (const dimension of RUBRIC_DIMENSIONS) {
+        const total = record.dimensions[dimension];
+        sum += total.sum;
+        count += total.count;
+        dimensions[dimension] = {
+          mean: total.count > 0 ? total.sum / total.count : null,
+          count: total.count,
+        };
+      }
+      return {
+        key,
+        scoredVotes: record.scoredVotes,
+        overall: count > 0 ? sum / count : null,
+        dimensions,
+      };
+    })
+    .sort((a, b) => (b.overall ?? 0) - (a.overall ?? 0));
+}
@@ -0,0 +1,60 @@
+import crypto from "node:crypto";
+import { sanitizeLabel } from "./benchmark.mjs";
+
+/**
+ * The one variant identity scheme shared by the runner, the loader and the
+ * viewer server. Ids look like `{runId}/{label}-{hash}`; the runner writes
+ * them into each variant's `metadata.json`, so renaming a label or moving a
+ * run folder afterwards no longer changes the id votes refer to.
+ *
+ * @param {{ runId: string, provider: string, model: string, label?: string | null, repetition?: number }} variant
+ * @returns {string}
+ */
+export function computeVariantId({ runId, provider, model, label, repetition }) {
+  const baseLabel = sanitizeLabel(label ?? model);
+  // Repeated samples share a label within one run.
+  const idLabel = repetition && repetition > 1 ? `${baseLabel}-rep${repetition}` : baseLabel;
+  const composite = `${runId}:${provider}:${model}:${idLabel}`;
+  const hash = crypto.createHash("sha1").update(composite).digest("hex").slice(0, 12);
+  return `${runId}/${idLabel}-${hash}`;
+}
+
+/**
+ * Split a variant id into its run and label. Returns null for ids that do
+ * not follow the `{runId}/{label}-{hash}` format.
+ *
+ * @param {string} variantId
+ * @returns {{ runId: string, label: string, hash: string } | null}
+ */
+export function parseVariantId(variantId) {
+  const match = variantId.match(/^([^/]+)\/(.+)-([a-f0-9]{12})$/);
+  if (!match) return null;
+  return { runId: match[1], label: match[2], hash: match[3] };
+}
+
+/**
+ * Ids older code may have stored for a variant before `variantId` was
+ * written at generation time: the loader's (run folder + sanitized label)
+ * and the demo server's (run folder + the label as configured).
+ *
+ * @param {string} runFolderName
+ * @param {{ provider: string, model: string, label?: string | null, repetition?: number }} metadata
+ * @param {string} dirName Fallback label when metadata has neither label nor model.
+ * @returns {string[]}
+ */
+export function legacyVariantIds(runFolderName, metadata, dirName) {
+  const rawLabel = metadata.label ?? metadata.model ?? dirName;
+  const loaderId = computeVariantId({
+    runId: runFolderName,
+    provider: metadata.provider,
+    model: metadata.model,
+    label: rawLabel,
+    repetition: metadata.repetition,
+  });
+
+  const composite = `${runFolderName}:${metadata.provider}:${metadata.model}:${rawLabel}`;
+  const hash = crypto.createHash("sha1").update(composite).digest("hex").slice(0, 12);
+  const serverId = `${runFolderName}/${rawLabel}-${hash}`;
+
+  return serverId === loaderId ? [loaderId] : [loaderId, serverId];
+}
@@ -0,0 +1,111 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "./lib/benchmark.mjs";
+import { computeVariantId, legacyVariantIds } from "./lib/variant-id.mjs";
+import { backupDatabase, getSchemaStatus } from "./viewer/lib/schema.mjs";
+import { closeDatabase, initDatabase, renameVariantIds } from "./viewer/lib/sqlite.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
+
+/**
+ * One-shot upgrade to explicit variant ids: writes `variantId` into every
+ * variant's metadata.json that lacks one and rewrites the ids stored in the
+ * arena database from the old folder-and-label keys. Safe to run again.
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig(CONFIG_PATH);
+  const runsDir = path.resolve(ROOT, args["runs-dir"] ?? config.outputDir);
+  const dryRun = args["dry-run"] === "true";
+
+  const renames = new Map();
+  let stamped = 0;
+  for (const runFolder of await listDirs(runsDir)) {
+    const runPath = path.join(runsDir, runFolder);
+    const runMeta = await readJson(path.join(runPath, "meta.json"));
+    if (!runMeta) continue;
+
+    for (const dirName of await listDirs(runPath)) {
+      const metadataPath = path.join(runPath, dirName, "metadata.json");
+      const metadata = await readJson(metadataPath);
+      if (!metadata) continue;
+
+      const variantId = metadata.variantId ?? computeVariantId({
+        runId: runMeta.runId ?? runFolder,
+        provider: metadata.provider,
+        model: metadata.model,
+        label: metadata.label ?? metadata.model ?? dirName,
+        repetition: metadata.repetition,
+      });
+      for (const legacyId of legacyVariantIds(runFolder, metadata, dirName)) {
+        if (legacyId !== variantId) renames.set(legacyId, variantId);
+      }
+
+      if (!metadata.variantId) {
+        stamped += 1;
+        if (!dryRun) {
+          await fs.writeFile(metadataPath, JSON.stringify({ variantId, ...metadata }, null, 2), "utf8");
+        }
+      }
+    }
+  }
+
+  console.log(`${dryRun ? "Would stamp" : "Stamped"} variantId into ${stamped} metadata.json files.`);
+  if (dryRun) {
+    for (const [from, to] of renames) {
+      console.log(`  ${from} → ${to}`);
+    }
+    console.log(`${renames.size} stored ids would be rewritten.`);
+    return;
+  }
+
+  const dbCtx = initDatabase(ROOT);
+  try {
+    if (renames.size > 0 && args["no-backup"] !== "true") {
+      const { version } = getSchemaStatus(dbCtx.db);
+      console.log(`Backed up to ${backupDatabase(dbCtx.db, dbCtx.dbPath, version)}`);
+    }
+    const counts = renameVariantIds(dbCtx, renames);
+    console.log(
+      `Rewrote ids in ${counts.votes} votes, ${counts.pairs} pairs, ${counts.demoVariants} demo issuances and ${counts.indexed} index rows.`,
+    );
+  } finally {
+    closeDatabase(dbCtx);
+  }
+}
+
+async function listDirs(dirPath) {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+async function readJson(filePath) {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
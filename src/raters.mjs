@@ -0,0 +1,102 @@
+import path from "node:path";
+import readline from "node:readline";
+import { fileURLToPath } from "node:url";
+import { hashPassword, validatePassword, validateUsername } from "./viewer/lib/accounts.mjs";
+import {
+  closeDatabase,
+  createUser,
+  getUserByUsername,
+  initDatabase,
+  listRaters,
+  setUserPassword,
+} from "./viewer/lib/sqlite.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const USAGE = `Usage:
+  node src/raters.mjs add --username=<name>      # prompts for a password (or reads RATER_PASSWORD)
+  node src/raters.mjs passwd --username=<name>
+  node src/raters.mjs list`;
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+
+  const dbCtx = initDatabase(ROOT);
+  try {
+    switch (command) {
+      case "add": {
+        const username = validateUsername(args.username);
+        if (getUserByUsername(dbCtx, username)) {
+          throw new Error(`Rater '${username}' already exists.`);
+        }
+        const passwordHash = await hashPassword(validatePassword(await readPassword()));
+        createUser(dbCtx, { username, passwordHash });
+        console.log(`Added rater ${username}.`);
+        return;
+      }
+      case "passwd": {
+        const user = getUserByUsername(dbCtx, validateUsername(args.username));
+        if (!user) {
+          throw new Error(`No rater '${args.username}'.`);
+        }
+        setUserPassword(dbCtx, user.id, await hashPassword(validatePassword(await readPassword())));
+        console.log(`Password updated for ${user.username}.`);
+        return;
+      }
+      case "list": {
+        const raters = listRaters(dbCtx);
+        if (raters.length === 0) {
+          console.log("No raters yet.");
+        }
+        for (const rater of raters) {
+          console.log(`${rater.username.padEnd(24)} ${String(rater.votes).padStart(6)} votes  since ${rater.createdAt}`);
+        }
+        return;
+      }
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase(dbCtx);
+  }
+}
+
+/**
+ * RATER_PASSWORD, otherwise one line from stdin; typing is hidden on a terminal.
+ */
+async function readPassword() {
+  if (process.env.RATER_PASSWORD) {
+    return process.env.RATER_PASSWORD;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+  if (process.stdin.isTTY) {
+    const write = rl._writeToOutput.bind(rl);
+    rl._writeToOutput = (text) => write(text.startsWith("Password: ") ? "Password: " : "");
+  }
+  try {
+    return await new Promise((resolve) => rl.question("Password: ", resolve));
+  } finally {
+    rl.close();
+    if (process.stdin.isTTY) process.stdout.write("\n");
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
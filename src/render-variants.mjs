@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "./lib/benchmark.mjs";
+import {
+  downloadTailwindRuntime,
+  renderRun,
+  resolveRenderOptions,
+} from "./lib/renderer.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig(CONFIG_PATH);
+  const options = resolveRenderOptions(config, {
+    ...(args.viewports ? { viewports: args.viewports.split(",").map((name) => name.trim()).filter(Boolean) } : {}),
+    ...(args["allow-network"] === "true" ? { allowNetwork: true } : {}),
+    ...(args.force === "true" ? { force: true } : {}),
+  });
+
+  if (args["download-tailwind"] === "true") {
+    await downloadTailwindRuntime(options.tailwindPath);
+    console.log(`Saved Tailwind runtime to ${options.tailwindPath}`);
+    if (!args.run && args.all !== "true") return;
+  }
+
+  const runsDir = path.resolve(ROOT, config.outputDir);
+  let runIds;
+  if (args.all === "true") {
+    const entries = await fs.readdir(runsDir, { withFileTypes: true });
+    runIds = entries
+      .filter((entry) => entry.isDirectory() && existsSync(path.join(runsDir, entry.name, "meta.json")))
+      .map((entry) => entry.name);
+  } else if (args.run) {
+    runIds = args.run.split(",").map((id) => id.trim()).filter(Boolean);
+  } else {
+    throw new Error("Pass --run=<runId>[,<runId>…] or --all.");
+  }
+
+  for (const runId of runIds) {
+    const reports = await renderRun(path.join(runsDir, runId), options);
+    for (const { variantDir, report } of reports) {
+      const errorCount = Object.values(report.viewports)
+        .reduce((total, viewport) => total + viewport.consoleErrors.length + viewport.pageErrors.length, 0);
+      console.log(
+        `✔ Rendered ${runId}/${path.basename(variantDir)}${errorCount ? ` (${errorCount} console errors)` : ""}`,
+      );
+    }
+    if (reports.length === 0) {
+      console.log(`Run ${runId} is already rendered (use --force to redo).`);
+    }
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value ?? "true";
+  }
+  return args;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,14 +1,21 @@
 import fs from "node:fs/promises";
+import { existsSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import {
   loadConfig,
+  loadSuite,
   renderPrompt,
   buildRunId,
   callModel,
+  createScheduler,
+  persistFailure,
   persistResult,
   sanitizeLabel,
+  withMockProviders,
 } from "./lib/benchmark.mjs";
+import { renderRun, resolveRenderOptions } from "./lib/renderer.mjs";
+import { computeVariantId } from "./lib/variant-id.mjs";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.join(__dirname, "..");
@@ -18,20 +25,134 @@ const ARG_DEFAULTS = {
   "description": "Design a GitHub-style dashboard with activity graphs, repository cards, contribution heatmap, issue tracking, pull request overview, and clean, developer-focused UI.",
   notes: "",
   "dry-run": "false",
+  mock: "false",
 };
 
 async function main() {
   const args = parseArgs(process.argv.slice(2));
-  const config = await loadConfig(CONFIG_PATH);
-  const promptTemplate = await fs.readFile(
+  const loadedConfig = await loadConfig(CONFIG_PATH);
+  const config = args.mock === "true"
+    ? withMockProviders(loadedConfig, args.fixture ? { fixture: args.fixture } : {})
+    : loadedConfig;
+  const defaultTemplate = await fs.readFile(
     path.resolve(ROOT, config.promptPath),
     "utf8",
   );
-  const description = args["description"];
-  const renderedPrompt = renderPrompt(promptTemplate, description);
-  const userMessage = buildUserMessage(args);
 
+  const scheduler = createScheduler(config);
+
+  if (args.resume) {
+    const baseOutputDir = await resumeRun(args, config, args.resume, scheduler);
+    console.log(`Resume complete. Artifacts saved to ${baseOutputDir}`);
+    await maybeRender(args, config, [baseOutputDir]);
+    return;
+  }
+
+  if (args.suite) {
+    const runDirs = await runSuite(args, config, defaultTemplate, scheduler);
+    await maybeRender(args, config, runDirs);
+    return;
+  }
+
+  const brief = {
+    id: null,
+    description: args["description"],
+    notes: args.notes,
+    tags: [],
+  };
   const runId = buildRunId();
+  const baseOutputDir = await runBrief(args, config, brief, defaultTemplate, {
+    runId,
+    repetitions: parseRepetitions(args.repetitions, 1),
+    scheduler,
+  });
+
+  console.log(`Run complete. Artifacts saved to ${baseOutputDir}`);
+  await maybeRender(args, config, [baseOutputDir]);
+}
+
+/**
+ * Post-run hook: screenshot the new variants when `--render` is passed or
+ * `render.afterRun` is set. Render failures never fail the run itself.
+ */
+async function maybeRender(args, config, runDirs) {
+  if (args.render !== "true" && !config.render?.afterRun) return;
+  try {
+    const options = resolveRenderOptions(config);
+    for (const runDir of runDirs) {
+      const reports = await renderRun(runDir, options);
+      console.log(`Rendered ${reports.length} variants in ${runDir}`);
+    }
+  } catch (error) {
+    console.warn(`Rendering skipped – ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function runSuite(args, config, defaultTemplate, scheduler) {
+  const suitePath = path.resolve(ROOT, args.suite);
+  const suite = await loadSuite(suitePath);
+  const repetitions = parseRepetitions(args.repetitions, suite.repetitions ?? 1);
+  const suiteRunId = buildRunId();
+  const outputRoot = path.resolve(ROOT, config.outputDir);
+
+  console.log(
+    `Starting suite '${suite.name}' (${suite.briefs.length} briefs × ${config.models.length} models × ${repetitions} repetitions, suite run ${suiteRunId}).`,
+  );
+
+  // Briefs run side by side; the shared scheduler enforces the limits.
+  const runs = await Promise.all(
+    suite.briefs.map(async (brief) => {
+      const template = brief.systemPrompt ?? defaultTemplate;
+      const runId = `${suiteRunId}-${sanitizeLabel(brief.id)}`;
+      const baseOutputDir = await runBrief(args, config, brief, template, {
+        runId,
+        repetitions,
+        scheduler,
+        suite: { name: suite.name, runId: suiteRunId },
+      });
+      return {
+        briefId: brief.id,
+        runId,
+        tags: brief.tags,
+        path: path.relative(outputRoot, baseOutputDir),
+        baseOutputDir,
+      };
+    }),
+  );
+
+  // Lives beside the run folders; it has no meta.json so the viewer skips it.
+  const manifestDir = path.join(outputRoot, "suites");
+  await fs.mkdir(manifestDir, { recursive: true });
+  const manifestPath = path.join(manifestDir, `${suiteRunId}.json`);
+  await fs.writeFile(
+    manifestPath,
+    JSON.stringify(
+      {
+        benchmark: config.benchmarkName,
+        suite: suite.name,
+        suitePath: path.relative(ROOT, suitePath),
+        suiteRunId,
+        timestamp: new Date().toISOString(),
+        repetitions,
+        models: config.models,
+        runs: runs.map(({ baseOutputDir, ...run }) => run),
+      },
+      null,
+      2,
+    ),
+    "utf8",
+  );
+
+  console.log(`Suite complete. Manifest saved to ${manifestPath}`);
+  return runs.map((run) => run.baseOutputDir);
+}
+
+async function runBrief(args, config, brief, promptTemplate, options) {
+  const { runId, repetitions, scheduler, suite = null } = options;
+  const description = brief.description;
+  const renderedPrompt = renderPrompt(promptTemplate, description);
+  const userMessage = buildUserMessage(brief);
+
   const baseOutputDir = path.resolve(ROOT, config.outputDir, runId);
   await fs.mkdir(baseOutputDir, { recursive: true });
   await fs.writeFile(
@@ -47,7 +168,12 @@ async function main() {
         runId,
         timestamp: new Date().toISOString(),
         description,
-        notes: args.notes,
+        notes: brief.notes,
+        briefId: brief.id,
+        tags: brief.tags,
+        suite: suite ? suite.name : undefined,
+        suiteRunId: suite ? suite.runId : undefined,
+        repetitions,
         temperature: config.temperature,
         maxOutputTokens: config.maxOutputTokens,
         models: config.models,
@@ -59,35 +185,154 @@ async function main() {
   );
 
   console.log(
-    `Starting benchmark '${config.benchmarkName}' for ${config.models.length} models (run ${runId}).`,
+    `Starting benchmark '${config.benchmarkName}'${brief.id ? ` brief '${brief.id}'` : ""} for ${config.models.length} models (run ${runId}).`,
+  );
+
+  await executeJobs(args, config, brief, {
+    baseOutputDir,
+    renderedPrompt,
+    userMessage,
+    repetitions,
+    scheduler,
+    jobs: buildJobs(config.models, repetitions, baseOutputDir, runId),
+  });
+
+  return baseOutputDir;
+}
+
+/**
+ * Re-run the variants of an existing run that never produced a
+ * `response.txt` or ended in `error.log`, reusing its rendered `prompt.md`
+ * and the model list recorded in `meta.json`. Finished variants are left
+ * untouched.
+ */
+async function resumeRun(args, config, runId, scheduler) {
+  const baseOutputDir = path.resolve(ROOT, config.outputDir, runId);
+  let meta;
+  let renderedPrompt;
+  try {
+    meta = JSON.parse(await fs.readFile(path.join(baseOutputDir, "meta.json"), "utf8"));
+    renderedPrompt = await fs.readFile(path.join(baseOutputDir, "prompt.md"), "utf8");
+  } catch (error) {
+    throw new Error(`Cannot resume run '${runId}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const models = args.mock === "true"
+    ? withMockProviders(meta, args.fixture ? { fixture: args.fixture } : {}).models
+    : meta.models ?? [];
+  const repetitions = meta.repetitions ?? 1;
+  const brief = {
+    id: meta.briefId ?? null,
+    description: meta.description,
+    notes: meta.notes ?? "",
+    tags: meta.tags ?? [],
+  };
+
+  const jobs = buildJobs(models, repetitions, baseOutputDir, meta.runId ?? runId).filter(
+    ({ modelDir }) => !existsSync(path.join(modelDir, "response.txt")) ||
+      existsSync(path.join(modelDir, "error.log")),
+  );
+
+  if (jobs.length === 0) {
+    console.log(`Run ${runId} has no missing or failed variants.`);
+    return baseOutputDir;
+  }
+
+  console.log(
+    `Resuming run ${runId}: re-running ${jobs.length} of ${models.length * repetitions} variants.`,
   );
 
-  for (const modelConfig of config.models) {
-    const label = sanitizeLabel(modelConfig.label ?? modelConfig.model);
-    const modelDir = path.join(baseOutputDir, label);
-
-    try {
-      const result = args["dry-run"] === "true"
-        ? {
-          outputText: "[dry-run] skipped model invocation.",
-          rawResponse: { skipped: true },
-        }
-        : await callModel(modelConfig, renderedPrompt, userMessage, config);
-
-      await persistResult(modelDir, result, modelConfig, description, args.notes);
-      console.log(`✔ Saved output for ${modelConfig.provider}:${modelConfig.model}`);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error(`✖ Failed ${modelConfig.provider}:${modelConfig.model} – ${message}`);
-      await fs.writeFile(
-        path.join(modelDir, "error.log"),
-        message,
-        "utf8",
+  await executeJobs(args, config, brief, {
+    baseOutputDir,
+    renderedPrompt,
+    userMessage: buildUserMessage(brief),
+    repetitions,
+    scheduler,
+    jobs,
+  });
+
+  meta.resumes = [
+    ...(meta.resumes ?? []),
+    {
+      timestamp: new Date().toISOString(),
+      variants: jobs.map(({ modelDir }) => path.basename(modelDir)),
+    },
+  ];
+  await fs.writeFile(path.join(baseOutputDir, "meta.json"), JSON.stringify(meta, null, 2), "utf8");
+
+  return baseOutputDir;
+}
+
+function buildJobs(models, repetitions, baseOutputDir, runId) {
+  const jobs = [];
+  for (let repetition = 1; repetition <= repetitions; repetition += 1) {
+    for (const modelConfig of models) {
+      const label = sanitizeLabel(modelConfig.label ?? modelConfig.model);
+      const modelDir = path.join(
+        baseOutputDir,
+        repetition > 1 ? `${label}--rep${repetition}` : label,
       );
+      const variantId = computeVariantId({
+        runId,
+        provider: modelConfig.provider,
+        model: modelConfig.model,
+        label: modelConfig.label,
+        repetition,
+      });
+      jobs.push({ repetition, modelConfig, modelDir, variantId });
     }
   }
+  return jobs;
+}
 
-  console.log(`Run complete. Artifacts saved to ${baseOutputDir}`);
+async function executeJobs(args, config, brief, options) {
+  const {
+    renderedPrompt,
+    userMessage,
+    repetitions,
+    scheduler,
+    jobs,
+  } = options;
+  const description = brief.description;
+
+  await Promise.all(
+    jobs.map(({ repetition, modelConfig, modelDir, variantId }) => scheduler.schedule(modelConfig, async () => {
+      try {
+        const result = args["dry-run"] === "true"
+          ? {
+            outputText: "[dry-run] skipped model invocation.",
+            rawResponse: { skipped: true },
+          }
+          : await callModel(modelConfig, renderedPrompt, userMessage, config, undefined, {
+            onRetry: ({ attempt, delayMs, error }) => {
+              console.warn(
+                `↻ Retrying ${modelConfig.provider}:${modelConfig.model} (attempt ${attempt}) in ${Math.round(delayMs)}ms – ${error.error}`,
+              );
+            },
+          });
+
+        await persistResult(modelDir, result, modelConfig, description, brief.notes, {
+          variantId,
+          briefId: brief.id ?? undefined,
+          repetition: repetitions > 1 ? repetition : undefined,
+        });
+        console.log(
+          `✔ Saved output for ${modelConfig.provider}:${modelConfig.model}${brief.id ? ` [${brief.id}]` : ""}${repetitions > 1 ? ` (rep ${repetition})` : ""}`,
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const attemptCount = error?.attempts?.length ?? 1;
+        console.error(
+          `✖ Failed ${modelConfig.provider}:${modelConfig.model} after ${attemptCount} attempt${attemptCount === 1 ? "" : "s"} – ${message}`,
+        );
+        await persistFailure(modelDir, error, modelConfig, description, brief.notes, {
+          variantId,
+          briefId: brief.id ?? undefined,
+          repetition: repetitions > 1 ? repetition : undefined,
+        });
+      }
+    })),
+  );
 }
 
 function parseArgs(argv) {
@@ -101,10 +346,19 @@ function parseArgs(argv) {
   return args;
 }
 
-function buildUserMessage(args) {
+function parseRepetitions(value, fallback) {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--repetitions must be a positive integer (got '${value}').`);
+  }
+  return parsed;
+}
+
+function buildUserMessage(brief) {
   return (
-    args["description"] +
-    (args.notes ? `\n\nAdditional notes: ${args.notes}` : "")
+    brief.description +
+    (brief.notes ? `\n\nAdditional notes: ${brief.notes}` : "")
   );
 }
 
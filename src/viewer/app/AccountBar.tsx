@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from "react";
+
+interface AccountUser {
+  username: string;
+}
+
+interface AccountPayload {
+  user: AccountUser | null;
+  error?: string;
+}
+
+/**
+ * Optional rater sign-in. Votes cast while signed in are attributed to the
+ * rater; accounts are created with `node src/raters.mjs add`.
+ */
+export default function AccountBar() {
+  const [user, setUser] = useState<AccountUser | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/me")
+      .then((response) => response.json() as Promise<AccountPayload>)
+      .then((payload) => setUser(payload.user))
+      .catch((reason) => console.error("Failed to load account:", reason));
+  }, []);
+
+  const signIn = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      setPending(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username, password }),
+        });
+        const payload = (await response.json().catch(() => ({}))) as AccountPayload;
+        if (!response.ok) {
+          throw new Error(payload.error ?? `Sign-in failed (${response.status})`);
+        }
+        setUser(payload.user);
+        setFormOpen(false);
+        setPassword("");
+      } catch (reason) {
+        setError(reason instanceof Error ? reason.message : String(reason));
+      } finally {
+        setPending(false);
+      }
+    },
+    [username, password],
+  );
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/logout", { method: "POST" }).catch(() => undefined);
+    setUser(null);
+  }, []);
+
+  if (user) {
+    return (
+      <div className="account-bar">
+        <span>
+          Rating as <strong>{user.username}</strong>
+        </span>
+        <button type="button" className="account-link" onClick={signOut}>
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  if (!formOpen) {
+    return (
+      <div className="account-bar">
+        <button type="button" className="account-link" onClick={() => setFormOpen(true)}>
+          Rater sign-in
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="account-bar account-form" onSubmit={signIn}>
+      <input
+        type="text"
+        autoComplete="username"
+        placeholder="Username"
+        value={username}
+        onChange={(event) => setUsername(event.target.value)}
+        required
+      />
+      <input
+        type="password"
+        autoComplete="current-password"
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+        required
+      />
+      <button type="submit" disabled={pending}>
+        {pending ? "Signing in…" : "Sign in"}
+      </button>
+      <button type="button" className="account-link" onClick={() => setFormOpen(false)}>
+        Cancel
+      </button>
+      {error ? <span className="account-error">{error}</span> : null}
+    </form>
+  );
+}
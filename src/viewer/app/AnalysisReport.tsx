@@ -0,0 +1,62 @@
+import React from "react";
+
+export interface AnalysisCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  severity: "error" | "warning" | "info";
+  detail: string;
+}
+
+export interface AnalysisReportData {
+  version: number;
+  analyzedAt: string;
+  bytes: number;
+  passed: number;
+  total: number;
+  checks: AnalysisCheck[];
+}
+
+interface AnalysisReportProps {
+  report?: AnalysisReportData | null;
+  defaultOpen?: boolean;
+}
+
+/**
+ * Static HTML checks for one variant (see src/lib/analyzer.mjs). Failures are
+ * listed first so hard-requirement errors are visible without scrolling.
+ */
+export default function AnalysisReport({ report, defaultOpen = false }: AnalysisReportProps) {
+  if (!report) {
+    return null;
+  }
+
+  const errors = report.checks.filter((check) => !check.passed && check.severity === "error").length;
+  const ordered = [...report.checks].sort((a, b) => Number(a.passed) - Number(b.passed));
+  const tone = errors > 0 ? "error" : report.passed < report.total ? "warning" : "pass";
+
+  return (
+    <details className="analysis-report" open={defaultOpen}>
+      <summary className="analysis-summary">
+        <span>Static checks</span>
+        <span className={`analysis-score analysis-score--${tone}`}>
+          {report.passed}/{report.total}
+        </span>
+      </summary>
+      <ul className="analysis-checks">
+        {ordered.map((check) => (
+          <li
+            key={check.id}
+            className={`analysis-check analysis-check--${check.passed ? "pass" : check.severity}`}
+          >
+            <span className="analysis-check-icon" aria-hidden="true">
+              {check.passed ? "✓" : check.severity === "error" ? "✕" : "!"}
+            </span>
+            <span className="analysis-check-label">{check.label}</span>
+            <span className="analysis-check-detail">{check.detail}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -1,8 +1,65 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import AccountBar from "./AccountBar";
+import AnalysisReport, { type AnalysisReportData } from "./AnalysisReport";
+import SiteNav from "./SiteNav";
+import { DEFAULT_VIEWPORT, ViewportFrame, ViewportSelector, useScrollSync, type Viewport } from "./ViewportFrame";
 
 type Selection = "left" | "right" | "tie" | "both_bad";
 type ViewMode = "hero" | "source" | "rendered";
 type Verdict = "neutral" | "selected" | "win" | "lose" | "tie" | "bad";
+type RubricDimension = "visualDesign" | "uxCompliance" | "codeQuality" | "promptAdherence";
+type SideScores = Record<RubricDimension, number | null>;
+
+interface RubricScores {
+  left: SideScores;
+  right: SideScores;
+}
+
+const RUBRIC_DIMENSIONS: Array<{ key: RubricDimension; label: string }> = [
+  { key: "visualDesign", label: "Visual design" },
+  { key: "uxCompliance", label: "UX compliance" },
+  { key: "codeQuality", label: "Code quality" },
+  { key: "promptAdherence", label: "Prompt adherence" },
+];
+
+const EMPTY_SIDE_SCORES: SideScores = {
+  visualDesign: null,
+  uxCompliance: null,
+  codeQuality: null,
+  promptAdherence: null,
+};
+
+const EMPTY_SCORES: RubricScores = { left: EMPTY_SIDE_SCORES, right: EMPTY_SIDE_SCORES };
+
+// A prefetched pair closer than this to its expiresAt is dropped rather than shown.
+const PREFETCH_MIN_REMAINING_MS = 5 * 60 * 1000;
+
+const VIEW_MODES: ViewMode[] = ["hero", "rendered", "source"];
+
+const VOTE_KEYS: Record<string, Selection> = {
+  "1": "left",
+  ArrowLeft: "left",
+  "2": "right",
+  ArrowRight: "right",
+  "3": "tie",
+  t: "tie",
+  "4": "both_bad",
+  x: "both_bad",
+};
+
+const VIEW_KEYS: Record<string, ViewMode> = { h: "hero", r: "rendered", s: "source" };
+
+const SHORTCUTS: Array<{ keys: string[]; label: string }> = [
+  { keys: ["1", "←"], label: "Left is better" },
+  { keys: ["2", "→"], label: "Right is better" },
+  { keys: ["3", "T"], label: "It's a tie" },
+  { keys: ["4", "X"], label: "Both are bad" },
+  { keys: ["N"], label: "Next pair (skips an unjudged one)" },
+  { keys: ["Enter"], label: "Next pair after voting" },
+  { keys: ["H", "R", "S"], label: "Hero, rendered or source view" },
+  { keys: ["V"], label: "Cycle view mode" },
+  { keys: ["?"], label: "Show or hide this list" },
+];
 
 interface VariantContext {
   description?: string;
@@ -16,7 +73,10 @@ interface VariantView {
   token: string;
   html: string;
   source: string;
+  /** Served with a CSP that keeps the page's scripts off the network. */
+  previewUrl: string;
   heroRaw?: string;
+  analysis?: AnalysisReportData;
   context?: VariantContext;
 }
 
@@ -26,6 +86,8 @@ interface PairResponse {
   right?: VariantView;
   message?: string;
   variants?: number;
+  strategy?: string;
+  expiresAt?: string;
 }
 
 interface RevealMeta {
@@ -56,18 +118,29 @@ export default function App() {
   const [viewMode, setViewMode] = useState<ViewMode>("hero");
   const [infoBanner, setInfoBanner] = useState<string | null>(null);
   const [voteResult, setVoteResult] = useState<VoteResponse | null>(null);
+  const [scores, setScores] = useState<RubricScores>(EMPTY_SCORES);
+  const [notes, setNotes] = useState("");
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [syncScroll, setSyncScroll] = useState(false);
+  const syncFrames = useScrollSync(syncScroll);
+  // The next pair, requested while the current one is being judged.
+  const prefetched = useRef<Promise<PairResponse | null> | null>(null);
 
   const loadPair = useCallback(async () => {
     setLoading(true);
     setError(null);
     setVoteResult(null);
     setSelectionMade(null);
+    setScores(EMPTY_SCORES);
+    setNotes("");
     try {
-      const response = await fetch("/api/pair");
-      if (!response.ok) {
-        throw new Error(`Pair request failed (${response.status})`);
+      const queued = prefetched.current;
+      prefetched.current = null;
+      let data = queued ? await queued : null;
+      if (!data?.pairId || !hasTimeToJudge(data)) {
+        data = await fetchPair();
       }
-      const data = (await response.json()) as PairResponse;
       if (!data.pairId || !data.left || !data.right) {
         setPair(null);
         setInfoBanner(
@@ -76,6 +149,7 @@ export default function App() {
       } else {
         setPair(data);
         setInfoBanner(null);
+        prefetched.current = fetchPair(data.pairId).catch(() => null);
       }
     } catch (reason) {
       setError(String(reason));
@@ -104,8 +178,8 @@ export default function App() {
           body: JSON.stringify({
             pairId: pair.pairId,
             selection,
-            scores: null,
-            notes: null,
+            scores: hasRubricScores(scores) ? scores : null,
+            notes: notes.trim() || null,
           }),
         });
         if (!response.ok) {
@@ -120,7 +194,7 @@ export default function App() {
         setPendingVote(null);
       }
     },
-    [pair?.pairId, pendingVote, voteResult],
+    [pair?.pairId, pendingVote, voteResult, scores, notes],
   );
 
   const canVote = useMemo(
@@ -148,10 +222,54 @@ export default function App() {
     loadPair();
   }, [loadPair]);
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.metaKey || event.ctrlKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+      const selection = VOTE_KEYS[key];
+      if (selection) {
+        if (canVote) {
+          event.preventDefault();
+          submitVote(selection);
+        }
+        return;
+      }
+      if (VIEW_KEYS[key]) {
+        setViewMode(VIEW_KEYS[key]);
+        return;
+      }
+      switch (key) {
+        case "v":
+          setViewMode((mode) => VIEW_MODES[(VIEW_MODES.indexOf(mode) + 1) % VIEW_MODES.length]);
+          break;
+        case "n":
+          if (!loading) handleNextPair();
+          break;
+        case "Enter":
+          // Leave Enter to focused buttons and links.
+          if (voteResult && !loading && !isActivatableTarget(event.target)) {
+            event.preventDefault();
+            handleNextPair();
+          }
+          break;
+        case "?":
+          setShowShortcuts((shown) => !shown);
+          break;
+        default:
+          break;
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canVote, submitVote, voteResult, loading, handleNextPair]);
+
   return (
     <div className="viewer-shell">
       <header className="viewer-header">
         <div>
+          <SiteNav current="/arena" />
           <h1>Design Arena</h1>
           <p className="subhead">
             Blind compare landing page variants. Judge outcomes without knowing which model
@@ -159,13 +277,24 @@ export default function App() {
           </p>
         </div>
         <div className="header-actions">
+          <AccountBar />
           <button className="ghost-btn" onClick={loadPair} disabled={loading} type="button">
             {loading ? "Refreshing…" : "Reload Pair"}
           </button>
           <ViewToggle viewMode={viewMode} onChange={setViewMode} />
+          <button
+            className="ghost-btn"
+            onClick={() => setShowShortcuts((shown) => !shown)}
+            type="button"
+            aria-expanded={showShortcuts}
+          >
+            Shortcuts <kbd className="shortcut-key">?</kbd>
+          </button>
         </div>
       </header>
 
+      {showShortcuts && <ShortcutHelp />}
+
       {infoBanner && (
         <div className="banner">
           <span>{infoBanner}</span>
@@ -178,18 +307,30 @@ export default function App() {
       )}
 
       <main className="viewer-main">
+        {viewMode === "rendered" && (
+          <ViewportSelector
+            viewport={viewport}
+            onChange={setViewport}
+            syncScroll={syncScroll}
+            onSyncScrollChange={setSyncScroll}
+          />
+        )}
         <div className="variant-grid">
           <VariantColumn
             label="Option A"
             variant={pair?.left}
             viewMode={viewMode}
             verdict={verdictForSide("left")}
+            viewportWidth={viewport.width}
+            syncFrames={syncScroll ? syncFrames : undefined}
           />
           <VariantColumn
             label="Option B"
             variant={pair?.right}
             viewMode={viewMode}
             verdict={verdictForSide("right")}
+            viewportWidth={viewport.width}
+            syncFrames={syncScroll ? syncFrames : undefined}
           />
         </div>
       </main>
@@ -198,7 +339,16 @@ export default function App() {
         {voteResult ? (
           <ResultsPanel result={voteResult} onNext={handleNextPair} />
         ) : (
-          <VoteControls canVote={canVote} onVote={submitVote} pendingSelection={pendingVote} />
+          <>
+            <RubricPanel
+              scores={scores}
+              notes={notes}
+              disabled={!canVote}
+              onScoresChange={setScores}
+              onNotesChange={setNotes}
+            />
+            <VoteControls canVote={canVote} onVote={submitVote} pendingSelection={pendingVote} />
+          </>
         )}
       </footer>
     </div>
@@ -210,9 +360,11 @@ interface VariantColumnProps {
   variant?: VariantView;
   viewMode: ViewMode;
   verdict: Verdict;
+  viewportWidth: number;
+  syncFrames?: Set<HTMLIFrameElement>;
 }
 
-function VariantColumn({ label, variant, viewMode, verdict }: VariantColumnProps) {
+function VariantColumn({ label, variant, viewMode, verdict, viewportWidth, syncFrames }: VariantColumnProps) {
   const timestamp = variant?.context?.runTimestamp
     ? new Date(variant.context.runTimestamp).toLocaleString()
     : "—";
@@ -231,11 +383,12 @@ function VariantColumn({ label, variant, viewMode, verdict }: VariantColumnProps
           viewMode === "hero" ? (
             <div className="hero-canvas" dangerouslySetInnerHTML={{ __html: variant.html }} />
           ) : viewMode === "rendered" ? (
-            <iframe
+            <ViewportFrame
               className="rendered-frame"
-              srcDoc={variant.source}
+              src={variant.previewUrl}
               title={`${label} rendered preview`}
-              sandbox="allow-scripts"
+              width={viewportWidth}
+              syncFrames={syncFrames}
             />
           ) : (
             <pre className="code-block">{variant.source}</pre>
@@ -253,6 +406,7 @@ function VariantColumn({ label, variant, viewMode, verdict }: VariantColumnProps
                    : "—")}
         />
         {variant?.context?.notes ? <MetaRow label="Notes" value={variant.context.notes} /> : null}
+        <AnalysisReport report={variant?.analysis} />
       </footer>
     </article>
   );
@@ -279,11 +433,11 @@ interface VoteControlsProps {
 }
 
 function VoteControls({ canVote, pendingSelection, onVote }: VoteControlsProps) {
-  const buttons: Array<{ label: string; selection: Selection; accent?: boolean }> = [
-    { label: "Left is better", selection: "left", accent: true },
-    { label: "It's a tie", selection: "tie" },
-    { label: "Both are bad", selection: "both_bad" },
-    { label: "Right is better", selection: "right", accent: true },
+  const buttons: Array<{ label: string; selection: Selection; shortcut: string; accent?: boolean }> = [
+    { label: "Left is better", selection: "left", shortcut: "1", accent: true },
+    { label: "It's a tie", selection: "tie", shortcut: "3" },
+    { label: "Both are bad", selection: "both_bad", shortcut: "4" },
+    { label: "Right is better", selection: "right", shortcut: "2", accent: true },
   ];
 
   return (
@@ -299,12 +453,76 @@ function VoteControls({ canVote, pendingSelection, onVote }: VoteControlsProps)
           onClick={() => onVote(button.selection)}
         >
           {button.label}
+          <kbd className="shortcut-key">{button.shortcut}</kbd>
         </button>
       ))}
     </div>
   );
 }
 
+interface RubricPanelProps {
+  scores: RubricScores;
+  notes: string;
+  disabled: boolean;
+  onScoresChange: (scores: RubricScores) => void;
+  onNotesChange: (notes: string) => void;
+}
+
+function RubricPanel({ scores, notes, disabled, onScoresChange, onNotesChange }: RubricPanelProps) {
+  const updateScore = (side: "left" | "right", dimension: RubricDimension, value: number) => {
+    onScoresChange({
+      ...scores,
+      [side]: { ...scores[side], [dimension]: value === 0 ? null : value },
+    });
+  };
+
+  return (
+    <details className="rubric-panel">
+      <summary>Rubric scores &amp; notes (optional)</summary>
+      <div className="rubric-grid">
+        <span />
+        <span className="rubric-side-label">Option A</span>
+        <span className="rubric-side-label">Option B</span>
+        {RUBRIC_DIMENSIONS.map((dimension) => (
+          <React.Fragment key={dimension.key}>
+            <span className="rubric-dimension-label">{dimension.label}</span>
+            {(["left", "right"] as const).map((side) => {
+              const value = scores[side][dimension.key];
+              return (
+                <label key={side} className="rubric-slider">
+                  <input
+                    type="range"
+                    min={0}
+                    max={5}
+                    step={1}
+                    value={value ?? 0}
+                    disabled={disabled}
+                    aria-label={`${dimension.label} for Option ${side === "left" ? "A" : "B"}`}
+                    onChange={(event) => updateScore(side, dimension.key, Number(event.target.value))}
+                  />
+                  <span className="rubric-slider-value">{value ?? "–"}</span>
+                </label>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      <textarea
+        className="rubric-notes"
+        value={notes}
+        disabled={disabled}
+        maxLength={2000}
+        placeholder="What tipped your decision? (optional)"
+        onChange={(event) => onNotesChange(event.target.value)}
+      />
+    </details>
+  );
+}
+
+function hasRubricScores(scores: RubricScores): boolean {
+  return [scores.left, scores.right].some((side) => Object.values(side).some((value) => value !== null));
+}
+
 interface ResultsPanelProps {
   result: VoteResponse;
   onNext: () => void;
@@ -328,6 +546,7 @@ function ResultsPanel({ result, onNext }: ResultsPanelProps) {
       </div>
       <button type="button" className="next-button" onClick={onNext}>
         Next comparison →
+        <kbd className="shortcut-key">N</kbd>
       </button>
     </div>
   );
@@ -390,6 +609,52 @@ function RevealCard({ title, meta }: RevealCardProps) {
   );
 }
 
+function ShortcutHelp() {
+  return (
+    <dl className="shortcut-help" aria-label="Keyboard shortcuts">
+      {SHORTCUTS.map((shortcut) => (
+        <React.Fragment key={shortcut.label}>
+          <dt>
+            {shortcut.keys.map((key) => (
+              <kbd key={key} className="shortcut-key">{key}</kbd>
+            ))}
+          </dt>
+          <dd>{shortcut.label}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
+
+async function fetchPair(after?: string): Promise<PairResponse> {
+  const params = new URLSearchParams();
+  // ?strategy=active etc. on the page overrides the server's default.
+  const strategy = new URLSearchParams(window.location.search).get("strategy");
+  if (strategy) params.set("strategy", strategy);
+  // Keeps a prefetched pair from repeating the one still on screen.
+  if (after) params.set("after", after);
+  const query = params.toString();
+  const response = await fetch(query ? `/api/pair?${query}` : "/api/pair");
+  if (!response.ok) {
+    throw new Error(`Pair request failed (${response.status})`);
+  }
+  return (await response.json()) as PairResponse;
+}
+
+function hasTimeToJudge(pair: PairResponse): boolean {
+  const expiresAt = pair.expiresAt ? Date.parse(pair.expiresAt) : Number.NaN;
+  return Number.isNaN(expiresAt) || expiresAt - Date.now() > PREFETCH_MIN_REMAINING_MS;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function isActivatableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && ["BUTTON", "A", "SUMMARY"].includes(target.tagName);
+}
+
 interface ViewToggleProps {
   viewMode: ViewMode;
   onChange: (mode: ViewMode) => void;
@@ -1,4 +1,8 @@
 import React, { useCallback, useMemo, useRef, useState } from "react";
+import AccountBar from "./AccountBar";
+import SiteNav from "./SiteNav";
+import { DEFAULT_VIEWPORT, ViewportFrame, ViewportSelector, type Viewport } from "./ViewportFrame";
+import AnalysisReport, { type AnalysisReportData } from "./AnalysisReport";
 
 type ModelStatus = "idle" | "generating" | "complete" | "error";
 
@@ -11,6 +15,9 @@ interface ModelState {
   status: ModelStatus;
   text: string;
   error?: string;
+  analysis?: AnalysisReportData;
+  /** Set once the response is saved and the server can serve it. */
+  previewUrl?: string;
 }
 
 const OPTION_LABELS = ["Option A", "Option B", "Option C", "Option D", "Option E"];
@@ -49,6 +56,8 @@ export default function Demo() {
   const [favoriteModel, setFavoriteModel] = useState<string | null>(null);
   const [revealWinner, setRevealWinner] = useState(false);
   const [configModels, setConfigModels] = useState<ConfigModel[]>([]);
+  // Shared by every model tab so each design is judged at the same width.
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
   const labelAssignmentsRef = useRef<Record<string, string>>({});
   const optionIndexRef = useRef(0);
   const voteSubmittedRef = useRef(false);
@@ -90,7 +99,8 @@ export default function Demo() {
         body: JSON.stringify(payload),
       });
       if (!response.ok) {
-        throw new Error(`Vote tracking failed (${response.status})`);
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? `Vote tracking failed (${response.status})`);
       }
     } catch (error) {
       console.error("Failed to record leaderboard vote", error);
@@ -125,7 +135,8 @@ export default function Demo() {
       });
 
       if (!response.ok) {
-        throw new Error(`Request failed: ${response.status}`);
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? `Request failed: ${response.status}`);
       }
 
       const reader = response.body?.getReader();
@@ -228,6 +239,21 @@ export default function Demo() {
         });
         break;
 
+      case "model-retry":
+        // The server restarts the stream from scratch on a retry.
+        setModels((prev) => {
+          const target = prev[data.label];
+          if (!target) return prev;
+          return {
+            ...prev,
+            [data.label]: {
+              ...target,
+              text: "",
+            },
+          };
+        });
+        break;
+
       case "model-complete":
         setModels((prev) => {
           const target = prev[data.label];
@@ -238,6 +264,8 @@ export default function Demo() {
               ...target,
               variantId: target.variantId ?? data.variantKey,
               status: "complete",
+              analysis: data.analysis,
+              previewUrl: data.previewUrl,
             },
           };
         });
@@ -325,10 +353,12 @@ export default function Demo() {
         {!isGenerating && modelsList.length === 0 ? (
           <div className="demo-landing">
             <header className="demo-header">
+              <SiteNav current="/" />
               <h1 className="demo-title">Design Arena</h1>
               <p className="demo-subtitle">
                 Compare HTML designs across top AI models in real-time
               </p>
+              <AccountBar />
             </header>
 
           <div className="demo-models">
@@ -454,7 +484,11 @@ export default function Demo() {
           </div>
 
           {activeModelTab && models[activeModelTab] && (
-            <ModelOutput model={models[activeModelTab]} />
+            <ModelOutput
+              model={models[activeModelTab]}
+              viewport={viewport}
+              onViewportChange={setViewport}
+            />
           )}
 
           {modelsList.length > 0 && (
@@ -526,15 +560,16 @@ function ModelIcon({ name, color }: ModelIconProps) {
 
 interface ModelOutputProps {
   model: ModelState;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
 }
 
-function ModelOutput({ model }: ModelOutputProps) {
-  const [viewMode, setViewMode] = useState<"code" | "preview">("preview");
+function ModelOutput({ model, viewport, onViewportChange }: ModelOutputProps) {
+  const [viewMode, setViewMode] = useState<"code" | "preview" | "checks">("preview");
   const renderableHtml = useMemo(
     () => extractRenderableHtml(model.text),
     [model.text],
   );
-  const previewDoc = renderableHtml || model.text || "";
 
   return (
     <div className="demo-output-container">
@@ -560,23 +595,49 @@ function ModelOutput({ model }: ModelOutputProps) {
             <path d="M16 18l6-6-6-6M8 6l-6 6 6 6" strokeWidth="2" strokeLinecap="round"/>
           </svg>
         </button>
+        <button
+          type="button"
+          className={`model-view-icon-btn${viewMode === "checks" ? " model-view-icon-btn--active" : ""}`}
+          onClick={() => setViewMode("checks")}
+          disabled={!model.analysis}
+          title="Static checks"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+            <path d="M9 11l3 3L22 4M21 12v7a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2h11" strokeWidth="2" strokeLinecap="round"/>
+          </svg>
+        </button>
       </div>
 
       {model.status === "error" ? (
         <div className="model-output-error">
           <p>Error: {model.error}</p>
         </div>
+      ) : viewMode === "checks" && model.analysis ? (
+        <div className="model-output-analysis">
+          <AnalysisReport report={model.analysis} defaultOpen />
+        </div>
       ) : viewMode === "code" ? (
         <pre className="model-output-code">
           <code>{renderableHtml || model.text || "Waiting..."}</code>
         </pre>
       ) : (
-        <iframe
-          className="model-output-preview"
-          srcDoc={previewDoc}
-          title={`${model.displayLabel} preview`}
-          sandbox="allow-scripts"
-        />
+        <>
+          <div className="model-output-viewport">
+            <ViewportSelector viewport={viewport} onChange={onViewportChange} />
+          </div>
+          {model.previewUrl ? (
+            <ViewportFrame
+              className="model-output-preview"
+              src={model.previewUrl}
+              title={`${model.displayLabel} preview`}
+              width={viewport.width}
+            />
+          ) : (
+            <div className="model-output-pending">
+              The preview appears when generation finishes. Switch to the code view to follow along.
+            </div>
+          )}
+        </>
       )}
     </div>
   );
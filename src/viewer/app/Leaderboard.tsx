@@ -1,8 +1,23 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
+import AccountBar from "./AccountBar";
+import SiteNav from "./SiteNav";
 
 interface LeaderboardEntry {
   variantId: string;
+  rating: number | null;
+  ciLower: number | null;
+  ciUpper: number | null;
+  games: number;
   wins: number;
+  losses: number;
+  ties: number;
+  winRate: number | null;
+  usageSamples: number;
+  avgCostUsd: number | null;
+  avgLatencyMs: number | null;
+  avgTimeToFirstTokenMs: number | null;
+  avgOutputTokens: number | null;
+  truncationRate: number | null;
   label: string;
   provider: string | null;
   model: string | null;
@@ -16,9 +31,36 @@ interface LeaderboardStats {
   lastUpdated: string | null;
 }
 
+interface VoteSourceCount {
+  source: string;
+  votes: number;
+}
+
+interface RaterVoteCount {
+  username: string;
+  votes: number;
+}
+
 interface LeaderboardPayload {
   entries: LeaderboardEntry[];
   stats?: LeaderboardStats;
+  sources?: VoteSourceCount[];
+  raters?: RaterVoteCount[];
+}
+
+interface RaterStats {
+  username: string;
+  createdAt: string;
+  votes: number;
+  tieRate: number | null;
+  bothBadRate: number | null;
+  leftRate: number | null;
+  consensusComparisons: number;
+  consensusAgreement: number | null;
+}
+
+interface RatersPayload {
+  raters: RaterStats[];
 }
 
 interface BattleVariant {
@@ -36,19 +78,78 @@ interface Battle {
   winner: BattleVariant | null;
   selection: string;
   notes?: string | null;
+  source?: string;
 }
 
 interface BattlesPayload {
   battles: Battle[];
 }
 
-type TabType = "leaderboard" | "battles";
+interface ModelAgreement {
+  key: string;
+  provider: string | null;
+  model: string;
+  comparisons: number;
+  disagreements: number;
+  disagreementRate: number;
+  humanWinRate: number;
+  judgeWinRate: number;
+}
+
+interface JudgeAgreement {
+  judgeSource: string;
+  pairs: number;
+  comparisons: number;
+  agreement: number | null;
+  kappa: number | null;
+  models: ModelAgreement[];
+}
+
+interface AgreementPayload {
+  judges: JudgeAgreement[];
+}
+
+interface DimensionAggregate {
+  mean: number | null;
+  count: number;
+}
+
+interface RubricModel {
+  key: string;
+  label: string;
+  provider: string | null;
+  model: string;
+  scoredVotes: number;
+  overall: number | null;
+  dimensions: Record<string, DimensionAggregate>;
+}
+
+interface RubricPayload {
+  dimensions: string[];
+  models: RubricModel[];
+}
+
+const DIMENSION_LABELS: Record<string, string> = {
+  visualDesign: "Visual",
+  uxCompliance: "UX",
+  codeQuality: "Code",
+  promptAdherence: "Adherence",
+};
+
+type TabType = "leaderboard" | "battles" | "rubric" | "agreement" | "raters";
 
 export default function Leaderboard() {
   const [activeTab, setActiveTab] = useState<TabType>("leaderboard");
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [stats, setStats] = useState<LeaderboardStats | null>(null);
   const [battles, setBattles] = useState<Battle[]>([]);
+  const [agreement, setAgreement] = useState<JudgeAgreement[]>([]);
+  const [rubric, setRubric] = useState<RubricPayload | null>(null);
+  const [source, setSource] = useState("all");
+  const [sources, setSources] = useState<VoteSourceCount[]>([]);
+  const [rater, setRater] = useState("");
+  const [raters, setRaters] = useState<RaterVoteCount[]>([]);
+  const [raterStats, setRaterStats] = useState<RaterStats[]>([]);
   const [search, setSearch] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -57,19 +158,21 @@ export default function Leaderboard() {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch("/api/leaderboard");
+      const response = await fetch(`/api/leaderboard?${buildFilterQuery(source, rater)}`);
       if (!response.ok) {
         throw new Error(`Leaderboard request failed (${response.status})`);
       }
       const payload = (await response.json()) as LeaderboardPayload;
       setEntries(payload.entries ?? []);
       setStats(payload.stats ?? null);
+      setSources(payload.sources ?? []);
+      setRaters(payload.raters ?? []);
     } catch (reason) {
       setError(reason instanceof Error ? reason.message : String(reason));
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [source, rater]);
 
   const fetchBattles = useCallback(async () => {
     setLoading(true);
@@ -88,13 +191,69 @@ export default function Leaderboard() {
     }
   }, []);
 
+  const fetchRubric = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/rubric?${buildFilterQuery(source, rater)}`);
+      if (!response.ok) {
+        throw new Error(`Rubric request failed (${response.status})`);
+      }
+      setRubric((await response.json()) as RubricPayload);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setLoading(false);
+    }
+  }, [source, rater]);
+
+  const fetchAgreement = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/agreement");
+      if (!response.ok) {
+        throw new Error(`Agreement request failed (${response.status})`);
+      }
+      const payload = (await response.json()) as AgreementPayload;
+      setAgreement(payload.judges ?? []);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchRaters = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/raters");
+      if (!response.ok) {
+        throw new Error(`Raters request failed (${response.status})`);
+      }
+      const payload = (await response.json()) as RatersPayload;
+      setRaterStats(payload.raters ?? []);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const fetchData = useCallback(async () => {
     if (activeTab === "leaderboard") {
       await fetchLeaderboard();
-    } else {
+    } else if (activeTab === "battles") {
       await fetchBattles();
+    } else if (activeTab === "rubric") {
+      await fetchRubric();
+    } else if (activeTab === "raters") {
+      await fetchRaters();
+    } else {
+      await fetchAgreement();
     }
-  }, [activeTab, fetchLeaderboard, fetchBattles]);
+  }, [activeTab, fetchLeaderboard, fetchBattles, fetchRubric, fetchAgreement, fetchRaters]);
 
   useEffect(() => {
     fetchData();
@@ -158,18 +317,13 @@ export default function Leaderboard() {
     <div className="leaderboard-page">
       <header className="leaderboard-page-header">
         <div className="leaderboard-hero">
-          <button
-            type="button"
-            className="leaderboard-back-btn"
-            onClick={() => {
-              window.location.href = "/";
-            }}
-          >
-            ← Back to Demo
-          </button>
+          <SiteNav current="/leaderboard" />
+          <AccountBar />
           <h1>Design Arena Leaderboard</h1>
           <p>
-            Track which variants earn the most wins across demo runs and arena comparisons.
+            Bradley-Terry ratings fitted over demo, arena and LLM-judge votes (filter by
+            source below), with ties counted as half a win and 95% bootstrap confidence
+            intervals, alongside each model&rsquo;s average cost and latency per generated page.
             Use the search bar to find specific models or explore the current leaders.
           </p>
         </div>
@@ -204,6 +358,27 @@ export default function Leaderboard() {
         >
           Battle History
         </button>
+        <button
+          type="button"
+          className={`leaderboard-tab${activeTab === "rubric" ? " leaderboard-tab--active" : ""}`}
+          onClick={() => setActiveTab("rubric")}
+        >
+          Rubric Breakdown
+        </button>
+        <button
+          type="button"
+          className={`leaderboard-tab${activeTab === "agreement" ? " leaderboard-tab--active" : ""}`}
+          onClick={() => setActiveTab("agreement")}
+        >
+          Judge Agreement
+        </button>
+        <button
+          type="button"
+          className={`leaderboard-tab${activeTab === "raters" ? " leaderboard-tab--active" : ""}`}
+          onClick={() => setActiveTab("raters")}
+        >
+          Raters
+        </button>
       </div>
 
       <div className="leaderboard-search">
@@ -217,6 +392,38 @@ export default function Leaderboard() {
           onChange={(event) => setSearch(event.target.value)}
           placeholder="Search by model or description…"
         />
+        {activeTab === "leaderboard" || activeTab === "rubric" ? (
+          <select
+            className="leaderboard-source-select"
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+            aria-label="Vote source"
+          >
+            <option value="all">All votes</option>
+            <option value="human">Human votes</option>
+            <option value="judge">Judge votes</option>
+            {sources.map((item) => (
+              <option key={item.source} value={item.source}>
+                {formatSource(item.source)} ({item.votes.toLocaleString()})
+              </option>
+            ))}
+          </select>
+        ) : null}
+        {(activeTab === "leaderboard" || activeTab === "rubric") && raters.length > 0 ? (
+          <select
+            className="leaderboard-source-select"
+            value={rater}
+            onChange={(event) => setRater(event.target.value)}
+            aria-label="Rater"
+          >
+            <option value="">All raters</option>
+            {raters.map((item) => (
+              <option key={item.username} value={item.username}>
+                {item.username} ({item.votes.toLocaleString()})
+              </option>
+            ))}
+          </select>
+        ) : null}
         <button type="button" onClick={fetchData}>
           Refresh
         </button>
@@ -224,7 +431,9 @@ export default function Leaderboard() {
 
       <section className="leaderboard-table-card">
         {loading ? (
-          <div className="leaderboard-state">Loading {activeTab === "leaderboard" ? "leaderboard" : "battle history"}…</div>
+          <div className="leaderboard-state">
+            Loading {TAB_LOADING_LABELS[activeTab]}…
+          </div>
         ) : error ? (
           <div className="leaderboard-state leaderboard-state--error">{error}</div>
         ) : activeTab === "leaderboard" ? (
@@ -238,7 +447,12 @@ export default function Leaderboard() {
                   <th>Model</th>
                   <th>Model ID</th>
                   <th>Provider</th>
-                  <th>Wins</th>
+                  <th>Rating</th>
+                  <th>95% CI</th>
+                  <th>Games</th>
+                  <th>Win Rate</th>
+                  <th>Cost / Page</th>
+                  <th>Latency</th>
                 </tr>
               </thead>
               <tbody>
@@ -251,13 +465,50 @@ export default function Leaderboard() {
                     <td className="leaderboard-model-id">{entry.model ?? "—"}</td>
                     <td>{entry.provider ?? "—"}</td>
                     <td>
-                      <strong>{entry.wins.toLocaleString()}</strong>
+                      <strong>{formatRating(entry.rating)}</strong>
+                    </td>
+                    <td className="leaderboard-ci">
+                      {entry.ciLower !== null && entry.ciUpper !== null
+                        ? `${formatRating(entry.ciLower)} – ${formatRating(entry.ciUpper)}`
+                        : "—"}
+                    </td>
+                    <td>
+                      <div className="leaderboard-model-cell">
+                        <strong>{entry.games.toLocaleString()}</strong>
+                        <span>{entry.wins}W · {entry.losses}L · {entry.ties}T</span>
+                      </div>
+                    </td>
+                    <td>{formatWinRate(entry.winRate)}</td>
+                    <td>
+                      <div className="leaderboard-model-cell">
+                        <strong>{formatCost(entry.avgCostUsd)}</strong>
+                        {entry.avgOutputTokens !== null ? (
+                          <span>{Math.round(entry.avgOutputTokens).toLocaleString()} out tokens</span>
+                        ) : null}
+                      </div>
+                    </td>
+                    <td>
+                      <div className="leaderboard-model-cell">
+                        <strong>{formatDuration(entry.avgLatencyMs)}</strong>
+                        {entry.usageSamples > 0 ? (
+                          <span>
+                            TTFT {formatDuration(entry.avgTimeToFirstTokenMs)}
+                            {entry.truncationRate ? ` · ${formatWinRate(entry.truncationRate)} truncated` : ""}
+                          </span>
+                        ) : null}
+                      </div>
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           )
+        ) : activeTab === "rubric" ? (
+          <RubricBreakdown payload={rubric} query={normalizedQuery} />
+        ) : activeTab === "agreement" ? (
+          <AgreementReport judges={agreement} query={normalizedQuery} />
+        ) : activeTab === "raters" ? (
+          <RaterReport raters={raterStats} query={normalizedQuery} />
         ) : filteredBattles.length === 0 ? (
           <div className="leaderboard-state">No battle history found.</div>
         ) : (
@@ -268,6 +519,7 @@ export default function Leaderboard() {
                 <th>Model A</th>
                 <th>Model B</th>
                 <th>Winner</th>
+                <th>Source</th>
               </tr>
             </thead>
             <tbody>
@@ -319,6 +571,7 @@ export default function Leaderboard() {
                         </span>
                       )}
                     </td>
+                    <td className="leaderboard-source">{battle.source ? formatSource(battle.source) : "—"}</td>
                   </tr>
                 );
               })}
@@ -329,3 +582,289 @@ export default function Leaderboard() {
     </div>
   );
 }
+
+const TAB_LOADING_LABELS: Record<TabType, string> = {
+  leaderboard: "leaderboard",
+  battles: "battle history",
+  rubric: "rubric scores",
+  agreement: "judge agreement",
+  raters: "raters",
+};
+
+function buildFilterQuery(source: string, rater: string): URLSearchParams {
+  const params = new URLSearchParams({ source });
+  if (rater) params.set("rater", rater);
+  return params;
+}
+
+interface RubricBreakdownProps {
+  payload: RubricPayload | null;
+  query: string;
+}
+
+function RubricBreakdown({ payload, query }: RubricBreakdownProps) {
+  const models = (payload?.models ?? []).filter((model) =>
+    !query || [model.label, model.model, model.provider].filter(Boolean).join(" ").toLowerCase().includes(query));
+
+  if (!payload || models.length === 0) {
+    return (
+      <div className="leaderboard-state">
+        No rubric scores yet. Add them from the arena&rsquo;s optional rubric panel or with the LLM judge.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rubric-breakdown">
+      {models.map((model) => (
+        <article key={model.key} className="rubric-card">
+          <header className="rubric-card-header">
+            <div>
+              <strong>{model.label}</strong>
+              <span>{model.provider ?? "—"} · {model.scoredVotes.toLocaleString()} scored votes</span>
+            </div>
+            <span className="rubric-card-overall">{formatScore(model.overall)}</span>
+          </header>
+          <RadarChart dimensions={payload.dimensions} values={model.dimensions} />
+          <dl className="rubric-card-dimensions">
+            {payload.dimensions.map((dimension) => (
+              <div key={dimension}>
+                <dt>{DIMENSION_LABELS[dimension] ?? dimension}</dt>
+                <dd>
+                  {formatScore(model.dimensions[dimension]?.mean ?? null)}
+                  <span> n={model.dimensions[dimension]?.count ?? 0}</span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </article>
+      ))}
+    </div>
+  );
+}
+
+interface RadarChartProps {
+  dimensions: string[];
+  values: Record<string, DimensionAggregate>;
+}
+
+const RADAR_SIZE = 180;
+const RADAR_RADIUS = 62;
+const RADAR_MAX_SCORE = 5;
+
+function RadarChart({ dimensions, values }: RadarChartProps) {
+  const center = RADAR_SIZE / 2;
+  const pointAt = (index: number, score: number) => {
+    const angle = (Math.PI * 2 * index) / dimensions.length - Math.PI / 2;
+    const radius = (score / RADAR_MAX_SCORE) * RADAR_RADIUS;
+    return [center + Math.cos(angle) * radius, center + Math.sin(angle) * radius];
+  };
+  const polygon = (score: (index: number) => number) =>
+    dimensions.map((_, index) => pointAt(index, score(index)).join(",")).join(" ");
+
+  return (
+    <svg
+      className="rubric-radar"
+      viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`}
+      role="img"
+      aria-label="Average rubric scores by dimension"
+    >
+      {[1, 2, 3, 4, 5].map((ring) => (
+        <polygon key={ring} className="rubric-radar-ring" points={polygon(() => ring)} />
+      ))}
+      {dimensions.map((dimension, index) => {
+        const [x, y] = pointAt(index, RADAR_MAX_SCORE);
+        const [labelX, labelY] = pointAt(index, RADAR_MAX_SCORE + 1.2);
+        return (
+          <g key={dimension}>
+            <line className="rubric-radar-axis" x1={center} y1={center} x2={x} y2={y} />
+            <text className="rubric-radar-label" x={labelX} y={labelY} textAnchor="middle" dominantBaseline="middle">
+              {DIMENSION_LABELS[dimension] ?? dimension}
+            </text>
+          </g>
+        );
+      })}
+      <polygon
+        className="rubric-radar-area"
+        points={polygon((index) => values[dimensions[index]]?.mean ?? 0)}
+      />
+    </svg>
+  );
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? "—" : value.toFixed(1);
+}
+
+interface AgreementReportProps {
+  judges: JudgeAgreement[];
+  query: string;
+}
+
+function AgreementReport({ judges, query }: AgreementReportProps) {
+  if (judges.length === 0) {
+    return (
+      <div className="leaderboard-state">
+        No judge votes yet. Run <code>node src/judge-variants.mjs</code> to add some.
+      </div>
+    );
+  }
+
+  return (
+    <div className="agreement-report">
+      {judges.map((judge) => {
+        const models = query
+          ? judge.models.filter((model) =>
+            [model.model, model.provider].filter(Boolean).join(" ").toLowerCase().includes(query))
+          : judge.models;
+
+        return (
+          <section key={judge.judgeSource} className="agreement-judge">
+            <header className="agreement-judge-header">
+              <h2>{formatSource(judge.judgeSource)}</h2>
+              <div className="leaderboard-metrics">
+                <div className="leaderboard-metric">
+                  <span className="leaderboard-metric-label">Cohen&rsquo;s κ</span>
+                  <strong>{judge.kappa === null ? "—" : judge.kappa.toFixed(2)}</strong>
+                </div>
+                <div className="leaderboard-metric">
+                  <span className="leaderboard-metric-label">Agreement</span>
+                  <strong>{formatWinRate(judge.agreement)}</strong>
+                </div>
+                <div className="leaderboard-metric">
+                  <span className="leaderboard-metric-label">Shared Pairs</span>
+                  <strong>{judge.pairs.toLocaleString()}</strong>
+                </div>
+                <div className="leaderboard-metric">
+                  <span className="leaderboard-metric-label">Human Votes Compared</span>
+                  <strong>{judge.comparisons.toLocaleString()}</strong>
+                </div>
+              </div>
+            </header>
+            {judge.comparisons === 0 ? (
+              <div className="leaderboard-state">
+                No pair has both a human vote and a verdict from this judge yet.
+              </div>
+            ) : (
+              <table className="leaderboard-table">
+                <thead>
+                  <tr>
+                    <th>Model</th>
+                    <th>Provider</th>
+                    <th>Comparisons</th>
+                    <th>Disagreement</th>
+                    <th>Human Win Rate</th>
+                    <th>Judge Win Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {models.map((model) => (
+                    <tr key={model.key}>
+                      <td><strong>{model.model}</strong></td>
+                      <td>{model.provider ?? "—"}</td>
+                      <td>{model.comparisons.toLocaleString()}</td>
+                      <td>{formatWinRate(model.disagreementRate)}</td>
+                      <td>{formatWinRate(model.humanWinRate)}</td>
+                      <td>
+                        <div className="leaderboard-model-cell">
+                          <strong>{formatWinRate(model.judgeWinRate)}</strong>
+                          <span>{formatDelta(model.judgeWinRate - model.humanWinRate)} vs humans</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+interface RaterReportProps {
+  raters: RaterStats[];
+  query: string;
+}
+
+function RaterReport({ raters, query }: RaterReportProps) {
+  if (raters.length === 0) {
+    return (
+      <div className="leaderboard-state">
+        No rater accounts yet. Add one with <code>node src/raters.mjs add --username=&lt;name&gt;</code>.
+      </div>
+    );
+  }
+
+  const shown = query ? raters.filter((rater) => rater.username.toLowerCase().includes(query)) : raters;
+
+  return (
+    <table className="leaderboard-table">
+      <thead>
+        <tr>
+          <th>Rater</th>
+          <th>Votes</th>
+          <th>Tie Rate</th>
+          <th>Both Bad</th>
+          <th>Position Bias</th>
+          <th>Consensus Agreement</th>
+        </tr>
+      </thead>
+      <tbody>
+        {shown.map((rater) => (
+          <tr key={rater.username}>
+            <td><strong>{rater.username}</strong></td>
+            <td>{rater.votes.toLocaleString()}</td>
+            <td>{formatWinRate(rater.tieRate)}</td>
+            <td>{formatWinRate(rater.bothBadRate)}</td>
+            <td>
+              {rater.leftRate === null ? "—" : (
+                <div className="leaderboard-model-cell">
+                  <strong>{formatWinRate(rater.leftRate)} left</strong>
+                  <span>{formatDelta(rater.leftRate - 0.5)} vs even</span>
+                </div>
+              )}
+            </td>
+            <td>
+              <div className="leaderboard-model-cell">
+                <strong>{formatWinRate(rater.consensusAgreement)}</strong>
+                <span>{rater.consensusComparisons.toLocaleString()} decisive votes</span>
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function formatSource(source: string): string {
+  if (source === "human-arena") return "Arena (human)";
+  if (source === "human-demo") return "Demo (human)";
+  if (source.startsWith("judge:")) return `Judge · ${source.slice("judge:".length)}`;
+  return source;
+}
+
+function formatDelta(value: number): string {
+  const points = value * 100;
+  return `${points >= 0 ? "+" : "−"}${Math.abs(points).toFixed(1)} pts`;
+}
+
+function formatRating(value: number | null): string {
+  return value === null ? "—" : Math.round(value).toLocaleString();
+}
+
+function formatWinRate(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatCost(value: number | null): string {
+  if (value === null) return "—";
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatDuration(value: number | null): string {
+  if (value === null) return "—";
+  return value < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(1)}s`;
+}
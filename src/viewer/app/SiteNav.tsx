@@ -0,0 +1,29 @@
+const LINKS: Array<{ href: string; label: string }> = [
+  { href: "/", label: "Demo" },
+  { href: "/arena", label: "Blind arena" },
+  { href: "/leaderboard", label: "Leaderboard" },
+];
+
+interface SiteNavProps {
+  current: "/" | "/arena" | "/leaderboard";
+}
+
+/**
+ * Links between the three viewer pages; main.tsx routes each path.
+ */
+export default function SiteNav({ current }: SiteNavProps) {
+  return (
+    <nav className="site-nav" aria-label="Viewer pages">
+      {LINKS.map((link) => (
+        <a
+          key={link.href}
+          href={link.href}
+          className={`site-nav-link${link.href === current ? " site-nav-link--active" : ""}`}
+          aria-current={link.href === current ? "page" : undefined}
+        >
+          {link.label}
+        </a>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from "react";
+
+export type ViewportPreset = "mobile" | "tablet" | "desktop" | "custom";
+
+export interface Viewport {
+  preset: ViewportPreset;
+  width: number;
+}
+
+const PRESETS: Array<{ preset: Exclude<ViewportPreset, "custom">; label: string; width: number }> = [
+  { preset: "mobile", label: "Mobile", width: 375 },
+  { preset: "tablet", label: "Tablet", width: 768 },
+  { preset: "desktop", label: "Desktop", width: 1440 },
+];
+
+const MIN_CUSTOM_WIDTH = 240;
+const MAX_CUSTOM_WIDTH = 2560;
+
+export const DEFAULT_VIEWPORT: Viewport = { preset: "desktop", width: 1440 };
+
+// The preview route (lib/preview.mjs) appends a script to every page that
+// reports and follows scrolling with these messages.
+const SCROLL_MESSAGE = "arena-preview-scroll";
+const SCROLL_TO_MESSAGE = "arena-preview-scroll-to";
+
+interface ViewportSelectorProps {
+  viewport: Viewport;
+  onChange: (viewport: Viewport) => void;
+  syncScroll?: boolean;
+  onSyncScrollChange?: (syncScroll: boolean) => void;
+}
+
+/**
+ * Device widths for rendered previews. Pass `onSyncScrollChange` to offer
+ * synchronized scrolling between the previews of a comparison.
+ */
+export function ViewportSelector({ viewport, onChange, syncScroll, onSyncScrollChange }: ViewportSelectorProps) {
+  return (
+    <div className="viewport-selector" role="group" aria-label="Preview viewport">
+      {PRESETS.map((preset) => (
+        <button
+          key={preset.preset}
+          type="button"
+          className={`toggle-option${viewport.preset === preset.preset ? " toggle-option--active" : ""}`}
+          aria-pressed={viewport.preset === preset.preset}
+          onClick={() => onChange({ preset: preset.preset, width: preset.width })}
+          title={`${preset.width}px`}
+        >
+          {preset.label}
+        </button>
+      ))}
+      <label className={`viewport-custom${viewport.preset === "custom" ? " viewport-custom--active" : ""}`}>
+        <input
+          type="number"
+          min={MIN_CUSTOM_WIDTH}
+          max={MAX_CUSTOM_WIDTH}
+          step={1}
+          value={viewport.width}
+          aria-label="Custom viewport width in pixels"
+          onChange={(event) => {
+            const width = Number(event.target.value);
+            if (Number.isFinite(width) && width > 0) {
+              onChange({ preset: "custom", width });
+            }
+          }}
+        />
+        px
+      </label>
+      {onSyncScrollChange ? (
+        <label className="viewport-sync">
+          <input
+            type="checkbox"
+            checked={Boolean(syncScroll)}
+            onChange={(event) => onSyncScrollChange(event.target.checked)}
+          />
+          Sync scroll
+        </label>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Registry of preview frames whose scroll positions follow each other while
+ * `enabled`. Frames join by passing the returned set to `ViewportFrame`.
+ */
+export function useScrollSync(enabled: boolean): Set<HTMLIFrameElement> {
+  const frames = useRef(new Set<HTMLIFrameElement>());
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== SCROLL_MESSAGE) return;
+      const members = Array.from(frames.current);
+      const source = members.find((frame) => frame.contentWindow === event.source);
+      if (!source) return;
+      for (const frame of members) {
+        if (frame === source) continue;
+        frame.contentWindow?.postMessage({ type: SCROLL_TO_MESSAGE, ratio: event.data.ratio }, "*");
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [enabled]);
+
+  return frames.current;
+}
+
+interface ViewportFrameProps {
+  /** A /preview URL; the server serves the page with its CSP. */
+  src: string;
+  title: string;
+  width: number;
+  className?: string;
+  /** Set from useScrollSync; the page then reports and follows scrolling. */
+  syncFrames?: Set<HTMLIFrameElement>;
+}
+
+/**
+ * Renders a generated page at the true viewport width, scaled down to fit
+ * the available space, so media queries see the simulated device.
+ */
+export function ViewportFrame({ src, title, width, className, syncFrames }: ViewportFrameProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return undefined;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!syncFrames || !frame) return undefined;
+    syncFrames.add(frame);
+    return () => {
+      syncFrames.delete(frame);
+    };
+  }, [syncFrames]);
+
+  const frameWidth = Math.min(MAX_CUSTOM_WIDTH, Math.max(MIN_CUSTOM_WIDTH, width));
+  const scale = available.width > 0 ? Math.min(1, available.width / frameWidth) : 1;
+
+  return (
+    <div ref={containerRef} className={`viewport-frame${className ? ` ${className}` : ""}`}>
+      <iframe
+        ref={frameRef}
+        src={src}
+        title={title}
+        sandbox="allow-scripts"
+        style={{
+          width: `${frameWidth}px`,
+          height: available.height > 0 ? `${available.height / scale}px` : "100%",
+          transform: scale < 1 ? `scale(${scale})` : undefined,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import App from "./App";
 import Demo from "./Demo";
 import Leaderboard from "./Leaderboard";
 import "./global.css";
@@ -20,6 +21,8 @@ const normalizedPath = (() => {
 let view: React.ReactNode = <Demo />;
 if (normalizedPath === "/leaderboard") {
   view = <Leaderboard />;
+} else if (normalizedPath === "/arena") {
+  view = <App />;
 }
 
 root.render(
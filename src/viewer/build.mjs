@@ -69,6 +69,8 @@ export async function buildViewer(options = {}) {
       entryPoints: [
         path.join(__dirname, "lib", "run-loader.ts"),
         path.join(__dirname, "lib", "primary-section.ts"),
+        path.join(__dirname, "lib", "html-sanitizer.ts"),
+        path.join(__dirname, "lib", "jsx-to-html.ts"),
       ],
       outdir: LIB_DIST_DIR,
       bundle: false,
@@ -135,6 +137,8 @@ async function copyBenchmarkLib() {
 
   const files = [
     { source: path.join(ROOT, "src", "lib", "benchmark.mjs"), target: path.join(benchmarkLibDir, "benchmark.mjs") },
+    { source: path.join(ROOT, "src", "lib", "analyzer.mjs"), target: path.join(benchmarkLibDir, "analyzer.mjs") },
+    { source: path.join(ROOT, "src", "lib", "variant-id.mjs"), target: path.join(benchmarkLibDir, "variant-id.mjs") },
   ];
 
   await Promise.all(
@@ -0,0 +1,64 @@
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+
+const scrypt = promisify(crypto.scrypt);
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9_.-]{1,31}$/i;
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Throws unless the username is 2–32 letters, digits, `_`, `.` or `-`.
+ * @param {unknown} username
+ * @returns {string}
+ */
+export function validateUsername(username) {
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username.trim())) {
+    throw new Error("Usernames are 2–32 letters, digits, '_', '.' or '-', starting with a letter or digit.");
+  }
+  return username.trim();
+}
+
+/**
+ * @param {unknown} password
+ * @returns {string}
+ */
+export function validatePassword(password) {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  return password;
+}
+
+/**
+ * Salted scrypt hash, stored as `scrypt$N$r$p$<salt>$<hash>` so the cost
+ * can be raised later without invalidating existing accounts.
+ * @param {string} password
+ * @returns {Promise<string>}
+ */
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N, r, p });
+  return ["scrypt", N, r, p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+/**
+ * @param {string} password
+ * @param {string} stored Output of hashPassword.
+ * @returns {Promise<boolean>}
+ */
+export async function verifyPassword(password, stored) {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return crypto.timingSafeEqual(expected, actual);
+}
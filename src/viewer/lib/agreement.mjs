@@ -0,0 +1,135 @@
+const OUTCOMES = ["first", "second", "draw"];
+
+/**
+ * @typedef {Object} SourcedVote
+ * @property {string} leftVariantId
+ * @property {string} rightVariantId
+ * @property {"left" | "right" | "tie" | "both_bad"} selection
+ * @property {string} source
+ */
+
+/**
+ * @typedef {Object} ModelDisagreement
+ * @property {string} key
+ * @property {number} comparisons
+ * @property {number} disagreements
+ * @property {number} disagreementRate
+ * @property {number} humanWinRate
+ * @property {number} judgeWinRate
+ */
+
+/**
+ * @typedef {Object} AgreementReport
+ * @property {string} judgeSource
+ * @property {number} pairs Variant pairs voted on by both the judge and humans.
+ * @property {number} comparisons One per human vote on such a pair.
+ * @property {number | null} agreement Share of comparisons with the same outcome.
+ * @property {number | null} kappa Cohen's kappa over first / second / draw.
+ * @property {Record<string, Record<string, number>>} confusion Human outcome → judge outcome → count.
+ * @property {ModelDisagreement[]} models
+ */
+
+/**
+ * Compare one judge's verdicts with human votes on the same variant pairs.
+ * Each human vote is matched with the judge's latest verdict on that pair,
+ * outcomes are taken relative to a fixed ordering of the pair so swapped
+ * sides still line up, and ties and "both bad" both count as a draw.
+ *
+ * @param {SourcedVote[]} votes Oldest first.
+ * @param {string} judgeSource e.g. "judge:gpt-5".
+ * @param {(variantId: string) => string} resolveModelKey Groups variants by model.
+ * @returns {AgreementReport}
+ */
+export function computeAgreement(votes, judgeSource, resolveModelKey) {
+  const judgeOutcomes = new Map();
+  for (const vote of votes) {
+    if (vote.source !== judgeSource) continue;
+    const { key, outcome } = normalizeVote(vote);
+    judgeOutcomes.set(key, outcome);
+  }
+
+  const confusion = Object.fromEntries(
+    OUTCOMES.map((human) => [human, Object.fromEntries(OUTCOMES.map((judge) => [judge, 0]))]),
+  );
+  const models = new Map();
+  const pairs = new Set();
+  let comparisons = 0;
+  let agreements = 0;
+
+  for (const vote of votes) {
+    if (!vote.source?.startsWith("human-")) continue;
+    const { key, first, second, outcome: human } = normalizeVote(vote);
+    const judge = judgeOutcomes.get(key);
+    if (!judge) continue;
+
+    pairs.add(key);
+    comparisons += 1;
+    confusion[human][judge] += 1;
+    if (human === judge) agreements += 1;
+
+    for (const [variantId, slot] of [[first, "first"], [second, "second"]]) {
+      const modelKey = resolveModelKey(variantId);
+      if (!models.has(modelKey)) {
+        models.set(modelKey, { key: modelKey, comparisons: 0, disagreements: 0, humanPoints: 0, judgePoints: 0 });
+      }
+      const record = models.get(modelKey);
+      record.comparisons += 1;
+      if (human !== judge) record.disagreements += 1;
+      record.humanPoints += pointsFor(human, slot);
+      record.judgePoints += pointsFor(judge, slot);
+    }
+  }
+
+  return {
+    judgeSource,
+    pairs: pairs.size,
+    comparisons,
+    agreement: comparisons > 0 ? agreements / comparisons : null,
+    kappa: cohensKappa(confusion, comparisons),
+    confusion,
+    models: Array.from(models.values())
+      .map(({ humanPoints, judgePoints, ...record }) => ({
+        ...record,
+        disagreementRate: record.disagreements / record.comparisons,
+        humanWinRate: humanPoints / record.comparisons,
+        judgeWinRate: judgePoints / record.comparisons,
+      }))
+      .sort((a, b) => b.disagreementRate - a.disagreementRate || b.comparisons - a.comparisons),
+  };
+}
+
+function normalizeVote(vote) {
+  const swapped = vote.leftVariantId > vote.rightVariantId;
+  const [first, second] = swapped
+    ? [vote.rightVariantId, vote.leftVariantId]
+    : [vote.leftVariantId, vote.rightVariantId];
+
+  let outcome = "draw";
+  if (vote.selection === "left") outcome = swapped ? "second" : "first";
+  if (vote.selection === "right") outcome = swapped ? "first" : "second";
+
+  return { key: `${first}|${second}`, first, second, outcome };
+}
+
+function pointsFor(outcome, slot) {
+  if (outcome === "draw") return 0.5;
+  return outcome === slot ? 1 : 0;
+}
+
+function cohensKappa(confusion, total) {
+  if (total === 0) return null;
+
+  let observed = 0;
+  let expected = 0;
+  for (const outcome of OUTCOMES) {
+    observed += confusion[outcome][outcome];
+    const humanShare = OUTCOMES.reduce((sum, judge) => sum + confusion[outcome][judge], 0) / total;
+    const judgeShare = OUTCOMES.reduce((sum, human) => sum + confusion[human][outcome], 0) / total;
+    expected += humanShare * judgeShare;
+  }
+  observed /= total;
+
+  // Both raters used a single category throughout: kappa is undefined.
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
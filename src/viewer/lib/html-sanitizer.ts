@@ -0,0 +1,387 @@
+/**
+ * Allowlist sanitizer for markup that the viewer injects into its own DOM
+ * (the arena's hero view). The input is tokenized the way a browser would
+ * read it — raw-text elements, unquoted and entity-encoded attribute values,
+ * comments — and the output is re-serialized from allowed tags and
+ * attributes only, so no part of the input reaches the page verbatim.
+ */
+
+type Token =
+  | { type: "start"; name: string; attrs: Array<[string, string]>; selfClosing: boolean }
+  | { type: "end"; name: string }
+  | { type: "text"; text: string };
+
+const HTML_TAGS = new Set([
+  "a", "abbr", "address", "article", "aside", "b", "blockquote", "br", "button", "caption", "cite",
+  "code", "col", "colgroup", "dd", "del", "details", "dfn", "div", "dl", "dt", "em", "figcaption",
+  "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "i", "img", "input", "ins",
+  "kbd", "label", "li", "main", "mark", "nav", "ol", "p", "pre", "q", "s", "section", "small", "span",
+  "strong", "sub", "summary", "sup", "table", "tbody", "td", "textarea", "tfoot", "th", "thead", "time",
+  "tr", "u", "ul",
+]);
+
+// Presentational SVG only: no script, use, animate/set, foreignObject or links.
+const SVG_TAGS = new Set([
+  "svg", "g", "path", "circle", "ellipse", "line", "polyline", "polygon", "rect", "defs",
+  "lineargradient", "radialgradient", "stop",
+]);
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source",
+  "track", "wbr",
+]);
+
+// Removed together with everything inside them; any other unknown tag is
+// unwrapped and its content kept.
+const DROPPED_TAGS = new Set([
+  "script", "style", "template", "iframe", "frame", "frameset", "object", "embed", "applet",
+  "noscript", "noembed", "noframes", "xmp", "plaintext", "title", "math", "select", "canvas",
+  "audio", "video", "link", "meta", "base", "foreignobject", "use", "animate", "animatemotion",
+  "animatetransform", "set",
+]);
+
+// Content is text up to the matching end tag (RAWTEXT/RCDATA/script data).
+const RAW_TEXT_TAGS = new Set([
+  "script", "style", "xmp", "iframe", "noembed", "noframes", "noscript", "textarea", "title",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(["class", "id", "title", "lang", "dir", "role", "hidden"]);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href", "target", "rel"]),
+  img: new Set(["src", "alt", "width", "height", "loading", "decoding"]),
+  button: new Set(["type", "disabled", "name", "value"]),
+  input: new Set([
+    "type", "name", "value", "placeholder", "disabled", "checked", "readonly", "min", "max", "step",
+    "required", "autocomplete",
+  ]),
+  label: new Set(["for"]),
+  textarea: new Set(["name", "placeholder", "rows", "cols", "disabled", "readonly"]),
+  td: new Set(["colspan", "rowspan"]),
+  th: new Set(["colspan", "rowspan", "scope"]),
+  col: new Set(["span"]),
+  colgroup: new Set(["span"]),
+  time: new Set(["datetime"]),
+  del: new Set(["datetime"]),
+  ins: new Set(["datetime"]),
+  ol: new Set(["start", "reversed", "type"]),
+  li: new Set(["value"]),
+  details: new Set(["open"]),
+};
+
+const SVG_ATTRIBUTES = new Set([
+  "xmlns", "viewbox", "preserveaspectratio", "width", "height", "fill", "fill-opacity", "fill-rule",
+  "clip-rule", "stroke", "stroke-width", "stroke-linecap", "stroke-linejoin", "stroke-dasharray",
+  "stroke-opacity", "opacity", "transform", "d", "cx", "cy", "r", "rx", "ry", "x", "y", "x1", "x2",
+  "y1", "y2", "points", "offset", "stop-color", "stop-opacity", "gradientunits", "gradienttransform",
+  "focusable", "aria-hidden",
+]);
+
+const URL_SCHEMES: Record<string, Set<string>> = {
+  href: new Set(["http", "https", "mailto", "tel"]),
+  src: new Set(["http", "https"]),
+};
+
+const SAFE_IMAGE_DATA_URL = /^data:image\/(?:png|gif|jpe?g|webp|avif);base64,[a-z0-9+/=\s]*$/i;
+
+// Named references that decode to ASCII punctuation, which could otherwise
+// hide a scheme such as `javascript&colon;`.
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", tab: "\t", newline: "\n",
+  colon: ":", sol: "/", bsol: "\\", lpar: "(", rpar: ")", comma: ",", period: ".", semi: ";",
+  excl: "!", quest: "?", num: "#", percnt: "%", plus: "+", equals: "=", commat: "@", lowbar: "_",
+  grave: "`", lsqb: "[", rsqb: "]", lcub: "{", rcub: "}", verbar: "|", ast: "*", dollar: "$",
+};
+
+/**
+ * Reduce `source` to allowlisted markup that cannot run code: no scripts,
+ * event handlers, inline styles, embedded documents or non-http(s) links.
+ */
+export function sanitizeHtml(source: string): string {
+  const output: string[] = [];
+  const open: string[] = [];
+  let dropping: { name: string; depth: number } | null = null;
+
+  for (const token of tokenizeHtml(source)) {
+    if (dropping) {
+      if (token.type === "start" && token.name === dropping.name && !token.selfClosing) {
+        dropping.depth += 1;
+      } else if (token.type === "end" && token.name === dropping.name) {
+        dropping.depth -= 1;
+        if (dropping.depth === 0) dropping = null;
+      }
+      continue;
+    }
+
+    if (token.type === "text") {
+      output.push(escapeText(token.text));
+      continue;
+    }
+
+    if (token.type === "end") {
+      const index = open.lastIndexOf(token.name);
+      if (index === -1) continue;
+      while (open.length > index) {
+        output.push(`</${open.pop()}>`);
+      }
+      continue;
+    }
+
+    if (DROPPED_TAGS.has(token.name)) {
+      if (!token.selfClosing && !VOID_TAGS.has(token.name)) {
+        dropping = { name: token.name, depth: 1 };
+      }
+      continue;
+    }
+
+    const isSvg = SVG_TAGS.has(token.name);
+    if (!isSvg && !HTML_TAGS.has(token.name)) {
+      continue;
+    }
+
+    output.push(`<${token.name}${serializeAttributes(token.name, token.attrs, isSvg)}>`);
+    if (VOID_TAGS.has(token.name)) continue;
+    if (token.selfClosing) {
+      // JSX and SVG `<x />` mean an empty element.
+      output.push(`</${token.name}>`);
+    } else {
+      open.push(token.name);
+    }
+  }
+
+  while (open.length > 0) {
+    output.push(`</${open.pop()}>`);
+  }
+  return output.join("");
+}
+
+function serializeAttributes(tagName: string, attrs: Array<[string, string]>, isSvg: boolean): string {
+  const kept = new Map<string, string>();
+  for (const [name, value] of attrs) {
+    // Browsers keep the first of duplicated attributes.
+    if (kept.has(name) || !isAllowedAttribute(tagName, name, isSvg)) continue;
+    if (name in URL_SCHEMES && !isSafeUrl(value, name)) continue;
+    kept.set(name, value);
+  }
+
+  if (tagName === "a" && kept.has("target")) {
+    kept.set("rel", "noopener noreferrer");
+  }
+
+  return Array.from(kept, ([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join("");
+}
+
+function isAllowedAttribute(tagName: string, name: string, isSvg: boolean): boolean {
+  if (isSvg) {
+    return SVG_ATTRIBUTES.has(name) || name === "class" || name === "id" || name === "role";
+  }
+  return GLOBAL_ATTRIBUTES.has(name) ||
+    TAG_ATTRIBUTES[tagName]?.has(name) === true ||
+    /^aria-[a-z]+$/.test(name) ||
+    /^data-[a-z0-9_.-]+$/.test(name);
+}
+
+function isSafeUrl(value: string, attribute: string): boolean {
+  // Browsers ignore ASCII whitespace and control characters inside schemes.
+  const url = value.replace(/[\u0000-\u0020\u007f]/g, "");
+  if (attribute === "src" && SAFE_IMAGE_DATA_URL.test(value.trim())) {
+    return true;
+  }
+  const colon = url.indexOf(":");
+  if (colon === -1) return true;
+  const firstDelimiter = url.search(/[/?#]/);
+  if (firstDelimiter !== -1 && firstDelimiter < colon) {
+    return true; // a relative URL such as `./a:b` or `?q=a:b`
+  }
+  const scheme = url.slice(0, colon).toLowerCase();
+  return /^[a-z][a-z0-9+.-]*$/.test(scheme) && URL_SCHEMES[attribute].has(scheme);
+}
+
+function tokenizeHtml(source: string): Token[] {
+  const tokens: Token[] = [];
+  const length = source.length;
+  let index = 0;
+
+  const pushText = (text: string) => {
+    if (text) tokens.push({ type: "text", text });
+  };
+
+  while (index < length) {
+    const next = source.indexOf("<", index);
+    if (next === -1) {
+      pushText(source.slice(index));
+      break;
+    }
+    pushText(source.slice(index, next));
+    index = next;
+
+    if (source.startsWith("<!--", index)) {
+      if (source.startsWith("<!-->", index)) {
+        index += 5;
+      } else if (source.startsWith("<!--->", index)) {
+        index += 6;
+      } else {
+        const end = source.indexOf("-->", index + 4);
+        index = end === -1 ? length : end + 3;
+      }
+      continue;
+    }
+
+    const following = source[index + 1] ?? "";
+    if (following === "!" || following === "?") {
+      // Doctype, CDATA and processing instructions are bogus comments here.
+      const end = source.indexOf(">", index);
+      index = end === -1 ? length : end + 1;
+      continue;
+    }
+
+    if (following === "/" && /[a-z]/i.test(source[index + 2] ?? "")) {
+      const end = source.indexOf(">", index);
+      if (end === -1) break; // EOF inside a tag drops it
+      const name = /^[^\s/>]+/.exec(source.slice(index + 2, end))?.[0].toLowerCase() ?? "";
+      tokens.push({ type: "end", name });
+      index = end + 1;
+      continue;
+    }
+
+    if (!/[a-z]/i.test(following)) {
+      pushText("<");
+      index += 1;
+      continue;
+    }
+
+    const tag = readStartTag(source, index);
+    if (!tag) break; // EOF inside a tag drops it
+    tokens.push(tag.token);
+    index = tag.end;
+
+    if (tag.token.name === "plaintext") {
+      pushText(source.slice(index));
+      break;
+    }
+    if (RAW_TEXT_TAGS.has(tag.token.name) && !tag.token.selfClosing) {
+      const close = new RegExp(`</${tag.token.name}(?=[\\s/>])`, "ig");
+      close.lastIndex = index;
+      const match = close.exec(source);
+      const contentEnd = match ? match.index : length;
+      pushText(source.slice(index, contentEnd));
+      tokens.push({ type: "end", name: tag.token.name });
+      if (!match) break;
+      const end = source.indexOf(">", contentEnd);
+      index = end === -1 ? length : end + 1;
+    }
+  }
+
+  return tokens;
+}
+
+function readStartTag(source: string, start: number): { token: Token & { type: "start" }; end: number } | null {
+  const length = source.length;
+  let index = start + 1;
+  const nameMatch = /^[^\s/>]+/.exec(source.slice(index));
+  if (!nameMatch) return null;
+  const name = nameMatch[0].toLowerCase();
+  index += nameMatch[0].length;
+
+  const attrs: Array<[string, string]> = [];
+  let selfClosing = false;
+
+  while (index < length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === ">") {
+      return { token: { type: "start", name, attrs, selfClosing }, end: index + 1 };
+    }
+    if (char === "/") {
+      selfClosing = source[index + 1] === ">";
+      index += 1;
+      continue;
+    }
+    selfClosing = false;
+
+    // An attribute name may start with "=" but otherwise stops at it.
+    let nameEnd = index + 1;
+    while (nameEnd < length && !/[\s/>=]/.test(source[nameEnd])) nameEnd += 1;
+    const attrName = source.slice(index, nameEnd).toLowerCase();
+    index = nameEnd;
+    while (index < length && /\s/.test(source[index])) index += 1;
+
+    let value = "";
+    if (source[index] === "=") {
+      index += 1;
+      while (index < length && /\s/.test(source[index])) index += 1;
+      const quote = source[index];
+      if (quote === '"' || quote === "'") {
+        const close = source.indexOf(quote, index + 1);
+        if (close === -1) return null;
+        value = source.slice(index + 1, close);
+        index = close + 1;
+      } else if (quote === "{") {
+        // A leftover JSX expression such as onClick={() => go()}.
+        const close = findClosingBrace(source, index);
+        if (close === -1) return null;
+        value = source.slice(index, close + 1);
+        index = close + 1;
+      } else {
+        let valueEnd = index;
+        while (valueEnd < length && !/[\s>]/.test(source[valueEnd])) valueEnd += 1;
+        value = source.slice(index, valueEnd);
+        index = valueEnd;
+      }
+    }
+    attrs.push([attrName, decodeEntities(value)]);
+  }
+
+  return null;
+}
+
+function findClosingBrace(source: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let index = open; index < source.length; index += 1) {
+    const char = source[index];
+    if (quote) {
+      if (char === "\\") index += 1;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, reference: string) => {
+    if (reference[0] === "#") {
+      const codePoint = reference[1] === "x" || reference[1] === "X"
+        ? Number.parseInt(reference.slice(2), 16)
+        : Number.parseInt(reference.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "�";
+    }
+    const decoded = NAMED_ENTITIES[reference.toLowerCase()];
+    return decoded !== undefined && match.endsWith(";") ? decoded : match;
+  });
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,1993 @@
+/**
+ * Static rendering of React-style (JSX/TSX) model output for the hero view.
+ * esbuild strips the types and compiles JSX to factory calls; this module
+ * parses that output and evaluates the subset a landing page needs without
+ * running any of it: literals, template strings, conditionals, constants and
+ * components declared in the response, `.map()` over literal lists and class
+ * helpers such as `cn()`. Anything that depends on runtime state evaluates to
+ * an opaque value, which is falsy and renders as nothing. Imported components
+ * become plain elements through a ComponentMap.
+ */
+import { transformSync } from "esbuild";
+
+export interface ComponentMapping {
+  /** Element to render; null renders only the children. Defaults to the map's fallbackTag. */
+  tag?: string | null;
+  /** Classes placed before the component's own className. */
+  class?: string;
+  /** Props that are not turned into attributes. */
+  omit?: string[];
+  /** When set, only these props (besides className and children) become attributes. */
+  keep?: string[];
+  /** Render nothing, children included. */
+  drop?: boolean;
+}
+
+export interface ComponentMap {
+  /** Keyed by the component name as written, e.g. `Button` or `Tabs.List`. */
+  components?: Record<string, ComponentMapping>;
+  /** Applies to every component imported from a module, e.g. `lucide-react`. */
+  modules?: Record<string, ComponentMapping>;
+  /** Element for components that are neither declared nor mapped; `div` by default. */
+  fallbackTag?: string;
+}
+
+const JSX_FACTORY = "__arenaJsx";
+const JSX_FRAGMENT = "__arenaFragment";
+
+// Model output is untrusted, so evaluation is bounded as well as side-effect free.
+const MAX_STEPS = 200_000;
+const MAX_CALL_DEPTH = 64;
+const MAX_ARRAY_LENGTH = 1_000;
+
+const CODE_FENCE = /```[^\n`]*\n([\s\S]*?)```/g;
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source",
+  "track", "wbr",
+]);
+
+const SVG_TAGS = new Set([
+  "svg", "g", "path", "circle", "ellipse", "line", "polyline", "polygon", "rect", "defs",
+  "lineargradient", "radialgradient", "stop", "text", "tspan", "clippath", "mask", "pattern",
+]);
+
+// SVG attributes that are camelCase in markup too; other camelCase SVG props
+// (strokeWidth, fillRule, …) are hyphenated.
+const SVG_CAMEL_ATTRIBUTES = new Set([
+  "viewBox", "preserveAspectRatio", "gradientUnits", "gradientTransform", "patternUnits",
+  "patternContentUnits", "patternTransform", "clipPathUnits", "maskUnits", "maskContentUnits",
+]);
+
+const CLASS_HELPERS = new Set(["cn", "clsx", "cx", "classNames", "classnames", "twMerge", "twJoin"]);
+
+const STATEMENT_KEYWORDS_WITH_BLOCKS = new Set([
+  "if", "else", "for", "while", "do", "switch", "try", "class", "function", "async",
+]);
+
+/**
+ * Renders the root component of every code block in a JSX/TSX response to
+ * HTML. Blocks that do not compile or render nothing are left out, so the
+ * result is empty when the response is not usable JSX.
+ */
+export function renderJsxDocuments(responseText: string, componentMap: ComponentMap = {}): string[] {
+  const blocks = extractCodeBlocks(responseText);
+  const programs: Statement[][] = [];
+  for (const block of blocks) {
+    const compiled = compileJsx(block);
+    if (compiled === null) continue;
+    try {
+      programs.push(new Parser(new Lexer(compiled).tokenize()).parseProgram());
+    } catch {
+      // Not even the statement structure is readable; skip the block.
+    }
+  }
+  if (programs.length === 0) return [];
+
+  const interpreter = new Interpreter(componentMap);
+  try {
+    const roots = programs.map((program) => interpreter.runProgram(program));
+    return roots
+      .map((root) => (root === undefined ? "" : interpreter.renderRoot(root)))
+      .filter((html) => html.trim() !== "");
+  } catch {
+    // Budget or stack exhausted: treat the response as unrenderable.
+    return [];
+  }
+}
+
+function extractCodeBlocks(responseText: string): string[] {
+  const blocks = Array.from(responseText.matchAll(CODE_FENCE), (match) => match[1]);
+  return blocks.length > 0 ? blocks : [responseText];
+}
+
+function compileJsx(source: string): string | null {
+  try {
+    return transformSync(source, {
+      loader: "tsx",
+      jsx: "transform",
+      jsxFactory: JSX_FACTORY,
+      jsxFragment: JSX_FRAGMENT,
+      target: "esnext",
+      logLevel: "silent",
+    }).code;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lexer
+
+type Token =
+  | { type: "name"; value: string }
+  | { type: "punct"; value: string }
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "template"; quasis: string[]; expressions: Token[][] }
+  | { type: "regex" }
+  | { type: "eof" };
+
+const PUNCTUATORS = [
+  ">>>=", "...", "===", "!==", "**=", "<<=", ">>=", ">>>", "&&=", "||=", "??=",
+  "=>", "==", "!=", "<=", ">=", "&&", "||", "??", "?.", "++", "--", "+=", "-=", "*=", "/=", "%=",
+  "&=", "|=", "^=", "**", "<<", ">>",
+  "{", "}", "(", ")", "[", "]", ";", ",", "<", ">", "+", "-", "*", "/", "%", "&", "|", "^", "!",
+  "~", "?", ":", "=", ".", "@", "#",
+];
+
+// After these keywords a `/` starts a regular expression rather than a division.
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  "return", "typeof", "case", "do", "else", "in", "of", "new", "delete", "void", "throw",
+  "instanceof", "yield", "await",
+]);
+
+const NUMBER_PATTERN = /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)n?/y;
+const NAME_START = /[A-Za-z_$\u0080-\uffff]/;
+const NAME_PART = /[\w$\u0080-\uffff]/;
+
+class Lexer {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  /** Tokens up to the end of input or, inside a template, the closing `}`. */
+  tokenize(insideTemplate = false): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+    for (;;) {
+      this.skipTrivia();
+      if (this.pos >= this.source.length) {
+        if (insideTemplate) throw new Error("Unterminated template literal.");
+        tokens.push({ type: "eof" });
+        return tokens;
+      }
+      if (insideTemplate && depth === 0 && this.source[this.pos] === "}") {
+        this.pos += 1;
+        tokens.push({ type: "eof" });
+        return tokens;
+      }
+      const token = this.readToken(tokens[tokens.length - 1]);
+      if (token.type === "punct" && token.value === "{") depth += 1;
+      if (token.type === "punct" && token.value === "}") depth -= 1;
+      tokens.push(token);
+    }
+  }
+
+  private skipTrivia(): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (/\s/.test(char)) {
+        this.pos += 1;
+      } else if (this.source.startsWith("//", this.pos)) {
+        const end = this.source.indexOf("\n", this.pos);
+        this.pos = end === -1 ? this.source.length : end + 1;
+      } else if (this.source.startsWith("/*", this.pos)) {
+        const end = this.source.indexOf("*/", this.pos + 2);
+        if (end === -1) throw new Error("Unterminated comment.");
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private readToken(previous: Token | undefined): Token {
+    const char = this.source[this.pos];
+    if (char === '"' || char === "'") return { type: "string", value: this.readString(char) };
+    if (char === "`") return this.readTemplate();
+
+    NUMBER_PATTERN.lastIndex = this.pos;
+    if (/[\d.]/.test(char) && (char !== "." || /\d/.test(this.source[this.pos + 1] ?? ""))) {
+      const match = NUMBER_PATTERN.exec(this.source);
+      if (match) {
+        this.pos += match[0].length;
+        return { type: "number", value: Number(match[0].replace(/_/g, "").replace(/n$/, "")) };
+      }
+    }
+
+    if (NAME_START.test(char)) {
+      const start = this.pos;
+      while (this.pos < this.source.length && NAME_PART.test(this.source[this.pos])) this.pos += 1;
+      return { type: "name", value: this.source.slice(start, this.pos) };
+    }
+
+    if (char === "/" && startsExpression(previous)) {
+      this.skipRegex();
+      return { type: "regex" };
+    }
+
+    for (const punctuator of PUNCTUATORS) {
+      if (this.source.startsWith(punctuator, this.pos)) {
+        this.pos += punctuator.length;
+        return { type: "punct", value: punctuator };
+      }
+    }
+    throw new Error(`Unexpected character '${char}'.`);
+  }
+
+  private readString(quote: string): string {
+    this.pos += 1;
+    let value = "";
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === quote) {
+        this.pos += 1;
+        return value;
+      }
+      if (char === "\\") {
+        value += this.readEscape();
+      } else if (char === "\n") {
+        break;
+      } else {
+        value += char;
+        this.pos += 1;
+      }
+    }
+    throw new Error("Unterminated string.");
+  }
+
+  private readTemplate(): Token {
+    this.pos += 1;
+    const quasis: string[] = [];
+    const expressions: Token[][] = [];
+    let cooked = "";
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === "`") {
+        this.pos += 1;
+        quasis.push(cooked);
+        return { type: "template", quasis, expressions };
+      }
+      if (char === "\\") {
+        cooked += this.readEscape();
+      } else if (this.source.startsWith("${", this.pos)) {
+        this.pos += 2;
+        quasis.push(cooked);
+        cooked = "";
+        expressions.push(this.tokenize(true));
+      } else {
+        cooked += char;
+        this.pos += 1;
+      }
+    }
+    throw new Error("Unterminated template literal.");
+  }
+
+  private readEscape(): string {
+    const next = this.source[this.pos + 1] ?? "";
+    this.pos += 2;
+    switch (next) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      case "b": return "\b";
+      case "f": return "\f";
+      case "v": return "\v";
+      case "0": return "\0";
+      case "\r":
+        if (this.source[this.pos] === "\n") this.pos += 1;
+        return "";
+      case "\n": return "";
+      case "x": {
+        const hex = this.source.slice(this.pos, this.pos + 2);
+        this.pos += 2;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      case "u": {
+        if (this.source[this.pos] === "{") {
+          const end = this.source.indexOf("}", this.pos);
+          const codePoint = parseInt(this.source.slice(this.pos + 1, end), 16);
+          this.pos = end + 1;
+          return String.fromCodePoint(codePoint);
+        }
+        const hex = this.source.slice(this.pos, this.pos + 4);
+        this.pos += 4;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      default:
+        return next;
+    }
+  }
+
+  private skipRegex(): void {
+    let inClass = false;
+    this.pos += 1;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === "\\") {
+        this.pos += 2;
+        continue;
+      }
+      if (char === "\n") break;
+      this.pos += 1;
+      if (char === "[") inClass = true;
+      else if (char === "]") inClass = false;
+      else if (char === "/" && !inClass) {
+        while (this.pos < this.source.length && NAME_PART.test(this.source[this.pos])) this.pos += 1;
+        return;
+      }
+    }
+    throw new Error("Unterminated regular expression.");
+  }
+}
+
+function startsExpression(previous: Token | undefined): boolean {
+  if (!previous) return true;
+  if (previous.type === "punct") return ![")", "]", "}"].includes(previous.value);
+  if (previous.type === "name") return KEYWORDS_BEFORE_EXPRESSION.has(previous.value);
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+type Node =
+  | { type: "literal"; value: string | number | boolean | null | undefined }
+  | { type: "template"; quasis: string[]; expressions: Node[] }
+  | { type: "identifier"; name: string }
+  | { type: "array"; elements: Array<Node | SpreadNode | null> }
+  | { type: "object"; properties: Array<PropertyNode | SpreadNode> }
+  | FunctionNode
+  | { type: "unary"; operator: string; argument: Node }
+  | { type: "binary"; operator: string; left: Node; right: Node }
+  | { type: "conditional"; test: Node; consequent: Node; alternate: Node }
+  | { type: "member"; object: Node; property: string | Node; optional: boolean }
+  | { type: "call"; callee: Node; args: Array<Node | SpreadNode>; optional: boolean }
+  | { type: "assign"; operator: string; target: Node; value: Node }
+  | { type: "sequence"; expressions: Node[] }
+  | { type: "opaque" };
+
+interface SpreadNode {
+  type: "spread";
+  argument: Node;
+}
+
+interface PropertyNode {
+  type: "property";
+  key: string | Node;
+  value: Node;
+}
+
+interface FunctionNode {
+  type: "function";
+  params: Pattern[];
+  rest: Pattern | null;
+  body: Node | Statement[];
+}
+
+type Pattern =
+  | { type: "identifier"; name: string }
+  | { type: "objectPattern"; properties: Array<{ key: string | Node; value: Pattern }>; rest: Pattern | null }
+  | { type: "arrayPattern"; elements: Array<Pattern | null>; rest: Pattern | null }
+  | { type: "defaultPattern"; target: Pattern; value: Node };
+
+type Statement =
+  | { type: "import"; module: string; bindings: Array<{ local: string; imported: string }> }
+  | { type: "declare"; declarations: Array<{ target: Pattern; init: Node | null }> }
+  | { type: "functionDeclaration"; name: string; fn: FunctionNode }
+  | { type: "return"; argument: Node | null }
+  | { type: "if"; test: Node; consequent: Statement; alternate: Statement | null }
+  | { type: "block"; body: Statement[] }
+  | { type: "expression"; expression: Node; assigned: string[] }
+  | { type: "exportDefault"; value: Node }
+  | { type: "exportNames"; specifiers: Array<{ local: string; exported: string }> }
+  | { type: "skip"; assigned?: string[] };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1, "||": 2, "&&": 3, "|": 4, "^": 5, "&": 6,
+  "==": 7, "!=": 7, "===": 7, "!==": 7,
+  "<": 8, ">": 8, "<=": 8, ">=": 8, "in": 8, "instanceof": 8,
+  "<<": 9, ">>": 9, ">>>": 9,
+  "+": 10, "-": 10,
+  "*": 11, "/": 11, "%": 11,
+  "**": 12,
+};
+
+const ASSIGNMENT_OPERATORS = new Set([
+  "=", "+=", "-=", "*=", "/=", "%=", "**=", "<<=", ">>=", ">>>=", "&=", "|=", "^=", "&&=", "||=", "??=",
+]);
+
+const OPAQUE_NODE: Node = { type: "opaque" };
+
+/**
+ * Variables a stretch of code the interpreter does not run may assign: the
+ * targets of assignments and `++`/`--`, or the object behind an assigned
+ * member. Names the stretch declares itself are left out.
+ */
+function assignedNames(tokens: Token[]): string[] {
+  const assigned = new Set<string>();
+  const declared = new Set<string>();
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.type === "name" && ["const", "let", "var"].includes(token.value)) {
+      const next = tokens[index + 1];
+      if (next?.type === "name") declared.add(next.value);
+      continue;
+    }
+    if (token.type !== "punct") continue;
+    const isUpdate = token.value === "++" || token.value === "--";
+    if (!isUpdate && !ASSIGNMENT_OPERATORS.has(token.value)) continue;
+    const previous = tokens[index - 1];
+    const postfix = previous?.type === "name" || (previous?.type === "punct" && previous.value === "]");
+    const root = isUpdate && !postfix ? tokens[index + 1] : tokens[targetRootIndex(tokens, index - 1)];
+    if (root?.type === "name") assigned.add(root.value);
+  }
+  return Array.from(assigned).filter((name) => !declared.has(name));
+}
+
+/** Index of the identifier a member chain ending at `end` starts from, or -1. */
+function targetRootIndex(tokens: Token[], end: number): number {
+  let index = end;
+  while (index >= 0) {
+    const token = tokens[index];
+    if (token.type === "punct" && token.value === "]") {
+      let depth = 0;
+      for (; index >= 0; index -= 1) {
+        const inner = tokens[index];
+        if (inner.type === "punct" && inner.value === "]") depth += 1;
+        if (inner.type === "punct" && inner.value === "[" && --depth === 0) break;
+      }
+      index -= 1;
+      continue;
+    }
+    if (token.type !== "name") return -1;
+    const before = tokens[index - 1];
+    if (before?.type === "punct" && (before.value === "." || before.value === "?.")) {
+      index -= 2;
+      continue;
+    }
+    return index;
+  }
+  return -1;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): Statement[] {
+    const body: Statement[] = [];
+    while (this.peek().type !== "eof") {
+      body.push(this.parseStatement());
+    }
+    return body;
+  }
+
+  parseStandaloneExpression(): Node {
+    const node = this.parseExpression();
+    if (this.peek().type !== "eof") throw new Error("Unexpected token after expression.");
+    return node;
+  }
+
+  // Statements --------------------------------------------------------------
+
+  private parseStatement(): Statement {
+    const start = this.pos;
+    try {
+      return this.parseStatementUnchecked();
+    } catch {
+      this.pos = start;
+      return this.skipUnparsedStatement();
+    }
+  }
+
+  private parseStatementUnchecked(): Statement {
+    const token = this.peek();
+    if (this.isPunct("{")) return { type: "block", body: this.parseBlock() };
+    if (this.isPunct(";")) {
+      this.pos += 1;
+      return { type: "skip" };
+    }
+    if (token.type === "name") {
+      switch (token.value) {
+        case "import":
+          if (!this.isPunct("(", 1) && !this.isPunct(".", 1)) return this.parseImport();
+          break;
+        case "export":
+          return this.parseExport();
+        case "const":
+        case "let":
+        case "var":
+          return this.parseDeclaration();
+        case "function":
+          return this.parseFunctionDeclaration();
+        case "async":
+          if (this.isName("function", 1)) {
+            this.pos += 1;
+            return this.parseFunctionDeclaration();
+          }
+          break;
+        case "return": {
+          this.pos += 1;
+          const argument = this.isPunct(";") || this.isPunct("}") || this.peek().type === "eof"
+            ? null
+            : this.parseExpression();
+          this.eatSemicolon();
+          return { type: "return", argument };
+        }
+        case "if": {
+          this.pos += 1;
+          this.expectPunct("(");
+          const test = this.parseExpression();
+          this.expectPunct(")");
+          const consequent = this.parseStatement();
+          let alternate: Statement | null = null;
+          if (this.isName("else")) {
+            this.pos += 1;
+            alternate = this.parseStatement();
+          }
+          return { type: "if", test, consequent, alternate };
+        }
+        default:
+          if (STATEMENT_KEYWORDS_WITH_BLOCKS.has(token.value) || ["throw", "break", "continue"].includes(token.value)) {
+            return this.skipUnparsedStatement();
+          }
+      }
+    }
+    const start = this.pos;
+    const expression = this.parseExpression();
+    this.eatSemicolon();
+    return { type: "expression", expression, assigned: assignedNames(this.tokens.slice(start, this.pos)) };
+  }
+
+  private parseBlock(): Statement[] {
+    this.expectPunct("{");
+    const body: Statement[] = [];
+    while (!this.isPunct("}")) {
+      if (this.peek().type === "eof") throw new Error("Unterminated block.");
+      body.push(this.parseStatement());
+    }
+    this.pos += 1;
+    return body;
+  }
+
+  private parseImport(): Statement {
+    this.pos += 1;
+    const bindings: Array<{ local: string; imported: string }> = [];
+    if (this.peek().type !== "string") {
+      if (this.peek().type === "name" && !this.isName("from")) {
+        bindings.push({ local: this.expectName(), imported: "default" });
+        this.eatPunct(",");
+      }
+      if (this.eatPunct("*")) {
+        this.expectName("as");
+        bindings.push({ local: this.expectName(), imported: "*" });
+      } else if (this.eatPunct("{")) {
+        while (!this.eatPunct("}")) {
+          const imported = this.peek().type === "string" ? this.expectString() : this.expectName();
+          const local = this.isName("as") ? (this.pos += 1, this.expectName()) : imported;
+          bindings.push({ local, imported });
+          this.eatPunct(",");
+        }
+      }
+      this.expectName("from");
+    }
+    const module = this.expectString();
+    this.skipStatement();
+    return { type: "import", module, bindings };
+  }
+
+  private parseExport(): Statement {
+    this.pos += 1;
+    if (this.isName("default")) {
+      this.pos += 1;
+      if (this.isName("function") || (this.isName("async") && this.isName("function", 1))) {
+        if (this.isName("async")) this.pos += 1;
+        if (this.peek(1).type === "name") {
+          const declaration = this.parseFunctionDeclaration();
+          if (declaration.type !== "functionDeclaration") return declaration;
+          return { type: "block", body: [declaration, { type: "exportDefault", value: { type: "identifier", name: declaration.name } }] };
+        }
+      }
+      const value = this.parseAssignment();
+      this.eatSemicolon();
+      return { type: "exportDefault", value };
+    }
+    if (this.eatPunct("{")) {
+      const specifiers: Array<{ local: string; exported: string }> = [];
+      while (!this.eatPunct("}")) {
+        const local = this.expectName();
+        const exported = this.isName("as") ? (this.pos += 1, this.expectName()) : local;
+        specifiers.push({ local, exported });
+        this.eatPunct(",");
+      }
+      if (this.isName("from")) {
+        this.skipStatement();
+        return { type: "skip" };
+      }
+      this.eatSemicolon();
+      return { type: "exportNames", specifiers };
+    }
+    return this.parseStatementUnchecked();
+  }
+
+  private parseDeclaration(): Statement {
+    this.pos += 1;
+    const declarations: Array<{ target: Pattern; init: Node | null }> = [];
+    do {
+      const target = this.parsePattern();
+      const init = this.eatPunct("=") ? this.parseAssignment() : null;
+      declarations.push({ target, init });
+    } while (this.eatPunct(","));
+    this.eatSemicolon();
+    return { type: "declare", declarations };
+  }
+
+  private parseFunctionDeclaration(): Statement {
+    this.expectName("function");
+    if (this.eatPunct("*")) {
+      this.skipFunctionRest();
+      return { type: "skip" };
+    }
+    const name = this.expectName();
+    return { type: "functionDeclaration", name, fn: this.parseFunctionRest() };
+  }
+
+  private skipFunctionRest(): void {
+    if (this.peek().type === "name") this.pos += 1;
+    this.skipBalanced();
+    this.skipBalanced();
+  }
+
+  /**
+   * Skips a statement the interpreter cannot run, such as a loop, keeping
+   * the variables it may assign so they are not rendered with stale values.
+   */
+  private skipUnparsedStatement(): Statement {
+    const start = this.pos;
+    this.skipStatement();
+    const first = this.tokens[start];
+    // Declarations do not run their bodies.
+    if (first.type === "name" && ["class", "function", "async"].includes(first.value)) {
+      return { type: "skip" };
+    }
+    return { type: "skip", assigned: assignedNames(this.tokens.slice(start, this.pos)) };
+  }
+
+  /** Consumes one statement without interpreting it. */
+  private skipStatement(): void {
+    const first = this.peek();
+    const isBlockStatement = (first.type === "name" && STATEMENT_KEYWORDS_WITH_BLOCKS.has(first.value)) ||
+      (first.type === "punct" && first.value === "{");
+    let depth = 0;
+    let consumed = false;
+    while (this.peek().type !== "eof") {
+      const token = this.peek();
+      if (token.type === "punct" && ["(", "[", "{"].includes(token.value)) {
+        depth += 1;
+      } else if (token.type === "punct" && [")", "]", "}"].includes(token.value)) {
+        if (depth === 0) {
+          // The enclosing block's closer; leave it, but always make progress.
+          if (!consumed) this.pos += 1;
+          return;
+        }
+        depth -= 1;
+        if (depth === 0 && token.value === "}") {
+          this.pos += 1;
+          if (this.eatPunct(";")) return;
+          if (isBlockStatement && !this.isName("else") && !this.isName("catch") &&
+              !this.isName("finally") && !this.isName("while")) {
+            return;
+          }
+          consumed = true;
+          continue;
+        }
+      } else if (token.type === "punct" && token.value === ";" && depth === 0) {
+        this.pos += 1;
+        return;
+      }
+      this.pos += 1;
+      consumed = true;
+    }
+  }
+
+  private skipBalanced(): void {
+    const open = this.peek();
+    if (open.type !== "punct" || !["(", "[", "{"].includes(open.value)) {
+      throw new Error("Expected a bracket.");
+    }
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.type === "eof") throw new Error("Unbalanced brackets.");
+      if (token.type === "punct" && ["(", "[", "{"].includes(token.value)) depth += 1;
+      if (token.type === "punct" && [")", "]", "}"].includes(token.value)) depth -= 1;
+    } while (depth > 0);
+  }
+
+  private eatSemicolon(): void {
+    this.eatPunct(";");
+  }
+
+  // Functions and patterns --------------------------------------------------
+
+  /** Parameter list and body, after `function name`. */
+  private parseFunctionRest(): FunctionNode {
+    const { params, rest } = this.parseParams();
+    return { type: "function", params, rest, body: this.parseBlock() };
+  }
+
+  private parseParams(): { params: Pattern[]; rest: Pattern | null } {
+    this.expectPunct("(");
+    const params: Pattern[] = [];
+    let rest: Pattern | null = null;
+    while (!this.eatPunct(")")) {
+      if (this.eatPunct("...")) {
+        rest = this.parsePattern();
+      } else {
+        params.push(this.parsePatternWithDefault());
+      }
+      this.eatPunct(",");
+    }
+    return { params, rest };
+  }
+
+  private parseArrowBody(params: Pattern[], rest: Pattern | null): FunctionNode {
+    this.expectPunct("=>");
+    const body = this.isPunct("{") ? this.parseBlock() : this.parseAssignment();
+    return { type: "function", params, rest, body };
+  }
+
+  private parsePatternWithDefault(): Pattern {
+    const target = this.parsePattern();
+    return this.eatPunct("=") ? { type: "defaultPattern", target, value: this.parseAssignment() } : target;
+  }
+
+  private parsePattern(): Pattern {
+    if (this.eatPunct("{")) {
+      const properties: Array<{ key: string | Node; value: Pattern }> = [];
+      let rest: Pattern | null = null;
+      while (!this.eatPunct("}")) {
+        if (this.eatPunct("...")) {
+          rest = this.parsePattern();
+        } else {
+          const key = this.parsePropertyKey();
+          let value: Pattern;
+          if (this.eatPunct(":")) {
+            value = this.parsePatternWithDefault();
+          } else {
+            if (typeof key !== "string") throw new Error("Computed keys need a target.");
+            value = { type: "identifier", name: key };
+            if (this.eatPunct("=")) value = { type: "defaultPattern", target: value, value: this.parseAssignment() };
+          }
+          properties.push({ key, value });
+        }
+        this.eatPunct(",");
+      }
+      return { type: "objectPattern", properties, rest };
+    }
+    if (this.eatPunct("[")) {
+      const elements: Array<Pattern | null> = [];
+      let rest: Pattern | null = null;
+      while (!this.eatPunct("]")) {
+        if (this.eatPunct(",")) {
+          elements.push(null);
+          continue;
+        }
+        if (this.eatPunct("...")) {
+          rest = this.parsePattern();
+        } else {
+          elements.push(this.parsePatternWithDefault());
+        }
+        if (!this.isPunct("]")) this.expectPunct(",");
+      }
+      return { type: "arrayPattern", elements, rest };
+    }
+    return { type: "identifier", name: this.expectName() };
+  }
+
+  private parsePropertyKey(): string | Node {
+    const token = this.next();
+    if (token.type === "name" || token.type === "string") return token.value;
+    if (token.type === "number") return String(token.value);
+    if (token.type === "punct" && token.value === "[") {
+      const key = this.parseAssignment();
+      this.expectPunct("]");
+      return key;
+    }
+    throw new Error("Unexpected property key.");
+  }
+
+  // Expressions -------------------------------------------------------------
+
+  private parseExpression(): Node {
+    const first = this.parseAssignment();
+    if (!this.isPunct(",")) return first;
+    const expressions = [first];
+    while (this.eatPunct(",")) expressions.push(this.parseAssignment());
+    return { type: "sequence", expressions };
+  }
+
+  private parseAssignment(): Node {
+    const arrow = this.tryParseArrow();
+    if (arrow) return arrow;
+
+    const left = this.parseConditional();
+    const token = this.peek();
+    if (token.type === "punct" && ASSIGNMENT_OPERATORS.has(token.value)) {
+      this.pos += 1;
+      return { type: "assign", operator: token.value, target: left, value: this.parseAssignment() };
+    }
+    return left;
+  }
+
+  private tryParseArrow(): FunctionNode | null {
+    const start = this.pos;
+    if (this.isName("async") && (this.isPunct("(", 1) || (this.peek(1).type === "name" && this.isPunct("=>", 2)))) {
+      this.pos += 1;
+    }
+    const token = this.peek();
+    if (token.type === "name" && this.isPunct("=>", 1)) {
+      this.pos += 1;
+      return this.parseArrowBody([{ type: "identifier", name: token.value }], null);
+    }
+    if (token.type === "punct" && token.value === "(") {
+      const close = this.findClosingParen(this.pos);
+      if (close !== -1 && this.tokens[close + 1]?.type === "punct" && (this.tokens[close + 1] as { value: string }).value === "=>") {
+        const { params, rest } = this.parseParams();
+        return this.parseArrowBody(params, rest);
+      }
+    }
+    this.pos = start;
+    return null;
+  }
+
+  private findClosingParen(open: number): number {
+    let depth = 0;
+    for (let index = open; index < this.tokens.length; index += 1) {
+      const token = this.tokens[index];
+      if (token.type !== "punct") continue;
+      if (["(", "[", "{"].includes(token.value)) depth += 1;
+      if ([")", "]", "}"].includes(token.value)) {
+        depth -= 1;
+        if (depth === 0) return token.value === ")" ? index : -1;
+      }
+    }
+    return -1;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(0);
+    if (!this.eatPunct("?")) return test;
+    const consequent = this.parseAssignment();
+    this.expectPunct(":");
+    const alternate = this.parseAssignment();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const operator = token.type === "punct" || token.type === "name" ? token.value : "";
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+      this.pos += 1;
+      // `**` is right-associative.
+      const right = this.parseBinary(operator === "**" ? precedence - 1 : precedence);
+      left = { type: "binary", operator, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token.type === "punct" && ["!", "-", "+", "~"].includes(token.value)) {
+      this.pos += 1;
+      return { type: "unary", operator: token.value, argument: this.parseUnary() };
+    }
+    if (token.type === "punct" && (token.value === "++" || token.value === "--")) {
+      this.pos += 1;
+      this.parseUnary();
+      return OPAQUE_NODE;
+    }
+    if (token.type === "name" && ["typeof", "void", "delete", "await"].includes(token.value)) {
+      this.pos += 1;
+      return { type: "unary", operator: token.value, argument: this.parseUnary() };
+    }
+    const expression = this.parsePostfix();
+    if (this.isPunct("++") || this.isPunct("--")) {
+      this.pos += 1;
+      return OPAQUE_NODE;
+    }
+    return expression;
+  }
+
+  private parsePostfix(): Node {
+    let expression: Node;
+    if (this.isName("new")) {
+      this.pos += 1;
+      this.parseMemberOnly();
+      if (this.isPunct("(")) this.parseArguments();
+      expression = OPAQUE_NODE;
+    } else {
+      expression = this.parsePrimary();
+    }
+
+    for (;;) {
+      if (this.eatPunct(".")) {
+        if (this.eatPunct("#")) this.expectName();
+        expression = { type: "member", object: expression, property: this.expectName(), optional: false };
+      } else if (this.eatPunct("?.")) {
+        if (this.isPunct("(")) {
+          expression = { type: "call", callee: expression, args: this.parseArguments(), optional: true };
+        } else if (this.eatPunct("[")) {
+          const property = this.parseExpression();
+          this.expectPunct("]");
+          expression = { type: "member", object: expression, property, optional: true };
+        } else {
+          expression = { type: "member", object: expression, property: this.expectName(), optional: true };
+        }
+      } else if (this.eatPunct("[")) {
+        const property = this.parseExpression();
+        this.expectPunct("]");
+        expression = { type: "member", object: expression, property, optional: false };
+      } else if (this.isPunct("(")) {
+        expression = { type: "call", callee: expression, args: this.parseArguments(), optional: false };
+      } else if (this.peek().type === "template") {
+        // Tagged templates (styled-components and the like) are not evaluated.
+        this.pos += 1;
+        expression = OPAQUE_NODE;
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseMemberOnly(): void {
+    this.parsePrimary();
+    while (this.eatPunct(".")) this.expectName();
+  }
+
+  private parseArguments(): Array<Node | SpreadNode> {
+    this.expectPunct("(");
+    const args: Array<Node | SpreadNode> = [];
+    while (!this.eatPunct(")")) {
+      args.push(this.eatPunct("...") ? { type: "spread", argument: this.parseAssignment() } : this.parseAssignment());
+      if (!this.isPunct(")")) this.expectPunct(",");
+    }
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "template":
+        return {
+          type: "template",
+          quasis: token.quasis,
+          expressions: token.expressions.map((tokens) => new Parser(tokens).parseStandaloneExpression()),
+        };
+      case "regex":
+        return OPAQUE_NODE;
+      case "name":
+        return this.parseNamePrimary(token.value);
+      case "punct":
+        if (token.value === "(") {
+          const expression = this.parseExpression();
+          this.expectPunct(")");
+          return expression;
+        }
+        if (token.value === "[") return this.parseArrayLiteral();
+        if (token.value === "{") return this.parseObjectLiteral();
+        break;
+      default:
+        break;
+    }
+    throw new Error("Unexpected token.");
+  }
+
+  private parseNamePrimary(name: string): Node {
+    switch (name) {
+      case "true":
+        return { type: "literal", value: true };
+      case "false":
+        return { type: "literal", value: false };
+      case "null":
+        return { type: "literal", value: null };
+      case "this":
+      case "super":
+        return OPAQUE_NODE;
+      case "function": {
+        if (this.eatPunct("*")) {
+          this.skipFunctionRest();
+          return OPAQUE_NODE;
+        }
+        if (this.peek().type === "name") this.pos += 1;
+        return this.parseFunctionRest();
+      }
+      case "async":
+        if (this.isName("function")) return this.parsePrimary();
+        break;
+      case "class":
+        throw new Error("Class expressions are not evaluated.");
+      default:
+        break;
+    }
+    return { type: "identifier", name };
+  }
+
+  private parseArrayLiteral(): Node {
+    const elements: Array<Node | SpreadNode | null> = [];
+    while (!this.eatPunct("]")) {
+      if (this.eatPunct(",")) {
+        elements.push(null);
+        continue;
+      }
+      elements.push(this.eatPunct("...") ? { type: "spread", argument: this.parseAssignment() } : this.parseAssignment());
+      if (!this.isPunct("]")) this.expectPunct(",");
+    }
+    return { type: "array", elements };
+  }
+
+  private parseObjectLiteral(): Node {
+    const properties: Array<PropertyNode | SpreadNode> = [];
+    while (!this.eatPunct("}")) {
+      if (this.eatPunct("...")) {
+        properties.push({ type: "spread", argument: this.parseAssignment() });
+      } else {
+        // `get`, `set` and `async` only prefix a method when a key follows.
+        if ((this.isName("get") || this.isName("set") || this.isName("async")) &&
+            !this.isPunct(",", 1) && !this.isPunct(":", 1) && !this.isPunct("(", 1) && !this.isPunct("}", 1)) {
+          this.pos += 1;
+        }
+        this.eatPunct("*");
+        const keyToken = this.peek();
+        const key = this.parsePropertyKey();
+        let value: Node;
+        if (this.eatPunct(":")) {
+          value = this.parseAssignment();
+        } else if (this.isPunct("(")) {
+          value = this.parseFunctionRest();
+        } else if (keyToken.type === "name") {
+          value = { type: "identifier", name: keyToken.value };
+        } else {
+          throw new Error("Unexpected object property.");
+        }
+        properties.push({ type: "property", key, value });
+      }
+      if (!this.isPunct("}")) this.expectPunct(",");
+    }
+    return { type: "object", properties };
+  }
+
+  // Token helpers -----------------------------------------------------------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.pos < this.tokens.length - 1) this.pos += 1;
+    return token;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "punct" && token.value === value;
+  }
+
+  private isName(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "name" && token.value === value;
+  }
+
+  private eatPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.pos += 1;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.eatPunct(value)) throw new Error(`Expected '${value}'.`);
+  }
+
+  private expectName(value?: string): string {
+    const token = this.next();
+    if (token.type !== "name" || (value !== undefined && token.value !== value)) {
+      throw new Error(`Expected ${value ?? "a name"}.`);
+    }
+    return token.value;
+  }
+
+  private expectString(): string {
+    const token = this.next();
+    if (token.type !== "string") throw new Error("Expected a string.");
+    return token.value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+
+/** A value the static evaluation cannot know, such as a prop or an import. */
+class Opaque {
+  constructor(readonly name: string | null = null, readonly module: string | null = null) {}
+}
+
+class Closure {
+  constructor(readonly fn: FunctionNode, readonly scope: Scope) {}
+}
+
+class Builtin {
+  constructor(
+    readonly call: (args: Value[], interpreter: Interpreter) => Value,
+    readonly properties: ObjectValue | null = null,
+  ) {}
+}
+
+class BoundMethod {
+  constructor(readonly receiver: string | number | Value[], readonly name: string) {}
+}
+
+class VNode {
+  constructor(readonly type: Value, readonly props: ObjectValue, readonly children: Value[]) {}
+}
+
+type Value =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | symbol
+  | Value[]
+  | ObjectValue
+  | Opaque
+  | Closure
+  | Builtin
+  | BoundMethod
+  | VNode;
+
+interface ObjectValue {
+  [key: string]: Value;
+}
+
+const UNKNOWN = new Opaque();
+const FRAGMENT = Symbol("Fragment");
+
+class Scope {
+  private readonly bindings = new Map<string, Value>();
+
+  constructor(private readonly parent: Scope | null) {}
+
+  has(name: string): boolean {
+    return this.bindings.has(name) || (this.parent?.has(name) ?? false);
+  }
+
+  get(name: string): Value {
+    if (this.bindings.has(name)) return this.bindings.get(name);
+    return this.parent ? this.parent.get(name) : undefined;
+  }
+
+  declare(name: string, value: Value): void {
+    this.bindings.set(name, value);
+  }
+
+  assign(name: string, value: Value): void {
+    if (this.bindings.has(name) || !this.parent) {
+      this.bindings.set(name, value);
+    } else {
+      this.parent.assign(name, value);
+    }
+  }
+}
+
+type Completion = { returned: boolean; value: Value };
+
+class Interpreter {
+  private steps = 0;
+  private depth = 0;
+  private idCounter = 0;
+  private readonly globals = new Scope(null);
+  /** Components declared at the top level of any code block, by name. */
+  private readonly components = new Map<string, Value>();
+
+  constructor(private readonly componentMap: ComponentMap) {
+    for (const [name, value] of Object.entries(createGlobals())) {
+      this.globals.declare(name, value);
+    }
+  }
+
+  /** Evaluates a module and returns the value to render: its default export, a trailing JSX expression or its last component. */
+  runProgram(program: Statement[]): Value {
+    const scope = new Scope(this.globals);
+    let defaultExport: Value = undefined;
+    let lastElement: Value = undefined;
+    let lastComponent: Value = undefined;
+
+    this.hoistFunctions(program, scope);
+    const topLevel = program.flatMap((statement) => (statement.type === "block" ? statement.body : [statement]));
+    for (const statement of topLevel) {
+      switch (statement.type) {
+        case "import":
+          for (const binding of statement.bindings) {
+            scope.declare(binding.local, this.resolveImport(statement.module, binding.imported, binding.local));
+          }
+          break;
+        case "declare":
+          this.executeStatement(statement, scope);
+          for (const { target } of statement.declarations) {
+            if (target.type === "identifier" && isComponentName(target.name) && scope.get(target.name) instanceof Closure) {
+              lastComponent = scope.get(target.name);
+              this.components.set(target.name, lastComponent);
+            }
+          }
+          break;
+        case "functionDeclaration":
+          if (isComponentName(statement.name)) {
+            lastComponent = scope.get(statement.name);
+            this.components.set(statement.name, lastComponent);
+          }
+          break;
+        case "exportDefault":
+          defaultExport = this.evaluate(statement.value, scope);
+          break;
+        case "exportNames":
+          for (const specifier of statement.specifiers) {
+            if (specifier.exported === "default") defaultExport = scope.get(specifier.local);
+          }
+          break;
+        case "expression": {
+          if (isJsxCall(statement.expression)) {
+            lastElement = this.evaluate(statement.expression, scope);
+          } else {
+            this.executeStatement(statement, scope);
+          }
+          break;
+        }
+        case "if":
+        case "skip":
+          this.executeStatement(statement, scope);
+          break;
+        default:
+          break;
+      }
+    }
+    return defaultExport ?? lastElement ?? lastComponent;
+  }
+
+  renderRoot(root: Value): string {
+    if (root instanceof Closure) return this.renderNode(new VNode(root, createObject(), []));
+    return this.render(root);
+  }
+
+  // Statements --------------------------------------------------------------
+
+  private hoistFunctions(statements: Statement[], scope: Scope): void {
+    for (const statement of statements) {
+      if (statement.type === "functionDeclaration") {
+        scope.declare(statement.name, new Closure(statement.fn, scope));
+      } else if (statement.type === "block" && statement.body.some((inner) => inner.type === "exportDefault")) {
+        // `export default function Name` keeps its declaration in a block.
+        this.hoistFunctions(statement.body, scope);
+      }
+    }
+  }
+
+  private execute(statements: Statement[], scope: Scope): Completion {
+    this.hoistFunctions(statements, scope);
+    for (const statement of statements) {
+      const completion = this.executeStatement(statement, scope);
+      if (completion.returned) return completion;
+    }
+    return { returned: false, value: undefined };
+  }
+
+  private executeStatement(statement: Statement, scope: Scope): Completion {
+    this.tick();
+    switch (statement.type) {
+      case "declare":
+        for (const { target, init } of statement.declarations) {
+          this.bindPattern(target, init ? this.evaluate(init, scope) : undefined, scope);
+        }
+        break;
+      case "return":
+        return { returned: true, value: statement.argument ? this.evaluate(statement.argument, scope) : undefined };
+      case "if": {
+        const branch = isTruthy(this.evaluate(statement.test, scope)) ? statement.consequent : statement.alternate;
+        if (branch) return this.executeStatement(branch, scope);
+        break;
+      }
+      case "block":
+        return this.execute(statement.body, new Scope(scope));
+      case "expression":
+        // Only assignments matter for rendering; effects and handlers are skipped.
+        if (statement.expression.type === "assign") this.evaluate(statement.expression, scope);
+        else this.forgetAssigned(statement.assigned, scope);
+        break;
+      case "skip":
+        this.forgetAssigned(statement.assigned ?? [], scope);
+        break;
+      default:
+        break;
+    }
+    return { returned: false, value: undefined };
+  }
+
+  /** Code that was not run may have changed these, so their values are no longer known. */
+  private forgetAssigned(names: string[], scope: Scope): void {
+    for (const name of names) {
+      if (scope.has(name)) scope.assign(name, UNKNOWN);
+    }
+  }
+
+  private bindPattern(pattern: Pattern, value: Value, scope: Scope, assign = false): void {
+    switch (pattern.type) {
+      case "identifier":
+        if (assign) scope.assign(pattern.name, value);
+        else scope.declare(pattern.name, value);
+        return;
+      case "defaultPattern":
+        this.bindPattern(pattern.target, value === undefined ? this.evaluate(pattern.value, scope) : value, scope, assign);
+        return;
+      case "objectPattern": {
+        const used = new Set<string>();
+        for (const property of pattern.properties) {
+          const key = typeof property.key === "string" ? property.key : toPropertyKey(this.evaluate(property.key, scope));
+          if (key === null) continue;
+          used.add(key);
+          this.bindPattern(property.value, this.getProperty(value, key), scope, assign);
+        }
+        if (pattern.rest) {
+          const rest = createObject();
+          if (isPlainObject(value)) {
+            for (const [key, entry] of Object.entries(value)) {
+              if (!used.has(key)) rest[key] = entry;
+            }
+          }
+          this.bindPattern(pattern.rest, isPlainObject(value) ? rest : UNKNOWN, scope, assign);
+        }
+        return;
+      }
+      case "arrayPattern": {
+        const items = Array.isArray(value) ? value : null;
+        pattern.elements.forEach((element, index) => {
+          if (element) this.bindPattern(element, items ? items[index] : UNKNOWN, scope, assign);
+        });
+        if (pattern.rest) {
+          this.bindPattern(pattern.rest, items ? items.slice(pattern.elements.length) : UNKNOWN, scope, assign);
+        }
+        return;
+      }
+    }
+  }
+
+  // Expressions -------------------------------------------------------------
+
+  private evaluate(node: Node, scope: Scope): Value {
+    this.tick();
+    switch (node.type) {
+      case "literal":
+        return node.value;
+      case "template":
+        return node.quasis.reduce(
+          (text, quasi, index) => text + quasi + (index < node.expressions.length ? toText(this.evaluate(node.expressions[index], scope)) : ""),
+          "",
+        );
+      case "identifier":
+        if (scope.has(node.name)) return scope.get(node.name);
+        if (node.name === "undefined") return undefined;
+        if (node.name === "NaN") return NaN;
+        if (node.name === "Infinity") return Infinity;
+        return this.components.get(node.name) ?? new Opaque(node.name);
+      case "array": {
+        const items: Value[] = [];
+        for (const element of node.elements) {
+          if (element === null) {
+            items.push(undefined);
+          } else if (element.type === "spread") {
+            items.push(...this.spreadItems(this.evaluate(element.argument, scope)));
+          } else {
+            items.push(this.evaluate(element, scope));
+          }
+          this.checkLength(items);
+        }
+        return items;
+      }
+      case "object": {
+        const object = createObject();
+        for (const property of node.properties) {
+          if (property.type === "spread") {
+            const source = this.evaluate(property.argument, scope);
+            if (isPlainObject(source)) Object.assign(object, source);
+            else if (Array.isArray(source)) source.forEach((item, index) => { object[String(index)] = item; });
+            continue;
+          }
+          const key = typeof property.key === "string" ? property.key : toPropertyKey(this.evaluate(property.key, scope));
+          if (key !== null) object[key] = this.evaluate(property.value, scope);
+        }
+        return object;
+      }
+      case "function":
+        return new Closure(node, scope);
+      case "unary":
+        return this.evaluateUnary(node.operator, this.evaluate(node.argument, scope));
+      case "binary":
+        return this.evaluateBinary(node.operator, node.left, node.right, scope);
+      case "conditional":
+        return this.evaluate(isTruthy(this.evaluate(node.test, scope)) ? node.consequent : node.alternate, scope);
+      case "member": {
+        const object = this.evaluate(node.object, scope);
+        if (node.optional && (object === null || object === undefined)) return undefined;
+        const key = typeof node.property === "string" ? node.property : toPropertyKey(this.evaluate(node.property, scope));
+        return key === null ? UNKNOWN : this.getProperty(object, key);
+      }
+      case "call": {
+        const callee = this.evaluate(node.callee, scope);
+        if (node.optional && (callee === null || callee === undefined)) return undefined;
+        const args: Value[] = [];
+        for (const arg of node.args) {
+          if (arg.type === "spread") args.push(...this.spreadItems(this.evaluate(arg.argument, scope)));
+          else args.push(this.evaluate(arg, scope));
+        }
+        return this.call(callee, args);
+      }
+      case "assign":
+        return this.evaluateAssignment(node.operator, node.target, node.value, scope);
+      case "sequence": {
+        let value: Value = undefined;
+        for (const expression of node.expressions) value = this.evaluate(expression, scope);
+        return value;
+      }
+      case "opaque":
+        return UNKNOWN;
+    }
+  }
+
+  private evaluateUnary(operator: string, value: Value): Value {
+    switch (operator) {
+      case "!":
+        return !isTruthy(value);
+      case "typeof":
+        return typeOf(value);
+      case "void":
+        return undefined;
+      case "delete":
+        return true;
+      case "await":
+        return value;
+      default:
+        if (!isPrimitive(value)) return UNKNOWN;
+        if (operator === "-") return -Number(value);
+        if (operator === "+") return Number(value);
+        return ~Number(value);
+    }
+  }
+
+  private evaluateBinary(operator: string, leftNode: Node, rightNode: Node, scope: Scope): Value {
+    const left = this.evaluate(leftNode, scope);
+    if (operator === "&&") return isTruthy(left) ? this.evaluate(rightNode, scope) : left;
+    if (operator === "||") return isTruthy(left) ? left : this.evaluate(rightNode, scope);
+    if (operator === "??") return isNullish(left) ? this.evaluate(rightNode, scope) : left;
+
+    const right = this.evaluate(rightNode, scope);
+    if (operator === "===" || operator === "==") return !(left instanceof Opaque) && left === right;
+    if (operator === "!==" || operator === "!=") return left instanceof Opaque || left !== right;
+    if (operator === "+" && (typeof left === "string" || typeof right === "string")) {
+      return toText(left) + toText(right);
+    }
+    if (!isPrimitive(left) || !isPrimitive(right)) return UNKNOWN;
+    return applyArithmetic(operator, left, right);
+  }
+
+  private evaluateAssignment(operator: string, target: Node, valueNode: Node, scope: Scope): Value {
+    let value: Value;
+    if (operator === "=") {
+      value = this.evaluate(valueNode, scope);
+    } else {
+      const binaryOperator = operator.slice(0, -1);
+      value = this.evaluateBinary(binaryOperator, target, valueNode, scope);
+    }
+    if (target.type === "identifier") {
+      scope.assign(target.name, value);
+    } else if (target.type === "member") {
+      const object = this.evaluate(target.object, scope);
+      const key = typeof target.property === "string" ? target.property : toPropertyKey(this.evaluate(target.property, scope));
+      if (key !== null && isPlainObject(object)) object[key] = value;
+    }
+    return value;
+  }
+
+  private spreadItems(value: Value): Value[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value === "string") return Array.from(value);
+    return [];
+  }
+
+  private getProperty(object: Value, key: string): Value {
+    if (typeof object === "string") {
+      if (key === "length") return object.length;
+      if (/^\d+$/.test(key)) return object[Number(key)];
+      return key in STRING_METHODS ? new BoundMethod(object, key) : undefined;
+    }
+    if (typeof object === "number") {
+      return key in NUMBER_METHODS ? new BoundMethod(object, key) : undefined;
+    }
+    if (Array.isArray(object)) {
+      if (key === "length") return object.length;
+      if (/^\d+$/.test(key)) return object[Number(key)];
+      return key in ARRAY_METHODS ? new BoundMethod(object, key) : undefined;
+    }
+    if (isPlainObject(object)) {
+      return Object.hasOwn(object, key) ? object[key] : undefined;
+    }
+    if (object instanceof Builtin) {
+      return object.properties && Object.hasOwn(object.properties, key) ? object.properties[key] : undefined;
+    }
+    if (object instanceof Opaque) {
+      return object.name ? new Opaque(`${object.name}.${key}`, object.module) : UNKNOWN;
+    }
+    return UNKNOWN;
+  }
+
+  call(callee: Value, args: Value[]): Value {
+    this.tick();
+    if (callee instanceof Closure) return this.callClosure(callee, args);
+    if (callee instanceof Builtin) return callee.call(args, this);
+    if (callee instanceof BoundMethod) return this.callMethod(callee, args);
+    return UNKNOWN;
+  }
+
+  private callClosure(closure: Closure, args: Value[]): Value {
+    if (this.depth >= MAX_CALL_DEPTH) throw new Error("JSX evaluation exceeded the call depth limit.");
+    this.depth += 1;
+    try {
+      const scope = new Scope(closure.scope);
+      closure.fn.params.forEach((param, index) => this.bindPattern(param, args[index], scope));
+      if (closure.fn.rest) this.bindPattern(closure.fn.rest, args.slice(closure.fn.params.length), scope);
+      if (Array.isArray(closure.fn.body)) return this.execute(closure.fn.body, scope).value;
+      return this.evaluate(closure.fn.body, scope);
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private callMethod(method: BoundMethod, args: Value[]): Value {
+    const { receiver, name } = method;
+    if (typeof receiver === "string") return STRING_METHODS[name](receiver, args, this);
+    if (typeof receiver === "number") return NUMBER_METHODS[name](receiver, args, this);
+    return ARRAY_METHODS[name](receiver, args, this);
+  }
+
+  private resolveImport(module: string, imported: string, local: string): Value {
+    if (module === "react") {
+      const react = this.globals.get("React") as Builtin;
+      if (imported === "default" || imported === "*") return react;
+      return react.properties?.[imported] ?? new Opaque(local, module);
+    }
+    if (CLASS_HELPERS.has(imported) || (imported === "default" && CLASS_HELPERS.has(local))) {
+      return this.globals.get("cn");
+    }
+    return new Opaque(local, module);
+  }
+
+  nextId(): string {
+    this.idCounter += 1;
+    return `arena-id-${this.idCounter}`;
+  }
+
+  checkLength(items: Value[]): void {
+    if (items.length > MAX_ARRAY_LENGTH) throw new Error("JSX evaluation built an oversized list.");
+  }
+
+  tick(): void {
+    this.steps += 1;
+    if (this.steps > MAX_STEPS) throw new Error("JSX evaluation exceeded its step budget.");
+  }
+
+  // Rendering ---------------------------------------------------------------
+
+  render(value: Value): string {
+    if (typeof value === "string") return escapeText(value);
+    if (typeof value === "number") return String(value);
+    if (Array.isArray(value)) return value.map((item) => this.render(item)).join("");
+    if (value instanceof VNode) return this.renderNode(value);
+    return "";
+  }
+
+  private renderNode(node: VNode): string {
+    this.tick();
+    const { type, props } = node;
+    const content: Value = node.children.length > 0 ? node.children : props.children;
+
+    if (type === FRAGMENT) return this.render(content);
+    if (typeof type === "string") return this.renderElement(type, props, content);
+    if (type instanceof Closure) {
+      const componentProps = createObject();
+      Object.assign(componentProps, props);
+      if (node.children.length > 0) componentProps.children = node.children.length === 1 ? node.children[0] : node.children;
+      return this.render(this.callClosure(type, [componentProps]));
+    }
+    if (type instanceof Opaque) return this.renderMapped(type, props, content);
+    return this.render(content);
+  }
+
+  private renderMapped(component: Opaque, props: ObjectValue, content: Value): string {
+    const name = component.name ?? "";
+    const declared = this.components.get(name);
+    if (declared instanceof Closure) return this.renderNode(new VNode(declared, props, Array.isArray(content) ? content : content === undefined ? [] : [content]));
+
+    const mapping = this.componentMap.components?.[name] ??
+      (component.module ? this.componentMap.modules?.[component.module] : undefined) ??
+      intrinsicMember(name);
+    if (!mapping) {
+      const fallback = createObject();
+      fallback.className = props.className;
+      fallback["data-component"] = name || null;
+      return this.renderElement(this.componentMap.fallbackTag ?? "div", fallback, content);
+    }
+    if (mapping.drop) return "";
+
+    const className = joinClasses([mapping.class, props.className]);
+    if (isTruthy(props.asChild)) {
+      // shadcn's asChild renders the single child with the component's classes.
+      const child = (Array.isArray(content) ? content : [content]).find((item) => item instanceof VNode);
+      if (child instanceof VNode) {
+        const childProps = createObject();
+        Object.assign(childProps, child.props);
+        childProps.className = joinClasses([className, child.props.className]);
+        return this.renderNode(new VNode(child.type, childProps, child.children));
+      }
+    }
+    if (mapping.tag === null) return this.render(content);
+
+    const attributes = createObject();
+    for (const [key, value] of Object.entries(props)) {
+      if (key === "asChild" || mapping.omit?.includes(key)) continue;
+      if (mapping.keep && !mapping.keep.includes(key) && key !== "children") continue;
+      attributes[key] = value;
+    }
+    attributes.className = className || null;
+    return this.renderElement(mapping.tag ?? this.componentMap.fallbackTag ?? "div", attributes, content);
+  }
+
+  private renderElement(tag: string, props: ObjectValue, content: Value): string {
+    const isSvg = SVG_TAGS.has(tag.toLowerCase());
+    let inner: string | null = null;
+    let attributes = "";
+    for (const [name, value] of Object.entries(props)) {
+      if (name === "children" || name === "key" || name === "ref") continue;
+      if (name === "dangerouslySetInnerHTML") {
+        // Raw markup, like React would insert it; the sanitizer runs afterwards.
+        if (isPlainObject(value) && typeof value.__html === "string") inner = value.__html;
+        continue;
+      }
+      const attribute = attributeName(name, isSvg);
+      const text = attribute === null ? null : attributeValue(attribute, value);
+      if (attribute === null || text === null) continue;
+      attributes += value === true && !/^(?:aria|data)-/.test(attribute) ? ` ${attribute}` : ` ${attribute}="${escapeAttribute(text)}"`;
+    }
+    if (VOID_TAGS.has(tag)) return `<${tag}${attributes}>`;
+    return `<${tag}${attributes}>${inner ?? this.render(content)}</${tag}>`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Built-in functions
+
+type Method<T> = (receiver: T, args: Value[], interpreter: Interpreter) => Value;
+
+const STRING_METHODS: Record<string, Method<string>> = {
+  toUpperCase: (text) => text.toUpperCase(),
+  toLowerCase: (text) => text.toLowerCase(),
+  trim: (text) => text.trim(),
+  trimStart: (text) => text.trimStart(),
+  trimEnd: (text) => text.trimEnd(),
+  toString: (text: string) => text,
+  charAt: (text, [index]) => text.charAt(toNumber(index)),
+  at: (text, [index]) => text.at(toNumber(index)),
+  slice: (text, [start, end]) => text.slice(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  substring: (text, [start, end]) => text.substring(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  includes: (text, [search]) => typeof search === "string" && text.includes(search),
+  startsWith: (text, [search]) => typeof search === "string" && text.startsWith(search),
+  endsWith: (text, [search]) => typeof search === "string" && text.endsWith(search),
+  indexOf: (text, [search]) => (typeof search === "string" ? text.indexOf(search) : -1),
+  concat: (text, args) => text + args.map(toText).join(""),
+  padStart: (text, [length, fill]) => text.padStart(Math.min(toNumber(length), MAX_ARRAY_LENGTH), typeof fill === "string" ? fill : " "),
+  padEnd: (text, [length, fill]) => text.padEnd(Math.min(toNumber(length), MAX_ARRAY_LENGTH), typeof fill === "string" ? fill : " "),
+  repeat: (text, [count]) => (text.length * toNumber(count) <= MAX_ARRAY_LENGTH ? text.repeat(Math.max(0, toNumber(count))) : UNKNOWN),
+  split: (text, [separator, limit], interpreter) => {
+    if (typeof separator !== "string") return UNKNOWN;
+    const parts = text.split(separator, limit === undefined ? undefined : toNumber(limit));
+    interpreter.checkLength(parts);
+    return parts;
+  },
+  replace: (text, [pattern, replacement]) =>
+    typeof pattern === "string" && typeof replacement === "string" ? text.replace(pattern, () => replacement) : UNKNOWN,
+  replaceAll: (text, [pattern, replacement]) =>
+    typeof pattern === "string" && typeof replacement === "string" ? text.split(pattern).join(replacement) : UNKNOWN,
+};
+
+const NUMBER_METHODS: Record<string, Method<number>> = {
+  toString: (value: number) => String(value),
+  toFixed: (value, [digits]) => value.toFixed(Math.min(Math.max(toNumber(digits), 0), 20)),
+  toLocaleString: (value: number) => value.toLocaleString("en-US"),
+};
+
+const ARRAY_METHODS: Record<string, Method<Value[]>> = {
+  map: (items, [fn], interpreter) => items.map((item, index) => interpreter.call(fn, [item, index, items])),
+  filter: (items, [fn], interpreter) => items.filter((item, index) => isTruthy(interpreter.call(fn, [item, index, items]))),
+  find: (items, [fn], interpreter) => items.find((item, index) => isTruthy(interpreter.call(fn, [item, index, items]))),
+  findIndex: (items, [fn], interpreter) => items.findIndex((item, index) => isTruthy(interpreter.call(fn, [item, index, items]))),
+  some: (items, [fn], interpreter) => items.some((item, index) => isTruthy(interpreter.call(fn, [item, index, items]))),
+  every: (items, [fn], interpreter) => items.every((item, index) => isTruthy(interpreter.call(fn, [item, index, items]))),
+  forEach: () => undefined,
+  flatMap: (items, [fn], interpreter) => {
+    const result = items.flatMap((item, index) => {
+      const mapped = interpreter.call(fn, [item, index, items]);
+      return Array.isArray(mapped) ? mapped : [mapped];
+    });
+    interpreter.checkLength(result);
+    return result;
+  },
+  reduce: (items, [fn, initial], interpreter) =>
+    items.reduce<Value>((accumulator, item, index) => interpreter.call(fn, [accumulator, item, index, items]), initial),
+  flat: (items, _args, interpreter) => {
+    const result = items.flatMap((item) => (Array.isArray(item) ? item : [item]));
+    interpreter.checkLength(result);
+    return result;
+  },
+  includes: (items, [search]) => items.includes(search),
+  indexOf: (items, [search]) => items.indexOf(search),
+  join: (items, [separator]) => items.map((item) => (isNullish(item) ? "" : toText(item))).join(separator === undefined ? "," : toText(separator)),
+  slice: (items, [start, end]) => items.slice(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  concat: (items, args, interpreter) => {
+    const result = items.concat(...args.map((arg) => (Array.isArray(arg) ? arg : [arg])));
+    interpreter.checkLength(result);
+    return result;
+  },
+  reverse: (items) => [...items].reverse(),
+  at: (items, [index]) => items.at(toNumber(index)),
+};
+
+function createGlobals(): ObjectValue {
+  const noop = new Builtin(() => undefined);
+  const jsx = new Builtin((args) => {
+    const [type, props, ...children] = args;
+    const ownProps = createObject();
+    if (isPlainObject(props)) Object.assign(ownProps, props);
+    return new VNode(type, ownProps, children);
+  });
+  const classHelper = new Builtin((args) => joinClasses(args));
+  const hooks = createObject();
+  Object.assign(hooks, {
+    useState: new Builtin(([initial], interpreter) => [
+      initial instanceof Closure ? interpreter.call(initial, []) : initial,
+      noop,
+    ]),
+    useReducer: new Builtin(([, initial]) => [initial, noop]),
+    useMemo: new Builtin(([factory], interpreter) => interpreter.call(factory, [])),
+    useCallback: new Builtin(([fn]) => fn),
+    useRef: new Builtin(([initial]) => {
+      const ref = createObject();
+      ref.current = initial;
+      return ref;
+    }),
+    useId: new Builtin((_args, interpreter) => interpreter.nextId()),
+    useEffect: noop,
+    useLayoutEffect: noop,
+    useContext: new Builtin(() => UNKNOWN),
+    forwardRef: new Builtin(([fn]) => fn),
+    memo: new Builtin(([component]) => component),
+    createElement: jsx,
+    Fragment: FRAGMENT,
+  });
+
+  const globals = createObject();
+  Object.assign(globals, hooks, {
+    [JSX_FACTORY]: jsx,
+    [JSX_FRAGMENT]: FRAGMENT,
+    React: new Builtin(() => UNKNOWN, hooks),
+    String: new Builtin(([value]) => toText(value)),
+    Number: new Builtin(([value]) => (isPrimitive(value) ? Number(value) : UNKNOWN)),
+    Boolean: new Builtin(([value]) => isTruthy(value)),
+    Array: new Builtin(
+      ([length]) => (typeof length === "number" && length <= MAX_ARRAY_LENGTH ? Array.from({ length }, () => undefined) : UNKNOWN),
+      objectFrom({
+        isArray: new Builtin(([value]) => Array.isArray(value)),
+        of: new Builtin((args) => args),
+        from: new Builtin(([source, fn], interpreter) => {
+          let items: Value[];
+          if (Array.isArray(source) || typeof source === "string") {
+            items = Array.from(source);
+          } else if (isPlainObject(source) && typeof source.length === "number" && source.length <= MAX_ARRAY_LENGTH) {
+            items = Array.from({ length: source.length }, () => undefined);
+          } else {
+            return UNKNOWN;
+          }
+          interpreter.checkLength(items);
+          return fn === undefined ? items : items.map((item, index) => interpreter.call(fn, [item, index]));
+        }),
+      }),
+    ),
+    Object: new Builtin(() => UNKNOWN, objectFrom({
+      keys: new Builtin(([value]) => (isPlainObject(value) ? Object.keys(value) : [])),
+      values: new Builtin(([value]) => (isPlainObject(value) ? Object.values(value) : [])),
+      entries: new Builtin(([value]) => (isPlainObject(value) ? Object.entries(value) : [])),
+      fromEntries: new Builtin(([entries]) => {
+        const object = createObject();
+        if (Array.isArray(entries)) {
+          for (const entry of entries) {
+            if (Array.isArray(entry) && typeof entry[0] === "string") object[entry[0]] = entry[1];
+          }
+        }
+        return object;
+      }),
+    })),
+    Math: objectFrom({
+      min: new Builtin((args) => (args.every((arg) => typeof arg === "number") ? Math.min(...(args as number[])) : UNKNOWN)),
+      max: new Builtin((args) => (args.every((arg) => typeof arg === "number") ? Math.max(...(args as number[])) : UNKNOWN)),
+      round: new Builtin(([value]) => (typeof value === "number" ? Math.round(value) : UNKNOWN)),
+      floor: new Builtin(([value]) => (typeof value === "number" ? Math.floor(value) : UNKNOWN)),
+      ceil: new Builtin(([value]) => (typeof value === "number" ? Math.ceil(value) : UNKNOWN)),
+      abs: new Builtin(([value]) => (typeof value === "number" ? Math.abs(value) : UNKNOWN)),
+    }),
+  });
+  for (const helper of CLASS_HELPERS) {
+    globals[helper] = classHelper;
+  }
+  return globals;
+}
+
+// ---------------------------------------------------------------------------
+// Value helpers
+
+function createObject(): ObjectValue {
+  return Object.create(null) as ObjectValue;
+}
+
+function objectFrom(entries: Record<string, Value>): ObjectValue {
+  return Object.assign(createObject(), entries);
+}
+
+function isPlainObject(value: Value): value is ObjectValue {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && Object.getPrototypeOf(value) === null;
+}
+
+function isPrimitive(value: Value): value is string | number | boolean | null | undefined {
+  return value === null || value === undefined || ["string", "number", "boolean"].includes(typeof value);
+}
+
+function isNullish(value: Value): boolean {
+  return value === null || value === undefined || value instanceof Opaque;
+}
+
+/** Opaque values count as false, so conditional UI renders its initial, closed state. */
+function isTruthy(value: Value): boolean {
+  if (value instanceof Opaque) return false;
+  if (isPrimitive(value)) return Boolean(value);
+  return true;
+}
+
+function typeOf(value: Value): string {
+  if (value instanceof Opaque) return "undefined";
+  if (value instanceof Closure || value instanceof Builtin || value instanceof BoundMethod) return "function";
+  if (value === null || Array.isArray(value) || value instanceof VNode) return "object";
+  return typeof value;
+}
+
+function toText(value: Value): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean" || value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return value.map((item) => (isNullish(item) ? "" : toText(item))).join(",");
+  return "";
+}
+
+function toNumber(value: Value): number {
+  return typeof value === "number" ? value : isPrimitive(value) ? Number(value) || 0 : 0;
+}
+
+function toPropertyKey(value: Value): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+function applyArithmetic(operator: string, left: string | number | boolean | null | undefined, right: string | number | boolean | null | undefined): Value {
+  const a = Number(left);
+  const b = Number(right);
+  switch (operator) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "*": return a * b;
+    case "/": return a / b;
+    case "%": return a % b;
+    case "**": return a ** b;
+    case "<": return typeof left === "string" && typeof right === "string" ? left < right : a < b;
+    case ">": return typeof left === "string" && typeof right === "string" ? left > right : a > b;
+    case "<=": return typeof left === "string" && typeof right === "string" ? left <= right : a <= b;
+    case ">=": return typeof left === "string" && typeof right === "string" ? left >= right : a >= b;
+    case "&": return a & b;
+    case "|": return a | b;
+    case "^": return a ^ b;
+    case "<<": return a << b;
+    case ">>": return a >> b;
+    case ">>>": return a >>> b;
+    default: return UNKNOWN;
+  }
+}
+
+/** clsx semantics: strings and numbers, arrays recursively, object keys with truthy values. */
+function joinClasses(values: Value[]): string {
+  const classes: string[] = [];
+  for (const value of values) {
+    if (typeof value === "string" || typeof value === "number") {
+      if (String(value).trim()) classes.push(String(value).trim());
+    } else if (Array.isArray(value)) {
+      const nested = joinClasses(value);
+      if (nested) classes.push(nested);
+    } else if (isPlainObject(value)) {
+      for (const [key, enabled] of Object.entries(value)) {
+        if (isTruthy(enabled)) classes.push(key);
+      }
+    }
+  }
+  return classes.join(" ");
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function isJsxCall(node: Node): boolean {
+  return node.type === "call" && node.callee.type === "identifier" && node.callee.name === JSX_FACTORY;
+}
+
+/** `motion.div` and similar wrappers render as the element they wrap. */
+function intrinsicMember(name: string): ComponentMapping | undefined {
+  const match = /\.([a-z][a-z0-9]*)$/.exec(name);
+  return match ? { tag: match[1] } : undefined;
+}
+
+function attributeName(name: string, isSvg: boolean): string | null {
+  if (name === "className") return "class";
+  if (name === "htmlFor") return "for";
+  if (/^on[A-Z]/.test(name)) return null;
+  if (name.includes("-") || name.includes(":")) return name.toLowerCase();
+  if (isSvg && !SVG_CAMEL_ATTRIBUTES.has(name)) return name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+  return name.toLowerCase();
+}
+
+function attributeValue(attribute: string, value: Value): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (typeof value === "boolean") {
+    if (/^(?:aria|data)-/.test(attribute)) return String(value);
+    return value ? "" : null;
+  }
+  return null;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,24 @@
+export const name = "votes";
+
+/**
+ * The original vote store.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS votes (
+      id TEXT PRIMARY KEY,
+      created_at TEXT DEFAULT (datetime('now')),
+      pair_id TEXT NOT NULL,
+      left_variant_id TEXT NOT NULL,
+      right_variant_id TEXT NOT NULL,
+      winner_variant_id TEXT,
+      selection TEXT NOT NULL,
+      scores_json TEXT,
+      notes TEXT,
+      automation_metadata_json TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS votes_pair_id_idx ON votes(pair_id);
+  `);
+}
@@ -0,0 +1,20 @@
+import { addColumnIfMissing } from "./helpers.mjs";
+
+export const name = "vote-sources";
+
+/**
+ * Tag votes with where they came from, backfilling demo votes (marked by
+ * their "demo" note) and judge votes.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  if (addColumnIfMissing(db, "votes", "source", "TEXT NOT NULL DEFAULT 'human-arena'")) {
+    db.exec(`UPDATE votes SET source = 'human-demo' WHERE notes = 'demo'`);
+    db.exec(`
+      UPDATE votes
+      SET source = 'judge:' || json_extract(automation_metadata_json, '$.judge.model')
+      WHERE json_extract(automation_metadata_json, '$.type') = 'judge'
+    `);
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS votes_source_idx ON votes(source)");
+}
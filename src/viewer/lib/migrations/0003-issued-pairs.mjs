@@ -0,0 +1,29 @@
+import { addColumnIfMissing } from "./helpers.mjs";
+
+export const name = "issued-pairs";
+
+/**
+ * Record who voted and persist issued arena pairs.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  addColumnIfMissing(db, "votes", "voter_id", "TEXT");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pairs (
+      id TEXT PRIMARY KEY,
+      left_variant_id TEXT NOT NULL,
+      right_variant_id TEXT NOT NULL,
+      left_token TEXT NOT NULL,
+      right_token TEXT NOT NULL,
+      strategy TEXT,
+      voter_id TEXT,
+      issued_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      vote_id TEXT REFERENCES votes(id),
+      voted_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS pairs_expires_at_idx ON pairs(expires_at);
+    CREATE INDEX IF NOT EXISTS votes_voter_id_idx ON votes(voter_id);
+  `);
+}
@@ -0,0 +1,27 @@
+export const name = "voter-sessions";
+
+/**
+ * Anonymous voter sessions and the demo variants served to each.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_seen_at TEXT DEFAULT (datetime('now')),
+      ip TEXT,
+      user_agent TEXT,
+      excluded_at TEXT,
+      excluded_reason TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS demo_variants (
+      variant_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      run_id TEXT NOT NULL,
+      issued_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (session_id, variant_id)
+    );
+  `);
+}
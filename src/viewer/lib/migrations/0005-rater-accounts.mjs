@@ -0,0 +1,21 @@
+import { addColumnIfMissing } from "./helpers.mjs";
+
+export const name = "rater-accounts";
+
+/**
+ * Local rater accounts, signed in per session and attributed on votes.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+  addColumnIfMissing(db, "sessions", "user_id", "TEXT");
+  addColumnIfMissing(db, "votes", "user_id", "TEXT");
+  db.exec("CREATE INDEX IF NOT EXISTS votes_user_id_idx ON votes(user_id)");
+}
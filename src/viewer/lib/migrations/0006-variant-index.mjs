@@ -0,0 +1,47 @@
+export const name = "variant-index";
+
+/**
+ * Index of run folders and their variants, refreshed from file mtimes so
+ * startup does not re-read and re-extract every response. Rows of deleted
+ * folders are kept with `removed_at` so old votes still resolve to a model.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      folder TEXT PRIMARY KEY,
+      run_id TEXT NOT NULL,
+      timestamp TEXT,
+      description TEXT,
+      meta_json TEXT NOT NULL,
+      meta_mtime_ms REAL NOT NULL,
+      indexed_at TEXT DEFAULT (datetime('now')),
+      removed_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS variants (
+      variant_key TEXT PRIMARY KEY,
+      run_folder TEXT NOT NULL,
+      dir_name TEXT NOT NULL,
+      provider TEXT,
+      model TEXT,
+      label TEXT,
+      metadata_json TEXT NOT NULL,
+      metadata_mtime_ms REAL NOT NULL,
+      response_path TEXT NOT NULL,
+      response_mtime_ms REAL NOT NULL,
+      content_hash TEXT NOT NULL,
+      source_text TEXT NOT NULL,
+      primary_html TEXT NOT NULL,
+      primary_raw TEXT NOT NULL,
+      analysis_json TEXT NOT NULL,
+      analysis_mtime_ms REAL,
+      indexed_at TEXT DEFAULT (datetime('now')),
+      removed_at TEXT,
+      UNIQUE (run_folder, dir_name)
+    );
+
+    CREATE INDEX IF NOT EXISTS variants_model_idx ON variants(provider, model);
+    CREATE INDEX IF NOT EXISTS variants_content_hash_idx ON variants(content_hash);
+  `);
+}
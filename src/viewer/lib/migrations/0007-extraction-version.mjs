@@ -0,0 +1,12 @@
+import { addColumnIfMissing } from "./helpers.mjs";
+
+export const name = "extraction-version";
+
+/**
+ * Track which hero extraction produced each indexed variant's markup, so a
+ * sanitizer change re-extracts rows that were indexed before it.
+ * @param {import("better-sqlite3").Database} db
+ */
+export function up(db) {
+  addColumnIfMissing(db, "variants", "extraction_version", "INTEGER NOT NULL DEFAULT 0");
+}
@@ -0,0 +1,18 @@
+/**
+ * Databases created before versioning may already have a column, so
+ * migrations add columns only where missing.
+ *
+ * @param {import("better-sqlite3").Database} db
+ * @param {string} table
+ * @param {string} name
+ * @param {string} definition
+ * @returns {boolean} Whether the column was added.
+ */
+export function addColumnIfMissing(db, table, name, definition) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+  if (columns.some((column) => column.name === name)) {
+    return false;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  return true;
+}
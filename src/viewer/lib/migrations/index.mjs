@@ -0,0 +1,29 @@
+import * as votes from "./0001-votes.mjs";
+import * as voteSources from "./0002-vote-sources.mjs";
+import * as issuedPairs from "./0003-issued-pairs.mjs";
+import * as voterSessions from "./0004-voter-sessions.mjs";
+import * as raterAccounts from "./0005-rater-accounts.mjs";
+import * as variantIndex from "./0006-variant-index.mjs";
+import * as extractionVersion from "./0007-extraction-version.mjs";
+
+/**
+ * @typedef {Object} Migration
+ * @property {number} version
+ * @property {string} name
+ * @property {(db: import("better-sqlite3").Database) => void} up
+ */
+
+/**
+ * Every schema change, oldest first. Append new migrations with the next
+ * version; never edit or reorder one that has shipped.
+ * @type {Migration[]}
+ */
+export const MIGRATIONS = [
+  votes,
+  voteSources,
+  issuedPairs,
+  voterSessions,
+  raterAccounts,
+  variantIndex,
+  extractionVersion,
+].map((migration, index) => ({ version: index + 1, name: migration.name, up: migration.up }));
@@ -0,0 +1,134 @@
+export const PAIR_STRATEGIES = ["random", "distinct-models", "same-brief", "active"];
+export const DEFAULT_PAIR_STRATEGY = "random";
+
+const RATING_CLOSENESS_SCALE = 100;
+const RANDOM_SAMPLE_ATTEMPTS = 32;
+
+/**
+ * @typedef {Object} PairingVariant
+ * @property {string} variantKey
+ * @property {string} modelKey Variants of the same model share this key.
+ * @property {string} briefKey Variants answering the same brief share this key.
+ */
+
+/**
+ * @typedef {Object} PairingContext
+ * @property {Set<string>} [seenPairs] Pair keys (see pairKey) this voter already judged.
+ * @property {Map<string, number>} [ratings] Current rating per model key.
+ * @property {Map<string, number>} [matchupCounts] Votes per model pair key.
+ * @property {() => number} [random]
+ */
+
+/**
+ * Pick two variants to compare.
+ *
+ * - `random`: any two variants, uniformly.
+ * - `distinct-models`: never two outputs of the same model.
+ * - `same-brief`: distinct models answering the same run or description.
+ * - `active`: like `same-brief`, weighted towards model matchups with few
+ *   votes and close ratings, where another vote tells us the most.
+ *
+ * Pairs in `seenPairs` are skipped for every strategy. Returns null when no
+ * pair qualifies.
+ *
+ * @template {PairingVariant} T
+ * @param {T[]} variants
+ * @param {string} strategy
+ * @param {PairingContext} [context]
+ * @returns {[T, T] | null}
+ */
+export function selectPair(variants, strategy, context = {}) {
+  const {
+    seenPairs = new Set(),
+    ratings = new Map(),
+    matchupCounts = new Map(),
+    random = Math.random,
+  } = context;
+
+  if (strategy === "random") {
+    if (variants.length < 2) return null;
+    const sampled = sampleUnseenPair(variants, seenPairs, random);
+    if (sampled) return sampled;
+  }
+
+  const candidates = [];
+  const groups = strategy === "same-brief" || strategy === "active"
+    ? groupBy(variants, (variant) => variant.briefKey)
+    : [variants];
+
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i += 1) {
+      for (let j = i + 1; j < group.length; j += 1) {
+        const [a, b] = [group[i], group[j]];
+        if (strategy !== "random" && a.modelKey === b.modelKey) continue;
+        if (seenPairs.has(pairKey(a.variantKey, b.variantKey))) continue;
+        candidates.push([a, b]);
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const [a, b] = strategy === "active"
+    ? weightedPick(candidates, ([x, y]) => informationWeight(x, y, ratings, matchupCounts), random)
+    : candidates[Math.floor(random() * candidates.length)];
+
+  // Sides are shuffled so neither slot favours a model.
+  return random() < 0.5 ? [a, b] : [b, a];
+}
+
+/**
+ * Order-independent key for a pair of ids.
+ */
+export function pairKey(a, b) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Uniform pick among unseen pairs by rejection sampling. A voter has judged
+ * far fewer pairs than exist, so this rarely has to fall back to listing
+ * every candidate; null means the caller should.
+ */
+function sampleUnseenPair(variants, seenPairs, random) {
+  for (let attempt = 0; attempt < RANDOM_SAMPLE_ATTEMPTS; attempt += 1) {
+    const first = Math.floor(random() * variants.length);
+    let second = Math.floor(random() * (variants.length - 1));
+    if (second >= first) second += 1;
+    if (!seenPairs.has(pairKey(variants[first].variantKey, variants[second].variantKey))) {
+      return [variants[first], variants[second]];
+    }
+  }
+  return null;
+}
+
+function informationWeight(a, b, ratings, matchupCounts) {
+  const votes = matchupCounts.get(pairKey(a.modelKey, b.modelKey)) ?? 0;
+  const ratingA = ratings.get(a.modelKey);
+  const ratingB = ratings.get(b.modelKey);
+  // Unrated models count as evenly matched so they get voted on quickly.
+  const gap = ratingA === undefined || ratingB === undefined ? 0 : Math.abs(ratingA - ratingB);
+  return (1 / (1 + votes)) * (1 / (1 + gap / RATING_CLOSENESS_SCALE));
+}
+
+function weightedPick(items, weightOf, random) {
+  const weights = items.map(weightOf);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let threshold = random() * total;
+  for (let index = 0; index < items.length; index += 1) {
+    threshold -= weights[index];
+    if (threshold <= 0) return items[index];
+  }
+  return items[items.length - 1];
+}
+
+function groupBy(items, keyOf) {
+  const groups = new Map();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(item);
+  }
+  return Array.from(groups.values());
+}
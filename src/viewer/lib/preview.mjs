@@ -0,0 +1,76 @@
+import { extractHtmlDocument } from "../../lib/renderer.mjs";
+
+export const PREVIEW_RUNTIME_PATH = "/preview/tailwindcss.js";
+
+// Keep in sync with app/ViewportFrame.tsx, which relays these between frames.
+const SCROLL_MESSAGE = "arena-preview-scroll";
+const SCROLL_TO_MESSAGE = "arena-preview-scroll-to";
+
+const TAILWIND_CDN_SRC = /(["'])https?:\/\/cdn\.tailwindcss\.com[^"']*\1/gi;
+
+// Previews are sandboxed without allow-same-origin, so scroll positions travel
+// by postMessage as a fraction of the scrollable height (pages differ in length).
+const SCROLL_BRIDGE = `<script>(function () {
+  var applied = null;
+  function root() { return document.scrollingElement || document.documentElement; }
+  function ratio() {
+    var el = root();
+    var max = el.scrollHeight - el.clientHeight;
+    return max > 0 ? el.scrollTop / max : 0;
+  }
+  addEventListener("scroll", function () {
+    var current = ratio();
+    if (applied !== null && Math.abs(current - applied) < 0.002) return;
+    applied = null;
+    parent.postMessage({ type: "${SCROLL_MESSAGE}", ratio: current }, "*");
+  }, { passive: true });
+  addEventListener("message", function (event) {
+    if (event.source !== parent || !event.data || event.data.type !== "${SCROLL_TO_MESSAGE}") return;
+    var el = root();
+    applied = event.data.ratio;
+    el.scrollTop = applied * (el.scrollHeight - el.clientHeight);
+  });
+})();</script>`;
+
+/**
+ * Content-Security-Policy for a generated page: inline scripts and styles run
+ * and the local Tailwind runtime loads, but nothing else leaves the browser.
+ * Images and fonts are limited to data: and blob: URLs and forms cannot submit.
+ * The sandbox directive gives the page an opaque origin even when it is opened
+ * outside the arena's sandboxed iframe, e.g. in a new tab on the viewer origin.
+ *
+ * @param {string} runtimeUrl Absolute URL of the served Tailwind runtime.
+ * @returns {string}
+ */
+export function buildPreviewPolicy(runtimeUrl) {
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' ${runtimeUrl}`,
+    "style-src 'unsafe-inline'",
+    "img-src data: blob:",
+    "font-src data:",
+    "media-src data: blob:",
+    "connect-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'",
+    "sandbox allow-scripts",
+  ].join("; ");
+}
+
+/**
+ * Turn a model response into the document served at /preview: strip a
+ * wrapping code fence, point the Tailwind CDN script at the local runtime
+ * and append the scroll bridge used for synchronized previews.
+ *
+ * @param {string} responseText
+ * @param {{ runtimeUrl: string }} options
+ * @returns {string}
+ */
+export function preparePreviewDocument(responseText, { runtimeUrl }) {
+  const html = extractHtmlDocument(responseText ?? "").replace(TAILWIND_CDN_SRC, (_match, quote) => `${quote}${runtimeUrl}${quote}`);
+  const closingBody = html.toLowerCase().lastIndexOf("</body>");
+  if (closingBody === -1) {
+    return `${html}${SCROLL_BRIDGE}`;
+  }
+  return `${html.slice(0, closingBody)}${SCROLL_BRIDGE}${html.slice(closingBody)}`;
+}
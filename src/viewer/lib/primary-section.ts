@@ -1,193 +1,90 @@
+import { sanitizeHtml } from "./html-sanitizer.js";
+import { renderJsxDocuments, type ComponentMap } from "./jsx-to-html.js";
+
+export type { ComponentMap, ComponentMapping } from "./jsx-to-html.js";
+
+/**
+ * Bump when extraction or sanitizing changes, so the variant index
+ * re-extracts stored hero markup instead of serving the old output.
+ */
+export const EXTRACTION_VERSION = 4;
+
 const HERO_SECTION_REGEX = /<section[^>]*id=(["'])hero\1[\s\S]*?<\/section>/i;
 const MAIN_SECTION_REGEX = /<main[\s\S]*?<\/main>/i;
+const JSX_SIGNALS = /\bclassName\s*=|\bimport\s[^;]*?\sfrom\s*["']|\bexport\s+default\b|=>\s*\(\s*</;
+// A doctype is never valid JSX, so pages that merely show React code stay HTML.
+const HTML_DOCUMENT = /<!doctype\s+html/i;
 
 export interface ExtractionResult {
   sanitizedHtml: string;
   rawSection: string;
 }
 
-export function extractPrimarySection(responseText: string): ExtractionResult {
-  const heroMatch = HERO_SECTION_REGEX.exec(responseText);
-  const rawSection = heroMatch?.[0] ?? extractFallbackSection(responseText) ?? responseText;
-  const normalized = normalizeSection(rawSection);
-  return { sanitizedHtml: normalized, rawSection };
-}
-
-function extractFallbackSection(source: string): string | null {
-  const mainMatch = MAIN_SECTION_REGEX.exec(source);
-  if (mainMatch?.[0]) {
-    return mainMatch[0];
-  }
-  return source.trim() || null;
-}
-
-function normalizeSection(section: string): string {
-  if (!section) return "";
-  let output = section;
-  output = stripJsxArtifacts(output);
-  output = convertClassBindings(output);
-  output = convertCustomComponents(output);
-  output = sanitizeMarkup(output);
-  return output;
-}
-
-function stripJsxArtifacts(source: string): string {
-  return source
-    .replace(/\{\s*\/\*[\s\S]*?\*\/\s*\}/g, "") // strip comments
-    .replace(/\{\s*["'`]\s*\}/g, " ") // strip empty spaces
-    .replace(/\{\s*`([^`]+)`\s*\}/g, (_, text) => text) // inline template strings
-    .replace(/\{\s*"([^"]+)"\s*\}/g, (_, text) => text)
-    .replace(/\{\s*'([^']+)'\s*\}/g, (_, text) => text)
-    .replace(/<>/g, '<div class="arena-fragment">')
-    .replace(/<\/>/g, "</div>");
-}
-
-function convertClassBindings(source: string): string {
-  return source
-    .replace(/className=/g, "class=")
-    .replace(/class=\{\s*`([^`]+)`\s*\}/g, (_, classes) => `class="${classes}"`)
-    .replace(/class=\{\s*"([^"]+)"\s*\}/g, (_, classes) => `class="${classes}"`)
-    .replace(/class=\{\s*'([^']+)'\s*\}/g, (_, classes) => `class="${classes}"`)
-    .replace(/class=\{\s*([^}]+)\s*\}/g, (_, expr) => {
-      return `class="${expr
-        .split(/[\s+|]+/)
-        .map((token: string) => token.replace(/["'`]/g, "").trim())
-        .filter(Boolean)
-        .join(" ")}"`;
-    });
-}
-
-function convertCustomComponents(source: string): string {
-  let output = source;
-
-  output = replaceComponent(output, "Button", "button", "arena-btn", ["variant", "size", "asChild"]);
-  output = replaceComponent(output, "Badge", "span", "arena-badge");
-  output = replaceComponent(output, "Card", "div", "arena-card");
-  output = replaceComponent(output, "CardHeader", "div", "arena-card__header");
-  output = replaceComponent(output, "CardContent", "div", "arena-card__content");
-  output = replaceComponent(output, "CardTitle", "h3", "arena-card__title");
-  output = replaceComponent(output, "CardDescription", "p", "arena-card__description");
-  output = replaceComponent(output, "CardFooter", "div", "arena-card__footer");
-  output = replaceComponent(output, "Tabs", "div", "arena-tabs");
-  output = replaceComponent(output, "TabsList", "div", "arena-tabs__list");
-  output = replaceComponent(output, "TabsTrigger", "button", "arena-tabs__trigger", ["value"]);
-  output = replaceComponent(output, "TabsContent", "div", "arena-tabs__content", ["value"]);
-  output = replaceComponent(output, "Link", "a", "arena-link", ["prefetch", "legacyBehavior"]);
-  output = replaceComponent(output, "Input", "input", "arena-input", ["type"]);
-  output = replaceComponent(output, "Label", "label", "arena-label");
-  output = replaceComponent(output, "Textarea", "textarea", "arena-textarea");
-  output = replaceComponent(output, "Avatar", "div", "arena-avatar");
-  output = replaceComponent(output, "AvatarImage", "div", "arena-avatar__image", ["src", "alt"]);
-  output = replaceComponent(output, "AvatarFallback", "span", "arena-avatar__fallback");
-  output = replaceSelfClosing(output, "Image", "div", "arena-image", ["src", "alt", "width", "height"]);
-
-  return output;
-}
-
-function replaceComponent(
-  source: string,
-  componentName: string,
-  tagName: string,
-  baseClass: string,
-  stripAttrs: string[] = [],
-): string {
-  const openingTagRegex = new RegExp(`<${componentName}([^>]*)>`, "g");
-  const closingTagRegex = new RegExp(`</${componentName}>`, "g");
-
-  const transformAttrs = (attrs: string) => buildTagAttributes(attrs, baseClass, stripAttrs);
-
-  return source
-    .replace(openingTagRegex, (_, attrs) => `<${tagName}${transformAttrs(attrs)}>`)
-    .replace(closingTagRegex, `</${tagName}>`);
+export interface ExtractionOptions {
+  /** How imported components (shadcn/ui, next/link, icons…) render as plain elements. */
+  componentMap?: ComponentMap;
 }
 
-function replaceSelfClosing(source: string, componentName: string, tagName: string, baseClass: string, keepAttrs: string[] = []): string {
-  const regex = new RegExp(`<${componentName}([^>]*)/>`, "g");
-  return source.replace(regex, (_, attrs) => {
-    const mapped = buildTagAttributes(attrs, baseClass, [], keepAttrs);
-    return `<${tagName}${mapped}></${tagName}>`;
-  });
+/**
+ * The version stored with an extracted variant. For JSX/TSX responses it folds
+ * in the component map, so editing the map re-extracts those variants like a
+ * code change would; plain HTML responses keep the bare version.
+ */
+export function extractionVersion(responseText: string, options: ExtractionOptions = {}): number {
+  if (!options.componentMap || !looksLikeJsx(responseText)) return EXTRACTION_VERSION;
+  return EXTRACTION_VERSION * 2 ** 32 + hashString(JSON.stringify(options.componentMap));
 }
 
-function buildTagAttributes(attrs: string, baseClass: string, stripAttrs: string[] = [], keepOnly?: string[]): string {
-  const parsed = parseAttributes(attrs ?? "");
-
-  for (const key of stripAttrs) {
-    delete parsed[key];
-  }
-
-  if (keepOnly && keepOnly.length > 0) {
-    for (const key of Object.keys(parsed)) {
-      if (!keepOnly.includes(key)) {
-        delete parsed[key];
-      }
-    }
-  }
-
-  const classes: string[] = [baseClass];
-  if (parsed.className) {
-    classes.push(...splitClasses(parsed.className));
-    delete parsed.className;
+export function extractPrimarySection(responseText: string, options: ExtractionOptions = {}): ExtractionResult {
+  const rawSection = findPrimarySection(responseText) ?? responseText;
+  if (!looksLikeJsx(responseText)) {
+    return { sanitizedHtml: sanitizeSection(rawSection), rawSection };
   }
-  if (parsed.class) {
-    classes.push(...splitClasses(parsed.class));
-    delete parsed.class;
-  }
-
-  const attrPairs = Object.entries(parsed)
-    .map(([key, value]) => `${key}="${escapeAttribute(value)}"`)
-    .join(" ");
 
-  return ` class="${classes.filter(Boolean).join(" ")}"${attrPairs ? ` ${attrPairs}` : ""}`;
+  // Render the whole module first so components declared outside the hero
+  // resolve; a fragment that is only JSX markup still renders on its own.
+  const rendered =
+    pickRenderedSection(renderJsxDocuments(responseText, options.componentMap)) ??
+    pickRenderedSection(renderJsxDocuments(rawSection, options.componentMap));
+  return { sanitizedHtml: sanitizeSection(rendered ?? rawSection), rawSection };
 }
 
-function parseAttributes(source: string): Record<string, string> {
-  const attrs: Record<string, string> = {};
-  const regex = /([a-zA-Z_:][a-zA-Z0-9_:.-]*)\s*=\s*({[^}]*}|"[^"]*"|'[^']*')/g;
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(source))) {
-    const [, key, rawValue] = match;
-    attrs[key] = unwrapAttributeValue(rawValue);
-  }
-  return attrs;
+function looksLikeJsx(responseText: string): boolean {
+  return JSX_SIGNALS.test(responseText) && !HTML_DOCUMENT.test(responseText);
 }
 
-function unwrapAttributeValue(value: string): string {
-  const trimmed = value.trim();
-  if (!trimmed) return "";
-  if ((trimmed.startsWith("{") && trimmed.endsWith("}")) || (trimmed.startsWith("(") && trimmed.endsWith(")"))) {
-    return trimmed.slice(1, -1).trim();
+function findPrimarySection(source: string): string | null {
+  const heroMatch = HERO_SECTION_REGEX.exec(source);
+  if (heroMatch?.[0]) {
+    return heroMatch[0];
   }
-  if ((trimmed.startsWith('"') && trimmed.endsWith('"')) || (trimmed.startsWith("'") && trimmed.endsWith("'"))) {
-    return trimmed.slice(1, -1);
+  const mainMatch = MAIN_SECTION_REGEX.exec(source);
+  if (mainMatch?.[0]) {
+    return mainMatch[0];
   }
-  return trimmed;
+  return source.trim() || null;
 }
 
-function splitClasses(value: string | undefined): string[] {
-  if (!value) return [];
-  return value
-    .replace(/[`"'{}]/g, " ")
-    .split(/\s+/)
-    .filter(Boolean);
+function pickRenderedSection(documents: string[]): string | null {
+  if (documents.length === 0) return null;
+  const document =
+    documents.find((html) => HERO_SECTION_REGEX.test(html)) ??
+    documents.find((html) => MAIN_SECTION_REGEX.test(html)) ??
+    documents.reduce((longest, html) => (html.length > longest.length ? html : longest));
+  return findPrimarySection(document);
 }
 
-function escapeAttribute(value: string): string {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/"/g, "&quot;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
+function sanitizeSection(section: string): string {
+  if (!section) return "";
+  return sanitizeHtml(section);
 }
 
-function sanitizeMarkup(source: string): string {
-  return source
-    .replace(/<script[\s\S]*?<\/script>/gi, "")
-    .replace(/\son[a-z]+\s*=\s*"[^"]*"/gi, "")
-    .replace(/\son[a-z]+\s*=\s*'[^']*'/gi, "")
-    .replace(/\son[a-z]+\s*=\s*\{[^}]*\}/gi, "")
-    .replace(/style=\{[^}]*\}/gi, "")
-    .replace(/style="[^"]*"/gi, "")
-    .replace(/style='[^']*'/gi, "");
+/** FNV-1a, enough to tell component map revisions apart. */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
 }
-
@@ -0,0 +1,77 @@
+import { computeRatings } from "./ratings.mjs";
+
+/**
+ * @typedef {Object} RaterVote
+ * @property {string} leftVariantId
+ * @property {string} rightVariantId
+ * @property {"left" | "right" | "tie" | "both_bad"} selection
+ * @property {string | null} userId
+ */
+
+/**
+ * @typedef {Object} RaterStats
+ * @property {string} userId
+ * @property {number} votes
+ * @property {number} tieRate
+ * @property {number} bothBadRate
+ * @property {number | null} leftRate Share of decisive votes that picked the left side; 0.5 is unbiased.
+ * @property {number} consensusComparisons Decisive votes between two models the consensus ranks apart.
+ * @property {number | null} consensusAgreement Share of those where the rater picked the higher-rated model.
+ */
+
+/**
+ * Calibration figures per signed-in rater. The consensus for a rater is the
+ * Bradley-Terry ranking fitted on every other human vote, so their own votes
+ * never vouch for themselves.
+ *
+ * @param {RaterVote[]} votes Human votes, anonymous ones included.
+ * @param {(variantId: string) => string} resolveModelKey
+ * @returns {Map<string, RaterStats>}
+ */
+export function computeRaterStats(votes, resolveModelKey) {
+  const matchups = votes.map((vote) => ({
+    userId: vote.userId,
+    left: resolveModelKey(vote.leftVariantId),
+    right: resolveModelKey(vote.rightVariantId),
+    selection: vote.selection,
+  }));
+
+  const raterIds = new Set(matchups.map((matchup) => matchup.userId).filter(Boolean));
+  const stats = new Map();
+
+  for (const userId of raterIds) {
+    const own = matchups.filter((matchup) => matchup.userId === userId);
+    const consensus = computeRatings(
+      matchups.filter((matchup) => matchup.userId !== userId),
+      { bootstrapRounds: 0 },
+    );
+
+    const count = (selection) => own.filter((matchup) => matchup.selection === selection).length;
+    const lefts = count("left");
+    const rights = count("right");
+
+    let comparisons = 0;
+    let agreements = 0;
+    for (const matchup of own) {
+      if (matchup.selection !== "left" && matchup.selection !== "right") continue;
+      const leftRating = consensus.get(matchup.left)?.rating;
+      const rightRating = consensus.get(matchup.right)?.rating;
+      if (leftRating === undefined || rightRating === undefined || leftRating === rightRating) continue;
+      comparisons += 1;
+      const favourite = leftRating > rightRating ? "left" : "right";
+      if (matchup.selection === favourite) agreements += 1;
+    }
+
+    stats.set(userId, {
+      userId,
+      votes: own.length,
+      tieRate: count("tie") / own.length,
+      bothBadRate: count("both_bad") / own.length,
+      leftRate: lefts + rights > 0 ? lefts / (lefts + rights) : null,
+      consensusComparisons: comparisons,
+      consensusAgreement: comparisons > 0 ? agreements / comparisons : null,
+    });
+  }
+
+  return stats;
+}
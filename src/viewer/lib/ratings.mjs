@@ -0,0 +1,202 @@
+const BASE_RATING = 1000;
+const RATING_SCALE = 400;
+const MAX_ITERATIONS = 200;
+const CONVERGENCE_EPSILON = 1e-6;
+const DEFAULT_BOOTSTRAP_ROUNDS = 200;
+const DEFAULT_BOOTSTRAP_SEED = 0x5eed;
+
+/**
+ * @typedef {Object} Matchup
+ * @property {string} left
+ * @property {string} right
+ * @property {"left" | "right" | "tie" | "both_bad"} selection
+ */
+
+/**
+ * @typedef {Object} RatingEntry
+ * @property {string} key
+ * @property {number} rating
+ * @property {number | null} ciLower
+ * @property {number | null} ciUpper
+ * @property {number} games
+ * @property {number} wins
+ * @property {number} losses
+ * @property {number} ties
+ * @property {number} winRate
+ */
+
+/**
+ * @typedef {Object} RatingOptions
+ * @property {number} [bootstrapRounds]
+ * @property {number} [seed]
+ */
+
+/**
+ * Fit Bradley-Terry strengths to pairwise outcomes and report them on an
+ * Elo-like scale. Ties and "both bad" verdicts count as half a win for each
+ * side, and every competitor plays one virtual draw against a fixed anchor so
+ * that unbeaten or winless models still get finite ratings.
+ *
+ * @param {Matchup[]} matchups
+ * @param {RatingOptions} [options]
+ * @returns {Map<string, RatingEntry>}
+ */
+export function computeRatings(matchups, options = {}) {
+  const {
+    bootstrapRounds = DEFAULT_BOOTSTRAP_ROUNDS,
+    seed = DEFAULT_BOOTSTRAP_SEED,
+  } = options;
+
+  const games = matchups.filter((matchup) => matchup.left && matchup.right && matchup.left !== matchup.right);
+  const ratings = fitBradleyTerry(games);
+  const records = tallyRecords(games);
+
+  const samples = new Map();
+  if (games.length > 0 && bootstrapRounds > 0) {
+    const random = createRandom(seed);
+    for (let round = 0; round < bootstrapRounds; round += 1) {
+      const resampled = games.map(() => games[Math.floor(random() * games.length)]);
+      for (const [key, rating] of fitBradleyTerry(resampled)) {
+        if (!samples.has(key)) samples.set(key, []);
+        samples.get(key).push(rating);
+      }
+    }
+  }
+
+  const result = new Map();
+  for (const [key, rating] of ratings) {
+    const record = records.get(key);
+    const keySamples = samples.get(key) ?? [];
+    keySamples.sort((a, b) => a - b);
+
+    result.set(key, {
+      key,
+      rating,
+      ciLower: keySamples.length > 0 ? percentile(keySamples, 0.025) : null,
+      ciUpper: keySamples.length > 0 ? percentile(keySamples, 0.975) : null,
+      games: record.games,
+      wins: record.wins,
+      losses: record.losses,
+      ties: record.ties,
+      winRate: record.games > 0 ? (record.wins + record.ties / 2) / record.games : 0,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Minorization-maximization fit (Hunter, 2004) over half-win scores.
+ *
+ * @param {Matchup[]} games
+ * @returns {Map<string, number>}
+ */
+function fitBradleyTerry(games) {
+  const scores = new Map();
+  const opponents = new Map();
+
+  const addGames = (a, b, count) => {
+    if (!opponents.has(a)) opponents.set(a, new Map());
+    const row = opponents.get(a);
+    row.set(b, (row.get(b) ?? 0) + count);
+  };
+
+  for (const game of games) {
+    const [leftScore, rightScore] = scoreOutcome(game.selection);
+    scores.set(game.left, (scores.get(game.left) ?? 0) + leftScore);
+    scores.set(game.right, (scores.get(game.right) ?? 0) + rightScore);
+    addGames(game.left, game.right, 1);
+    addGames(game.right, game.left, 1);
+  }
+
+  const keys = Array.from(scores.keys());
+  let strengths = new Map(keys.map((key) => [key, 1]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration += 1) {
+    const next = new Map();
+    let maxDelta = 0;
+
+    for (const key of keys) {
+      const strength = strengths.get(key);
+      // The anchor draw contributes half a win and one game against strength 1.
+      let denominator = 1 / (strength + 1);
+      for (const [opponent, count] of opponents.get(key)) {
+        denominator += count / (strength + strengths.get(opponent));
+      }
+      const updated = (scores.get(key) + 0.5) / denominator;
+      maxDelta = Math.max(maxDelta, Math.abs(Math.log(updated) - Math.log(strength)));
+      next.set(key, updated);
+    }
+
+    strengths = next;
+    if (maxDelta < CONVERGENCE_EPSILON) break;
+  }
+
+  return new Map(
+    keys.map((key) => [key, BASE_RATING + RATING_SCALE * Math.log10(strengths.get(key))]),
+  );
+}
+
+function tallyRecords(games) {
+  const records = new Map();
+  const ensure = (key) => {
+    if (!records.has(key)) {
+      records.set(key, { games: 0, wins: 0, losses: 0, ties: 0 });
+    }
+    return records.get(key);
+  };
+
+  for (const game of games) {
+    const left = ensure(game.left);
+    const right = ensure(game.right);
+    left.games += 1;
+    right.games += 1;
+
+    if (game.selection === "left") {
+      left.wins += 1;
+      right.losses += 1;
+    } else if (game.selection === "right") {
+      right.wins += 1;
+      left.losses += 1;
+    } else {
+      left.ties += 1;
+      right.ties += 1;
+    }
+  }
+
+  return records;
+}
+
+function scoreOutcome(selection) {
+  switch (selection) {
+    case "left":
+      return [1, 0];
+    case "right":
+      return [0, 1];
+    default:
+      return [0.5, 0.5];
+  }
+}
+
+function percentile(sorted, fraction) {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so bootstrap intervals are stable between
+ * requests for the same set of votes.
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,8 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import crypto from "node:crypto";
-import { extractPrimarySection } from "./primary-section.js";
-import { sanitizeLabel } from "../../lib/benchmark.mjs";
+import { extractionVersion, extractPrimarySection, type ComponentMap } from "./primary-section.js";
+import { computeVariantId } from "../../lib/variant-id.mjs";
+import { analyzeHtml } from "../../lib/analyzer.mjs";
 
 export interface RunMeta {
   benchmark: string;
@@ -12,12 +13,18 @@ export interface RunMeta {
   productName?: string; // Legacy field
   valueProp?: string; // Legacy field
   notes?: string;
+  briefId?: string | null;
+  tags?: string[];
+  suite?: string;
+  suiteRunId?: string;
+  repetitions?: number;
   temperature?: number;
   maxOutputTokens?: number;
   models?: unknown;
 }
 
 export interface VariantMetadata {
+  variantId?: string; // Written at generation time; older runs derive it on load
   provider: string;
   model: string;
   label?: string | null;
@@ -27,6 +34,62 @@ export interface VariantMetadata {
   productName?: string; // Legacy field
   valueProp?: string; // Legacy field
   notes?: string;
+  briefId?: string;
+  repetition?: number;
+  status?: "complete" | "error";
+  usage?: VariantUsage | null;
+  timing?: VariantTiming;
+  cost?: VariantCost | null;
+  attempts?: VariantAttempt[];
+}
+
+export interface VariantUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  reasoningTokens: number | null;
+  stopReason: string | null;
+  truncated: boolean;
+}
+
+export interface VariantTiming {
+  timeToFirstTokenMs: number | null;
+  latencyMs: number;
+}
+
+export interface VariantCost {
+  currency: "USD";
+  inputUsd: number;
+  outputUsd: number;
+  totalUsd: number;
+}
+
+export interface VariantAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  outcome: "success" | "error";
+  errorType?: string;
+  status?: number | null;
+  retryable?: boolean;
+  error?: string;
+  delayMs?: number | null;
+}
+
+export interface AnalysisCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  severity: "error" | "warning" | "info";
+  detail: string;
+}
+
+export interface AnalysisReport {
+  version: number;
+  analyzedAt: string;
+  bytes: number;
+  passed: number;
+  total: number;
+  checks: AnalysisCheck[];
 }
 
 export interface BenchmarkVariant {
@@ -39,10 +102,49 @@ export interface BenchmarkVariant {
   primaryHtml: string;
   primaryRaw: string;
   sourceText: string;
+  analysis: AnalysisReport;
 }
 
 export interface LoadVariantsOptions {
   runsDir?: string;
+  /** Component-to-element mapping used when rendering JSX/TSX outputs. */
+  componentMap?: ComponentMap;
+}
+
+export interface IndexedRun {
+  folder: string;
+  runMeta: RunMeta;
+  metaMtimeMs: number;
+}
+
+export interface IndexedVariant {
+  variant: BenchmarkVariant;
+  runFolder: string;
+  dirName: string;
+  contentHash: string;
+  metadataMtimeMs: number;
+  responseMtimeMs: number;
+  analysisMtimeMs: number | null;
+  extractionVersion: number;
+}
+
+/**
+ * Persistent cache behind indexVariants; the viewer backs it with SQLite.
+ */
+export interface VariantIndexStore {
+  getRun(folder: string): IndexedRun | null;
+  saveRun(run: IndexedRun): void;
+  listRunVariants(folder: string): IndexedVariant[];
+  saveVariant(entry: IndexedVariant): void;
+  /** Flag every indexed run and variant not in the live sets as removed, and clear the flag on live variants. */
+  markRemoved(liveRunFolders: string[], liveVariantKeys: string[]): number;
+}
+
+export interface IndexStats {
+  runs: number;
+  variants: number;
+  reindexed: number;
+  removed: number;
 }
 
 const DEFAULT_RUNS_DIR = path.resolve(process.cwd(), "runs", "html-design");
@@ -62,7 +164,7 @@ export async function loadVariants(options: LoadVariantsOptions = {}): Promise<B
     for (const variantEntry of variantEntries) {
       if (!variantEntry.isDirectory()) continue;
       const variantPath = path.join(runPath, variantEntry.name);
-      const variant = await buildVariant(runMeta, runEntry.name, variantPath);
+      const variant = await buildVariant(runMeta, runEntry.name, variantPath, options);
       if (variant) {
         variants.push(variant);
       }
@@ -72,21 +174,114 @@ export async function loadVariants(options: LoadVariantsOptions = {}): Promise<B
   return variants.sort((a, b) => a.runTimestamp.localeCompare(b.runTimestamp));
 }
 
-async function buildVariant(runMeta: RunMeta, runFolderName: string, variantPath: string): Promise<BenchmarkVariant | null> {
+/**
+ * Like loadVariants, but only reads and extracts variants whose files changed
+ * since they were last indexed in `store`; unchanged ones come from the store.
+ */
+export async function indexVariants(
+  store: VariantIndexStore,
+  options: LoadVariantsOptions = {},
+): Promise<{ variants: BenchmarkVariant[]; stats: IndexStats }> {
+  const runsDir = options.runsDir ?? DEFAULT_RUNS_DIR;
+  const entries = await safeReadDir(runsDir);
+
+  const variants: BenchmarkVariant[] = [];
+  const liveRuns: string[] = [];
+  let reindexed = 0;
+
+  for (const runEntry of entries) {
+    if (!runEntry.isDirectory()) continue;
+    const runPath = path.join(runsDir, runEntry.name);
+    const metaStat = await safeStat(path.join(runPath, "meta.json"));
+    if (!metaStat) continue;
+
+    const storedRun = store.getRun(runEntry.name);
+    let runMeta = storedRun?.runMeta ?? null;
+    if (!storedRun || storedRun.metaMtimeMs !== metaStat.mtimeMs) {
+      runMeta = await readRunMeta(runPath);
+      if (!runMeta) continue;
+      store.saveRun({ folder: runEntry.name, runMeta, metaMtimeMs: metaStat.mtimeMs });
+    }
+    if (!runMeta) continue;
+    liveRuns.push(runEntry.name);
+
+    // Listed after saveRun so reused variants carry the current run metadata.
+    const stored = new Map(store.listRunVariants(runEntry.name).map((entry) => [entry.dirName, entry]));
+
+    for (const variantEntry of await safeReadDir(runPath)) {
+      if (!variantEntry.isDirectory()) continue;
+      const variantPath = path.join(runPath, variantEntry.name);
+      const [responseStat, metadataStat, analysisStat] = await Promise.all([
+        safeStat(path.join(variantPath, "response.txt")),
+        safeStat(path.join(variantPath, "metadata.json")),
+        safeStat(path.join(variantPath, "analysis.json")),
+      ]);
+      if (!responseStat || !metadataStat) continue;
+
+      const previous = stored.get(variantEntry.name);
+      if (
+        previous &&
+        previous.responseMtimeMs === responseStat.mtimeMs &&
+        previous.metadataMtimeMs === metadataStat.mtimeMs &&
+        previous.analysisMtimeMs === (analysisStat?.mtimeMs ?? null) &&
+        previous.extractionVersion === extractionVersion(previous.variant.sourceText, options)
+      ) {
+        variants.push(previous.variant);
+        continue;
+      }
+
+      const variant = await buildVariant(runMeta, runEntry.name, variantPath, options);
+      if (!variant) continue;
+      store.saveVariant({
+        variant,
+        runFolder: runEntry.name,
+        dirName: variantEntry.name,
+        contentHash: crypto.createHash("sha256").update(variant.sourceText).digest("hex"),
+        metadataMtimeMs: metadataStat.mtimeMs,
+        responseMtimeMs: responseStat.mtimeMs,
+        analysisMtimeMs: analysisStat?.mtimeMs ?? null,
+        extractionVersion: extractionVersion(variant.sourceText, options),
+      });
+      variants.push(variant);
+      reindexed += 1;
+    }
+  }
+
+  const removed = store.markRemoved(liveRuns, variants.map((variant) => variant.variantKey));
+
+  return {
+    variants: variants.sort((a, b) => a.runTimestamp.localeCompare(b.runTimestamp)),
+    stats: { runs: liveRuns.length, variants: variants.length, reindexed, removed },
+  };
+}
+
+async function buildVariant(
+  runMeta: RunMeta,
+  runFolderName: string,
+  variantPath: string,
+  options: LoadVariantsOptions,
+): Promise<BenchmarkVariant | null> {
   const responsePath = path.join(variantPath, "response.txt");
   const metadataPath = path.join(variantPath, "metadata.json");
 
-  const [responseText, variantMeta] = await Promise.all([
+  const [responseText, variantMeta, savedAnalysis] = await Promise.all([
     safeReadFile(responsePath),
     readVariantMeta(metadataPath),
+    readAnalysis(path.join(variantPath, "analysis.json")),
   ]);
 
   if (!responseText || !variantMeta) {
     return null;
   }
 
-  const extraction = extractPrimarySection(responseText);
-  const variantKey = getVariantKey(runFolderName, variantMeta, variantPath);
+  const extraction = extractPrimarySection(responseText, { componentMap: options.componentMap });
+  const variantKey = variantMeta.variantId ?? computeVariantId({
+    runId: runMeta.runId ?? runFolderName,
+    provider: variantMeta.provider,
+    model: variantMeta.model,
+    label: variantMeta.label ?? variantMeta.model ?? path.basename(variantPath),
+    repetition: variantMeta.repetition,
+  });
 
   return {
     variantKey,
@@ -98,17 +293,11 @@ async function buildVariant(runMeta: RunMeta, runFolderName: string, variantPath
     primaryHtml: extraction.sanitizedHtml,
     primaryRaw: extraction.rawSection,
     sourceText: responseText,
+    // Runs generated before the analyzer existed are checked on load.
+    analysis: savedAnalysis ?? (analyzeHtml(responseText) as AnalysisReport),
   };
 }
 
-function getVariantKey(runFolderName: string, metadata: VariantMetadata, variantPath: string): string {
-  const rawLabel = metadata.label ?? metadata.model ?? path.basename(variantPath);
-  const label = sanitizeLabel(rawLabel);
-  const composite = `${runFolderName}:${metadata.provider}:${metadata.model}:${label}`;
-  const hash = crypto.createHash("sha1").update(composite).digest("hex").slice(0, 12);
-  return `${runFolderName}/${label}-${hash}`;
-}
-
 async function readRunMeta(runPath: string): Promise<RunMeta | null> {
   const metaPath = path.join(runPath, "meta.json");
   try {
@@ -128,6 +317,15 @@ async function readVariantMeta(filePath: string): Promise<VariantMetadata | null
   }
 }
 
+async function readAnalysis(filePath: string): Promise<AnalysisReport | null> {
+  try {
+    const data = await fs.readFile(filePath, "utf8");
+    return JSON.parse(data) as AnalysisReport;
+  } catch {
+    return null;
+  }
+}
+
 async function safeReadFile(filePath: string): Promise<string | null> {
   try {
     return await fs.readFile(filePath, "utf8");
@@ -136,6 +334,14 @@ async function safeReadFile(filePath: string): Promise<string | null> {
   }
 }
 
+async function safeStat(filePath: string): Promise<import("node:fs").Stats | null> {
+  try {
+    return await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+}
+
 async function safeReadDir(dirPath: string): Promise<fs.Dirent[]> {
   try {
     return await fs.readdir(dirPath, { withFileTypes: true });
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import { MIGRATIONS } from "./migrations/index.mjs";
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * @typedef {Object} SchemaStatus
+ * @property {number} version Highest applied migration; 0 for a new database.
+ * @property {number} latest
+ * @property {Array<{ version: number, name: string, appliedAt: string }>} applied
+ * @property {Array<{ version: number, name: string }>} pending
+ */
+
+function ensureVersionTable(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+/**
+ * @param {import("better-sqlite3").Database} db
+ * @returns {SchemaStatus}
+ */
+export function getSchemaStatus(db) {
+  ensureVersionTable(db);
+  const applied = db.prepare(`
+    SELECT version, name, applied_at AS appliedAt
+    FROM schema_version
+    ORDER BY version ASC
+  `).all();
+  const version = applied.length > 0 ? applied[applied.length - 1].version : 0;
+
+  return {
+    version,
+    latest: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: MIGRATIONS
+      .filter((migration) => migration.version > version)
+      .map(({ version: pendingVersion, name }) => ({ version: pendingVersion, name })),
+  };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction together
+ * with its `schema_version` row. A database that already holds data is
+ * copied to `<data>/backups/` first.
+ *
+ * @param {import("better-sqlite3").Database} db
+ * @param {{ dbPath: string, backup?: boolean, to?: number }} options
+ * @returns {{ from: number, to: number, applied: string[], backupPath: string | null }}
+ */
+export function migrateDatabase(db, options) {
+  const { dbPath, backup = true, to = LATEST_SCHEMA_VERSION } = options;
+  const status = getSchemaStatus(db);
+
+  if (status.version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema v${status.version} is newer than this code (v${LATEST_SCHEMA_VERSION}). Update the code or restore a backup.`,
+    );
+  }
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > status.version && migration.version <= to);
+  if (pending.length === 0) {
+    return { from: status.version, to: status.version, applied: [], backupPath: null };
+  }
+
+  const backupPath = backup && hasUserTables(db) ? backupDatabase(db, dbPath, status.version) : null;
+
+  const record = db.prepare("INSERT INTO schema_version (version, name) VALUES (@version, @name)");
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run({ version: migration.version, name: migration.name });
+    })();
+  }
+
+  return {
+    from: status.version,
+    to: pending[pending.length - 1].version,
+    applied: pending.map((migration) => `${migration.version}-${migration.name}`),
+    backupPath,
+  };
+}
+
+function hasUserTables(db) {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS tables
+    FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+  `).get();
+  return Number(row.tables) > 0;
+}
+
+/**
+ * Consistent copy of the live database, taken with VACUUM INTO.
+ * @returns {string} The backup's path.
+ */
+export function backupDatabase(db, dbPath, version) {
+  const backupDir = path.join(path.dirname(dbPath), "backups");
+  fs.mkdirSync(backupDir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    backupDir,
+    `${path.basename(dbPath, path.extname(dbPath))}-v${version}-${stamp}.sqlite`,
+  );
+  db.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+}
@@ -0,0 +1,233 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+export const SESSION_COOKIE_NAME = "arena_session";
+
+const SESSION_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+const SESSION_SECRET_FILE = "session-secret";
+
+const SUSPICIOUS_MIN_VOTES = 10;
+const SUSPICIOUS_MEDIAN_GAP_MS = 3000;
+const SUSPICIOUS_SIDE_SHARE = 0.9;
+const SUSPICIOUS_VOTES_PER_HOUR = 200;
+
+/**
+ * @typedef {Object} SessionActivity
+ * @property {string} id
+ * @property {string} createdAt
+ * @property {string | null} ip
+ * @property {string | null} userAgent
+ * @property {string | null} excludedAt
+ * @property {string | null} excludedReason
+ * @property {number} votes
+ * @property {number} leftShare Share of decisive votes that picked the left side.
+ * @property {number | null} medianGapMs Median time between consecutive votes.
+ * @property {number} peakVotesPerHour
+ * @property {string[]} flags Reasons the session looks automated or careless.
+ */
+
+/**
+ * HMAC secret for session cookies: `VIEWER_SESSION_SECRET`, or a random one
+ * kept in `data/session-secret` so sessions survive restarts.
+ *
+ * @param {string} rootDir
+ * @returns {string}
+ */
+export function loadSessionSecret(rootDir) {
+  if (process.env.VIEWER_SESSION_SECRET) {
+    return process.env.VIEWER_SESSION_SECRET;
+  }
+
+  const dataDir = path.resolve(rootDir, "data");
+  const secretPath = path.join(dataDir, SESSION_SECRET_FILE);
+  if (fs.existsSync(secretPath)) {
+    return fs.readFileSync(secretPath, "utf8").trim();
+  }
+
+  fs.mkdirSync(dataDir, { recursive: true });
+  const secret = crypto.randomBytes(32).toString("hex");
+  fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+  return secret;
+}
+
+export function createSessionId() {
+  return crypto.randomUUID();
+}
+
+function sign(value, secret) {
+  return crypto.createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+/**
+ * @param {string} sessionId
+ * @param {string} secret
+ * @returns {string} Cookie value: `<id>.<signature>`.
+ */
+export function signSessionId(sessionId, secret) {
+  return `${sessionId}.${sign(sessionId, secret)}`;
+}
+
+/**
+ * @param {string | undefined} cookieValue
+ * @param {string} secret
+ * @returns {string | null} The session id when the signature is valid.
+ */
+export function verifySessionCookie(cookieValue, secret) {
+  if (!cookieValue) return null;
+  const separator = cookieValue.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const sessionId = cookieValue.slice(0, separator);
+  const expected = Buffer.from(sign(sessionId, secret));
+  const actual = Buffer.from(cookieValue.slice(separator + 1));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return sessionId;
+}
+
+/**
+ * @param {string | undefined} header
+ * @returns {Record<string, string>}
+ */
+export function parseCookies(header) {
+  const cookies = {};
+  for (const part of (header ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    const name = part.slice(0, separator).trim();
+    if (!name || name in cookies) continue;
+    try {
+      cookies[name] = decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      // Ignore cookies we did not write.
+    }
+  }
+  return cookies;
+}
+
+/**
+ * @param {string} value Signed session cookie value.
+ * @param {{ secure?: boolean }} [options]
+ */
+export function serializeSessionCookie(value, options = {}) {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${SESSION_COOKIE_MAX_AGE_SECONDS}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+  if (options.secure) attributes.push("Secure");
+  return attributes.join("; ");
+}
+
+/**
+ * Fixed-window counters, e.g. votes per session per minute. Counts live in
+ * memory, so a restart resets them.
+ *
+ * @param {{ limit: number, windowMs: number }} options
+ */
+export function createRateLimiter({ limit, windowMs }) {
+  const windows = new Map();
+
+  return {
+    /**
+     * Count one request for `key`.
+     * @param {string} key
+     * @returns {{ allowed: boolean, retryAfterMs: number }}
+     */
+    hit(key, now = Date.now()) {
+      if (windows.size > 10_000) {
+        for (const [existingKey, window] of windows) {
+          if (now - window.startedAt >= windowMs) windows.delete(existingKey);
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.startedAt + windowMs - now };
+      }
+      window.count += 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
+
+/**
+ * Summarize each session's votes and flag the patterns of scripted or
+ * careless voting: very fast voting, bursts, and always picking one side.
+ *
+ * @param {Array<{ id: string, createdAt: string, ip: string | null, userAgent: string | null, excludedAt: string | null, excludedReason: string | null }>} sessions
+ * @param {Array<{ voterId: string, createdAt: string, selection: string }>} votes Oldest first.
+ * @returns {SessionActivity[]}
+ */
+export function summarizeSessions(sessions, votes) {
+  const votesBySession = new Map();
+  for (const vote of votes) {
+    if (!votesBySession.has(vote.voterId)) votesBySession.set(vote.voterId, []);
+    votesBySession.get(vote.voterId).push(vote);
+  }
+
+  return sessions
+    .map((session) => {
+      const sessionVotes = votesBySession.get(session.id) ?? [];
+      const times = sessionVotes.map((vote) => parseTimestamp(vote.createdAt));
+
+      const gaps = [];
+      for (let index = 1; index < times.length; index += 1) {
+        gaps.push(times[index] - times[index - 1]);
+      }
+      const medianGapMs = gaps.length > 0 ? median(gaps) : null;
+
+      let peakVotesPerHour = 0;
+      let windowStart = 0;
+      for (let index = 0; index < times.length; index += 1) {
+        while (times[index] - times[windowStart] >= 60 * 60 * 1000) windowStart += 1;
+        peakVotesPerHour = Math.max(peakVotesPerHour, index - windowStart + 1);
+      }
+
+      const lefts = sessionVotes.filter((vote) => vote.selection === "left").length;
+      const rights = sessionVotes.filter((vote) => vote.selection === "right").length;
+      const leftShare = lefts + rights > 0 ? lefts / (lefts + rights) : 0.5;
+
+      const flags = [];
+      if (sessionVotes.length >= SUSPICIOUS_MIN_VOTES) {
+        if (medianGapMs !== null && medianGapMs < SUSPICIOUS_MEDIAN_GAP_MS) {
+          flags.push("fast-voting");
+        }
+        if (Math.max(leftShare, 1 - leftShare) >= SUSPICIOUS_SIDE_SHARE) {
+          flags.push("same-side");
+        }
+      }
+      if (peakVotesPerHour >= SUSPICIOUS_VOTES_PER_HOUR) {
+        flags.push("burst");
+      }
+
+      return {
+        ...session,
+        votes: sessionVotes.length,
+        leftShare,
+        medianGapMs,
+        peakVotesPerHour,
+        flags,
+      };
+    })
+    .sort((a, b) => b.flags.length - a.flags.length || b.votes - a.votes);
+}
+
+// SQLite's datetime('now') has no zone marker but is UTC.
+function parseTimestamp(value) {
+  return Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
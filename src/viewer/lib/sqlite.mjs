@@ -2,8 +2,14 @@ import Database from "better-sqlite3";
 import fs from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
+import { migrateDatabase } from "./schema.mjs";
 
 const DEFAULT_DB_NAME = "arena-viewer.sqlite";
+const DEFAULT_VOTE_SOURCE = "human-arena";
+
+// Votes from sessions excluded as suspicious never reach leaderboard calculations.
+const NOT_EXCLUDED_CLAUSE =
+  "(voter_id IS NULL OR voter_id NOT IN (SELECT id FROM sessions WHERE excluded_at IS NOT NULL))";
 
 /**
  * @typedef {Object} VoteRecord
@@ -13,9 +19,54 @@ const DEFAULT_DB_NAME = "arena-viewer.sqlite";
  * @property {string} rightVariantId
  * @property {string | null} winnerVariantId
  * @property {"left" | "right" | "tie" | "both_bad"} selection
- * @property {Record<string, number | null> | undefined} [scores]
+ * @property {{ left: Record<string, number | null>, right: Record<string, number | null> } | null | undefined} [scores]
  * @property {string | null | undefined} [notes]
  * @property {Record<string, unknown> | null | undefined} [automationMetadata]
+ * @property {string} [source] "human-arena", "human-demo" or "judge:<model>".
+ * @property {string | null} [voterId] Session id of the human voter, when known.
+ * @property {string | null} [userId] Signed-in rater who cast the vote.
+ */
+
+/**
+ * A named rater with a local password.
+ *
+ * @typedef {Object} UserAccount
+ * @property {string} id
+ * @property {string} username
+ * @property {string} passwordHash
+ * @property {string} createdAt
+ */
+
+/**
+ * An anonymous voter session, identified by a signed cookie.
+ *
+ * @typedef {Object} VoterSession
+ * @property {string} id
+ * @property {string} createdAt
+ * @property {string} lastSeenAt
+ * @property {string | null} ip
+ * @property {string | null} userAgent
+ * @property {string | null} excludedAt
+ * @property {string | null} excludedReason
+ * @property {string | null} userId Rater signed in on this session.
+ */
+
+/**
+ * An arena pair as issued to a browser. Rows outlive the vote so unvoted
+ * issuances can be audited.
+ *
+ * @typedef {Object} PairIssuance
+ * @property {string} id Also stored as `votes.pair_id` by the vote fulfilling it.
+ * @property {string} leftVariantId
+ * @property {string} rightVariantId
+ * @property {string} leftToken
+ * @property {string} rightToken
+ * @property {string | null} [strategy]
+ * @property {string | null} [voterId]
+ * @property {string} issuedAt ISO timestamp.
+ * @property {string} expiresAt ISO timestamp.
+ * @property {string | null} [voteId]
+ * @property {string | null} [votedAt]
  */
 
 /**
@@ -25,11 +76,33 @@ const DEFAULT_DB_NAME = "arena-viewer.sqlite";
  */
 
 /**
+ * Open the arena database and upgrade its schema (see schema.mjs), backing
+ * it up first when migrations are pending.
+ *
  * @param {string} rootDir
  * @param {string} [dbFileName]
  * @returns {SqliteContext}
  */
 export function initDatabase(rootDir, dbFileName = DEFAULT_DB_NAME) {
+  const ctx = openDatabase(rootDir, dbFileName);
+  const result = migrateDatabase(ctx.db, { dbPath: ctx.dbPath });
+  if (result.applied.length > 0) {
+    console.log(
+      `[db] migrated ${ctx.dbPath} from v${result.from} to v${result.to}` +
+        (result.backupPath ? ` (backup: ${result.backupPath})` : ""),
+    );
+  }
+  return ctx;
+}
+
+/**
+ * Open the arena database without touching its schema.
+ *
+ * @param {string} rootDir
+ * @param {string} [dbFileName]
+ * @returns {SqliteContext}
+ */
+export function openDatabase(rootDir, dbFileName = DEFAULT_DB_NAME) {
   const dataDir = path.resolve(rootDir, "data");
   if (!fs.existsSync(dataDir)) {
     fs.mkdirSync(dataDir, { recursive: true });
@@ -38,27 +111,47 @@ export function initDatabase(rootDir, dbFileName = DEFAULT_DB_NAME) {
   const dbPath = path.join(dataDir, dbFileName);
   const db = new Database(dbPath);
   db.pragma("journal_mode = WAL");
+  return { db, dbPath };
+}
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS votes (
-      id TEXT PRIMARY KEY,
-      created_at TEXT DEFAULT (datetime('now')),
-      pair_id TEXT NOT NULL,
-      left_variant_id TEXT NOT NULL,
-      right_variant_id TEXT NOT NULL,
-      winner_variant_id TEXT,
-      selection TEXT NOT NULL,
-      scores_json TEXT,
-      notes TEXT,
-      automation_metadata_json TEXT
-    );
-  `);
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS votes_pair_id_idx ON votes(pair_id);
-  `);
+/**
+ * SQL condition for the votes behind leaderboard calculations: a source
+ * filter, optionally one rater's votes, never excluded sessions.
+ *
+ * @param {{ source?: string | null, raterId?: string | null }} options
+ * @returns {{ clause: string, params: Record<string, string> }}
+ */
+function voteFilter(options) {
+  const clauses = [NOT_EXCLUDED_CLAUSE];
+  const params = {};
+  const source = sourceFilter(options.source);
+  clauses.push(source.clause);
+  Object.assign(params, source.params);
+  if (options.raterId) {
+    clauses.push("user_id = @raterId");
+    params.raterId = options.raterId;
+  }
+  return { clause: clauses.join(" AND "), params };
+}
 
-  return { db, dbPath };
+/**
+ * SQL condition for a source filter: an exact source, "human" for every
+ * human source, "judge" for every judge, or nothing for all votes.
+ *
+ * @param {string | null | undefined} source
+ * @returns {{ clause: string, params: Record<string, string> }}
+ */
+function sourceFilter(source) {
+  if (!source || source === "all") {
+    return { clause: "1 = 1", params: {} };
+  }
+  if (source === "human") {
+    return { clause: "source LIKE 'human-%'", params: {} };
+  }
+  if (source === "judge") {
+    return { clause: "source LIKE 'judge:%'", params: {} };
+  }
+  return { clause: "source = @source", params: { source } };
 }
 
 /**
@@ -78,7 +171,10 @@ export function recordVote(ctx, vote) {
       selection,
       scores_json,
       notes,
-      automation_metadata_json
+      automation_metadata_json,
+      source,
+      voter_id,
+      user_id
     ) VALUES (
       @id,
       @pairId,
@@ -88,7 +184,10 @@ export function recordVote(ctx, vote) {
       @selection,
       @scoresJson,
       @notes,
-      @automationMetadataJson
+      @automationMetadataJson,
+      @source,
+      @voterId,
+      @userId
     )
   `);
 
@@ -102,9 +201,12 @@ export function recordVote(ctx, vote) {
     scoresJson: vote.scores ? JSON.stringify(vote.scores) : null,
     notes: vote.notes ?? null,
     automationMetadataJson: vote.automationMetadata ? JSON.stringify(vote.automationMetadata) : null,
+    source: vote.source ?? DEFAULT_VOTE_SOURCE,
+    voterId: vote.voterId ?? null,
+    userId: vote.userId ?? null,
   });
 
-  return { ...vote, id };
+  return { ...vote, id, source: vote.source ?? DEFAULT_VOTE_SOURCE };
 }
 
 /**
@@ -123,7 +225,8 @@ export function listRecentVotes(ctx, limit = 50) {
       selection,
       scores_json AS scoresJson,
       notes,
-      automation_metadata_json AS automationMetadataJson
+      automation_metadata_json AS automationMetadataJson,
+      source
     FROM votes
     ORDER BY created_at DESC
     LIMIT @limit
@@ -139,40 +242,145 @@ export function listRecentVotes(ctx, limit = 50) {
     scores: row.scoresJson ? JSON.parse(row.scoresJson) : undefined,
     notes: row.notes ?? undefined,
     automationMetadata: row.automationMetadataJson ? JSON.parse(row.automationMetadataJson) : undefined,
+    source: row.source,
   }));
 }
 
-export function listLeaderboard(ctx, limit = 10) {
+/**
+ * Every recorded outcome, oldest first, for rating computations.
+ *
+ * @param {SqliteContext} ctx
+ * @param {{ source?: string | null }} [options]
+ * @returns {Array<Pick<VoteRecord, "leftVariantId" | "rightVariantId" | "winnerVariantId" | "selection" | "source">>}
+ */
+export function listVoteOutcomes(ctx, options = {}) {
+  const filter = voteFilter(options);
   const query = ctx.db.prepare(`
     SELECT
-      winner_variant_id AS variantId,
-      COUNT(*) AS wins
+      left_variant_id AS leftVariantId,
+      right_variant_id AS rightVariantId,
+      winner_variant_id AS winnerVariantId,
+      selection,
+      source,
+      user_id AS userId
     FROM votes
-    WHERE winner_variant_id IS NOT NULL AND winner_variant_id != ''
-    GROUP BY winner_variant_id
-    ORDER BY wins DESC
-    LIMIT @limit
+    WHERE selection IN ('left', 'right', 'tie', 'both_bad')
+      AND ${filter.clause}
+    ORDER BY created_at ASC
   `);
 
-  return query.all({ limit }).map((row) => ({
-    variantId: row.variantId,
-    wins: Number(row.wins),
+  return query.all(filter.params).map((row) => ({
+    leftVariantId: row.leftVariantId,
+    rightVariantId: row.rightVariantId,
+    winnerVariantId: row.winnerVariantId,
+    selection: row.selection,
+    source: row.source,
+    userId: row.userId ?? null,
   }));
 }
 
-export function getVoteStats(ctx) {
+/**
+ * Variant pairs a judge has already voted on with a given prompt version.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} judgeModel
+ * @param {string} promptVersion
+ * @returns {Array<Pick<VoteRecord, "leftVariantId" | "rightVariantId">>}
+ */
+export function listJudgedPairs(ctx, judgeModel, promptVersion) {
+  const query = ctx.db.prepare(`
+    SELECT
+      left_variant_id AS leftVariantId,
+      right_variant_id AS rightVariantId
+    FROM votes
+    WHERE source = @source
+      AND json_extract(automation_metadata_json, '$.promptVersion') = @promptVersion
+  `);
+
+  return query.all({ source: `judge:${judgeModel}`, promptVersion });
+}
+
+/**
+ * Votes that carry rubric scores, for per-model dimension averages.
+ *
+ * @param {SqliteContext} ctx
+ * @param {{ source?: string | null }} [options]
+ * @returns {Array<Pick<VoteRecord, "leftVariantId" | "rightVariantId" | "scores" | "source">>}
+ */
+export function listVoteScores(ctx, options = {}) {
+  const filter = voteFilter(options);
+  const query = ctx.db.prepare(`
+    SELECT
+      left_variant_id AS leftVariantId,
+      right_variant_id AS rightVariantId,
+      scores_json AS scoresJson,
+      source
+    FROM votes
+    WHERE scores_json IS NOT NULL
+      AND ${filter.clause}
+    ORDER BY created_at ASC
+  `);
+
+  return query.all(filter.params).map((row) => ({
+    leftVariantId: row.leftVariantId,
+    rightVariantId: row.rightVariantId,
+    scores: JSON.parse(row.scoresJson),
+    source: row.source,
+  }));
+}
+
+/**
+ * Variant pairs a voter has already judged, in either order.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} voterId
+ * @returns {Array<Pick<VoteRecord, "leftVariantId" | "rightVariantId">>}
+ */
+export function listVoterPairs(ctx, voterId) {
+  return ctx.db.prepare(`
+    SELECT
+      left_variant_id AS leftVariantId,
+      right_variant_id AS rightVariantId
+    FROM votes
+    WHERE voter_id = @voterId
+  `).all({ voterId });
+}
+
+/**
+ * Vote counts per source, most votes first.
+ *
+ * @param {SqliteContext} ctx
+ * @returns {Array<{ source: string, votes: number }>}
+ */
+export function listVoteSources(ctx) {
+  return ctx.db.prepare(`
+    SELECT source, COUNT(*) AS votes
+    FROM votes
+    GROUP BY source
+    ORDER BY votes DESC, source ASC
+  `).all().map((row) => ({ source: row.source, votes: Number(row.votes) }));
+}
+
+/**
+ * @param {SqliteContext} ctx
+ * @param {{ source?: string | null }} [options]
+ */
+export function getVoteStats(ctx, options = {}) {
+  const filter = voteFilter(options);
   const totals = ctx.db.prepare(`
     SELECT
       COUNT(*) AS totalVotes,
       MAX(created_at) AS lastUpdated
     FROM votes
-  `).get();
+    WHERE ${filter.clause}
+  `).get(filter.params);
 
   const distinct = ctx.db.prepare(`
     SELECT COUNT(DISTINCT winner_variant_id) AS totalModels
     FROM votes
     WHERE winner_variant_id IS NOT NULL AND winner_variant_id != ''
-  `).get();
+      AND ${filter.clause}
+  `).get(filter.params);
 
   return {
     totalVotes: Number(totals?.totalVotes ?? 0),
@@ -181,6 +389,22 @@ export function getVoteStats(ctx) {
   };
 }
 
+/**
+ * A token that changes whenever the set of counted votes does: the latest
+ * vote id plus the excluded sessions, since excluding or re-including a
+ * session changes the outcomes without adding a vote.
+ * @param {SqliteContext} ctx
+ * @returns {string}
+ */
+export function getVoteRevision(ctx) {
+  const row = ctx.db.prepare(`
+    SELECT
+      (SELECT id FROM votes ORDER BY rowid DESC LIMIT 1) AS latestVoteId,
+      (SELECT COUNT(*) || ':' || IFNULL(MAX(excluded_at), '') FROM sessions WHERE excluded_at IS NOT NULL) AS exclusions
+  `).get();
+  return `${row?.latestVoteId ?? ""}|${row?.exclusions ?? ""}`;
+}
+
 export function listBattleHistory(ctx, limit = 50) {
   const query = ctx.db.prepare(`
     SELECT
@@ -190,7 +414,8 @@ export function listBattleHistory(ctx, limit = 50) {
       right_variant_id AS rightVariantId,
       winner_variant_id AS winnerVariantId,
       selection,
-      notes
+      notes,
+      source
     FROM votes
     WHERE selection IN ('left', 'right', 'tie', 'both_bad')
       AND (notes IS NULL OR notes != 'demo-leaderboard')
@@ -206,9 +431,640 @@ export function listBattleHistory(ctx, limit = 50) {
     winnerVariantId: row.winnerVariantId,
     selection: row.selection,
     notes: row.notes ?? null,
+    source: row.source,
   }));
 }
 
+/**
+ * @param {SqliteContext} ctx
+ * @param {PairIssuance} pair
+ */
+export function recordPairIssuance(ctx, pair) {
+  ctx.db.prepare(`
+    INSERT INTO pairs (
+      id,
+      left_variant_id,
+      right_variant_id,
+      left_token,
+      right_token,
+      strategy,
+      voter_id,
+      issued_at,
+      expires_at
+    ) VALUES (
+      @id,
+      @leftVariantId,
+      @rightVariantId,
+      @leftToken,
+      @rightToken,
+      @strategy,
+      @voterId,
+      @issuedAt,
+      @expiresAt
+    )
+  `).run({
+    ...pair,
+    strategy: pair.strategy ?? null,
+    voterId: pair.voterId ?? null,
+  });
+}
+
+/**
+ * A pair that has neither expired nor been voted on.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} pairId
+ * @param {Date} [now]
+ * @returns {PairIssuance | null}
+ */
+export function getOpenPair(ctx, pairId, now = new Date()) {
+  const row = ctx.db.prepare(`
+    SELECT
+      id,
+      left_variant_id AS leftVariantId,
+      right_variant_id AS rightVariantId,
+      left_token AS leftToken,
+      right_token AS rightToken,
+      strategy,
+      voter_id AS voterId,
+      issued_at AS issuedAt,
+      expires_at AS expiresAt
+    FROM pairs
+    WHERE id = @pairId
+      AND vote_id IS NULL
+      AND expires_at > @now
+  `).get({ pairId, now: now.toISOString() });
+  return row ?? null;
+}
+
+/**
+ * The variant behind one side's token of an issued pair, so blind previews
+ * never expose variant ids. Voted and expired pairs still resolve, letting a
+ * reviewer switch views after the reveal.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} pairId
+ * @param {string} token
+ * @returns {string | null}
+ */
+export function getPairVariantByToken(ctx, pairId, token) {
+  const row = ctx.db.prepare(`
+    SELECT
+      CASE @token
+        WHEN left_token THEN left_variant_id
+        WHEN right_token THEN right_variant_id
+      END AS variantId
+    FROM pairs
+    WHERE id = @pairId
+  `).get({ pairId, token });
+  return row?.variantId ?? null;
+}
+
+/**
+ * Record the vote fulfilling an issued pair. The pair is claimed in the same
+ * transaction, so a pair that expired or was already voted on yields
+ * null and no vote.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} pairId
+ * @param {Omit<VoteRecord, "pairId">} vote
+ * @param {Date} [now]
+ * @returns {VoteRecord | null}
+ */
+export function recordPairVote(ctx, pairId, vote, now = new Date()) {
+  const params = { pairId, voteId: vote.id ?? crypto.randomUUID(), now: now.toISOString() };
+  return ctx.db.transaction(() => {
+    const open = ctx.db.prepare(`
+      SELECT 1 FROM pairs
+      WHERE id = @pairId
+        AND vote_id IS NULL
+        AND expires_at > @now
+    `).get(params);
+    if (!open) {
+      return null;
+    }
+    // pairs.vote_id references votes(id), so the vote row has to exist first.
+    // better-sqlite3 transactions are synchronous, so the check above still holds.
+    const recorded = recordVote(ctx, { ...vote, id: params.voteId, pairId });
+    ctx.db.prepare(`
+      UPDATE pairs
+      SET vote_id = @voteId, voted_at = @now
+      WHERE id = @pairId
+    `).run(params);
+    return recorded;
+  })();
+}
+
+/**
+ * Delete pairs that expired unvoted more than `retentionMs` ago. Voted pairs
+ * are kept alongside their votes.
+ *
+ * @param {SqliteContext} ctx
+ * @param {number} retentionMs
+ * @param {Date} [now]
+ * @returns {number} Rows deleted.
+ */
+export function purgeExpiredPairs(ctx, retentionMs, now = new Date()) {
+  const cutoff = new Date(now.getTime() - retentionMs).toISOString();
+  return ctx.db.prepare(`
+    DELETE FROM pairs
+    WHERE vote_id IS NULL
+      AND expires_at <= @cutoff
+  `).run({ cutoff }).changes;
+}
+
+/**
+ * Issuance counts over the pairs still on record.
+ *
+ * @param {SqliteContext} ctx
+ * @param {Date} [now]
+ * @returns {{ issued: number, voted: number, open: number, expired: number }}
+ */
+export function getPairStats(ctx, now = new Date()) {
+  return ctx.db.prepare(`
+    SELECT
+      COUNT(*) AS issued,
+      COALESCE(SUM(CASE WHEN vote_id IS NOT NULL THEN 1 ELSE 0 END), 0) AS voted,
+      COALESCE(SUM(CASE WHEN vote_id IS NULL AND expires_at > @now THEN 1 ELSE 0 END), 0) AS open,
+      COALESCE(SUM(CASE WHEN vote_id IS NULL AND expires_at <= @now THEN 1 ELSE 0 END), 0) AS expired
+    FROM pairs
+  `).get({ now: now.toISOString() });
+}
+
+/**
+ * Create the session on first sight, otherwise refresh when and from where
+ * it was last seen.
+ *
+ * @param {SqliteContext} ctx
+ * @param {{ id: string, ip?: string | null, userAgent?: string | null }} session
+ * @returns {VoterSession}
+ */
+export function touchSession(ctx, session) {
+  return ctx.db.prepare(`
+    INSERT INTO sessions (id, ip, user_agent)
+    VALUES (@id, @ip, @userAgent)
+    ON CONFLICT(id) DO UPDATE SET
+      last_seen_at = datetime('now'),
+      ip = excluded.ip,
+      user_agent = excluded.user_agent
+    RETURNING
+      id,
+      created_at AS createdAt,
+      last_seen_at AS lastSeenAt,
+      ip,
+      user_agent AS userAgent,
+      excluded_at AS excludedAt,
+      excluded_reason AS excludedReason,
+      user_id AS userId
+  `).get({
+    id: session.id,
+    ip: session.ip ?? null,
+    userAgent: session.userAgent?.slice(0, 500) ?? null,
+  });
+}
+
+/**
+ * @param {SqliteContext} ctx
+ * @returns {VoterSession[]}
+ */
+export function listSessions(ctx) {
+  return ctx.db.prepare(`
+    SELECT
+      id,
+      created_at AS createdAt,
+      last_seen_at AS lastSeenAt,
+      ip,
+      user_agent AS userAgent,
+      excluded_at AS excludedAt,
+      excluded_reason AS excludedReason,
+      user_id AS userId
+    FROM sessions
+    ORDER BY created_at ASC
+  `).all();
+}
+
+/**
+ * Human votes cast within a session, oldest first, for spotting abuse.
+ *
+ * @param {SqliteContext} ctx
+ * @returns {Array<{ voterId: string, createdAt: string, selection: string }>}
+ */
+export function listSessionVotes(ctx) {
+  return ctx.db.prepare(`
+    SELECT voter_id AS voterId, created_at AS createdAt, selection
+    FROM votes
+    WHERE voter_id IS NOT NULL
+    ORDER BY created_at ASC
+  `).all();
+}
+
+/**
+ * Exclude a session's votes from leaderboard calculations, or pass a null
+ * reason to include them again.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} sessionId
+ * @param {string | null} reason
+ * @returns {boolean} Whether the session exists.
+ */
+export function setSessionExcluded(ctx, sessionId, reason) {
+  return ctx.db.prepare(`
+    UPDATE sessions
+    SET
+      excluded_at = CASE WHEN @excluded THEN datetime('now') ELSE NULL END,
+      excluded_reason = @reason
+    WHERE id = @sessionId
+  `).run({ sessionId, excluded: reason === null ? 0 : 1, reason }).changes > 0;
+}
+
+/**
+ * Remember that a demo run served this variant to a session, which makes it
+ * votable from that session.
+ *
+ * @param {SqliteContext} ctx
+ * @param {{ variantId: string, sessionId: string, runId: string }} issuance
+ */
+export function recordDemoVariant(ctx, issuance) {
+  ctx.db.prepare(`
+    INSERT OR IGNORE INTO demo_variants (variant_id, session_id, run_id)
+    VALUES (@variantId, @sessionId, @runId)
+  `).run(issuance);
+}
+
+/**
+ * Run ids of the given variants as served to a session; variants never
+ * served to it are missing from the map.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} sessionId
+ * @param {string[]} variantIds
+ * @returns {Map<string, string>}
+ */
+export function getDemoVariantRuns(ctx, sessionId, variantIds) {
+  const query = ctx.db.prepare(`
+    SELECT run_id AS runId
+    FROM demo_variants
+    WHERE session_id = @sessionId AND variant_id = @variantId
+  `);
+  const runs = new Map();
+  for (const variantId of variantIds) {
+    const row = query.get({ sessionId, variantId });
+    if (row) runs.set(variantId, row.runId);
+  }
+  return runs;
+}
+
+/**
+ * @param {SqliteContext} ctx
+ * @param {{ username: string, passwordHash: string }} user
+ * @returns {UserAccount}
+ */
+export function createUser(ctx, user) {
+  return ctx.db.prepare(`
+    INSERT INTO users (id, username, password_hash)
+    VALUES (@id, @username, @passwordHash)
+    RETURNING id, username, password_hash AS passwordHash, created_at AS createdAt
+  `).get({ id: crypto.randomUUID(), ...user });
+}
+
+/**
+ * @param {SqliteContext} ctx
+ * @param {string} userId
+ * @param {string} passwordHash
+ * @returns {boolean} Whether the user exists.
+ */
+export function setUserPassword(ctx, userId, passwordHash) {
+  return ctx.db.prepare(`
+    UPDATE users SET password_hash = @passwordHash WHERE id = @userId
+  `).run({ userId, passwordHash }).changes > 0;
+}
+
+/**
+ * Usernames are matched case-insensitively.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} username
+ * @returns {UserAccount | null}
+ */
+export function getUserByUsername(ctx, username) {
+  return ctx.db.prepare(`
+    SELECT id, username, password_hash AS passwordHash, created_at AS createdAt
+    FROM users
+    WHERE username = @username
+  `).get({ username }) ?? null;
+}
+
+/**
+ * @param {SqliteContext} ctx
+ * @param {string} userId
+ * @returns {UserAccount | null}
+ */
+export function getUserById(ctx, userId) {
+  return ctx.db.prepare(`
+    SELECT id, username, password_hash AS passwordHash, created_at AS createdAt
+    FROM users
+    WHERE id = @userId
+  `).get({ userId }) ?? null;
+}
+
+/**
+ * Raters and how many votes each has cast, most active first.
+ *
+ * @param {SqliteContext} ctx
+ * @returns {Array<{ id: string, username: string, createdAt: string, votes: number }>}
+ */
+export function listRaters(ctx) {
+  return ctx.db.prepare(`
+    SELECT users.id, users.username, users.created_at AS createdAt, COUNT(votes.id) AS votes
+    FROM users
+    LEFT JOIN votes ON votes.user_id = users.id
+    GROUP BY users.id
+    ORDER BY votes DESC, users.username ASC
+  `).all().map((row) => ({ ...row, votes: Number(row.votes) }));
+}
+
+/**
+ * Sign a rater in to a session, or out with a null user id.
+ *
+ * @param {SqliteContext} ctx
+ * @param {string} sessionId
+ * @param {string | null} userId
+ */
+export function setSessionUser(ctx, sessionId, userId) {
+  ctx.db.prepare(`
+    UPDATE sessions SET user_id = @userId WHERE id = @sessionId
+  `).run({ sessionId, userId });
+}
+
+/**
+ * Sign a rater in on a fresh session, carrying over the open arena pairs and
+ * demo outputs issued to the session they signed in from so those can still
+ * be voted on. Demo outputs the old session already voted on stay behind, so
+ * signing in cannot be used to vote on the same pair twice.
+ *
+ * @param {SqliteContext} ctx
+ * @param {{ previousSessionId: string, sessionId: string, userId: string }} signIn
+ */
+export function signInSession(ctx, signIn) {
+  ctx.db.transaction(() => {
+    ctx.db.prepare(`
+      UPDATE pairs SET voter_id = @sessionId
+      WHERE voter_id = @previousSessionId AND vote_id IS NULL
+    `).run(signIn);
+    ctx.db.prepare(`
+      UPDATE OR IGNORE demo_variants SET session_id = @sessionId
+      WHERE session_id = @previousSessionId
+        AND NOT EXISTS (
+          SELECT 1 FROM votes
+          WHERE votes.voter_id = @previousSessionId
+            AND demo_variants.variant_id IN (votes.left_variant_id, votes.right_variant_id)
+        )
+    `).run(signIn);
+    setSessionUser(ctx, signIn.sessionId, signIn.userId);
+  })();
+}
+
+/**
+ * SQLite-backed store for `indexVariants` in run-loader.ts.
+ *
+ * @param {SqliteContext} ctx
+ * @returns {import("./run-loader.js").VariantIndexStore}
+ */
+export function createVariantIndexStore(ctx) {
+  const getRun = ctx.db.prepare(`
+    SELECT folder, meta_json AS metaJson, meta_mtime_ms AS metaMtimeMs
+    FROM runs
+    WHERE folder = @folder
+  `);
+  const saveRun = ctx.db.prepare(`
+    INSERT INTO runs (folder, run_id, timestamp, description, meta_json, meta_mtime_ms)
+    VALUES (@folder, @runId, @timestamp, @description, @metaJson, @metaMtimeMs)
+    ON CONFLICT(folder) DO UPDATE SET
+      run_id = excluded.run_id,
+      timestamp = excluded.timestamp,
+      description = excluded.description,
+      meta_json = excluded.meta_json,
+      meta_mtime_ms = excluded.meta_mtime_ms,
+      indexed_at = datetime('now'),
+      removed_at = NULL
+  `);
+  const listRunVariants = ctx.db.prepare(`
+    SELECT
+      variants.variant_key AS variantKey,
+      variants.run_folder AS runFolder,
+      variants.dir_name AS dirName,
+      variants.metadata_json AS metadataJson,
+      variants.metadata_mtime_ms AS metadataMtimeMs,
+      variants.response_path AS responsePath,
+      variants.response_mtime_ms AS responseMtimeMs,
+      variants.content_hash AS contentHash,
+      variants.source_text AS sourceText,
+      variants.primary_html AS primaryHtml,
+      variants.primary_raw AS primaryRaw,
+      variants.analysis_json AS analysisJson,
+      variants.analysis_mtime_ms AS analysisMtimeMs,
+      variants.extraction_version AS extractionVersion,
+      runs.run_id AS runId,
+      runs.timestamp AS runTimestamp,
+      runs.meta_json AS runMetaJson
+    FROM variants
+    JOIN runs ON runs.folder = variants.run_folder
+    WHERE variants.run_folder = @folder
+  `);
+  // REPLACE also drops the old row when a variant folder's key changes.
+  const saveVariant = ctx.db.prepare(`
+    INSERT OR REPLACE INTO variants (
+      variant_key,
+      run_folder,
+      dir_name,
+      provider,
+      model,
+      label,
+      metadata_json,
+      metadata_mtime_ms,
+      response_path,
+      response_mtime_ms,
+      content_hash,
+      source_text,
+      primary_html,
+      primary_raw,
+      analysis_json,
+      analysis_mtime_ms,
+      extraction_version
+    ) VALUES (
+      @variantKey,
+      @runFolder,
+      @dirName,
+      @provider,
+      @model,
+      @label,
+      @metadataJson,
+      @metadataMtimeMs,
+      @responsePath,
+      @responseMtimeMs,
+      @contentHash,
+      @sourceText,
+      @primaryHtml,
+      @primaryRaw,
+      @analysisJson,
+      @analysisMtimeMs,
+      @extractionVersion
+    )
+  `);
+  const markRunsRemoved = ctx.db.prepare(`
+    UPDATE runs SET removed_at = datetime('now')
+    WHERE removed_at IS NULL
+      AND folder NOT IN (SELECT value FROM json_each(@live))
+  `);
+  const markVariantsRemoved = ctx.db.prepare(`
+    UPDATE variants SET removed_at = datetime('now')
+    WHERE removed_at IS NULL
+      AND variant_key NOT IN (SELECT value FROM json_each(@live))
+  `);
+  // Variants reused unchanged from the index are not saved again, so a folder
+  // that comes back is un-flagged here.
+  const restoreVariants = ctx.db.prepare(`
+    UPDATE variants SET removed_at = NULL
+    WHERE removed_at IS NOT NULL
+      AND variant_key IN (SELECT value FROM json_each(@live))
+  `);
+
+  return {
+    getRun(folder) {
+      const row = getRun.get({ folder });
+      return row ? { folder: row.folder, runMeta: JSON.parse(row.metaJson), metaMtimeMs: row.metaMtimeMs } : null;
+    },
+    saveRun(run) {
+      saveRun.run({
+        folder: run.folder,
+        runId: run.runMeta.runId ?? run.folder,
+        timestamp: run.runMeta.timestamp ?? null,
+        description: run.runMeta.description ?? null,
+        metaJson: JSON.stringify(run.runMeta),
+        metaMtimeMs: run.metaMtimeMs,
+      });
+    },
+    listRunVariants(folder) {
+      return listRunVariants.all({ folder }).map((row) => ({
+        runFolder: row.runFolder,
+        dirName: row.dirName,
+        contentHash: row.contentHash,
+        metadataMtimeMs: row.metadataMtimeMs,
+        responseMtimeMs: row.responseMtimeMs,
+        analysisMtimeMs: row.analysisMtimeMs ?? null,
+        extractionVersion: row.extractionVersion,
+        variant: {
+          variantKey: row.variantKey,
+          runId: row.runId,
+          runTimestamp: row.runTimestamp,
+          runMeta: JSON.parse(row.runMetaJson),
+          metadata: JSON.parse(row.metadataJson),
+          responseTextPath: row.responsePath,
+          primaryHtml: row.primaryHtml,
+          primaryRaw: row.primaryRaw,
+          sourceText: row.sourceText,
+          analysis: JSON.parse(row.analysisJson),
+        },
+      }));
+    },
+    saveVariant(entry) {
+      const { variant } = entry;
+      saveVariant.run({
+        variantKey: variant.variantKey,
+        runFolder: entry.runFolder,
+        dirName: entry.dirName,
+        provider: variant.metadata.provider ?? null,
+        model: variant.metadata.model ?? null,
+        label: variant.metadata.label ?? variant.metadata.model ?? null,
+        metadataJson: JSON.stringify(variant.metadata),
+        metadataMtimeMs: entry.metadataMtimeMs,
+        responsePath: variant.responseTextPath,
+        responseMtimeMs: entry.responseMtimeMs,
+        contentHash: entry.contentHash,
+        sourceText: variant.sourceText,
+        primaryHtml: variant.primaryHtml,
+        primaryRaw: variant.primaryRaw,
+        analysisJson: JSON.stringify(variant.analysis),
+        analysisMtimeMs: entry.analysisMtimeMs,
+        extractionVersion: entry.extractionVersion,
+      });
+    },
+    markRemoved(liveRunFolders, liveVariantKeys) {
+      return ctx.db.transaction(() => {
+        markRunsRemoved.run({ live: JSON.stringify(liveRunFolders) });
+        restoreVariants.run({ live: JSON.stringify(liveVariantKeys) });
+        return markVariantsRemoved.run({ live: JSON.stringify(liveVariantKeys) }).changes;
+      })();
+    },
+  };
+}
+
+/**
+ * Display metadata for every variant ever indexed, including those whose
+ * run folder has since been removed.
+ *
+ * @param {SqliteContext} ctx
+ * @returns {Array<{ variantKey: string, provider: string | null, model: string | null, label: string | null, description: string | null, runTimestamp: string | null, removedAt: string | null }>}
+ */
+export function listIndexedVariants(ctx) {
+  return ctx.db.prepare(`
+    SELECT
+      variants.variant_key AS variantKey,
+      variants.provider,
+      variants.model,
+      variants.label,
+      runs.description,
+      runs.timestamp AS runTimestamp,
+      variants.removed_at AS removedAt
+    FROM variants
+    LEFT JOIN runs ON runs.folder = variants.run_folder
+  `).all();
+}
+
+/**
+ * Rewrite stored variant ids (old id → new id) in votes, issued pairs, demo
+ * issuances and the variant index, all in one transaction.
+ *
+ * @param {SqliteContext} ctx
+ * @param {Map<string, string>} renames
+ * @returns {{ votes: number, pairs: number, demoVariants: number, indexed: number }}
+ */
+export function renameVariantIds(ctx, renames) {
+  const votes = ctx.db.prepare(`
+    UPDATE votes SET
+      left_variant_id = CASE WHEN left_variant_id = @from THEN @to ELSE left_variant_id END,
+      right_variant_id = CASE WHEN right_variant_id = @from THEN @to ELSE right_variant_id END,
+      winner_variant_id = CASE WHEN winner_variant_id = @from THEN @to ELSE winner_variant_id END
+    WHERE @from IN (left_variant_id, right_variant_id, winner_variant_id)
+  `);
+  const pairs = ctx.db.prepare(`
+    UPDATE pairs SET
+      left_variant_id = CASE WHEN left_variant_id = @from THEN @to ELSE left_variant_id END,
+      right_variant_id = CASE WHEN right_variant_id = @from THEN @to ELSE right_variant_id END
+    WHERE @from IN (left_variant_id, right_variant_id)
+  `);
+  // Rows whose new id already exists are left behind by OR IGNORE and dropped.
+  const demoVariants = ctx.db.prepare("UPDATE OR IGNORE demo_variants SET variant_id = @to WHERE variant_id = @from");
+  const staleDemoVariants = ctx.db.prepare("DELETE FROM demo_variants WHERE variant_id = @from");
+  const indexed = ctx.db.prepare("UPDATE OR IGNORE variants SET variant_key = @to WHERE variant_key = @from");
+  const staleIndexed = ctx.db.prepare("DELETE FROM variants WHERE variant_key = @from");
+
+  return ctx.db.transaction(() => {
+    const counts = { votes: 0, pairs: 0, demoVariants: 0, indexed: 0 };
+    for (const [from, to] of renames) {
+      if (from === to) continue;
+      const params = { from, to };
+      counts.votes += votes.run(params).changes;
+      counts.pairs += pairs.run(params).changes;
+      counts.demoVariants += demoVariants.run(params).changes;
+      staleDemoVariants.run(params);
+      counts.indexed += indexed.run(params).changes;
+      staleIndexed.run(params);
+    }
+    return counts;
+  })();
+}
+
 /**
  * @param {SqliteContext} ctx
  */
@@ -6,15 +6,64 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath, pathToFileURL } from "node:url";
 import { buildViewer } from "./build.mjs";
-import { initDatabase, recordVote, listRecentVotes, listLeaderboard, getVoteStats, listBattleHistory } from "./lib/sqlite.mjs";
+import {
+  initDatabase,
+  recordVote,
+  listRecentVotes,
+  listVoteOutcomes,
+  listVoteSources,
+  listVoteScores,
+  listVoterPairs,
+  getVoteStats,
+  getVoteRevision,
+  recordPairIssuance,
+  getOpenPair,
+  getPairVariantByToken,
+  recordPairVote,
+  purgeExpiredPairs,
+  getPairStats,
+  listBattleHistory,
+  createVariantIndexStore,
+  listIndexedVariants,
+  touchSession,
+  recordDemoVariant,
+  getDemoVariantRuns,
+  getUserById,
+  getUserByUsername,
+  listRaters,
+  setSessionUser,
+  signInSession,
+} from "./lib/sqlite.mjs";
+import { computeRatings } from "./lib/ratings.mjs";
+import { computeAgreement } from "./lib/agreement.mjs";
+import { verifyPassword } from "./lib/accounts.mjs";
+import { computeRaterStats } from "./lib/raters.mjs";
+import { DEFAULT_PAIR_STRATEGY, PAIR_STRATEGIES, pairKey, selectPair } from "./lib/pairing.mjs";
+import {
+  SESSION_COOKIE_NAME,
+  createRateLimiter,
+  createSessionId,
+  loadSessionSecret,
+  parseCookies,
+  serializeSessionCookie,
+  signSessionId,
+  verifySessionCookie,
+} from "./lib/sessions.mjs";
+import { RUBRIC_DIMENSIONS, aggregateRubricScores, normalizeRubricScores } from "../lib/rubric.mjs";
+import { PREVIEW_RUNTIME_PATH, buildPreviewPolicy, preparePreviewDocument } from "./lib/preview.mjs";
 import {
   loadConfig,
   renderPrompt,
   buildRunId,
   callModel,
+  createScheduler,
+  persistFailure,
   persistResult,
   sanitizeLabel,
+  withMockProviders,
 } from "../lib/benchmark.mjs";
+import { computeVariantId, parseVariantId } from "../lib/variant-id.mjs";
+import { resolveRenderOptions } from "../lib/renderer.mjs";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.join(__dirname, "..", "..");
@@ -22,7 +71,20 @@ const DIST_DIR = path.join(ROOT, "dist", "viewer");
 const LIB_DIST = path.join(DIST_DIR, "lib");
 
 const PAIR_LIFETIME_MS = 1000 * 60 * 30; // 30 minutes
+const PAIR_AUDIT_RETENTION_MS = 1000 * 60 * 60 * 24 * 7; // unvoted pairs are kept a week
 const DEMO_MODEL_COUNT = 2;
+const MOCK_CHUNK_DELAY_MS = 15;
+const MAX_VOTE_NOTES_LENGTH = 2000;
+const LEADERBOARD_CACHE_LIMIT = 32; // source/rater filters kept at once
+
+// Per-session and per-IP budgets; override with `arena.rateLimits` in benchmark.config.json.
+const DEFAULT_RATE_LIMITS = {
+  vote: { windowMs: 60_000, perSession: 20, perIp: 60 },
+  // Each vote is followed by a prefetch, and issuing a pair runs the pair strategy.
+  pair: { windowMs: 60_000, perSession: 60, perIp: 180 },
+  demoRun: { windowMs: 3_600_000, perSession: 10, perIp: 30 },
+  login: { windowMs: 900_000, perSession: 10, perIp: 30 },
+};
 
 /**
  * @typedef {import('./lib/run-loader.js').BenchmarkVariant} BenchmarkVariant
@@ -31,21 +93,54 @@ const DEMO_MODEL_COUNT = 2;
 const state = {
   variants: /** @type {BenchmarkVariant[]} */ ([]),
   variantIndex: new Map(),
-  pairs: new Map(),
+  indexedVariants: new Map(),
+  // Demo responses served at /preview until the next refresh indexes them.
+  demoPreviews: new Map(),
   dbCtx: null,
+  scheduler: null,
+  pairStrategy: DEFAULT_PAIR_STRATEGY,
+  sessionSecret: null,
+  rateLimiters: null,
+  preview: { origin: null, port: null, tailwindPath: null, runtime: null },
+  componentMapPath: null,
+  // Leaderboard ratings per source/rater filter; see leaderboardRatings().
+  leaderboardCache: new Map(),
+  // Ratings behind the active pair strategy; see activePairingStats().
+  activePairing: null,
 };
 
-async function ensureBundles() {
-  const required = [
-    path.join(DIST_DIR, "app.js"),
-    path.join(DIST_DIR, "index.html"),
-    path.join(LIB_DIST, "run-loader.js"),
-  ];
-
-  const missing = required.some((file) => !existsSync(file));
-  if (missing) {
-    console.log("[viewer] building assets…");
-    await buildViewer();
+let bundlesReady = null;
+
+/**
+ * Build the server-side lib on first use and the client whenever its sources
+ * are newer than the bundle, so a checkout never runs against stale output.
+ */
+function ensureBundles() {
+  bundlesReady ??= (async () => {
+    const clientStale = await isClientBundleStale();
+    console.log(`[viewer] building ${clientStale ? "assets" : "variant loader"}…`);
+    await buildViewer({ skipClient: !clientStale });
+  })();
+  return bundlesReady;
+}
+
+async function isClientBundleStale() {
+  const bundleMtime = await mtimeOf(path.join(DIST_DIR, "app.js"));
+  if (bundleMtime === null || !existsSync(path.join(DIST_DIR, "index.html"))) return true;
+  const sources = await fs.readdir(path.join(__dirname, "app"), { recursive: true, withFileTypes: true });
+  for (const entry of sources) {
+    if (!entry.isFile()) continue;
+    const sourceMtime = await mtimeOf(path.join(entry.parentPath ?? entry.path, entry.name));
+    if (sourceMtime !== null && sourceMtime > bundleMtime) return true;
+  }
+  return false;
+}
+
+async function mtimeOf(file) {
+  try {
+    return (await fs.stat(file)).mtimeMs;
+  } catch {
+    return null;
   }
 }
 
@@ -55,50 +150,97 @@ async function loadVariantModule() {
   return import(pathToFileURL(modulePath).href);
 }
 
+/**
+ * Read `arena.componentMap` on every refresh, so map edits apply without a
+ * restart; indexVariants re-extracts JSX variants when the map changes.
+ */
+async function loadComponentMap() {
+  if (!state.componentMapPath) return undefined;
+  try {
+    return JSON.parse(await fs.readFile(state.componentMapPath, "utf8"));
+  } catch (error) {
+    console.warn(`[viewer] could not read component map ${state.componentMapPath}: ${error.message}`);
+    return undefined;
+  }
+}
+
 async function refreshVariants(options = {}) {
   const { runsDir } = options;
-  const { loadVariants } = await loadVariantModule();
-  state.variants = await loadVariants({ runsDir });
-  state.variantIndex = new Map();
-  for (const variant of state.variants) {
-    state.variantIndex.set(variant.variantKey, variant);
-
-    const parsed = parseVariantKey(variant.variantKey);
-    if (!parsed) continue;
-    const normalizedLabel = sanitizeLabel(
-      variant.metadata.label ??
-      variant.metadata.model ??
-      parsed.label,
-    );
-    if (normalizedLabel === parsed.label) {
-      continue;
-    }
-    const legacyKey = computeVariantKey(
-      parsed.runFolderName,
-      variant.metadata.provider,
-      variant.metadata.model,
-      normalizedLabel,
-    );
-    if (!state.variantIndex.has(legacyKey)) {
-      state.variantIndex.set(legacyKey, variant);
-    }
+  const { indexVariants } = await loadVariantModule();
+  const componentMap = await loadComponentMap();
+  const { variants, stats } = await indexVariants(createVariantIndexStore(state.dbCtx), { runsDir, componentMap });
+  state.variants = variants;
+  state.indexedVariants = new Map(listIndexedVariants(state.dbCtx).map((entry) => [entry.variantKey, entry]));
+  state.variantIndex = new Map(state.variants.map((variant) => [variant.variantKey, variant]));
+  state.leaderboardCache.clear();
+  state.activePairing = null;
+  for (const variantKey of state.demoPreviews.keys()) {
+    if (state.variantIndex.has(variantKey)) state.demoPreviews.delete(variantKey);
   }
-  console.log(`[viewer] loaded ${state.variants.length} variants`);
+  console.log(
+    `[viewer] loaded ${stats.variants} variants from ${stats.runs} runs (${stats.reindexed} reindexed, ${stats.removed} removed)`,
+  );
 }
 
-function pickRandomPair() {
-  if (state.variants.length < 2) {
-    return null;
+/**
+ * Pick the next arena pair with one of the strategies in lib/pairing.mjs.
+ * Model and brief keys follow the leaderboard's grouping so active sampling
+ * targets the matchups the ratings are least sure about.
+ */
+function pickPair(strategy, voterId, skipPairs = []) {
+  const candidates = state.variants.map((variant) => ({
+    variantKey: variant.variantKey,
+    modelKey: leaderboardGroupKey(describeLeaderboardVariant(variant.variantKey)),
+    briefKey: (variant.runMeta.description || "").trim().toLowerCase() || variant.runId,
+    variant,
+  }));
+
+  const seenPairs = new Set(
+    voterId
+      ? listVoterPairs(state.dbCtx, voterId)
+        .map(({ leftVariantId, rightVariantId }) => pairKey(leftVariantId, rightVariantId))
+      : [],
+  );
+  for (const [leftVariantId, rightVariantId] of skipPairs) {
+    seenPairs.add(pairKey(leftVariantId, rightVariantId));
+  }
+
+  const { ratings, matchupCounts } = strategy === "active"
+    ? activePairingStats()
+    : { ratings: new Map(), matchupCounts: new Map() };
+
+  const picked = selectPair(candidates, strategy, { seenPairs, ratings, matchupCounts });
+  return picked ? [picked[0].variant, picked[1].variant] : null;
+}
+
+/**
+ * Model ratings and matchup counts for the `active` strategy, refitted only
+ * when the vote set changes or the variants are re-indexed rather than on
+ * every pair request.
+ */
+function activePairingStats() {
+  const revision = getVoteRevision(state.dbCtx);
+  if (state.activePairing?.revision === revision) {
+    return state.activePairing;
   }
 
-  const firstIndex = Math.floor(Math.random() * state.variants.length);
-  let secondIndex = Math.floor(Math.random() * state.variants.length);
-  while (secondIndex === firstIndex) {
-    secondIndex = Math.floor(Math.random() * state.variants.length);
+  const ratings = new Map();
+  const matchupCounts = new Map();
+  const matchups = listVoteOutcomes(state.dbCtx).map((vote) => ({
+    left: leaderboardGroupKey(describeLeaderboardVariant(vote.leftVariantId)),
+    right: leaderboardGroupKey(describeLeaderboardVariant(vote.rightVariantId)),
+    selection: vote.selection,
+  }));
+  for (const matchup of matchups) {
+    const key = pairKey(matchup.left, matchup.right);
+    matchupCounts.set(key, (matchupCounts.get(key) ?? 0) + 1);
+  }
+  for (const [key, entry] of computeRatings(matchups, { bootstrapRounds: 0 })) {
+    ratings.set(key, entry.rating);
   }
 
-  const variants = [state.variants[firstIndex], state.variants[secondIndex]];
-  return variants;
+  state.activePairing = { revision, ratings, matchupCounts };
+  return state.activePairing;
 }
 
 function pickRandomSubset(items, count) {
@@ -113,34 +255,140 @@ function pickRandomSubset(items, count) {
   return shuffled.slice(0, Math.min(count, shuffled.length));
 }
 
-function computeVariantKey(runFolderName, provider, model, label) {
-  const composite = `${runFolderName}:${provider}:${model}:${label}`;
-  const hash = crypto.createHash("sha1").update(composite).digest("hex").slice(0, 12);
-  return `${runFolderName}/${label}-${hash}`;
+function leaderboardGroupKey(entry) {
+  return `${entry.provider ?? "unknown"}::${entry.model ?? entry.label ?? entry.variantId}`;
 }
 
 /**
- * Parse a variant key to extract run folder and label
- * Format: {runFolderName}/{label}-{hash}
+ * Bootstrapped ratings for one source/rater filter, with the model entries
+ * its votes resolved to. The bootstrap dominates a leaderboard request, so
+ * results are reused until a vote lands or the variants are re-indexed.
  */
-function parseVariantKey(variantKey) {
-  const match = variantKey.match(/^([^/]+)\/(.+)-([a-f0-9]{12})$/);
-  if (match) {
-    return {
-      runFolderName: match[1],
-      label: match[2],
-      hash: match[3],
-    };
+function leaderboardRatings(source, raterId) {
+  const cacheKey = `${source}\u0000${raterId ?? ""}`;
+  const revision = getVoteRevision(state.dbCtx);
+  const cached = state.leaderboardCache.get(cacheKey);
+  if (cached?.revision === revision) {
+    return cached;
+  }
+
+  const groupedEntries = new Map();
+  const groupKeyByVariant = new Map();
+
+  const resolveGroupKey = (variantId) => {
+    if (groupKeyByVariant.has(variantId)) {
+      return groupKeyByVariant.get(variantId);
+    }
+    const entry = describeLeaderboardVariant(variantId);
+    const key = leaderboardGroupKey(entry);
+    if (groupedEntries.has(key)) {
+      const existing = groupedEntries.get(key);
+      if (!existing.description && entry.description) {
+        existing.description = entry.description;
+      }
+      if (!existing.runTimestamp && entry.runTimestamp) {
+        existing.runTimestamp = entry.runTimestamp;
+      }
+    } else {
+      groupedEntries.set(key, { ...entry });
+    }
+    groupKeyByVariant.set(variantId, key);
+    return key;
+  };
+
+  // Ratings are fitted per model, so votes between two runs of the same
+  // model carry no information and are dropped by computeRatings.
+  const ratings = computeRatings(
+    listVoteOutcomes(state.dbCtx, { source, raterId }).map((vote) => ({
+      left: resolveGroupKey(vote.leftVariantId),
+      right: resolveGroupKey(vote.rightVariantId),
+      selection: vote.selection,
+    })),
+  );
+
+  const result = { revision, groupedEntries, ratings };
+  state.leaderboardCache.delete(cacheKey);
+  if (state.leaderboardCache.size >= LEADERBOARD_CACHE_LIMIT) {
+    state.leaderboardCache.delete(state.leaderboardCache.keys().next().value);
+  }
+  state.leaderboardCache.set(cacheKey, result);
+  return result;
+}
+
+/**
+ * The caller's anonymous voter session. A missing or tampered cookie starts
+ * a new session and sets its cookie on the reply.
+ */
+function resolveSession(request, reply) {
+  const cookies = parseCookies(request.headers.cookie);
+  const sessionId = verifySessionCookie(cookies[SESSION_COOKIE_NAME], state.sessionSecret);
+  return sessionId ? touchRequestSession(sessionId, request) : startSession(request, reply);
+}
+
+function startSession(request, reply) {
+  const sessionId = createSessionId();
+  reply.header(
+    "set-cookie",
+    serializeSessionCookie(signSessionId(sessionId, state.sessionSecret), { secure: request.protocol === "https" }),
+  );
+  return touchRequestSession(sessionId, request);
+}
+
+function touchRequestSession(sessionId, request) {
+  return touchSession(state.dbCtx, {
+    id: sessionId,
+    ip: request.ip,
+    userAgent: request.headers["user-agent"],
+  });
+}
+
+/**
+ * The `?rater=<username>` filter as a user id. Returns undefined when no
+ * filter was given and null when the rater does not exist.
+ */
+function resolveRaterFilter(request) {
+  const username = request.query?.rater;
+  if (!username) return undefined;
+  return getUserByUsername(state.dbCtx, username)?.id ?? null;
+}
+
+function buildRateLimiters(limits) {
+  return Object.fromEntries(
+    Object.entries(DEFAULT_RATE_LIMITS).map(([action, defaults]) => {
+      const { windowMs, perSession, perIp } = { ...defaults, ...limits?.[action] };
+      return [action, {
+        session: createRateLimiter({ limit: perSession, windowMs }),
+        ip: createRateLimiter({ limit: perIp, windowMs }),
+      }];
+    }),
+  );
+}
+
+/**
+ * Count one `action` against the session and IP budgets. Returns an error
+ * payload, with the reply set to 429, once either is spent.
+ */
+function enforceRateLimit(action, session, request, reply) {
+  const limiters = state.rateLimiters[action];
+  for (const result of [limiters.session.hit(session.id), limiters.ip.hit(request.ip)]) {
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      reply.status(429);
+      reply.header("retry-after", String(retryAfterSeconds));
+      return { error: `Too many requests. Try again in ${retryAfterSeconds}s.` };
+    }
   }
   return null;
 }
 
-function formatVariantForClient(token, variant) {
+function formatVariantForClient(token, variant, previewUrl) {
   return {
     token,
+    previewUrl,
     html: variant.primaryHtml,
     source: variant.sourceText,
     heroRaw: variant.primaryRaw,
+    analysis: variant.analysis,
     context: {
       description: variant.runMeta.description ||
                    `${variant.runMeta.productName || ""} - ${variant.runMeta.valueProp || ""}`,
@@ -165,28 +413,157 @@ function buildRevealPayload(variant) {
   };
 }
 
-function registerPair(pairId, pair) {
-  state.pairs.set(pairId, {
-    ...pair,
-    createdAt: Date.now(),
-  });
+/**
+ * Resolve display metadata for a voted variant. Variants whose run folder was
+ * deleted still resolve through the SQLite index; only keys that were never
+ * indexed fall back to inferring provider and model from the key.
+ */
+function describeLeaderboardVariant(variantId) {
+  const variant = state.variantIndex.get(variantId);
+  if (variant) {
+    return {
+      variantId,
+      label: variant.metadata.label ?? variant.metadata.model ?? "Unknown",
+      provider: variant.metadata.provider ?? null,
+      model: variant.metadata.model ?? null,
+      description: variant.runMeta.description ?? null,
+      runTimestamp: variant.runTimestamp ?? null,
+    };
+  }
+
+  const indexed = state.indexedVariants.get(variantId);
+  if (indexed) {
+    return {
+      variantId,
+      label: indexed.label ?? indexed.model ?? "Unknown",
+      provider: indexed.provider,
+      model: indexed.model,
+      description: indexed.description,
+      runTimestamp: indexed.runTimestamp,
+    };
+  }
+
+  const parsed = parseVariantId(variantId);
+  if (parsed) {
+    let inferredProvider = null;
+    let inferredModel = parsed.label;
+    let displayLabel = parsed.label;
+    if (parsed.label.toLowerCase().includes("claude")) {
+      inferredProvider = "Anthropic";
+      displayLabel = parsed.label.replace(/-(\d+)-(\d+)$/, ".$1.$2");
+      inferredModel = parsed.label.replace(/-(\d+)-(\d+)$/, "-$1-$2");
+    } else if (parsed.label.toLowerCase().includes("gpt")) {
+      inferredProvider = "OpenAI";
+      displayLabel = parsed.label.replace(/-/g, " ").replace(/\b(\w)/g, (_, c) => c.toUpperCase());
+    }
+
+    return {
+      variantId,
+      label: displayLabel,
+      provider: inferredProvider,
+      model: inferredModel,
+      description: null,
+      runTimestamp: parsed.runId.match(/^\d{4}-\d{2}-\d{2}/)
+        ? parsed.runId.replace(/T(\d{2})-(\d{2})-(\d{2})/, "T$1:$2:$3").replace(/Z-/, "Z")
+        : null,
+    };
+  }
+
+  return {
+    variantId,
+    label: variantId,
+    provider: null,
+    model: null,
+    description: null,
+    runTimestamp: null,
+  };
 }
 
-function purgeExpiredPairs() {
-  const now = Date.now();
-  for (const [pairId, info] of state.pairs.entries()) {
-    if (now - info.createdAt > PAIR_LIFETIME_MS) {
-      state.pairs.delete(pairId);
+const EMPTY_PERFORMANCE = {
+  usageSamples: 0,
+  avgCostUsd: null,
+  avgLatencyMs: null,
+  avgTimeToFirstTokenMs: null,
+  avgOutputTokens: null,
+  truncationRate: null,
+};
+
+/**
+ * Average the usage, timing and cost recorded in each variant's
+ * metadata.json, grouped by leaderboard key.
+ */
+function summarizePerformance(items) {
+  const totals = new Map();
+  const add = (bucket, field, value) => {
+    if (!Number.isFinite(value)) return;
+    bucket[field].sum += value;
+    bucket[field].count += 1;
+  };
+
+  for (const { key, metadata } of items) {
+    if (!metadata.usage && !metadata.timing) continue;
+    if (!totals.has(key)) {
+      totals.set(key, {
+        samples: 0,
+        truncated: 0,
+        cost: { sum: 0, count: 0 },
+        latency: { sum: 0, count: 0 },
+        ttft: { sum: 0, count: 0 },
+        outputTokens: { sum: 0, count: 0 },
+      });
     }
+    const bucket = totals.get(key);
+    bucket.samples += 1;
+    if (metadata.usage?.truncated) bucket.truncated += 1;
+    add(bucket, "cost", metadata.cost?.totalUsd);
+    add(bucket, "latency", metadata.timing?.latencyMs);
+    add(bucket, "ttft", metadata.timing?.timeToFirstTokenMs);
+    add(bucket, "outputTokens", metadata.usage?.outputTokens);
+  }
+
+  const average = ({ sum, count }) => (count > 0 ? sum / count : null);
+  const summaries = new Map();
+  for (const [key, bucket] of totals) {
+    summaries.set(key, {
+      usageSamples: bucket.samples,
+      avgCostUsd: average(bucket.cost),
+      avgLatencyMs: average(bucket.latency),
+      avgTimeToFirstTokenMs: average(bucket.ttft),
+      avgOutputTokens: average(bucket.outputTokens),
+      truncationRate: bucket.truncated / bucket.samples,
+    });
   }
+  return summaries;
+}
+
+/**
+ * Reveal a voted variant. Pairs survive restarts, so the variant may have
+ * been removed since; fall back to what the key and votes tell us.
+ */
+function revealVariant(variantKey) {
+  const variant = state.variantIndex.get(variantKey);
+  if (variant) {
+    return buildRevealPayload(variant);
+  }
+  const entry = describeLeaderboardVariant(variantKey);
+  return {
+    variantKey,
+    runId: parseVariantId(variantKey)?.runId ?? null,
+    runTimestamp: entry.runTimestamp,
+    provider: entry.provider,
+    model: entry.model,
+    label: entry.label,
+    temperature: null,
+    maxOutputTokens: null,
+  };
 }
 
 function resolvePairSelection(pair, selection) {
   switch (selection) {
     case "left":
-      return pair.left.variant.variantKey;
+      return pair.leftVariantId;
     case "right":
-      return pair.right.variant.variantKey;
+      return pair.rightVariantId;
     case "tie":
     case "both_bad":
       return null;
@@ -195,20 +572,127 @@ function resolvePairSelection(pair, selection) {
   }
 }
 
+/**
+ * Where the client loads a preview: the configured preview origin, the
+ * separate preview port on the host the viewer was reached through, or a
+ * path on the viewer itself.
+ */
+function buildPreviewUrl(request, pathname) {
+  if (state.preview.origin) {
+    return `${state.preview.origin}${pathname}`;
+  }
+  if (state.preview.port) {
+    return `${request.protocol}://${request.hostname}:${state.preview.port}${pathname}`;
+  }
+  return pathname;
+}
+
+function encodeVariantKey(variantKey) {
+  return variantKey.split("/").map(encodeURIComponent).join("/");
+}
+
+async function loadPreviewRuntime() {
+  if (state.preview.runtime === null) {
+    try {
+      state.preview.runtime = await fs.readFile(state.preview.tailwindPath, "utf8");
+    } catch {
+      console.warn(
+        `[viewer] Tailwind runtime not found at ${state.preview.tailwindPath}; previews render unstyled. Run 'node src/render-variants.mjs --download-tailwind' once while online.`,
+      );
+      state.preview.runtime = false;
+    }
+  }
+  return state.preview.runtime || null;
+}
+
+function sendPreview(request, reply, variantKey) {
+  const sourceText = variantKey
+    ? state.variantIndex.get(variantKey)?.sourceText ?? state.demoPreviews.get(variantKey)
+    : undefined;
+  if (sourceText === undefined) {
+    reply.status(404).type("text/plain; charset=utf-8");
+    return "Preview not found.";
+  }
+
+  const origin = state.preview.origin ?? `${request.protocol}://${request.host}`;
+  const runtimeUrl = `${origin}${PREVIEW_RUNTIME_PATH}`;
+  reply
+    .header("content-security-policy", buildPreviewPolicy(runtimeUrl))
+    .header("referrer-policy", "no-referrer")
+    .header("x-content-type-options", "nosniff")
+    .header("cache-control", "no-cache")
+    .type("text/html; charset=utf-8");
+  return preparePreviewDocument(sourceText, { runtimeUrl });
+}
+
+/**
+ * Generated pages are served from /preview with a CSP that keeps their
+ * scripts off the network, instead of being handed to the client for srcdoc.
+ * Arena previews resolve through pair tokens so the URL stays blind.
+ */
+function registerPreviewRoutes(app) {
+  app.get(PREVIEW_RUNTIME_PATH, async (request, reply) => {
+    const runtime = await loadPreviewRuntime();
+    if (!runtime) {
+      reply.status(404).type("text/plain; charset=utf-8");
+      return "Tailwind runtime not downloaded.";
+    }
+    reply
+      .header("cache-control", "public, max-age=86400")
+      .header("x-content-type-options", "nosniff")
+      .type("application/javascript; charset=utf-8");
+    return runtime;
+  });
+
+  app.get("/preview/pair/:pairId/:token", async (request, reply) => {
+    const { pairId, token } = request.params;
+    return sendPreview(request, reply, getPairVariantByToken(state.dbCtx, pairId, token));
+  });
+
+  app.get("/preview/*", async (request, reply) => sendPreview(request, reply, request.params["*"]));
+}
+
 export async function createServer(options = {}) {
   const {
     port = Number(process.env.PORT) || 4173,
     host = process.env.HOST || "0.0.0.0",
     runsDir,
+    mockProviders = process.env.VIEWER_MOCK_PROVIDERS === "true",
+    // Serve previews from a second listener (or behind a proxied origin) so
+    // generated pages never share the viewer's origin.
+    previewPort = Number(process.env.VIEWER_PREVIEW_PORT) || null,
+    previewOrigin = process.env.VIEWER_PREVIEW_ORIGIN || null,
   } = options;
 
+  let config = {};
+  try {
+    config = await loadConfig(path.join(ROOT, "benchmark.config.json"));
+  } catch {
+    // The arena runs on defaults without a config file.
+  }
+  const arenaConfig = config.arena ?? {};
+  state.pairStrategy = options.pairStrategy ?? arenaConfig.pairStrategy ?? DEFAULT_PAIR_STRATEGY;
+  state.rateLimiters = buildRateLimiters(options.rateLimits ?? arenaConfig.rateLimits);
+  if (!PAIR_STRATEGIES.includes(state.pairStrategy)) {
+    throw new Error(`Unknown pair strategy '${state.pairStrategy}'. Use one of: ${PAIR_STRATEGIES.join(", ")}.`);
+  }
+
   if (!state.dbCtx) {
     state.dbCtx = initDatabase(ROOT);
   }
+  state.sessionSecret ??= loadSessionSecret(ROOT);
+  state.preview = {
+    origin: previewOrigin ? previewOrigin.replace(/\/+$/, "") : null,
+    port: previewPort,
+    tailwindPath: resolveRenderOptions(config).tailwindPath,
+    runtime: null,
+  };
+  state.componentMapPath = arenaConfig.componentMap ? path.resolve(ROOT, arenaConfig.componentMap) : null;
 
   await refreshVariants({ runsDir });
 
-  const app = fastify({ logger: true });
+  // Behind a reverse proxy, set VIEWER_TRUST_PROXY=true so rate limits see client IPs.
+  const app = fastify({ logger: true, trustProxy: process.env.VIEWER_TRUST_PROXY === "true" });
 
   await app.register(fastifyStatic, {
     root: DIST_DIR,
@@ -216,6 +700,17 @@ export async function createServer(options = {}) {
     index: ["index.html"],
   });
 
+  let previewApp = null;
+  if (previewPort) {
+    previewApp = fastify({ logger: true, trustProxy: process.env.VIEWER_TRUST_PROXY === "true" });
+    registerPreviewRoutes(previewApp);
+    app.addHook("onClose", async () => {
+      await previewApp.close();
+    });
+  } else {
+    registerPreviewRoutes(app);
+  }
+
   app.get("/api/health", async () => ({
     ok: true,
     variants: state.variants.length,
@@ -234,14 +729,36 @@ export async function createServer(options = {}) {
     }
   });
 
-  app.get("/api/pair", async () => {
-    purgeExpiredPairs();
-    const picked = pickRandomPair();
+  app.get("/api/pair", async (request, reply) => {
+    purgeExpiredPairs(state.dbCtx, PAIR_AUDIT_RETENTION_MS);
+    const strategy = request.query?.strategy || state.pairStrategy;
+    if (!PAIR_STRATEGIES.includes(strategy)) {
+      reply.status(400);
+      return { error: `Unknown strategy '${strategy}'. Use one of: ${PAIR_STRATEGIES.join(", ")}.` };
+    }
+    const session = resolveSession(request, reply);
+    const limited = enforceRateLimit("pair", session, request, reply);
+    if (limited) {
+      return limited;
+    }
+    const voterId = session.id;
+
+    // A client prefetching its next pair passes the one still being judged
+    // as `after`, so the same two variants are not issued twice in a row.
+    const current = request.query?.after ? getOpenPair(state.dbCtx, request.query.after) : null;
+    const skipPairs = current && current.voterId === voterId
+      ? [[current.leftVariantId, current.rightVariantId]]
+      : [];
+
+    const picked = pickPair(strategy, voterId, skipPairs);
     if (!picked) {
       return {
         pairId: null,
-        variants: 0,
-        message: "Not enough variants to compare yet.",
+        variants: state.variants.length,
+        strategy,
+        message: state.variants.length < 2
+          ? "Not enough variants to compare yet."
+          : `No unseen pairs left for the '${strategy}' strategy.`,
       };
     }
 
@@ -250,15 +767,26 @@ export async function createServer(options = {}) {
     const leftToken = crypto.randomUUID();
     const rightToken = crypto.randomUUID();
 
-    registerPair(pairId, {
-      left: { token: leftToken, variant: first },
-      right: { token: rightToken, variant: second },
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + PAIR_LIFETIME_MS).toISOString();
+    recordPairIssuance(state.dbCtx, {
+      id: pairId,
+      leftVariantId: first.variantKey,
+      rightVariantId: second.variantKey,
+      leftToken,
+      rightToken,
+      strategy,
+      voterId,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt,
     });
 
     return {
       pairId,
-      left: formatVariantForClient(leftToken, first),
-      right: formatVariantForClient(rightToken, second),
+      strategy,
+      expiresAt,
+      left: formatVariantForClient(leftToken, first, buildPreviewUrl(request, `/preview/pair/${pairId}/${leftToken}`)),
+      right: formatVariantForClient(rightToken, second, buildPreviewUrl(request, `/preview/pair/${pairId}/${rightToken}`)),
     };
   });
 
@@ -270,40 +798,67 @@ export async function createServer(options = {}) {
       return { error: "pairId and selection are required." };
     }
 
-    const pair = state.pairs.get(pairId);
+    const session = resolveSession(request, reply);
+    const limited = enforceRateLimit("vote", session, request, reply);
+    if (limited) {
+      return limited;
+    }
+
+    const pair = getOpenPair(state.dbCtx, pairId);
     if (!pair) {
       reply.status(404);
       return { error: "Pair not found or expired." };
     }
 
+    if (pair.voterId && pair.voterId !== session.id) {
+      reply.status(403);
+      return { error: "This pair was issued to another session." };
+    }
+
     if (!["left", "right", "tie", "both_bad"].includes(selection)) {
       reply.status(400);
       return { error: "Invalid selection option." };
     }
 
+    let rubricScores;
+    try {
+      rubricScores = normalizeRubricScores(scores);
+    } catch (error) {
+      reply.status(400);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== "string") {
+      reply.status(400);
+      return { error: "notes must be a string." };
+    }
+    const trimmedNotes = notes?.trim().slice(0, MAX_VOTE_NOTES_LENGTH) || null;
+
     const winnerVariantKey = resolvePairSelection(pair, selection);
 
-    recordVote(state.dbCtx, {
-      pairId,
-      leftVariantId: pair.left.variant.variantKey,
-      rightVariantId: pair.right.variant.variantKey,
+    const vote = recordPairVote(state.dbCtx, pairId, {
+      leftVariantId: pair.leftVariantId,
+      rightVariantId: pair.rightVariantId,
       winnerVariantId: winnerVariantKey,
       selection,
-      scores,
-      notes,
+      scores: rubricScores,
+      notes: trimmedNotes,
+      source: "human-arena",
+      voterId: session.id,
+      userId: session.userId,
     });
+    if (!vote) {
+      reply.status(404);
+      return { error: "Pair not found or expired." };
+    }
 
-    const responsePayload = {
+    return {
       ok: true,
       selection,
       winnerVariantId: winnerVariantKey,
-      left: buildRevealPayload(pair.left.variant),
-      right: buildRevealPayload(pair.right.variant),
+      left: revealVariant(pair.leftVariantId),
+      right: revealVariant(pair.rightVariantId),
     };
-
-    state.pairs.delete(pairId);
-
-    return responsePayload;
   });
 
   app.post("/api/reload", async () => {
@@ -315,11 +870,25 @@ export async function createServer(options = {}) {
     votes: listRecentVotes(state.dbCtx),
   }));
 
-  app.get("/api/leaderboard", async (request) => {
+  // Issued arena pairs by outcome; `expired` counts pairs shown but never voted on.
+  app.get("/api/pairs/stats", async () => ({
+    ...getPairStats(state.dbCtx),
+    lifetimeMs: PAIR_LIFETIME_MS,
+    retentionMs: PAIR_AUDIT_RETENTION_MS,
+  }));
+
+  app.get("/api/leaderboard", async (request, reply) => {
     const limitParam = Number(request.query?.limit);
     const limit = Number.isFinite(limitParam) && limitParam > 0 ? limitParam : 100;
-    const rows = listLeaderboard(state.dbCtx, limit);
-    const stats = getVoteStats(state.dbCtx);
+    // "all" (default), "human", "judge", or an exact source such as "judge:gpt-5".
+    const source = request.query?.source || "all";
+    const raterId = resolveRaterFilter(request);
+    if (raterId === null) {
+      reply.status(404);
+      return { error: `Unknown rater '${request.query.rater}'.` };
+    }
+    const { groupedEntries: ratedEntries, ratings } = leaderboardRatings(source, raterId);
+    const stats = getVoteStats(state.dbCtx, { source, raterId });
 
     // Load config to get all models
     const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
@@ -331,84 +900,12 @@ export async function createServer(options = {}) {
       console.error("Failed to load config for leaderboard:", error);
     }
 
-    const rawEntries = rows.map((row) => {
-      const variant = state.variantIndex.get(row.variantId);
-      if (variant) {
-        return {
-          variantId: row.variantId,
-          wins: row.wins,
-          label: variant.metadata.label ?? variant.metadata.model ?? "Unknown",
-          provider: variant.metadata.provider ?? null,
-          model: variant.metadata.model ?? null,
-          description: variant.runMeta.description ?? null,
-          runTimestamp: variant.runTimestamp ?? null,
-        };
-      }
-
-      const parsed = parseVariantKey(row.variantId);
-      if (parsed) {
-        let inferredProvider = null;
-        let inferredModel = parsed.label;
-        let displayLabel = parsed.label;
-        if (parsed.label.toLowerCase().includes("claude")) {
-          inferredProvider = "Anthropic";
-          displayLabel = parsed.label.replace(/-(\d+)-(\d+)$/, ".$1.$2");
-          inferredModel = parsed.label.replace(/-(\d+)-(\d+)$/, "-$1-$2");
-        } else if (parsed.label.toLowerCase().includes("gpt")) {
-          inferredProvider = "OpenAI";
-          displayLabel = parsed.label.replace(/-/g, " ").replace(/\b(\w)/g, (_, c) => c.toUpperCase());
-        }
-
-        return {
-          variantId: row.variantId,
-          wins: row.wins,
-          label: displayLabel,
-          provider: inferredProvider,
-          model: inferredModel,
-          description: null,
-          runTimestamp: parsed.runFolderName.match(/^\d{4}-\d{2}-\d{2}/)
-            ? parsed.runFolderName.replace(/T(\d{2})-(\d{2})-(\d{2})/, "T$1:$2:$3").replace(/Z-/, "Z")
-            : null,
-        };
-      }
-
-      return {
-        variantId: row.variantId,
-        wins: row.wins,
-        label: row.variantId,
-        provider: null,
-        model: null,
-        description: null,
-        runTimestamp: null,
-      };
-    });
-
-    const groupedEntries = new Map();
-    const makeGroupKey = (entry) =>
-      `${entry.provider ?? "unknown"}::${entry.model ?? entry.label ?? entry.variantId}`;
-
-    for (const entry of rawEntries) {
-      const key = makeGroupKey(entry);
-      if (groupedEntries.has(key)) {
-        const existing = groupedEntries.get(key);
-        existing.wins += entry.wins;
-        if (!existing.description && entry.description) {
-          existing.description = entry.description;
-        }
-        if (!existing.runTimestamp && entry.runTimestamp) {
-          existing.runTimestamp = entry.runTimestamp;
-        }
-      } else {
-        groupedEntries.set(key, { ...entry });
-      }
-    }
-
+    const groupedEntries = new Map(ratedEntries);
     configModels.forEach((configModel) => {
       const key = `${configModel.provider ?? "unknown"}::${configModel.model ?? configModel.label}`;
       if (!groupedEntries.has(key)) {
         groupedEntries.set(key, {
           variantId: `config-${configModel.model}`,
-          wins: 0,
           label: configModel.label ?? configModel.model,
           provider: configModel.provider ?? null,
           model: configModel.model ?? null,
@@ -418,64 +915,187 @@ export async function createServer(options = {}) {
       }
     });
 
-    const entries = Array.from(groupedEntries.values());
+    const performance = summarizePerformance(
+      state.variants.map((variant) => ({
+        key: leaderboardGroupKey(describeLeaderboardVariant(variant.variantKey)),
+        metadata: variant.metadata,
+      })),
+    );
+
+    const entries = Array.from(groupedEntries.entries()).map(([key, entry]) => {
+      const rating = ratings.get(key);
+      return {
+        ...entry,
+        ...(performance.get(key) ?? EMPTY_PERFORMANCE),
+        rating: rating?.rating ?? null,
+        ciLower: rating?.ciLower ?? null,
+        ciUpper: rating?.ciUpper ?? null,
+        games: rating?.games ?? 0,
+        wins: rating?.wins ?? 0,
+        losses: rating?.losses ?? 0,
+        ties: rating?.ties ?? 0,
+        winRate: rating?.winRate ?? null,
+      };
+    });
 
-    // Sort by wins (descending), then by label (ascending)
+    // Sort by rating (descending, unrated last), then by label (ascending)
     entries.sort((a, b) => {
-      if (b.wins !== a.wins) {
-        return b.wins - a.wins;
+      if (a.rating !== b.rating) {
+        if (a.rating === null) return 1;
+        if (b.rating === null) return -1;
+        return b.rating - a.rating;
       }
       return (a.label || '').localeCompare(b.label || '');
     });
 
     return {
-      entries,
+      entries: entries.slice(0, limit),
       stats,
+      source,
+      sources: listVoteSources(state.dbCtx),
+      rater: request.query?.rater ?? null,
+      raters: listRaters(state.dbCtx).map(({ username, votes }) => ({ username, votes })),
     };
   });
 
-  app.get("/api/battles", async (request) => {
-    const limitParam = Number(request.query?.limit);
-    const limit = Number.isFinite(limitParam) && limitParam > 0 ? limitParam : 50;
-    const battles = listBattleHistory(state.dbCtx, limit);
+  app.get("/api/rubric", async (request, reply) => {
+    const source = request.query?.source || "all";
+    const raterId = resolveRaterFilter(request);
+    if (raterId === null) {
+      reply.status(404);
+      return { error: `Unknown rater '${request.query.rater}'.` };
+    }
+    const votes = listVoteScores(state.dbCtx, { source, raterId });
+    const labels = new Map();
+    const aggregates = aggregateRubricScores(votes, (variantId) => {
+      const entry = describeLeaderboardVariant(variantId);
+      const key = leaderboardGroupKey(entry);
+      if (!labels.has(key)) labels.set(key, entry.label);
+      return key;
+    });
 
-    const enrichVariant = (variantId) => {
-      const variant = state.variantIndex.get(variantId);
-      if (variant) {
+    return {
+      source,
+      rater: request.query?.rater ?? null,
+      dimensions: RUBRIC_DIMENSIONS,
+      models: aggregates.map((aggregate) => {
+        const [provider, model] = aggregate.key.split("::");
         return {
-          variantId,
-          label: variant.metadata.label ?? variant.metadata.model ?? "Unknown",
-          provider: variant.metadata.provider ?? null,
-          model: variant.metadata.model ?? null,
+          ...aggregate,
+          provider: provider === "unknown" ? null : provider,
+          model,
+          label: labels.get(aggregate.key) ?? model,
         };
-      }
+      }),
+    };
+  });
 
-      const parsed = parseVariantKey(variantId);
-      if (parsed) {
-        let inferredProvider = null;
-        let displayLabel = parsed.label;
+  app.get("/api/agreement", async (request) => {
+    const votes = listVoteOutcomes(state.dbCtx);
+    const judgeSources = request.query?.judge
+      ? [request.query.judge]
+      : Array.from(new Set(votes.map((vote) => vote.source).filter((source) => source.startsWith("judge:"))));
 
-        if (parsed.label.toLowerCase().includes("claude")) {
-          inferredProvider = "Anthropic";
-          displayLabel = parsed.label.replace(/-(\d+)-(\d+)$/, ".$1.$2");
-        } else if (parsed.label.toLowerCase().includes("gpt")) {
-          inferredProvider = "OpenAI";
-        }
+    const modelKeys = new Map();
+    const resolveModelKey = (variantId) => {
+      if (!modelKeys.has(variantId)) {
+        modelKeys.set(variantId, leaderboardGroupKey(describeLeaderboardVariant(variantId)));
+      }
+      return modelKeys.get(variantId);
+    };
 
+    return {
+      judges: judgeSources.map((judgeSource) => {
+        const report = computeAgreement(votes, judgeSource, resolveModelKey);
         return {
-          variantId,
-          label: displayLabel,
-          provider: inferredProvider,
-          model: parsed.label,
+          ...report,
+          models: report.models.map((model) => {
+            const [provider, modelId] = model.key.split("::");
+            return {
+              ...model,
+              provider: provider === "unknown" ? null : provider,
+              model: modelId,
+            };
+          }),
         };
+      }),
+    };
+  });
+
+  app.get("/api/raters", async () => {
+    const votes = listVoteOutcomes(state.dbCtx, { source: "human" });
+    const modelKeys = new Map();
+    const stats = computeRaterStats(votes, (variantId) => {
+      if (!modelKeys.has(variantId)) {
+        modelKeys.set(variantId, leaderboardGroupKey(describeLeaderboardVariant(variantId)));
       }
+      return modelKeys.get(variantId);
+    });
 
-      return {
-        variantId,
-        label: variantId,
-        provider: null,
-        model: null,
-      };
+    return {
+      raters: listRaters(state.dbCtx).map((rater) => {
+        const rated = stats.get(rater.id);
+        return {
+          username: rater.username,
+          createdAt: rater.createdAt,
+          votes: rated?.votes ?? 0,
+          tieRate: rated?.tieRate ?? null,
+          bothBadRate: rated?.bothBadRate ?? null,
+          leftRate: rated?.leftRate ?? null,
+          consensusComparisons: rated?.consensusComparisons ?? 0,
+          consensusAgreement: rated?.consensusAgreement ?? null,
+        };
+      }),
+    };
+  });
+
+  app.get("/api/me", async (request, reply) => {
+    const session = resolveSession(request, reply);
+    const user = session.userId ? getUserById(state.dbCtx, session.userId) : null;
+    return { user: user ? { username: user.username } : null };
+  });
+
+  app.post("/api/login", async (request, reply) => {
+    const { username, password } = request.body ?? {};
+    if (typeof username !== "string" || typeof password !== "string") {
+      reply.status(400);
+      return { error: "username and password are required." };
+    }
+
+    const session = resolveSession(request, reply);
+    const limited = enforceRateLimit("login", session, request, reply);
+    if (limited) {
+      return limited;
+    }
+
+    const user = getUserByUsername(state.dbCtx, username.trim());
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      reply.status(401);
+      return { error: "Unknown username or wrong password." };
+    }
+
+    // A fresh session on sign-in, so a cookie planted before login cannot ride along.
+    reply.removeHeader("set-cookie");
+    const signedIn = startSession(request, reply);
+    signInSession(state.dbCtx, { previousSessionId: session.id, sessionId: signedIn.id, userId: user.id });
+    return { user: { username: user.username } };
+  });
+
+  app.post("/api/logout", async (request, reply) => {
+    const session = resolveSession(request, reply);
+    setSessionUser(state.dbCtx, session.id, null);
+    return { user: null };
+  });
+
+  app.get("/api/battles", async (request) => {
+    const limitParam = Number(request.query?.limit);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? limitParam : 50;
+    const battles = listBattleHistory(state.dbCtx, limit);
+
+    // The same model metadata the leaderboard shows for each variant.
+    const enrichVariant = (variantId) => {
+      const { label, provider, model } = describeLeaderboardVariant(variantId);
+      return { variantId, label, provider, model };
     };
 
     return {
@@ -487,6 +1107,7 @@ export async function createServer(options = {}) {
         winner: battle.winnerVariantId ? enrichVariant(battle.winnerVariantId) : null,
         selection: battle.selection,
         notes: battle.notes,
+        source: battle.source,
       })),
     };
   });
@@ -513,11 +1134,24 @@ export async function createServer(options = {}) {
       return { error: "leftVariantId and rightVariantId must differ" };
     }
 
-    if (!state.variantIndex.has(leftVariantId) || !state.variantIndex.has(rightVariantId)) {
-      console.warn("[demo/vote] variant metadata missing; proceeding with raw ids", {
-        leftVariantId,
-        rightVariantId,
-      });
+    const session = resolveSession(request, reply);
+    const limited = enforceRateLimit("vote", session, request, reply);
+    if (limited) {
+      return limited;
+    }
+
+    // Only outputs a demo run streamed to this session, from the same run, can be voted on.
+    const runs = getDemoVariantRuns(state.dbCtx, session.id, [leftVariantId, rightVariantId]);
+    if (runs.size < 2 || runs.get(leftVariantId) !== runs.get(rightVariantId)) {
+      reply.status(403);
+      return { error: "These variants were not issued to this session by the same demo run." };
+    }
+
+    const alreadyVoted = listVoterPairs(state.dbCtx, session.id)
+      .some((pair) => pairKey(pair.leftVariantId, pair.rightVariantId) === pairKey(leftVariantId, rightVariantId));
+    if (alreadyVoted) {
+      reply.status(409);
+      return { error: "This session already voted on these variants." };
     }
 
     const pseudoPairId = `demo-${crypto.randomUUID()}`;
@@ -527,7 +1161,9 @@ export async function createServer(options = {}) {
       rightVariantId,
       winnerVariantId,
       selection,
-      notes: "demo",
+      source: "human-demo",
+      voterId: session.id,
+      userId: session.userId,
     });
 
     return { ok: true };
@@ -540,10 +1176,18 @@ export async function createServer(options = {}) {
       return { error: "description is required" };
     }
 
+    const session = resolveSession(request, reply);
+    const limited = enforceRateLimit("demoRun", session, request, reply);
+    if (limited) {
+      return limited;
+    }
+
     const demoRequestId = crypto.randomUUID();
     console.log(`[demo][${demoRequestId}] request received`, { description });
 
     reply.raw.writeHead(200, {
+      // Keep the session cookie, which writing to the raw response would drop.
+      ...reply.getHeaders(),
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
       "Connection": "keep-alive",
@@ -555,7 +1199,10 @@ export async function createServer(options = {}) {
 
     try {
       const CONFIG_PATH = path.join(ROOT, "benchmark.config.json");
-      const config = await loadConfig(CONFIG_PATH);
+      const loadedConfig = await loadConfig(CONFIG_PATH);
+      const config = mockProviders
+        ? withMockProviders(loadedConfig, { chunkDelayMs: MOCK_CHUNK_DELAY_MS })
+        : loadedConfig;
       const promptTemplate = await fs.readFile(
         path.resolve(ROOT, config.promptPath),
         "utf8",
@@ -590,17 +1237,22 @@ export async function createServer(options = {}) {
 
       sendEvent("run-start", { runId, modelCount: selectedModels.length });
 
+      // Limits are shared by every demo request on this server.
+      if (!state.scheduler) {
+        state.scheduler = createScheduler(config);
+      }
+
       // Run selected models in parallel
       await Promise.all(
         selectedModels.map(async (modelConfig) => {
           const label = sanitizeLabel(modelConfig.label ?? modelConfig.model);
           const modelDir = path.join(baseOutputDir, label);
-          const variantKey = computeVariantKey(
-            path.basename(baseOutputDir),
-            modelConfig.provider,
-            modelConfig.model,
-            modelConfig.label ?? modelConfig.model ?? label,
-          );
+          const variantKey = computeVariantId({
+            runId,
+            provider: modelConfig.provider,
+            model: modelConfig.model,
+            label: modelConfig.label,
+          });
 
           sendEvent("model-start", {
             provider: modelConfig.provider,
@@ -615,7 +1267,7 @@ export async function createServer(options = {}) {
           try {
             let accumulatedText = "";
             let chunkCount = 0;
-            const result = await callModel(
+            const result = await state.scheduler.schedule(modelConfig, () => callModel(
               modelConfig,
               renderedPrompt,
               userMessage,
@@ -636,10 +1288,32 @@ export async function createServer(options = {}) {
                   chunk,
                   accumulated: accumulatedText.length,
                 });
-              }
-            );
+              },
+              {
+                onRetry: ({ attempt, delayMs, error }) => {
+                  accumulatedText = "";
+                  chunkCount = 0;
+                  sendEvent("model-retry", {
+                    provider: modelConfig.provider,
+                    model: modelConfig.model,
+                    label,
+                    variantKey,
+                    attempt,
+                    delayMs,
+                    error: error.error,
+                  });
+                  console.warn(
+                    `[demo][${demoRequestId}] model-retry ${label} attempt=${attempt} delayMs=${Math.round(delayMs)}`,
+                  );
+                },
+              },
+            ));
 
-            await persistResult(modelDir, result, modelConfig, description, "");
+            const { analysis } = await persistResult(modelDir, result, modelConfig, description, "", {
+              variantId: variantKey,
+            });
+            recordDemoVariant(state.dbCtx, { variantId: variantKey, sessionId: session.id, runId });
+            state.demoPreviews.set(variantKey, result.outputText ?? "");
 
             sendEvent("model-complete", {
               provider: modelConfig.provider,
@@ -647,14 +1321,15 @@ export async function createServer(options = {}) {
               label,
               variantKey,
               outputLength: result.outputText?.length || 0,
+              analysis,
+              previewUrl: buildPreviewUrl(request, `/preview/${encodeVariantKey(variantKey)}`),
             });
             console.log(
               `[demo][${demoRequestId}] model-complete ${label} outputLength=${result.outputText?.length || 0}`,
             );
           } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            await fs.mkdir(modelDir, { recursive: true });
-            await fs.writeFile(path.join(modelDir, "error.log"), message, "utf8");
+            await persistFailure(modelDir, error, modelConfig, description, "", { variantId: variantKey });
 
             sendEvent("model-error", {
               provider: modelConfig.provider,
@@ -692,8 +1367,14 @@ export async function createServer(options = {}) {
   });
 
   await app.listen({ port, host });
+  if (previewApp) {
+    await previewApp.listen({ port: previewPort, host });
+  }
 
   console.log(`[viewer] server listening on http://${host}:${port}`);
+  if (previewApp) {
+    console.log(`[viewer] previews served on http://${host}:${previewPort}`);
+  }
 
   return app;
 }
@@ -0,0 +1,117 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  closeDatabase,
+  initDatabase,
+  listSessionVotes,
+  listSessions,
+  setSessionExcluded,
+} from "./viewer/lib/sqlite.mjs";
+import { summarizeSessions } from "./viewer/lib/sessions.mjs";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const USAGE = `Usage:
+  node src/voter-sessions.mjs list [--flagged] [--limit=N]
+  node src/voter-sessions.mjs exclude --session=<id>[,<id>…] [--reason=<text>]
+  node src/voter-sessions.mjs exclude --flagged
+  node src/voter-sessions.mjs include --session=<id>[,<id>…]`;
+
+function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+
+  const dbCtx = initDatabase(ROOT);
+  try {
+    const sessions = summarizeSessions(listSessions(dbCtx), listSessionVotes(dbCtx));
+
+    switch (command) {
+      case "list": {
+        const shown = sessions
+          .filter((session) => args.flagged !== "true" || session.flags.length > 0)
+          .slice(0, args.limit ? Number(args.limit) : 50);
+        if (shown.length === 0) {
+          console.log("No sessions.");
+          return;
+        }
+        for (const session of shown) {
+          console.log(describe(session));
+        }
+        return;
+      }
+      case "exclude": {
+        if (args.flagged === "true") {
+          const flagged = sessions.filter((session) => session.flags.length > 0 && !session.excludedAt);
+          for (const session of flagged) {
+            setSessionExcluded(dbCtx, session.id, `flagged: ${session.flags.join(", ")}`);
+            console.log(`Excluded ${session.id} (${session.flags.join(", ")}, ${session.votes} votes)`);
+          }
+          console.log(`${flagged.length} sessions excluded.`);
+          return;
+        }
+        for (const sessionId of requireSessionIds(args)) {
+          report(sessionId, setSessionExcluded(dbCtx, sessionId, args.reason ?? "manual"), "Excluded");
+        }
+        return;
+      }
+      case "include": {
+        for (const sessionId of requireSessionIds(args)) {
+          report(sessionId, setSessionExcluded(dbCtx, sessionId, null), "Included");
+        }
+        return;
+      }
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase(dbCtx);
+  }
+}
+
+function describe(session) {
+  const gap = session.medianGapMs === null ? "–" : `${(session.medianGapMs / 1000).toFixed(1)}s`;
+  const status = session.excludedAt ? `excluded (${session.excludedReason})` : "counted";
+  const flags = session.flags.length > 0 ? ` ⚑ ${session.flags.join(", ")}` : "";
+  return [
+    `${session.id}  ${status}${flags}`,
+    `  votes ${session.votes}, median gap ${gap}, peak ${session.peakVotesPerHour}/h, left ${(session.leftShare * 100).toFixed(0)}%`,
+    `  ip ${session.ip ?? "?"}, first seen ${session.createdAt}`,
+  ].join("\n");
+}
+
+function requireSessionIds(args) {
+  const ids = (args.session ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (ids.length === 0) {
+    throw new Error(`Pass --session=<id>.\n\n${USAGE}`);
+  }
+  return ids;
+}
+
+function report(sessionId, found, verb) {
+  if (found) {
+    console.log(`${verb} ${sessionId}`);
+  } else {
+    console.warn(`No session ${sessionId}.`);
+    process.exitCode = 1;
+  }
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (const token of argv) {
+    if (!token.startsWith("--")) continue;
+    const [key, ...value] = token.slice(2).split("=");
+    if (!key) continue;
+    args[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return args;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}